@@ -54,6 +54,14 @@ const nextConfig = {
     ];
   },
 
+  // Reads its font metrics from its own folder at runtime, so it cannot be bundled
+  serverExternalPackages: ["pdfkit"],
+
+  // The metrics API reads the chart datasets from disk rather than over HTTP
+  outputFileTracingIncludes: {
+    "/api/metrics/**": ["./public/data/**/*"],
+  },
+
   // Keeps Turbopack happy
   turbopack: {},
 };
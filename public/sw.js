@@ -1,7 +1,180 @@
-self.addEventListener('install', () => {
-  console.log('Service Worker installed');
+///////////////
+/// offline ///
+///////////////
+
+// Bump to drop every cache of the previous version on activation
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `zechub-shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `zechub-static-${CACHE_VERSION}`;
+const DATA_CACHE = `zechub-data-${CACHE_VERSION}`;
+// Images of articles saved for offline reading, managed by the page through messages
+const MEDIA_CACHE = `zechub-media-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, STATIC_CACHE, DATA_CACHE, MEDIA_CACHE];
+
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+const OFFLINE_PAGE = '/offline';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const manifest = await fetch(PRECACHE_MANIFEST, { cache: 'no-store' }).then((res) => res.json());
+
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(manifest.shell);
+      await precacheStaticAssets(shell, manifest.shell);
+
+      // Chart datasets are several MB; readers on metered connections fetch them on demand
+      if (!(self.navigator.connection && self.navigator.connection.saveData)) {
+        const data = await caches.open(DATA_CACHE);
+        await Promise.allSettled(manifest.data.map((url) => data.add(url)));
+      }
+
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith('zechub-') && !CACHES.includes(name))
+          .map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+  } else if (sameOrigin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE));
+  } else if (sameOrigin && url.pathname.startsWith('/data/zcash/')) {
+    event.respondWith(staleWhileRevalidate(request, DATA_CACHE));
+  } else if (request.destination === 'image') {
+    event.respondWith(savedMediaOrNetwork(request));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+
+  if (message.type === 'cache-media') {
+    event.waitUntil(cacheMedia(message.urls || []));
+  } else if (message.type === 'uncache-media') {
+    event.waitUntil(
+      caches.open(MEDIA_CACHE).then((cache) => Promise.all((message.urls || []).map((url) => cache.delete(url)))),
+    );
+  } else if (message.type === 'refresh-data') {
+    event.waitUntil(refreshData());
+  }
 });
 
+/**
+ * Live page when online. Offline, a cached shell page, or the offline
+ * library, which shows the saved copy of the article if there is one.
+ */
+async function navigate(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const cached = await caches.match(request, { cacheName: SHELL_CACHE, ignoreSearch: true });
+    if (cached) return cached;
+
+    const { pathname } = new URL(request.url);
+    return Response.redirect(`${OFFLINE_PAGE}?article=${encodeURIComponent(pathname)}`, 302);
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+
+  const update = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+
+  return cached || update;
+}
+
+async function savedMediaOrNetwork(request) {
+  const cached = await caches.match(request, { cacheName: MEDIA_CACHE });
+  return cached || fetch(request);
+}
+
+async function cacheMedia(urls) {
+  const cache = await caches.open(MEDIA_CACHE);
+
+  await Promise.allSettled(
+    urls.map(async (url) => {
+      if (await cache.match(url)) return;
+      // Cross-origin images are stored opaque; they still render from the cache
+      const sameOrigin = new URL(url).origin === self.location.origin;
+      const response = await fetch(url, { mode: sameOrigin ? 'same-origin' : 'no-cors' });
+      if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    }),
+  );
+}
+
+/** Re-download the chart datasets already cached, e.g. once the reader is back online */
+async function refreshData() {
+  const cache = await caches.open(DATA_CACHE);
+  const requests = await cache.keys();
+
+  await Promise.allSettled(
+    requests.map(async (request) => {
+      const response = await fetch(request, { cache: 'no-cache' });
+      if (response.ok) await cache.put(request, response);
+    }),
+  );
+}
+
+/** The JS and CSS the shell pages load, which were requested before this worker controlled them */
+async function precacheStaticAssets(shell, urls) {
+  const assets = new Set();
+
+  for (const url of urls) {
+    const response = await shell.match(url);
+    const type = response ? response.headers.get('content-type') || '' : '';
+    if (!type.includes('text/html')) continue;
+
+    const html = await response.text();
+    for (const match of html.matchAll(/\/_next\/static\/[^"'\s)\\]+/g)) assets.add(match[0]);
+  }
+
+  const cache = await caches.open(STATIC_CACHE);
+  await Promise.allSettled([...assets].map((asset) => cache.add(asset)));
+}
+
+///////////////
+/// push ///
+///////////////
+
 self.addEventListener('push', (event) => {
   const data = event.data.json();
 
@@ -94,6 +94,18 @@
     }
   }
 
+  // Anonymous usage counters, see /api/payment-request-uri/widget-telemetry
+  function track(apiBase, event) {
+    try {
+      fetch(`${apiBase}/payment-request-uri/widget-telemetry`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: JSON.stringify({ event }),
+        keepalive: true,
+      }).catch(() => {});
+    } catch {}
+  }
+
   // ------------------------------
   //   MAIN RENDER FUNCTION
   // ------------------------------
@@ -222,6 +234,7 @@
       `;
 
       document.body.appendChild(overlay);
+      track(apiBase, "zcash_payment_widget_opened");
 
       overlay.onclick = (e) => e.target === overlay && close();
       overlay.querySelector(".zwg-x").onclick = close;
@@ -231,6 +244,12 @@
         b.onclick = async () => {
           try {
             await navigator.clipboard.writeText(b.dataset.c);
+            track(
+              apiBase,
+              b.dataset.c === address
+                ? "zcash_payment_widget_copy_address"
+                : "zcash_payment_widget_copy_uri",
+            );
             b.classList.add("ok");
             b.innerHTML = ic.ok;
             setTimeout(() => {
@@ -241,6 +260,9 @@
         };
       });
 
+      overlay.querySelector(".zwg-link").onclick = () =>
+        track(apiBase, "zcash_payment_widget_open_wallet");
+
       const shortBtn = overlay.querySelector(".zwg-short");
       shortBtn.onclick = async () => {
         shortBtn.disabled = true;
@@ -254,6 +276,7 @@
           });
 
           const { shortUrl } = await res.json();
+          track(apiBase, "zcash_payment_widget_short_url");
           shortBtn.innerHTML = `${ic.ok} Done`;
 
           const fld = document.createElement("div");
@@ -0,0 +1,15 @@
+-- Chunks of the wiki markdown embedded for the AI assistant (`yarn ai:ingest`).
+-- Ids are deterministic per page path and chunk position; `metadata` carries
+-- path, url, slug, heading, anchor and the content hash used to skip re-embedding.
+-- The vector size must equal EMBEDDING_DIMENSIONS (e.g. 768 for nomic-embed-text).
+create extension if not exists vector;
+
+create table if not exists docs_embeddings (
+  id uuid primary key,
+  content text not null,
+  metadata jsonb not null default '{}'::jsonb,
+  embedding vector(1536) not null
+);
+
+create index if not exists docs_embeddings_path_idx
+  on docs_embeddings ((metadata->>'path'));
@@ -0,0 +1,10 @@
+-- Storage for the payment widget short links (SHORT_URL_STORE=supabase).
+create table if not exists payment_short_urls (
+  id text primary key,
+  uri text not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz
+);
+
+create index if not exists payment_short_urls_expires_at_idx
+  on payment_short_urls (expires_at);
@@ -0,0 +1,22 @@
+-- Aggregated payment widget telemetry (WIDGET_TELEMETRY_STORE=supabase).
+-- Only per-day, per-origin event counters are stored: no IPs, no addresses.
+create table if not exists payment_widget_telemetry (
+  day date not null,
+  origin text not null,
+  event text not null,
+  count integer not null default 0,
+  primary key (day, origin, event)
+);
+
+create or replace function increment_payment_widget_telemetry(
+  p_day date,
+  p_origin text,
+  p_event text
+) returns void
+language sql
+as $$
+  insert into payment_widget_telemetry (day, origin, event, count)
+  values (p_day, p_origin, p_event, 1)
+  on conflict (day, origin, event)
+  do update set count = payment_widget_telemetry.count + 1;
+$$;
@@ -1,12 +1,23 @@
 import MdxContainer from "@/components/MdxContainer";
-import ResearchIndexGrid from "@/components/Research/ResearchIndexGrid";
+import ResearchIndexGrid, {
+  type ResearchArticleMeta,
+} from "@/components/Research/ResearchIndexGrid";
+import PageHistory from "@/components/PageHistory/PageHistory";
+import ExportLinks from "@/components/Export/ExportLinks";
+import SaveOfflineButton from "@/components/Offline/SaveOfflineButton";
+import TranslationNotice from "@/components/TranslationNotice/TranslationNotice";
 import SideMenu from "@/components/SideMenu/SideMenu";
 import {
-  getFileContentCached,
   getRootCached,
   getAllMarkdownRecursively,
   getSiteFolders,
+  getContentFileLinks,
+  getFileHistoryCached,
 } from "@/lib/authAndFetch";
+import { getWikiPageMeta } from "@/lib/frontMatter";
+import { i18n } from "@/i18n/config";
+import { rehypeProtectTerms } from "@/i18n/protectTerms";
+import { getRequestLocale, localizePath } from "@/i18n/routing";
 import {
   genMetadata,
   getBanner,
@@ -14,7 +25,23 @@ import {
   transformUri,
   transformGithubFilePathToWikiLink,
 } from "@/lib/helpers";
+import { remarkWikiComponents } from "@/lib/mdx/components";
 import { normalizeMdx } from "@/lib/normalizeMdx";
+import { loadZips } from "@/lib/zips/load-zips.server";
+import type { Zip } from "@/app/zips/types";
+import {
+  buildTocTree,
+  estimateReadingTime,
+  rehypeHeadingIds,
+  type TocHeading,
+} from "@/lib/toc";
+import {
+  getLocalizedWikiContent,
+  getWikiPageBySlug,
+  getWikiPagesMeta,
+  resolveWikiContentPath,
+  type LocalizedWikiContent,
+} from "@/lib/wikiPages";
 import { Metadata } from "next";
 import React, { Suspense } from "react";
 import { notFound } from "next/navigation";
@@ -24,26 +51,39 @@ import remarkGfm from "remark-gfm";
 import rehypeRaw from "rehype-raw";
 const LazyMdxComponent = React.lazy(() => import("@/components/MdxRenderer"));
 
-function extractFirstContentImage(
-  content: string,
-  filePath: string,
-): string | null {
-  const matches =
-    content.match(/!\[[^\]]*\]\(([^)]+?)\)|<img[^>]+src=["']([^"']+)["']/g) ||
-    [];
-  for (const m of matches) {
-    const single = m.match(
-      /!\[[^\]]*\]\(([^)]+?)\)|<img[^>]+src=["']([^"']+)["']/,
-    );
-    if (!single) continue;
-    const src = single[1] || single[2];
-    if (src && !/shields\.io|badge|edit/i.test(src)) {
-      if (src.startsWith("http")) return src;
-      const dir = filePath.substring(0, filePath.lastIndexOf("/"));
-      return `https://raw.githubusercontent.com/ZecHub/zechub/main/${dir}/${src}`;
-    }
-  }
-  return null;
+/** ZIPs a page references through `<Zip num={…}/>`, keyed by number */
+async function loadReferencedZips(numbers: Set<number>): Promise<Record<number, Zip>> {
+  const { zips } = await loadZips();
+  return Object.fromEntries(zips.filter((zip) => numbers.has(zip.num)).map((zip) => [zip.num, zip]));
+}
+
+/** Card metadata for research articles, keyed by wiki slug */
+async function getResearchArticleMeta(
+  paths: string[],
+): Promise<Record<string, ResearchArticleMeta>> {
+  const pages = await getWikiPagesMeta(paths);
+
+  return Object.fromEntries(
+    Object.values(pages).map((page) => {
+      const wikiSlug = transformGithubFilePathToWikiLink(
+        page.path.replace(/\.md$/i, ""),
+      );
+      const alt = page.title || "Article thumbnail";
+      return [
+        wikiSlug,
+        {
+          title: page.title ?? undefined,
+          description: page.frontMatter.description,
+          excerpt: page.description ?? undefined,
+          cover:
+            page.frontMatter.cover && page.image
+              ? { src: page.image, alt }
+              : undefined,
+          contentImage: page.image ? { src: page.image, alt } : undefined,
+        },
+      ];
+    }),
+  );
 }
 
 export async function generateMetadata({
@@ -52,23 +92,43 @@ export async function generateMetadata({
   params: Promise<{ slug: string[] }>;
 }): Promise<Metadata> {
   const { slug = [] } = await params;
+  const locale = getRequestLocale(await headers());
   if (slug.length === 0) {
     return genMetadata({ title: "Zechub", url: "https://zechub.wiki" });
   }
   const folder = slug[0] || "";
   const capitalized =
     folder.charAt(0).toUpperCase() + folder.slice(1).replace(/-/g, " ");
-  const title =
+  const fallbackTitle =
     slug.length > 1 && slug[1]
       ? `Zechub - ${capitalized} | ${slug[1].replace(/-/g, " ")}`
       : `Zechub - ${capitalized}`;
-  return genMetadata({ title, url: `https://zechub.wiki/${slug.join("/")}` });
+
+  // The research index and series pages are listings without markdown of their own
+  const isListing =
+    slug[0] === "research" &&
+    (slug.length === 1 ||
+      (slug.length === 2 && slug[1] === "zcash-foundations-series"));
+  const page = isListing
+    ? null
+    : await getWikiPageBySlug(slug, locale).catch(() => null);
+  const path = `/${slug.join("/")}`;
+
+  return genMetadata({
+    title: page?.title ? `${page.title} | Zechub` : fallbackTitle,
+    description: page?.description ?? undefined,
+    image: page ? `/og/${slug.join("/")}` : undefined,
+    url: `https://zechub.wiki${localizePath(path, page?.locale ?? i18n.defaultLocale)}`,
+    path,
+    locale: page?.locale,
+    translations: page?.translations,
+  });
 }
 
 export default async function Page(props: {
   params: Promise<{ slug: string[] }>;
 }) {
-  headers();
+  const locale = getRequestLocale(await headers());
   let slug: string[] = [];
   try {
     const resolved = await props.params;
@@ -90,9 +150,9 @@ export default async function Page(props: {
   const isResearchArticle = slug[0] === "research" && slug.length > 1;
 
   let contentUrl = url;
+  let content: LocalizedWikiContent | null = null;
   let markdown: any = null;
   let roots: any[] = [];
-  let dynamicCovers: Record<string, { src: string; alt: string }> = {};
 
   try {
     if (isResearchIndex) {
@@ -108,26 +168,7 @@ export default async function Page(props: {
         (p: string) => !p.includes("zcash-foundations-series"),
       );
 
-      const indexDynamicCovers: Record<string, { src: string; alt: string }> =
-        {};
-      await Promise.all(
-        nonSeriesRoots.map(async (filePath: string) => {
-          try {
-            const content = await getFileContentCached(filePath);
-            if (!content) return;
-            const imgSrc = extractFirstContentImage(content, filePath);
-            if (imgSrc) {
-              const wikiSlug = transformGithubFilePathToWikiLink(
-                filePath.replace(/\.md$/i, ""),
-              );
-              indexDynamicCovers[wikiSlug] = {
-                src: imgSrc,
-                alt: "Article thumbnail",
-              };
-            }
-          } catch {}
-        }),
-      );
+      const articleMeta = await getResearchArticleMeta(nonSeriesRoots);
 
       roots = [...topLevel, ...seriesArticles];
 
@@ -212,7 +253,7 @@ export default async function Page(props: {
 
             <ResearchIndexGrid
               roots={nonSeriesRoots}
-              dynamicCovers={indexDynamicCovers}
+              articleMeta={articleMeta}
               showHeader={false}
             />
           </div>
@@ -238,24 +279,7 @@ export default async function Page(props: {
         }
       };
       const articlePaths = await collectArticles(basePath);
-      await Promise.all(
-        articlePaths.map(async (filePath) => {
-          try {
-            const content = await getFileContentCached(filePath);
-            if (!content) return;
-            const imgSrc = extractFirstContentImage(content, filePath);
-            if (imgSrc) {
-              const wikiSlug = transformGithubFilePathToWikiLink(
-                filePath.replace(/\.md$/i, ""),
-              );
-              dynamicCovers[wikiSlug] = {
-                src: imgSrc,
-                alt: "Article thumbnail",
-              };
-            }
-          } catch {}
-        }),
-      );
+      const articleMeta = await getResearchArticleMeta(articlePaths);
       roots = articlePaths;
       markdown = null;
 
@@ -296,12 +320,15 @@ export default async function Page(props: {
                   Zero Knowledge
                 </span>
               </div>
+              <div className="mt-6 flex flex-wrap gap-2">
+                <ExportLinks path={slug.join("/")} series />
+              </div>
             </div>
           </div>
 
           <ResearchIndexGrid
             roots={roots}
-            dynamicCovers={dynamicCovers}
+            articleMeta={articleMeta}
             showHeader={false}
           />
         </MdxContainer>
@@ -311,26 +338,11 @@ export default async function Page(props: {
       roots = Array.isArray(rootsRaw) ? rootsRaw : [];
 
       if (isResearchArticle && !isResearchSeries) {
-        const lastSegment = slug[slug.length - 1];
-        const norm = (s: string) => s.toLowerCase().replace(/[-_ ]/g, "");
-        const target = norm(lastSegment);
-
-        const match = roots.find((r: string) => {
-          if (typeof r !== "string" || !r.endsWith(".md")) return false;
-          const base = r.split("/").pop()!.replace(/\.md$/i, "");
-          return norm(base) === target;
-        });
-
-        if (match) {
-          contentUrl = match;
-        } else {
-          const subPath = slug.slice(1).join("/");
-          contentUrl = `site/Research/${subPath}.md`;
-        }
+        contentUrl = resolveWikiContentPath(slug, roots);
       }
 
-      const md = await getFileContentCached(contentUrl).catch(() => null);
-      markdown = md;
+      content = await getLocalizedWikiContent(contentUrl, locale);
+      markdown = content.markdown;
     }
   } catch (e) {
     console.error("Failed to fetch and parse .md file: ", e);
@@ -339,7 +351,9 @@ export default async function Page(props: {
   }
 
   // Preprocessing
-  let processedMarkdown = String(markdown || "");
+  const sourcePath = content?.path ?? contentUrl;
+  const pageMeta = markdown ? getWikiPageMeta(String(markdown), sourcePath) : null;
+  let processedMarkdown = pageMeta?.body ?? "";
   if (isResearchArticle && processedMarkdown) {
     const articleDir = `site/Research/${slug.slice(1, -1).join("/")}`;
     processedMarkdown = processedMarkdown.replace(
@@ -371,6 +385,13 @@ export default async function Page(props: {
   const imgUrl = getBanner(slug[0]) || "";
   const imgUrlDark = getBanner(`${slug[0]}-dark`) || imgUrl;
   const showSideMenu = slug[0] !== "research" && roots.length > 0;
+  const sideMenuLabels = showSideMenu
+    ? Object.fromEntries(
+        Object.values(await getWikiPagesMeta(roots)).flatMap((p) =>
+          p.frontMatter.title ? [[p.path, p.frontMatter.title]] : [],
+        ),
+      )
+    : {};
   const slugToTitle = (segment: string) =>
     segment
       .split("-")
@@ -380,14 +401,17 @@ export default async function Page(props: {
   const researchBreadcrumbLabel = researchSegment
     ? slugToTitle(researchSegment)
     : "";
-  const canonicalWikiUrl = `https://zechub.wiki/${slug.join("/")}`;
+  const contentLocale = content?.locale ?? i18n.defaultLocale;
+  const canonicalWikiUrl = `https://zechub.wiki${localizePath(`/${slug.join("/")}`, contentLocale)}`;
 
   if (!markdown) {
     return (
       <MdxContainer
         hasSideMenu={showSideMenu}
         sideMenu={
-          showSideMenu ? <SideMenu folder={slug[0]} roots={roots} /> : null
+          showSideMenu ? (
+            <SideMenu folder={slug[0]} roots={roots} labels={sideMenuLabels} />
+          ) : null
         }
         roots={roots}
         heroImage={{ src: imgUrl, darkSrc: imgUrlDark }}
@@ -404,48 +428,80 @@ export default async function Page(props: {
     );
   }
 
-  const serializedSource = await serialize(normalizeMdx(processedMarkdown), {
-    mdxOptions: {
-      remarkPlugins: [remarkGfm],
-      rehypePlugins: [
-        [
-          rehypeRaw,
-          {
-            passThrough: [
-              "mdxJsxFlowElement",
-              "mdxFlowExpression",
-              "mdxJsxTextElement",
-              "mdxTextExpression",
-            ],
-          },
+  const headings: TocHeading[] = [];
+  const zipNumbers = new Set<number>();
+  const [serializedSource, commits] = await Promise.all([
+    serialize(normalizeMdx(processedMarkdown), {
+      mdxOptions: {
+        remarkPlugins: [remarkGfm, [remarkWikiComponents, { zips: zipNumbers }]],
+        rehypePlugins: [
+          [
+            rehypeRaw,
+            {
+              passThrough: [
+                "mdxJsxFlowElement",
+                "mdxFlowExpression",
+                "mdxJsxTextElement",
+                "mdxTextExpression",
+              ],
+            },
+          ],
+          [rehypeHeadingIds, { headings }],
+          rehypeProtectTerms,
         ],
-      ],
-    },
-  });
+      },
+    }),
+    getFileHistoryCached(sourcePath),
+  ]);
+  const zips = zipNumbers.size > 0 ? await loadReferencedZips(zipNumbers) : {};
 
   return (
     <MdxContainer
       hasSideMenu={showSideMenu}
       sideMenu={
-        showSideMenu ? <SideMenu folder={slug[0]} roots={roots} /> : null
+        showSideMenu ? (
+          <SideMenu folder={slug[0]} roots={roots} labels={sideMenuLabels} />
+        ) : null
       }
       roots={roots}
       heroImage={{ src: imgUrl, darkSrc: imgUrlDark }}
       layoutVariant={isResearchArticle ? "research" : "default"}
+      lang={contentLocale}
+      toc={{
+        items: buildTocTree(headings),
+        readingTime: estimateReadingTime(processedMarkdown),
+      }}
+      footer={
+        <PageHistory
+          commits={commits}
+          links={getContentFileLinks(sourcePath, canonicalWikiUrl)}
+          updated={pageMeta?.updated}
+        />
+      }
       researchMeta={
         isResearchArticle
           ? {
               breadcrumbLabel: researchBreadcrumbLabel,
               shareUrl: canonicalWikiUrl,
-              pageTitle: researchBreadcrumbLabel,
+              pageTitle: pageMeta?.title || researchBreadcrumbLabel,
             }
           : undefined
       }
     >
+      {contentLocale !== locale && (
+        <TranslationNotice locale={locale} />
+      )}
+      <div className="mb-4 flex flex-wrap justify-end gap-2">
+        <ExportLinks path={slug.join("/")} />
+        <SaveOfflineButton />
+      </div>
       <Suspense
         fallback={<span className="text-center text-3xl">Loading...</span>}
       >
-        <LazyMdxComponent source={serializedSource} />
+        {/* Inside the boundary so the streamed article HTML carries the marker too */}
+        <div data-offline-article="">
+          <LazyMdxComponent source={serializedSource} zips={zips} />
+        </div>
       </Suspense>
     </MdxContainer>
   );
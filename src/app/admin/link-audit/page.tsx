@@ -0,0 +1,151 @@
+import { isAdminSecret } from "@/lib/admin";
+import { getContentFileLinks } from "@/lib/authAndFetch";
+import {
+  describeIssue,
+  groupIssuesByPage,
+  runLinkAudit,
+  type LinkIssueSeverity,
+} from "@/lib/link-audit";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export const metadata: Metadata = {
+  title: "Wiki Link Audit | ZecHub",
+  robots: { index: false, follow: false },
+};
+
+const SEVERITY_OPTIONS = ["all", "error", "warning"] as const;
+
+const SEVERITY_CLASSES: Record<LinkIssueSeverity, string> = {
+  error: "bg-red-500/10 text-red-600 dark:text-red-400",
+  warning: "bg-amber-500/10 text-amber-600 dark:text-amber-400",
+};
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-zinc-200 dark:border-[#243040] bg-white dark:bg-[#151e29] px-4 py-3">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.1em] text-zinc-400 dark:text-[#5a6a7e]">
+        {label}
+      </p>
+      <p className="mt-1 text-2xl font-bold text-zinc-900 dark:text-white">{value}</p>
+    </div>
+  );
+}
+
+export default async function LinkAuditPage(props: {
+  searchParams: Promise<{ secret?: string; severity?: string }>;
+}) {
+  const { secret, severity } = await props.searchParams;
+  if (!isAdminSecret(secret)) return notFound();
+
+  const filter = SEVERITY_OPTIONS.find((s) => s === severity) ?? "all";
+  const report = await runLinkAudit();
+  const issues =
+    filter === "all" ? report.issues : report.issues.filter((i) => i.severity === filter);
+  const query = `secret=${encodeURIComponent(secret!)}`;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12 space-y-10">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Wiki Link Audit</h1>
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">
+          Generated {report.generatedAt} in {(report.durationMs / 1000).toFixed(1)}s. Download as{" "}
+          <a href={`/api/link-audit?${query}`} className="underline">
+            JSON
+          </a>{" "}
+          or{" "}
+          <a href={`/api/link-audit?${query}&format=md`} className="underline">
+            Markdown
+          </a>
+          .
+        </p>
+        <nav className="flex gap-3 text-sm">
+          {SEVERITY_OPTIONS.map((s) => (
+            <a
+              key={s}
+              href={`?${query}&severity=${s}`}
+              className={s === filter ? "font-semibold text-[#F4B728]" : "underline capitalize"}
+            >
+              {s === "all" ? "All issues" : `${s}s`}
+            </a>
+          ))}
+        </nav>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label="Pages" value={report.pages} />
+        <StatCard label="Links / images" value={`${report.links} / ${report.images}`} />
+        <StatCard label="Errors" value={report.errors} />
+        <StatCard label="Warnings" value={report.warnings} />
+      </div>
+
+      {report.failedPages.length > 0 ? (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+            Pages that could not be fetched
+          </h2>
+          <ul className="text-sm font-mono space-y-1">
+            {report.failedPages.map((page) => (
+              <li key={page}>{page}</li>
+            ))}
+          </ul>
+        </section>
+      ) : null}
+
+      {issues.length === 0 ? (
+        <p className="text-sm text-zinc-500">No issues found.</p>
+      ) : (
+        groupIssuesByPage(issues).map(([page, pageIssues]) => (
+          <section key={page} className="space-y-3">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-white break-all">
+              <a href={getContentFileLinks(page).view} target="_blank" rel="noopener noreferrer">
+                {page}
+              </a>
+            </h2>
+            <div className="overflow-x-auto rounded-xl border border-zinc-200 dark:border-[#243040]">
+              <table className="w-full text-sm">
+                <thead className="bg-zinc-50 dark:bg-[#0f1720] text-left">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold">Line</th>
+                    <th className="px-3 py-2 font-semibold">Target</th>
+                    <th className="px-3 py-2 font-semibold">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pageIssues.map((issue, i) => (
+                    <tr key={i} className="border-t border-zinc-100 dark:border-[#1e2d3d] align-top">
+                      <td className="px-3 py-2 tabular-nums">
+                        <a
+                          href={`${getContentFileLinks(page).view}#L${issue.line}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline"
+                        >
+                          {issue.line}
+                        </a>
+                      </td>
+                      <td className="px-3 py-2 font-mono break-all">
+                        <span className="mr-2 text-xs uppercase text-zinc-400">{issue.kind}</span>
+                        {issue.url}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`rounded-full px-2 py-0.5 text-xs font-medium ${SEVERITY_CLASSES[issue.severity]}`}
+                        >
+                          {describeIssue(issue)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { isAdminSecret } from "@/lib/admin";
+import {
+  getWidgetTelemetrySummary,
+  type WidgetTelemetryRow,
+} from "@/lib/payment-request-uri/telemetry";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Payment Widget Telemetry | ZecHub",
+  robots: { index: false, follow: false },
+};
+
+const DAY_OPTIONS = [7, 30, 90];
+
+function percent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-zinc-200 dark:border-[#243040] bg-white dark:bg-[#151e29] px-4 py-3">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.1em] text-zinc-400 dark:text-[#5a6a7e]">
+        {label}
+      </p>
+      <p className="mt-1 text-2xl font-bold text-zinc-900 dark:text-white">{value}</p>
+    </div>
+  );
+}
+
+const COLUMNS: { label: string; value: (row: WidgetTelemetryRow) => string | number }[] = [
+  { label: "Loads", value: (r) => r.loadStart },
+  { label: "Load success", value: (r) => percent(r.loadSuccessRate) },
+  { label: "Failures", value: (r) => r.loadFailed },
+  { label: "QR opens", value: (r) => r.opened },
+  { label: "Copies", value: (r) => r.copyAddress + r.copyUri },
+  { label: "Open wallet", value: (r) => r.openWallet },
+  { label: "Conversion", value: (r) => percent(r.conversionRate) },
+];
+
+function TelemetryTable<T extends WidgetTelemetryRow>({
+  title,
+  rows,
+  keyLabel,
+  rowKey,
+}: {
+  title: string;
+  rows: T[];
+  keyLabel: string;
+  rowKey: (row: T) => string;
+}) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-zinc-500">No events recorded yet.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-zinc-200 dark:border-[#243040]">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 dark:bg-[#0f1720] text-left">
+              <tr>
+                <th className="px-3 py-2 font-semibold">{keyLabel}</th>
+                {COLUMNS.map((c) => (
+                  <th key={c.label} className="px-3 py-2 font-semibold text-right">
+                    {c.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={rowKey(row)}
+                  className="border-t border-zinc-100 dark:border-[#1e2d3d]"
+                >
+                  <td className="px-3 py-2 font-mono break-all">{rowKey(row)}</td>
+                  {COLUMNS.map((c) => (
+                    <td key={c.label} className="px-3 py-2 text-right tabular-nums">
+                      {c.value(row)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default async function PaymentWidgetTelemetryPage(props: {
+  searchParams: Promise<{ secret?: string; days?: string }>;
+}) {
+  const { secret, days } = await props.searchParams;
+  if (!isAdminSecret(secret)) return notFound();
+
+  const range = DAY_OPTIONS.includes(Number(days)) ? Number(days) : 30;
+  const { since, totals, byOrigin, byDay } = await getWidgetTelemetrySummary(range);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12 space-y-10">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">
+          Payment Widget Telemetry
+        </h1>
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">
+          Aggregated since {since}. Only event counts per embedding origin and
+          day are stored.
+        </p>
+        <nav className="flex gap-3 text-sm">
+          {DAY_OPTIONS.map((d) => (
+            <a
+              key={d}
+              href={`?secret=${encodeURIComponent(secret!)}&days=${d}`}
+              className={d === range ? "font-semibold text-[#F4B728]" : "underline"}
+            >
+              Last {d} days
+            </a>
+          ))}
+        </nav>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label="Widget loads" value={totals.loadStart} />
+        <StatCard label="Load success" value={percent(totals.loadSuccessRate)} />
+        <StatCard label="QR opens" value={totals.opened} />
+        <StatCard label="Conversion" value={percent(totals.conversionRate)} />
+      </div>
+
+      <TelemetryTable
+        title="By embedding origin"
+        keyLabel="Origin"
+        rows={byOrigin}
+        rowKey={(r) => r.origin}
+      />
+
+      <TelemetryTable
+        title="By day"
+        keyLabel="Day"
+        rows={byDay}
+        rowKey={(r) => r.day}
+      />
+    </div>
+  );
+}
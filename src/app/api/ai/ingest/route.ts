@@ -0,0 +1,29 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { ingestWikiDocs } from "@/lib/ai/ingest";
+import { withRateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+async function handlePost(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  if (searchParams.get("secret") !== process.env.REVALIDATE_SECRET) {
+    return NextResponse.json({ error: "Invalid secret" }, { status: 401 });
+  }
+
+  try {
+    const report = await ingestWikiDocs({ dryRun: searchParams.get("dryRun") === "1" });
+    return NextResponse.json({ data: report });
+  } catch (err) {
+    console.error("[ingest] failed:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Ingestion failed" },
+      { status: 500 },
+    );
+  }
+}
+
+export const POST = withRateLimit("ai-ingest", handlePost);
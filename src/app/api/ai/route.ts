@@ -2,12 +2,20 @@ import "server-only";
 
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
-import { CHAT_MODEL, getOpenAIClient, hasOpenAIApiKey } from "@/lib/ai/openai";
+import { getChatProvider, isChatConfigured, type ChatTurn } from "@/lib/ai/providers";
 import { searchDocs } from "@/lib/ai/vectorSearch";
-import { checkRateLimit } from "@/lib/ai/rateLimit";
-import type { ChatMessage, RetrievedDocChunk } from "@/lib/ai/types";
-
-// Block Zcash private keys, seed phrases, and addresses from reaching OpenAI.
+import { encodeSseEvent } from "@/lib/ai/sse";
+import type {
+  AiAnswerMode,
+  AiStreamEvent,
+  ChatMessage,
+  Citation,
+  RetrievedDocChunk,
+} from "@/lib/ai/types";
+import { withRateLimit } from "@/lib/rate-limit";
+import { slugify } from "@/lib/slugify";
+
+// Block Zcash private keys, seed phrases, and addresses from reaching the LLM provider.
 const SENSITIVE_PATTERNS: { pattern: RegExp; label: string }[] = [
   { pattern: /\bu[a-z0-9]{80,}\b/i,       label: "Zcash unified address" },
   { pattern: /\bzs1[a-z0-9]{76,}\b/i,     label: "Zcash shielded address" },
@@ -44,10 +52,7 @@ const REQUEST_TIMEOUT_MS = 60_000;
 const SYSTEM_PROMPT_WITH_DOCS = `You are the ZecHub AI assistant — an expert on Zcash and the ZecHub wiki.
 Answer the user's question using ONLY the documentation sections provided below.
 Be concise and accurate. Do NOT reference "sections", "excerpts", or numbered sources in your answer.
-After your answer, output exactly this block (replace the placeholder with the actual links given):
-
-**Sources:**
-{SOURCE_LINKS}`;
+Do NOT add a list of sources or links to the sections; the user is shown them separately.`;
 
 const SYSTEM_PROMPT_FALLBACK = `You are the ZecHub AI assistant — a knowledgeable assistant about Zcash, ZecHub, and the broader Zcash ecosystem.
 The documentation search did not return results for this question, so answer from your general knowledge about Zcash and ZecHub.
@@ -65,14 +70,6 @@ function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
   return Promise.race([promise, timeout]);
 }
 
-function getCallerIp(req: NextRequest): string {
-  return (
-    req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ??
-    req.headers.get("x-real-ip") ??
-    "unknown"
-  );
-}
-
 function pathToWikiUrl(rawPath: string): string {
   const withoutExt = rawPath.replace(/\.md$/i, "");
   const pagePath = withoutExt
@@ -101,43 +98,132 @@ function pathToTitle(rawPath: string): string {
     .join(" — ");
 }
 
+function chunkUrl(chunk: RetrievedDocChunk): string {
+  const path = (chunk.metadata?.path as string) ?? "";
+  // Rows written by the ingestion pipeline carry their resolved wiki URL
+  if (chunk.metadata?.slug) return chunk.metadata.url as string;
+  return path ? pathToWikiUrl(path) : (chunk.metadata?.url as string) ?? "";
+}
+
 function buildContextBlock(chunks: RetrievedDocChunk[]): string {
   return chunks
     .map((c, i) => {
       const path = (c.metadata?.path as string) ?? "";
-      const url = path ? pathToWikiUrl(path) : (c.metadata?.url as string) ?? "";
+      const url = chunkUrl(c);
       const label = path ? pathToTitle(path) : "ZecHub Wiki";
       return `--- Section ${i + 1}: ${label} (${url}) ---\n${c.content}`;
     })
     .join("\n\n");
 }
 
-function buildSourceLinks(chunks: RetrievedDocChunk[]): string {
-  const seen = new Set<string>();
-  const links: string[] = [];
+function toSitePath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url || "/";
+  }
+}
 
-  for (const chunk of chunks) {
+function buildCitations(chunks: RetrievedDocChunk[]): Citation[] {
+  return chunks.map((chunk) => {
     const path = (chunk.metadata?.path as string) ?? "";
-    const url = path ? pathToWikiUrl(path) : (chunk.metadata?.url as string) ?? "";
-    if (!url || seen.has(url)) continue;
-    seen.add(url);
-    const title = path ? pathToTitle(path) : "ZecHub Wiki";
-    links.push(`- [${title}](${url})`);
+    const heading =
+      typeof chunk.metadata?.heading === "string" ? chunk.metadata.heading : null;
+    // Same id MdxComponents gives the rendered heading
+    const anchor =
+      typeof chunk.metadata?.anchor === "string"
+        ? chunk.metadata.anchor
+        : heading
+          ? slugify(heading)
+          : "";
+
+    return {
+      id: chunk.id,
+      path,
+      title: path ? pathToTitle(path) : "ZecHub Wiki",
+      heading,
+      href: toSitePath(chunkUrl(chunk)) + (anchor ? `#${anchor}` : ""),
+      similarity: chunk.similarity,
+    };
+  });
+}
+
+interface AnswerPlan {
+  mode: AiAnswerMode;
+  citations: Citation[];
+  input: ChatTurn[];
+}
+
+async function planAnswer(
+  message: string,
+  pageUrl: string | undefined,
+  history: ChatMessage[]
+): Promise<AnswerPlan> {
+  const { chunks, searchAvailable, outOfScope } = await searchDocs(message, pageUrl);
+  const hasContext = chunks.length > 0;
+
+  if (outOfScope) {
+    console.log("[/api/ai] mode=OUT_OF_SCOPE | skipping LLM call");
+    return { mode: "out_of_scope", citations: [], input: [] };
   }
 
-  return links.join("\n");
+  let systemPrompt: string;
+  let contextInjection: string;
+
+  if (hasContext) {
+    systemPrompt = SYSTEM_PROMPT_WITH_DOCS;
+    contextInjection = `Use the following documentation sections to answer:\n\n${buildContextBlock(chunks)}`;
+    console.log(`[/api/ai] mode=RAG | chunks=${chunks.length} | searchAvailable=${searchAvailable}`);
+  } else {
+    systemPrompt = SYSTEM_PROMPT_FALLBACK;
+    contextInjection =
+      searchAvailable === null
+        ? "Note: The documentation search is currently unavailable. Answer from general knowledge."
+        : "Note: No documentation excerpts matched this query. Answer from general knowledge about Zcash and ZecHub.";
+    console.log(`[/api/ai] mode=FALLBACK | chunks=0 | searchAvailable=${searchAvailable}`);
+  }
+
+  return {
+    mode: hasContext ? "rag" : "fallback",
+    citations: buildCitations(chunks),
+    input: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: contextInjection },
+      ...history.map((h: ChatMessage) => ({
+        role: h.role as "user" | "assistant",
+        content: h.content,
+      })),
+      { role: "user", content: message },
+    ],
+  };
 }
 
-export async function POST(req: NextRequest) {
-  const ip = getCallerIp(req);
-  const { allowed, retryAfterMs } = checkRateLimit(ip);
-  if (!allowed) {
-    return NextResponse.json(
-      { error: "Too many requests. Please slow down." },
-      { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
-    );
+async function* streamAnswer(plan: AnswerPlan, signal: AbortSignal): AsyncGenerator<string> {
+  if (plan.mode === "out_of_scope") {
+    yield OUT_OF_SCOPE_ANSWER;
+    return;
   }
 
+  const llmStart = Date.now();
+  const provider = getChatProvider();
+
+  for await (const text of provider.streamChat(plan.input, signal)) yield text;
+  console.log(
+    `[/api/ai] LLM ok — ${Date.now() - llmStart}ms | provider=${provider.name} | model=${provider.model}`
+  );
+}
+
+function errorMessage(err: unknown): { error: string; status: number } {
+  const msg = err instanceof Error ? err.message : "";
+  const isTimeout =
+    msg === "Request timed out" || (err instanceof Error && err.name === "TimeoutError");
+
+  return isTimeout
+    ? { error: "The request took too long. Try again.", status: 504 }
+    : { error: "Failed to get answer.", status: 500 };
+}
+
+async function handlePost(req: NextRequest) {
   let body: unknown;
   try {
     body = await req.json();
@@ -155,11 +241,11 @@ export async function POST(req: NextRequest) {
 
   const { message, pageUrl, history = [] } = parsed.data;
 
-  if (!hasOpenAIApiKey()) {
+  if (!isChatConfigured()) {
     return NextResponse.json(
       {
         error:
-          "The AI assistant is temporarily unavailable because OPENAI_API_KEY is not configured on the server.",
+          "The AI assistant is temporarily unavailable because no chat provider is configured on the server.",
       },
       { status: 503 }
     );
@@ -176,68 +262,73 @@ export async function POST(req: NextRequest) {
   }
 
   const requestStart = Date.now();
-  console.log(`[/api/ai] → request | page=${pageUrl ?? "none"} | historyTurns=${history.length}`);
+  const wantsStream = req.headers.get("accept")?.includes("text/event-stream") ?? false;
+  console.log(
+    `[/api/ai] → request | page=${pageUrl ?? "none"} | historyTurns=${history.length} | stream=${wantsStream}`
+  );
 
+  let plan: AnswerPlan;
   try {
-    const answer = await withTimeout(
-      (async () => {
-        const { chunks, searchAvailable, outOfScope } = await searchDocs(message, pageUrl);
-        const hasContext = chunks.length > 0;
-
-        if (outOfScope) {
-          console.log("[/api/ai] mode=OUT_OF_SCOPE | skipping OpenAI call");
-          return OUT_OF_SCOPE_ANSWER;
-        }
-
-        let systemPrompt: string;
-        let contextInjection: string;
-
-        if (hasContext) {
-          const sourceLinks = buildSourceLinks(chunks);
-          systemPrompt = SYSTEM_PROMPT_WITH_DOCS.replace("{SOURCE_LINKS}", sourceLinks);
-          contextInjection = `Use the following documentation sections to answer:\n\n${buildContextBlock(chunks)}`;
-          console.log(`[/api/ai] mode=RAG | chunks=${chunks.length} | searchAvailable=${searchAvailable}`);
-        } else {
-          systemPrompt = SYSTEM_PROMPT_FALLBACK;
-          contextInjection =
-            searchAvailable === null
-              ? "Note: The documentation search is currently unavailable. Answer from general knowledge."
-              : "Note: No documentation excerpts matched this query. Answer from general knowledge about Zcash and ZecHub.";
-          console.log(`[/api/ai] mode=FALLBACK | chunks=0 | searchAvailable=${searchAvailable}`);
-        }
-
-        const messages: { role: "system" | "user" | "assistant"; content: string }[] = [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: contextInjection },
-          ...history.map((h: ChatMessage) => ({
-            role: h.role as "user" | "assistant",
-            content: h.content,
-          })),
-          { role: "user", content: message },
-        ];
-
-        const llmStart = Date.now();
-        const openai = getOpenAIClient();
-        const response = await openai.responses.create({
-          model: CHAT_MODEL,
-          input: messages,
-        });
-        console.log(`[/api/ai] OpenAI ok — ${Date.now() - llmStart}ms | model=${CHAT_MODEL}`);
-
-        return response.output_text ?? "";
-      })(),
-      REQUEST_TIMEOUT_MS
-    );
-
-    console.log(`[/api/ai] ✓ done — total=${Date.now() - requestStart}ms`);
-    return NextResponse.json({ answer });
+    plan = await withTimeout(planAnswer(message, pageUrl, history), REQUEST_TIMEOUT_MS);
   } catch (err: unknown) {
-    const msg = err instanceof Error ? err.message : "An unexpected error occurred.";
-    const isTimeout = msg === "Request timed out";
-    console.error(`[/api/ai] ✗ error — total=${Date.now() - requestStart}ms | ${msg}`);
-    return NextResponse.json(
-      { error: isTimeout ? "The request took too long. Try again." : "Failed to get answer." },
-      { status: isTimeout ? 504 : 500 }
-    );
+    const { error, status } = errorMessage(err);
+    console.error(`[/api/ai] ✗ error — total=${Date.now() - requestStart}ms | ${err instanceof Error ? err.message : err}`);
+    return NextResponse.json({ error }, { status });
   }
+
+  // Planning can use up the whole budget; a spent budget times out straight away (504)
+  const remainingMs = Math.max(1, REQUEST_TIMEOUT_MS - (Date.now() - requestStart));
+  const signal = AbortSignal.any([req.signal, AbortSignal.timeout(remainingMs)]);
+
+  if (!wantsStream) {
+    try {
+      let answer = "";
+      for await (const text of streamAnswer(plan, signal)) answer += text;
+
+      console.log(`[/api/ai] ✓ done — total=${Date.now() - requestStart}ms`);
+      return NextResponse.json({ answer, citations: plan.citations });
+    } catch (err: unknown) {
+      const { error, status } = errorMessage(err);
+      console.error(`[/api/ai] ✗ error — total=${Date.now() - requestStart}ms | ${err instanceof Error ? err.message : err}`);
+      return NextResponse.json({ error }, { status });
+    }
+  }
+
+  // Server-sent events: citations first, then the answer token by token
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AiStreamEvent) => {
+        if (!cancelled) controller.enqueue(encodeSseEvent(event));
+      };
+
+      try {
+        send({ event: "citations", data: { citations: plan.citations } });
+        for await (const text of streamAnswer(plan, signal)) {
+          send({ event: "delta", data: { text } });
+        }
+        send({ event: "done", data: { mode: plan.mode } });
+        console.log(`[/api/ai] ✓ done — total=${Date.now() - requestStart}ms`);
+      } catch (err: unknown) {
+        console.error(`[/api/ai] ✗ stream error — total=${Date.now() - requestStart}ms | ${err instanceof Error ? err.message : err}`);
+        send({ event: "error", data: { error: errorMessage(err).error } });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
 }
+
+export const POST = withRateLimit("ai", handlePost);
@@ -0,0 +1,16 @@
+import { withRateLimit } from "@/lib/rate-limit";
+import { getBlockchainInfo, nodeDataResponse } from "@/lib/zcash-node";
+
+// An uncached range reads up to a few thousand blocks from the node
+export const maxDuration = 60;
+
+/**
+ * The node's `getblockchaininfo` (chain tip, `chainSupply`, value pools)
+ * with `transactions_24h`, the transactions mined in the last 24 hours.
+ * Without a node, the explorer's blockchain info, which has the same fields.
+ */
+async function handleGet() {
+  return nodeDataResponse("blockchain info", 60, getBlockchainInfo);
+}
+
+export const GET = withRateLimit("zcash-node", handleGet);
@@ -0,0 +1,29 @@
+import { ChainStatsUnavailableError, getChainStats } from "@/lib/chain-stats";
+import { withRateLimit } from "@/lib/rate-limit";
+import { NextResponse } from "next/server";
+
+/**
+ * Chain tip, 24h transactions and ZEC market data for the dashboard, with
+ * the third-party API keys kept on the server. `data` has the shape of
+ * Blockchair's stats, plus staleness metadata next to it.
+ */
+async function handleGet() {
+  try {
+    const stats = await getChainStats();
+    return NextResponse.json(stats, {
+      headers: { "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300" },
+    });
+  } catch (err) {
+    if (err instanceof ChainStatsUnavailableError) {
+      return NextResponse.json(
+        { error: err.message },
+        { status: 503, headers: { "Retry-After": "60" } },
+      );
+    }
+
+    console.error("[chain-stats] unexpected error:", err);
+    return NextResponse.json({ error: "Unable to fetch chain stats" }, { status: 500 });
+  }
+}
+
+export const GET = withRateLimit("chain-stats", handleGet);
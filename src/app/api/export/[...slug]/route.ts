@@ -0,0 +1,51 @@
+import { EXPORT_FORMATS, exportWikiPage } from "@/lib/export";
+import { withRateLimit } from "@/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// A series with images takes a while to download and render
+export const maxDuration = 60;
+
+const querySchema = z.object({ format: z.enum(EXPORT_FORMATS) });
+
+/**
+ * Download a wiki page, or a whole research series, as a print-ready PDF or
+ * an EPUB book: `/api/export/research/zcash-foundations-series?format=epub`.
+ */
+async function handleGet(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string[] }> },
+) {
+  const { slug } = await params;
+  const parsed = querySchema.safeParse({
+    format: req.nextUrl.searchParams.get("format") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const file = await exportWikiPage(slug, parsed.data.format);
+    if (!file) {
+      return NextResponse.json({ error: "Page not found." }, { status: 404 });
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": file.body.byteLength.toString(),
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+      },
+    });
+  } catch (err) {
+    console.error(`[export] failed to export /${slug.join("/")}:`, err);
+
+    return NextResponse.json({ error: "Failed to export page." }, { status: 500 });
+  }
+}
+
+export const GET = withRateLimit("export", handleGet);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Octokit } from "octokit";
+import { getContentSource } from "@/lib/content-source";
+import { withRateLimit } from "@/lib/rate-limit";
 
 const ALLOWED_PATHS = [
   "wallets.md",
@@ -9,7 +10,7 @@ const ALLOWED_PATHS = [
 
 export const revalidate = 300; // 5 minutes
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   const { searchParams } = new URL(req.url);
   const path = searchParams.get("path");
 
@@ -20,34 +21,26 @@ export async function GET(req: NextRequest) {
     );
   }
 
-  const { GITHUB_TOKEN, OWNER, REPO, BRANCH } = process.env;
-
-  if (!GITHUB_TOKEN || !OWNER || !REPO) {
-    return NextResponse.json(
-      {
-        error: "Missing env variables!",
-      },
-      { status: 5000 },
-    );
-  }
-
-  const octokit = new Octokit({ auth: GITHUB_TOKEN });
+  const source = getContentSource();
 
   try {
-    const res = await octokit.rest.repos.getContent({
-      owner: OWNER,
-      repo: REPO,
+    const content = await source.readFile(path);
+
+    // Same shape as the GitHub contents API, which clients decode with `atob`
+    return NextResponse.json({
       path,
-      ref: BRANCH,
+      encoding: "base64",
+      content: Buffer.from(content, "utf8").toString("base64"),
     });
-
-    return NextResponse.json(res.data);
   } catch (error) {
+    console.error(`[github-file] ${source.name} read of ${path} failed:`, error);
     return NextResponse.json(
       {
-        error: `Failed to fetch ${OWNER}/${REPO}`,
+        error: `Failed to fetch ${path}`,
       },
-      { status: 5000 },
+      { status: 500 },
     );
   }
 }
+
+export const GET = withRateLimit("github-file", handleGet);
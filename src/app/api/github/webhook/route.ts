@@ -0,0 +1,86 @@
+import "server-only";
+
+import { after, NextRequest, NextResponse } from "next/server";
+import {
+  getPushChanges,
+  invalidateContent,
+  planContentInvalidation,
+  purgeContentCache,
+  pushEventSchema,
+  verifyWebhookSignature,
+} from "@/lib/content-cache";
+import { withRateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GitHub push webhook of the content repo (content type `application/json`,
+ * secret `GITHUB_WEBHOOK_SECRET`). Revalidates the cache of the files a push
+ * changed on `BRANCH`, or everything when the payload may be incomplete.
+ */
+async function handlePost(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Webhook is not configured" }, { status: 503 });
+  }
+
+  const body = await request.text();
+  if (!verifyWebhookSignature(body, request.headers.get("x-hub-signature-256"), secret)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const event = request.headers.get("x-github-event");
+  if (event === "ping") return NextResponse.json({ data: { pong: true } });
+  if (event !== "push") {
+    return NextResponse.json({ data: { ignored: `event ${event}` } }, { status: 202 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Body is not JSON" }, { status: 400 });
+  }
+
+  const parsed = pushEventSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid push event", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  const push = parsed.data;
+  const { OWNER, REPO, BRANCH } = process.env;
+  const repo = `${OWNER || "ZecHub"}/${REPO || "zechub"}`;
+  const ref = `refs/heads/${BRANCH || "main"}`;
+
+  if (push.repository.full_name.toLowerCase() !== repo.toLowerCase() || push.ref !== ref) {
+    return NextResponse.json(
+      { data: { ignored: `${push.repository.full_name} ${push.ref}` } },
+      { status: 202 },
+    );
+  }
+
+  const { changes, complete } = getPushChanges(push);
+  const plan = planContentInvalidation(changes);
+
+  console.log(
+    `[webhook] push ${push.after?.slice(0, 7) ?? "?"} to ${push.ref}: ${changes.length} changed files` +
+      (complete ? "" : " (incomplete payload, purging everything)"),
+  );
+
+  const result = complete ? invalidateContent(plan) : purgeContentCache();
+
+  // Embeddings are only kept when the AI assistant is configured
+  if ((plan.indexes || !complete) && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    after(async () => {
+      const { ingestWikiDocs } = await import("@/lib/ai/ingest");
+      await ingestWikiDocs().catch((err) => console.error("[ingest] failed:", err));
+    });
+  }
+
+  return NextResponse.json({ data: { changes: changes.length, ...result } });
+}
+
+export const POST = withRateLimit("github-webhook", handlePost);
@@ -0,0 +1,38 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminSecret } from "@/lib/admin";
+import { formatLinkAuditMarkdown, runLinkAudit } from "@/lib/link-audit";
+import { withRateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+/** `?secret=<ADMIN_SECRET>`, add `format=md` for the Markdown report */
+async function handleGet(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  if (!isAdminSecret(searchParams.get("secret"))) {
+    return NextResponse.json({ error: "Invalid secret" }, { status: 401 });
+  }
+
+  try {
+    const report = await runLinkAudit();
+
+    if (searchParams.get("format") === "md") {
+      return new NextResponse(formatLinkAuditMarkdown(report), {
+        headers: { "Content-Type": "text/markdown; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json({ data: report });
+  } catch (err) {
+    console.error("[link-audit] failed:", err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Link audit failed" },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = withRateLimit("link-audit", handleGet);
@@ -0,0 +1,84 @@
+import { DatasetError } from "@/lib/datasets";
+import { getMetricRows, isMetricName, METRIC_INTERVALS, toCsv } from "@/lib/metrics";
+import { withRateLimit } from "@/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+// The data files only change on deploy, which also clears the CDN cache
+const cacheHeaders = { "Cache-Control": "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400" };
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const querySchema = z.object({
+  from: day.optional(),
+  to: day.optional(),
+  interval: z.enum(METRIC_INTERVALS).optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
+}
+
+/**
+ * Rows of a dashboard dataset:
+ * `/api/metrics/v1/lockbox?from=2025-01-01&to=2025-12-31&interval=month&format=csv`.
+ * With an interval, each period's last row is returned.
+ */
+async function handleGet(req: NextRequest, { params }: { params: Promise<{ dataset: string }> }) {
+  const { dataset } = await params;
+  if (!isMetricName(dataset)) {
+    return NextResponse.json({ error: `Unknown dataset "${dataset}"` }, { status: 404, headers: corsHeaders });
+  }
+
+  const search = req.nextUrl.searchParams;
+  const parsed = querySchema.safeParse({
+    from: search.get("from") ?? undefined,
+    to: search.get("to") ?? undefined,
+    interval: search.get("interval") ?? undefined,
+    format: search.get("format") ?? undefined,
+  });
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    return NextResponse.json(
+      { error: `Invalid ${issue.path.join(".")} parameter: ${issue.message}` },
+      { status: 400, headers: corsHeaders },
+    );
+  }
+
+  const { format, ...range } = parsed.data;
+  try {
+    const rows = await getMetricRows(dataset, range);
+
+    if (format === "csv") {
+      return new NextResponse(toCsv(rows), {
+        headers: {
+          ...corsHeaders,
+          ...cacheHeaders,
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${dataset}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(
+      { data: rows, meta: { version: 1, dataset, ...range, count: rows.length } },
+      { headers: { ...corsHeaders, ...cacheHeaders } },
+    );
+  } catch (err) {
+    if (err instanceof DatasetError && err.status === 404) {
+      return NextResponse.json({ error: err.message }, { status: 404, headers: corsHeaders });
+    }
+
+    console.error(`[metrics] failed to read ${dataset}:`, err);
+    return NextResponse.json({ error: `Unable to load ${dataset} data` }, { status: 500, headers: corsHeaders });
+  }
+}
+
+export const GET = withRateLimit("metrics", handleGet, { headers: corsHeaders });
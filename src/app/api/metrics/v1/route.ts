@@ -0,0 +1,18 @@
+import { METRICS } from "@/lib/metrics";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-static";
+
+/** The datasets `/api/metrics/v1/{dataset}` serves */
+export function GET() {
+  const datasets = Object.entries(METRICS).map(([name, { description }]) => ({
+    name,
+    description,
+    url: `/api/metrics/v1/${name}`,
+  }));
+
+  return NextResponse.json(
+    { data: datasets, meta: { version: 1 } },
+    { headers: { "Access-Control-Allow-Origin": "*" } },
+  );
+}
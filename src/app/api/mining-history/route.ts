@@ -0,0 +1,26 @@
+import { withRateLimit } from "@/lib/rate-limit";
+import { getMiningHistoryData, MINING_RANGES, nodeDataResponse } from "@/lib/zcash-node";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// An uncached range reads up to a few thousand blocks from the node
+export const maxDuration = 60;
+
+const querySchema = z.object({ range: z.enum(MINING_RANGES).default("24h") });
+
+/**
+ * Average difficulty and network hashrate over time:
+ * `/api/mining-history?range=1m`.
+ */
+async function handleGet(req: NextRequest) {
+  const parsed = querySchema.safeParse({
+    range: req.nextUrl.searchParams.get("range") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid range parameter" }, { status: 400 });
+  }
+
+  return nodeDataResponse("mining history", 300, () => getMiningHistoryData(parsed.data.range));
+}
+
+export const GET = withRateLimit("zcash-node", handleGet);
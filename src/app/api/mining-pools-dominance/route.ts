@@ -0,0 +1,28 @@
+import { withRateLimit } from "@/lib/rate-limit";
+import { DOMINANCE_RANGES, getMiningPoolsDominanceData, nodeDataResponse } from "@/lib/zcash-node";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// An uncached range reads up to a few thousand blocks from the node
+export const maxDuration = 60;
+
+const querySchema = z.object({ range: z.enum(DOMINANCE_RANGES).default("3m") });
+
+/**
+ * Pool shares over time, for the dominance chart:
+ * `/api/mining-pools-dominance?range=1y`.
+ */
+async function handleGet(req: NextRequest) {
+  const parsed = querySchema.safeParse({
+    range: req.nextUrl.searchParams.get("range") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid range parameter" }, { status: 400 });
+  }
+
+  return nodeDataResponse("mining pools dominance", 300, () =>
+    getMiningPoolsDominanceData(parsed.data.range),
+  );
+}
+
+export const GET = withRateLimit("zcash-node", handleGet);
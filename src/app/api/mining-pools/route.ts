@@ -0,0 +1,26 @@
+import { withRateLimit } from "@/lib/rate-limit";
+import { getMiningPoolsData, MINING_RANGES, nodeDataResponse } from "@/lib/zcash-node";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// An uncached range reads up to a few thousand blocks from the node
+export const maxDuration = 60;
+
+const querySchema = z.object({ interval: z.enum(MINING_RANGES).default("24h") });
+
+/**
+ * Share of the blocks mined by each pool, attributed by coinbase tag:
+ * `/api/mining-pools?interval=1w`.
+ */
+async function handleGet(req: NextRequest) {
+  const parsed = querySchema.safeParse({
+    interval: req.nextUrl.searchParams.get("interval") ?? undefined,
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid interval parameter" }, { status: 400 });
+  }
+
+  return nodeDataResponse("mining pools", 300, () => getMiningPoolsData(parsed.data.interval));
+}
+
+export const GET = withRateLimit("zcash-node", handleGet);
@@ -1,9 +1,16 @@
+import {
+  formatZecAmount,
+  serializeZip321Uri,
+  Zip321Error,
+  type Zip321PaymentInput,
+} from "@/lib/payment-request-uri/zip321";
+import { withRateLimit } from "@/lib/rate-limit";
 import { is_valid_zcash_address } from "@elemental-zcash/zaddr_wasm_parser";
 import { NextRequest, NextResponse } from "next/server";
 import QRCode from "qrcode";
-import { qrCodeBodySchema } from "./schema/qrcode.schema";
+import { qrCodeBodySchema, type QrCodePayment } from "./schema/qrcode.schema";
 
-export async function GET(req: NextRequest) {
+async function handleGet(req: NextRequest) {
   const data = req.nextUrl.searchParams.get("data");
   const size = req.nextUrl.searchParams.get("size");
   const dim = size?.split("x")[0];
@@ -39,39 +46,58 @@ export async function GET(req: NextRequest) {
   }
 }
 
-export async function POST(req: NextRequest) {
-  try {
-    const body = await req.json();
-
-    const { amount, address, label, memo } = qrCodeBodySchema.parse(body);
+function toZip321Payment({ amount, ...rest }: QrCodePayment): Zip321PaymentInput {
+  // Numeric amounts come from fiat conversion and carry float noise,
+  // round them to zatoshis. Strings are validated as given.
+  return {
+    ...rest,
+    amount: typeof amount === "number" ? formatZecAmount(amount) : amount || undefined,
+  };
+}
 
-    if (!is_valid_zcash_address(address)) {
-      return NextResponse.json(
-        { error: "Invalid Zcash address!" },
-        { status: 400 },
-      );
-    }
+async function handlePost(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
 
-    // Zcash URI format: zcash:<address>?amount=1.23&memo=...
-    let uri = `zcash:${address}`;
-    const params = new URLSearchParams();
+  const parsed = qrCodeBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request.", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
 
-    if (amount) params.append("amount", amount.toString());
-    if (label) params.append("label", label);
-    if (memo) params.append("memo", memo);
+  const payments =
+    "payments" in parsed.data ? parsed.data.payments : [parsed.data];
 
-    const paramsStr = params.toString();
-    if (paramsStr) {
-      uri += `?${paramsStr}`;
-    }
+  try {
+    const uri = serializeZip321Uri(payments.map(toZip321Payment), {
+      isValidAddress: is_valid_zcash_address,
+    });
 
     const qrData = await QRCode.toDataURL(uri, { margin: 1, scale: 6 });
 
     return NextResponse.json({ data: { uri, qrData } }, { status: 200 });
   } catch (err) {
-    const msg =
-      err instanceof Error ? err.message : "Failed process payment uri.";
+    if (err instanceof Zip321Error) {
+      return NextResponse.json(
+        { error: "Invalid payment request.", issues: err.issues },
+        { status: 400 },
+      );
+    }
 
-    return NextResponse.json({ error: JSON.parse(msg) }, { status: 500 });
+    console.error(err);
+
+    return NextResponse.json(
+      { error: "Failed process payment uri." },
+      { status: 500 },
+    );
   }
 }
+
+export const GET = withRateLimit("payment-qrcode", handleGet);
+export const POST = withRateLimit("payment-qrcode", handlePost);
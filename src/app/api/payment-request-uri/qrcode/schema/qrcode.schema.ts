@@ -1,8 +1,20 @@
 import { z } from "zod";
 
-export const qrCodeBodySchema = z.object({
-  address: z.string(),
-  amount: z.number().optional(),
-  label: z.string(),
+const MAX_PAYMENTS = 20;
+
+export const qrCodePaymentSchema = z.object({
+  address: z.string().trim().min(1),
+  amount: z.union([z.number().nonnegative(), z.string().trim()]).optional(),
+  label: z.string().optional(),
+  message: z.string().optional(),
   memo: z.string().optional(),
 });
+
+export const qrCodeBodySchema = z.union([
+  z.object({
+    payments: z.array(qrCodePaymentSchema).min(1).max(MAX_PAYMENTS),
+  }),
+  qrCodePaymentSchema,
+]);
+
+export type QrCodePayment = z.infer<typeof qrCodePaymentSchema>;
@@ -0,0 +1,78 @@
+import { config } from "@/app/tools/zcash-payment-widget/config";
+import { resolveShortUrl } from "@/lib/payment-request-uri/short-url";
+import { withRateLimit } from "@/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": `${config.env.ACCESS_CONTROL_ALLOW_ORIGIN}`,
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "ACCESS-CONTROL-ALLOW-HEADERS": "CONTENT-TYPE",
+};
+
+const errorResponses = {
+  not_found: { error: "Short link not found", status: 404 },
+  expired: { error: "Short link has expired", status: 410 },
+  invalid: { error: "Short link no longer holds a valid Zcash URI", status: 422 },
+} as const;
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
+
+/**
+ * Resolve a short payment link.
+ *
+ * - default: redirect to the landing page with a QR code
+ * - `?redirect=wallet`: redirect straight to the `zcash:` URI
+ * - `?format=json`: return the stored URI
+ */
+async function handleGet(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const format = req.nextUrl.searchParams.get("format");
+  const redirect = req.nextUrl.searchParams.get("redirect");
+
+  if (format !== "json" && redirect !== "wallet") {
+    return NextResponse.redirect(
+      new URL(`/zcash-payment-uri/${encodeURIComponent(id)}`, req.nextUrl),
+      302,
+    );
+  }
+
+  try {
+    const result = await resolveShortUrl(id);
+
+    if (result.status !== "ok") {
+      const { error, status } = errorResponses[result.status];
+      return NextResponse.json({ error }, { status, headers: corsHeaders });
+    }
+
+    const { uri, expiresAt } = result.record;
+
+    if (redirect === "wallet") {
+      return new NextResponse(null, {
+        status: 302,
+        headers: { Location: uri, "Cache-Control": "no-store" },
+      });
+    }
+
+    return NextResponse.json(
+      { data: { uri, expiresAt } },
+      { status: 200, headers: { ...corsHeaders, "Cache-Control": "no-store" } },
+    );
+  } catch (err) {
+    console.error("[shorten] failed to resolve short url:", err);
+
+    return NextResponse.json(
+      { error: "Failed to resolve short link." },
+      { status: 500, headers: corsHeaders },
+    );
+  }
+}
+
+export const GET = withRateLimit("payment-short-url", handleGet, { headers: corsHeaders });
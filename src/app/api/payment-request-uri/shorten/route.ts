@@ -1,10 +1,8 @@
-
 import { config } from "@/app/tools/zcash-payment-widget/config";
-import { nanoid } from "nanoid";
+import { createShortUrl } from "@/lib/payment-request-uri/short-url";
+import { withRateLimit } from "@/lib/rate-limit";
 import { NextRequest, NextResponse } from "next/server";
-
-// TODO: Using memory store (can be changed to db)
-export const urlStore: Record<string, string> = {}; // shortId => full URI
+import { shortenBodySchema } from "./schema/shorten.schema";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": `${config.env.ACCESS_CONTROL_ALLOW_ORIGIN}`,
@@ -19,23 +17,35 @@ export async function OPTIONS(req: NextRequest) {
   });
 }
 
-export async function POST(req: NextRequest) {
+async function handlePost(req: NextRequest) {
+  let body: unknown;
   try {
-    const body = await req.json();
-    const { uri } = body;
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body." },
+      { status: 400, headers: corsHeaders },
+    );
+  }
 
-    if (!uri) {
-      return NextResponse.json({ error: "Missing uri" }, { status: 400 });
-    }
+  const parsed = shortenBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request.", details: parsed.error.flatten() },
+      { status: 400, headers: corsHeaders },
+    );
+  }
 
-    const shortId = nanoid(8);
-    urlStore[shortId] = uri;
+  try {
+    const { uri, ttlSeconds } = parsed.data;
+    const { id, expiresAt } = await createShortUrl(uri, ttlSeconds);
 
+    // NEXT_PUBLIC_WIDGET_API_BASE_URL already points at `/api`
     const url = config.env.NEXT_PUBLIC_WIDGET_API_BASE_URL;
-    const shortUrl = `${url}/api/payment-request-uri/shorten/${shortId}`;
+    const shortUrl = `${url}/payment-request-uri/shorten/${id}`;
 
     return NextResponse.json(
-      { shortUrl },
+      { shortUrl, expiresAt },
       {
         status: 200,
         headers: {
@@ -45,9 +55,13 @@ export async function POST(req: NextRequest) {
       },
     );
   } catch (err) {
-    const msg =
-      err instanceof Error ? err.message : "Failed process payment uri.";
+    console.error("[shorten] failed to create short url:", err);
 
-    return NextResponse.json({ error: JSON.parse(msg) }, { status: 500 });
+    return NextResponse.json(
+      { error: "Failed to shorten payment uri." },
+      { status: 500, headers: corsHeaders },
+    );
   }
 }
+
+export const POST = withRateLimit("payment-shorten", handlePost, { headers: corsHeaders });
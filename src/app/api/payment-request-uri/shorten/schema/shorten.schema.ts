@@ -0,0 +1,11 @@
+import { isZcashUri, MAX_TTL_SECONDS } from "@/lib/payment-request-uri/short-url";
+import { z } from "zod";
+
+export const shortenBodySchema = z.object({
+  uri: z
+    .string()
+    .trim()
+    .max(2048)
+    .refine(isZcashUri, { message: "uri must be a zcash: payment URI" }),
+  ttlSeconds: z.number().int().positive().max(MAX_TTL_SECONDS).optional(),
+});
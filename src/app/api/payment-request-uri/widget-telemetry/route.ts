@@ -1,12 +1,79 @@
-import { NextRequest } from "next/server";
+import {
+  normalizeOrigin,
+  recordWidgetEvent,
+} from "@/lib/payment-request-uri/telemetry";
+import { withRateLimit } from "@/lib/rate-limit";
+import { NextRequest, NextResponse } from "next/server";
+import { telemetryBodySchema } from "./schema/telemetry.schema";
+
+const MAX_BODY_BYTES = 4096;
+
+// The widget is embedded on merchants' sites, so any origin may report events
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "ACCESS-CONTROL-ALLOW-HEADERS": "CONTENT-TYPE",
+  "Access-Control-Max-Age": "86400",
+};
+
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, {
+    status: 204,
+    headers: corsHeaders,
+  });
+}
 
 /**
- * Zcash payment request telemetry endpoint 
- * @param req 
+ * Zcash payment widget telemetry endpoint.
+ *
+ * Only the event name and the embedding origin are kept, aggregated per day.
+ * Request IPs, addresses and the optional `data` payload are never stored.
  */
-export async function POST(req: NextRequest) {
-  // TODO: requires full implementation
-  const body = req.json();
+async function handlePost(req: NextRequest) {
+  // Read as text so `text/plain` beacons (no CORS preflight) work too
+  const raw = await req.text();
+
+  if (raw.length > MAX_BODY_BYTES) {
+    return NextResponse.json(
+      { error: "Payload too large." },
+      { status: 413, headers: corsHeaders },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body." },
+      { status: 400, headers: corsHeaders },
+    );
+  }
 
-  console.log(body);
+  const parsed = telemetryBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request.", details: parsed.error.flatten() },
+      { status: 400, headers: corsHeaders },
+    );
+  }
+
+  const origin = normalizeOrigin(
+    req.headers.get("origin") ?? req.headers.get("referer"),
+  );
+
+  try {
+    await recordWidgetEvent(parsed.data.event, origin);
+  } catch (err) {
+    console.error("[widget-telemetry] failed to record event:", err);
+
+    return NextResponse.json(
+      { error: "Failed to record event." },
+      { status: 500, headers: corsHeaders },
+    );
+  }
+
+  return new NextResponse(null, { status: 204, headers: corsHeaders });
 }
+
+export const POST = withRateLimit("payment-telemetry", handlePost, { headers: corsHeaders });
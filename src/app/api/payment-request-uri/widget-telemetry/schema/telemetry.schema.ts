@@ -0,0 +1,8 @@
+import { WIDGET_EVENTS } from "@/lib/payment-request-uri/telemetry/events";
+import { z } from "zod";
+
+// `data` is accepted for debugging on the client but never stored
+export const telemetryBodySchema = z.object({
+  event: z.enum(WIDGET_EVENTS),
+  data: z.record(z.unknown()).optional(),
+});
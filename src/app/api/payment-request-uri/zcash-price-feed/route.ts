@@ -1,47 +1,92 @@
+import {
+  convertAmount,
+  getZecPrice,
+  PriceUnavailableError,
+  type ZecPrice,
+} from "@/lib/payment-request-uri/price";
+import { withRateLimit } from "@/lib/rate-limit";
 import { NextRequest, NextResponse } from "next/server";
-import { priceFeedBodySchema } from "./schema/price-feed-body.schema";
-import { getZcashPrice } from "./utils/get-zec-price";
+import {
+  priceFeedBodySchema,
+  priceFeedQuerySchema,
+} from "./schema/price-feed-body.schema";
 
-const priceFeedUrl = String(process.env.BASE_URL_ZCASH_PRICE_FEED);
+function priceMeta(price: ZecPrice) {
+  const { rate, currency, source, sources, updatedAt, ageSeconds, stale } = price;
+  return { rate, currency, source, sources, updatedAt, ageSeconds, stale };
+}
 
-export async function GET(req: NextRequest) {
-  try {
-    const { price, source } = await getZcashPrice(priceFeedUrl);
+function errorResponse(err: unknown) {
+  if (err instanceof PriceUnavailableError) {
+    return NextResponse.json(
+      { error: err.message },
+      { status: 503, headers: { "Retry-After": "30" } },
+    );
+  }
+
+  console.error("[zcash-price-feed] unexpected error:", err);
 
+  return NextResponse.json({ error: "Failed to fetch ZEC price." }, { status: 500 });
+}
+
+/**
+ * ZEC price in `?currency=` (USD by default), with staleness metadata.
+ */
+async function handleGet(req: NextRequest) {
+  const parsed = priceFeedQuerySchema.safeParse({
+    currency: req.nextUrl.searchParams.get("currency")?.toLowerCase() || undefined,
+  });
+
+  if (!parsed.success) {
     return NextResponse.json(
-      { data: { rate: price, source } },
-      { status: 200 },
+      { error: "Invalid request.", details: parsed.error.flatten() },
+      { status: 400 },
     );
-  } catch (err) {
-    const errMsg = err instanceof Error ? err.message : "Invalid request";
+  }
 
-    return NextResponse.json({ error: JSON.parse(errMsg) }, { status: 500 });
+  try {
+    const price = await getZecPrice(parsed.data.currency);
+
+    return NextResponse.json({ data: priceMeta(price) }, { status: 200 });
+  } catch (err) {
+    return errorResponse(err);
   }
 }
 
-export async function POST(req: NextRequest) {
+/**
+ * Convert `amount` between ZEC and any supported fiat currency.
+ */
+async function handlePost(req: NextRequest) {
+  let body: unknown;
   try {
-    const body = await req.json();
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body." }, { status: 400 });
+  }
 
-    const { amount, from, to } = priceFeedBodySchema.parse(body);
-    const { price, source } = await getZcashPrice(priceFeedUrl);
+  const parsed = priceFeedBodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid request.", details: parsed.error.flatten() },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { amount, from, to } = parsed.data;
+    const result = await convertAmount(amount, from, to);
 
-    let result: number;
-    if (from === "usd" && to === "zec") {
-      result = amount / price;
-    } else if (from === "zec" && to === "usd") {
-      result = amount * price;
-    } else {
-      result = amount;
-    }
+    // Same currency on both sides: still report the USD quote for context
+    const price = result.price ?? (await getZecPrice("usd"));
 
     return NextResponse.json(
-      { data: { amount: result, rate: price, source } },
+      { data: { amount: result.amount, from, to, ...priceMeta(price) } },
       { status: 200 },
     );
   } catch (err) {
-    const errMsg = err instanceof Error ? err.message : "Invalid request";
-
-    return NextResponse.json({ error: JSON.parse(errMsg) }, { status: 500 });
+    return errorResponse(err);
   }
 }
+
+export const GET = withRateLimit("price-feed", handleGet);
+export const POST = withRateLimit("price-feed", handlePost);
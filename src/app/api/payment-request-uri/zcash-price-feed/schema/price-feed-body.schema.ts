@@ -1,7 +1,15 @@
+import {
+  FIAT_CURRENCIES,
+  PRICE_CURRENCIES,
+} from "@/lib/payment-request-uri/price/currencies";
 import { z } from "zod";
 
 export const priceFeedBodySchema = z.object({
   amount: z.coerce.number().positive(),
-  from: z.enum(["usd", "zec"]),
-  to: z.enum(["usd", "zec"]),
+  from: z.enum(PRICE_CURRENCIES),
+  to: z.enum(PRICE_CURRENCIES),
+});
+
+export const priceFeedQuerySchema = z.object({
+  currency: z.enum(FIAT_CURRENCIES).default("usd"),
 });
@@ -1,17 +1,31 @@
-import { revalidateTag } from "next/cache";
-import { NextRequest } from "next/server";
+import { after, NextRequest } from "next/server";
+import { purgeContentCache } from "@/lib/content-cache";
+import { withRateLimit } from "@/lib/rate-limit";
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   const secret = request.nextUrl.searchParams.get("secret");
 
   if (secret !== process.env.REVALIDATE_SECRET) {
     return new Response("Invalid secret", { status: 401 });
   }
 
-  await revalidateTag("github-content", { expire: 0 });
+  purgeContentCache();
+
+  // `?ingest=1` also re-syncs the AI assistant's embeddings once the response is sent
+  const ingest = request.nextUrl.searchParams.get("ingest") === "1";
+  if (ingest) {
+    after(async () => {
+      const { ingestWikiDocs } = await import("@/lib/ai/ingest");
+      await ingestWikiDocs().catch((err) => console.error("[ingest] failed:", err));
+    });
+  }
 
   return Response.json({ 
     success: true, 
-    message: "All markdown cache cleared!" 
+    message: ingest
+      ? "All markdown cache cleared! Embedding ingestion started."
+      : "All markdown cache cleared!",
   });
 }
+
+export const GET = withRateLimit("revalidate", handleGet);
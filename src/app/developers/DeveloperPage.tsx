@@ -2,6 +2,7 @@
 import React, { useState } from "react";
 import { useLanguage } from "@/context/LanguageContext";
 import { genMetadata } from "@/lib/helpers";
+import { METRICS } from "@/lib/metrics/catalog";
 import { Metadata } from "next";
 
 export const metadata: Metadata = genMetadata({
@@ -534,6 +535,54 @@ export default function DeveloperPage() {
         </div>
       </section>
 
+      {/* Dashboard Data API Section */}
+      <section id="dashboardDataApi" className="bg-white dark:bg-gray-800 py-12">
+        <div className="container mx-auto px-4">
+          <h2 className="text-4xl font-bold mb-6">Dashboard Data API</h2>
+          <p className="text-gray-600 dark:text-gray-300 mb-4">
+            Every dataset behind the dashboard charts can be read as JSON or
+            CSV from <code>/api/metrics/v1/&#123;dataset&#125;</code>, and{" "}
+            <a href="/api/metrics/v1" className="text-blue-500 hover:underline">
+              /api/metrics/v1
+            </a>{" "}
+            lists them. The API is read-only, open to any origin, cached for
+            five minutes and limited to 60 requests a minute per client. Rows
+            come oldest first with the same columns as the dashboard&apos;s own
+            files; block-height rows get an estimated <code>date</code>.
+          </p>
+
+          <h3 className="text-2xl font-semibold mb-3">Query parameters</h3>
+          <ul className="list-disc pl-6 space-y-1 text-gray-600 dark:text-gray-300 mb-4">
+            <li>
+              <code>from</code>, <code>to</code>: inclusive{" "}
+              <code>YYYY-MM-DD</code> bounds
+            </li>
+            <li>
+              <code>interval</code>: <code>day</code>, <code>week</code>,{" "}
+              <code>month</code> or <code>year</code>, keeping the last row of
+              each period
+            </li>
+            <li>
+              <code>format</code>: <code>json</code> (the default) or{" "}
+              <code>csv</code>
+            </li>
+          </ul>
+          <pre className="bg-gray-100 dark:bg-gray-900 rounded-md p-4 text-sm overflow-x-auto mb-6">
+            curl
+            &quot;https://zechub.wiki/api/metrics/v1/shieldedSupply?from=2024-01-01&amp;interval=month&amp;format=csv&quot;
+          </pre>
+
+          <h3 className="text-2xl font-semibold mb-3">Datasets</h3>
+          <ul className="space-y-1 text-gray-600 dark:text-gray-300">
+            {Object.entries(METRICS).map(([name, metric]) => (
+              <li key={name}>
+                <code>{name}</code>: {metric.description}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </section>
+
       {/* Feedback Section */}
       <section
         id="feedback"
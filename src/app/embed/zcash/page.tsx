@@ -23,7 +23,9 @@ import NodeCountChart from "@/components/Charts/Zcash/NodeCountChart";
 import TransactionsSummaryChart from "@/components/Charts/Zcash/TransactionSummaryChart";
 import PrivacySetVisualizationChart from "@/components/Charts/Zcash/PrivacySetVisualizationChart";
 import ChartFooter from "@/components/Charts/ChartFooter";
+import { HalvingMeter } from "@/components/HalvingMeter/halving-meter";
 import useExportDashboardAsPNG from "@/hooks/useExportDashboardAsPNG";
+import { ChartExportProvider } from "@/context/ChartExportContext";
 import { DATA_URL } from "@/lib/chart/data-url";
 import { getLastUpdatedDate } from "@/lib/chart/helpers";
 import "../../../components/Charts/index.css";
@@ -67,6 +69,7 @@ function ZcashEmbedContent() {
     "Node Count",
     "Tx Summary",
     "Privacy Set",
+    "Halving Meter",
   ];
 
   useEffect(() => {
@@ -209,6 +212,12 @@ function ZcashEmbedContent() {
                   <PrivacySetVisualizationChart chartRef={divChartRef} />
                 </TabsContent>
 
+                <TabsContent value="halving meter" activeTab={activeTab}>
+                  {activeTab === "halving meter" && (
+                    <HalvingMeter chartRef={divChartRef} />
+                  )}
+                </TabsContent>
+
                 {!hideControls && (
                   <ChartFooter
                     imgLabel={activeTab}
@@ -238,7 +247,9 @@ export default function ZcashEmbedPage() {
         </div>
       }
     >
-      <ZcashEmbedContent />
+      <ChartExportProvider>
+        <ZcashEmbedContent />
+      </ChartExportProvider>
     </Suspense>
   );
 }
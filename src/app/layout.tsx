@@ -1,12 +1,14 @@
 import { Footer, Navigation } from "@/components";
 import ProgressBar from "@/components/UI/ProgressBar";
 import { DarkModeProvider } from "@/provider/DarkModeProvider";
+import { QueryProvider } from "@/provider/QueryProvider";
 import { LanguageProvider } from "@/context/LanguageContext";
 import { Metadata } from "next";
 import { Inter } from "next/font/google";
 import FloatingExplore from "@/components/FloatingExplore";
 import "./globals.css";
 import NavigationWrapper from "@/components/NavigationWrapper";
+import ServiceWorkerRegistration from "@/components/Offline/ServiceWorkerRegistration";
 import { ThemeProvider } from "next-themes";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -35,26 +37,6 @@ export default async function RootLayout({
   return (
     <html lang="en-US" suppressHydrationWarning>
       <head>
-        <style>{`
-          .goog-te-banner-frame,
-          .goog-te-balloon-frame,
-          iframe.goog-te-banner-frame,
-          #goog-gt-tt,
-          .goog-tooltip,
-          div.skiptranslate:not(#google_translate_element) {
-            display: none !important;
-            visibility: hidden !important;
-          }
-          body {
-            top: 0 !important;
-            position: static !important;
-          }
-          .goog-text-highlight {
-            background: none !important;
-            box-shadow: none !important;
-          }
-        `}</style>
-
         {/* Manual RSS link as backup for better feed detection (Brave, Feedly, etc.) */}
         <link
           rel="alternate"
@@ -64,17 +46,6 @@ export default async function RootLayout({
         />
       </head>
       <body className={`px-0 ${inter.className} dark:bg-slate-900 dark:text-white`}>
-        {/* Hidden Google Translate mount — must be inside <body> */}
-        <div
-          id="google_translate_element"
-          style={{
-            position: "absolute",
-            top: -9999,
-            left: -9999,
-            width: 300,
-            height: 60,
-          }}
-        />
         <ThemeProvider
           attribute="class"
           defaultTheme="dark"
@@ -84,10 +55,13 @@ export default async function RootLayout({
         >
           <LanguageProvider>
             <DarkModeProvider>
-              <NavigationWrapper>{children}</NavigationWrapper>
+              <QueryProvider>
+                <NavigationWrapper>{children}</NavigationWrapper>
+              </QueryProvider>
             </DarkModeProvider>
           </LanguageProvider>
         </ThemeProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
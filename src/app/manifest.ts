@@ -0,0 +1,17 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "ZecHub Wiki",
+    short_name: "ZecHub",
+    description: "An open source education hub for Zcash",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#0f172a",
+    theme_color: "#F4B728",
+    icons: [
+      { src: "/ZecHubBlue.png", sizes: "4500x4500", type: "image/png", purpose: "any" },
+    ],
+  };
+}
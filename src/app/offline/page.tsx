@@ -0,0 +1,28 @@
+import OfflineLibrary from "@/components/Offline/OfflineLibrary";
+import { Metadata } from "next";
+import { Suspense } from "react";
+
+// Precached by the service worker, so it must not depend on the request
+export const dynamic = "force-static";
+
+export const metadata: Metadata = {
+  title: "Offline Library | ZecHub",
+  description: "Wiki articles saved on this device for reading without a connection.",
+};
+
+export default function OfflinePage() {
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12 space-y-8">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Offline Library</h1>
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">
+          Articles saved on this device can be read without a connection. They are updated
+          automatically when you are back online.
+        </p>
+      </div>
+      <Suspense fallback={null}>
+        <OfflineLibrary />
+      </Suspense>
+    </div>
+  );
+}
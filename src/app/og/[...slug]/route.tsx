@@ -0,0 +1,122 @@
+import { WIKI_BASE_URL, getWikiPageBySlug } from "@/lib/wikiPages";
+import { ImageResponse } from "next/og";
+
+// Rendered once per page and rebuilt when the push webhook or `/api/revalidate` invalidates its pages
+export const revalidate = 86400;
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const COVER_TIMEOUT_MS = 4000;
+const MAX_COVER_BYTES = 2 * 1024 * 1024;
+
+/**
+ * The cover as a data URL, or `null` when it cannot be embedded. Only formats
+ * the renderer decodes are kept; a broken cover must not break the card.
+ */
+async function loadCover(src: string): Promise<string | null> {
+  try {
+    const res = await fetch(new URL(src, WIKI_BASE_URL), {
+      signal: AbortSignal.timeout(COVER_TIMEOUT_MS),
+    });
+    const type = res.headers.get("content-type") ?? "";
+    if (!res.ok || !/^image\/(png|jpe?g|gif)$/.test(type)) return null;
+
+    const bytes = await res.arrayBuffer();
+    if (bytes.byteLength > MAX_COVER_BYTES) return null;
+
+    return `data:${type};base64,${Buffer.from(bytes).toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
+
+function sectionLabel(segment: string): string {
+  return segment
+    .split("-")
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ slug: string[] }> },
+) {
+  const { slug } = await params;
+  const page = await getWikiPageBySlug(slug).catch(() => null);
+  if (!page) return new Response("Not found", { status: 404 });
+
+  const title = page.title || sectionLabel(slug[slug.length - 1]);
+  const cover = page.image ? await loadCover(page.image) : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          background: "#0f1720",
+          color: "#ffffff",
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div
+          style={{
+            flex: 1,
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            padding: "64px",
+          }}
+        >
+          <div style={{ display: "flex", fontSize: 28, color: "#F4B728", fontWeight: 700 }}>
+            ZecHub Wiki · {sectionLabel(slug[0])}
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: "24px" }}>
+            <div style={{ display: "flex", fontSize: title.length > 48 ? 52 : 64, fontWeight: 800, lineHeight: 1.1 }}>
+              {title}
+            </div>
+            {page.description ? (
+              <div style={{ display: "flex", fontSize: 28, color: "#a8b3c2", lineHeight: 1.4 }}>
+                {page.description}
+              </div>
+            ) : null}
+          </div>
+          <div style={{ display: "flex", gap: "12px", fontSize: 22, color: "#5a6a7e" }}>
+            {page.tags.length > 0
+              ? page.tags.slice(0, 4).map((tag) => (
+                  <div
+                    key={tag}
+                    style={{
+                      display: "flex",
+                      padding: "6px 16px",
+                      borderRadius: "999px",
+                      border: "1px solid #243040",
+                      color: "#cbd5e1",
+                    }}
+                  >
+                    {tag}
+                  </div>
+                ))
+              : `zechub.wiki/${slug.join("/")}`}
+          </div>
+        </div>
+        {cover ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={cover}
+            alt=""
+            width={WIDTH * 0.4}
+            height={HEIGHT}
+            style={{ objectFit: "cover" }}
+          />
+        ) : null}
+      </div>
+    ),
+    {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { "Cache-Control": "public, max-age=3600, stale-while-revalidate=86400" },
+    },
+  );
+}
@@ -0,0 +1,23 @@
+import { readdir } from "fs/promises";
+import { NextResponse } from "next/server";
+import path from "path";
+
+// Read once at build time; the service worker fetches it when it installs
+export const dynamic = "force-static";
+
+/** Pages the service worker keeps so the site opens without a connection */
+const SHELL_URLS = ["/", "/offline", "/manifest.webmanifest", "/ZecHubBlue.png", "/wiki-banner.avif"];
+/** Chart datasets, served from `public/` */
+const DATA_DIR = "data/zcash";
+
+export async function GET() {
+  const files = await readdir(path.join(process.cwd(), "public", DATA_DIR)).catch((err) => {
+    console.error(`[precache] could not list public/${DATA_DIR}:`, err);
+    return [] as string[];
+  });
+
+  return NextResponse.json({
+    shell: SHELL_URLS,
+    data: files.filter((file) => file.endsWith(".json")).sort().map((file) => `/${DATA_DIR}/${file}`),
+  });
+}
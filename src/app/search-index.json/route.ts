@@ -0,0 +1,32 @@
+import { parseFrontMatter } from "@/lib/frontMatter";
+import { getAllWikiPages, wikiPathToTitle } from "@/lib/wikiPages";
+import { buildWikiSearchIndex } from "@/lib/wikiSearchIndex";
+import { NextResponse } from "next/server";
+
+// Built at build time and rebuilt when the push webhook or `/api/revalidate` invalidates its pages
+export const dynamic = "force-static";
+export const revalidate = 86400;
+
+export async function GET() {
+  const pages = await getAllWikiPages();
+
+  const index = buildWikiSearchIndex(
+    pages.flatMap(({ path, slug, markdown }) => {
+      if (markdown === null) return [];
+
+      const { frontMatter, body } = parseFrontMatter(markdown);
+      return [
+        {
+          url: `/${slug}`,
+          title: frontMatter.title,
+          fallbackTitle: wikiPathToTitle(path),
+          markdown: body,
+        },
+      ];
+    }),
+  );
+
+  return NextResponse.json(index, {
+    headers: { "Cache-Control": "public, max-age=300, stale-while-revalidate=86400" },
+  });
+}
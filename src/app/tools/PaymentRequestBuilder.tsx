@@ -1,5 +1,15 @@
 "use client";
 
+import { FIAT_CURRENCIES } from "@/lib/payment-request-uri/price/currencies";
+import {
+  formatIssue,
+  formatZecAmount,
+  isShieldedAddress,
+  MAX_MEMO_BYTES,
+  memoByteLength,
+  serializeZip321Uri,
+  Zip321Error,
+} from "@/lib/payment-request-uri/zip321";
 import { QRCodeSVG } from "qrcode.react";
 import {
   useCallback,
@@ -9,9 +19,10 @@ import {
   useRef,
   useState,
 } from "react";
-import { detectZcashNetwork, encodeMemo, type ZcashNetwork } from "./helper";
+import { detectZcashNetwork, fetchZecPrice, type ZcashNetwork } from "./helper";
 import { useWasm } from "./hooks/useWasm";
 import WasmInitStatus from "./WasmInitStatus";
+import { config } from "./zcash-payment-widget/config";
 
 function QRCode({ value, size = 176 }: { value: string; size?: number }) {
   return (
@@ -31,6 +42,8 @@ const INPUT_CLASS = [
   "text-zinc-900 dark:text-white placeholder-zinc-300 dark:placeholder-[#2d3e50]",
 ].join(" ");
 
+const PRICE_FEED_URL = `${config.env.NEXT_PUBLIC_WIDGET_API_BASE_URL}/payment-request-uri/zcash-price-feed`;
+
 const LABEL_CLASS =
   "block text-[11px] font-semibold uppercase tracking-[0.1em] text-zinc-400 dark:text-[#5a6a7e] mb-1.5 ml-1";
 
@@ -47,6 +60,11 @@ type Payment = {
   label: string;
   message: string;
   memo: string;
+  /** Optional fiat price the ZEC amount is quoted from */
+  fiatAmount: string;
+  fiatCurrency: string;
+  /** Why the last fiat quote for this payment failed */
+  quoteError?: string;
   validation: ValidationState;
 };
 
@@ -77,6 +95,8 @@ export default function PaymentRequestBuilder() {
       label: "",
       message: "",
       memo: "",
+      fiatAmount: "",
+      fiatCurrency: "usd",
       validation: { status: "idle" },
     },
   ]);
@@ -169,33 +189,26 @@ export default function PaymentRequestBuilder() {
     payments.length > 0 &&
     payments.every((p) => p.validation.status === "valid");
 
-  const uri = useMemo(() => {
-    if (!allValid) return null;
-
-    const parts: string[] = [];
-
-    payments.forEach((p, i) => {
-      const idx = i === 0 ? "" : `.${i}`;
-
-      parts.push(`address${idx}=${p.address}`);
-      if (p.amount) parts.push(`amount${idx}=${p.amount}`);
-      if (p.label) parts.push(`label${idx}=${encodeURIComponent(p.label)}`);
-      if (p.message)
-        parts.push(`message${idx}=${encodeURIComponent(p.message)}`);
-
-      const isShielded =
-        p.address.startsWith("zs") ||
-        p.address.startsWith("u1") ||
-        p.address.startsWith("utest1");
-
-      if (p.memo && isShielded) {
-        const m = encodeMemo(p.memo);
-
-        if (m) parts.push(`memo${idx}=${m}`);
-      }
-    });
-
-    return `zcash:?${parts.join("&")}`;
+  const { uri, issues } = useMemo(() => {
+    if (!allValid) return { uri: null, issues: [] };
+
+    try {
+      const uri = serializeZip321Uri(
+        payments.map((p) => ({
+          address: p.address,
+          amount: p.amount,
+          label: p.label,
+          message: p.message,
+          // the memo field is hidden for transparent recipients
+          memo: isShieldedAddress(p.address) ? p.memo : undefined,
+        })),
+      );
+
+      return { uri, issues: [] };
+    } catch (err) {
+      if (err instanceof Zip321Error) return { uri: null, issues: err.issues };
+      throw err;
+    }
   }, [payments, allValid]);
 
   const deferredURI = useDeferredValue(uri);
@@ -209,6 +222,27 @@ export default function PaymentRequestBuilder() {
     });
   };
 
+  const setQuoteError = (i: number, quoteError?: string) => {
+    setPayments((prev) => prev.map((p, idx) => (idx === i ? { ...p, quoteError } : p)));
+  };
+
+  const quoteFromFiat = async (i: number) => {
+    const { fiatAmount, fiatCurrency } = payments[i];
+    if (!(parseFloat(fiatAmount) > 0)) return;
+
+    setQuoteError(i);
+    try {
+      const res = await fetchZecPrice(PRICE_FEED_URL, fiatAmount, fiatCurrency);
+      const body = await res.json();
+
+      if (!res.ok) throw new Error(body.error ?? "Price conversion failed");
+
+      updatePayment(i, "amount", formatZecAmount(body.data.amount));
+    } catch (err) {
+      setQuoteError(i, err instanceof Error ? err.message : "Price conversion failed");
+    }
+  };
+
   const updatePayment = (i: number, field: keyof Payment, value: string) => {
     setPayments((prev) => {
       const next = [...prev];
@@ -227,6 +261,8 @@ export default function PaymentRequestBuilder() {
           label: "",
           message: "",
           memo: "",
+          fiatAmount: "",
+          fiatCurrency: "usd",
           validation: { status: "idle" },
         },
       ];
@@ -265,10 +301,7 @@ export default function PaymentRequestBuilder() {
           const v = p.validation;
 
           const isValid = p.validation.status === "valid";
-          const isShielded =
-            p.address.startsWith("zs") ||
-            p.address.startsWith("u1") ||
-            p.address.startsWith("utest1");
+          const isShielded = isShieldedAddress(p.address);
 
           return (
             <div
@@ -384,6 +417,50 @@ export default function PaymentRequestBuilder() {
                     </div>
                   </div>
 
+                  {/* Fiat quote */}
+                  <div>
+                    <label className={LABEL_CLASS}>Quote amount from fiat</label>
+                    <div className="grid grid-cols-[1fr_96px_auto] gap-2">
+                      <input
+                        disabled={!isValid}
+                        type="number"
+                        value={p.fiatAmount}
+                        onChange={(e) =>
+                          updatePayment(i, "fiatAmount", e.target.value)
+                        }
+                        placeholder="0.00"
+                        className={INPUT_CLASS}
+                        step="any"
+                        min="0"
+                      />
+                      <select
+                        disabled={!isValid}
+                        value={p.fiatCurrency}
+                        onChange={(e) =>
+                          updatePayment(i, "fiatCurrency", e.target.value)
+                        }
+                        className={INPUT_CLASS}
+                      >
+                        {FIAT_CURRENCIES.map((c) => (
+                          <option key={c} value={c}>
+                            {c.toUpperCase()}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        disabled={!isValid || !(parseFloat(p.fiatAmount) > 0)}
+                        onClick={() => quoteFromFiat(i)}
+                        className="px-4 rounded-xl text-sm font-semibold border border-[#F4B728]/30 text-[#F4B728] disabled:opacity-50 cursor-pointer disabled:cursor-not-allowed"
+                      >
+                        → ZEC
+                      </button>
+                    </div>
+                    {p.quoteError && (
+                      <p className="mt-1 ml-1 text-[11px] text-red-400">{p.quoteError}</p>
+                    )}
+                  </div>
+
                   {/* Message */}
                   <div>
                     <label className={LABEL_CLASS}>Message (public note)</label>
@@ -414,7 +491,8 @@ export default function PaymentRequestBuilder() {
                         className={`${INPUT_CLASS} resize-y font-mono text-sm min-h-[72px]`}
                       />
                       <p className="mt-1 ml-1 text-[10px] font-mono text-[#3d4e60]">
-                        Encoded as base64url per ZIP-321
+                        Encoded as base64url per ZIP-321 ·{" "}
+                        {memoByteLength(p.memo)}/{MAX_MEMO_BYTES} bytes
                       </p>
                     </div>
                   )}
@@ -463,6 +541,16 @@ export default function PaymentRequestBuilder() {
           </div>
         </div>
 
+        {issues.length > 0 && (
+          <div className="rounded-xl bg-red-500/5 border border-red-500/15 px-4 py-3 space-y-1">
+            {issues.map((issue, i) => (
+              <p key={i} className="text-[13px] text-red-400 font-medium">
+                {formatIssue(issue)}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* QR */}
         {deferredURI && (
           <div className="flex justify-center pt-1">
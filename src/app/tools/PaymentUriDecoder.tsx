@@ -0,0 +1,150 @@
+"use client";
+
+import {
+  formatIssue,
+  getZcashAddressKind,
+  parseZip321Uri,
+  type Zip321ParsedPayment,
+} from "@/lib/payment-request-uri/zip321";
+import { useDeferredValue, useMemo, useState } from "react";
+import { useWasm } from "./hooks/useWasm";
+import WasmInitStatus from "./WasmInitStatus";
+
+const INPUT_CLASS = [
+  "w-full bg-zinc-50 dark:bg-[#0f1720] border border-zinc-200 dark:border-[#243040]",
+  "focus:border-[#F4B728] focus:ring-2 focus:ring-[#F4B728]/15",
+  "rounded-xl px-4 py-3.5 text-[15px] font-medium outline-none transition-all duration-200",
+  "text-zinc-900 dark:text-white placeholder-zinc-300 dark:placeholder-[#2d3e50]",
+].join(" ");
+
+const LABEL_CLASS =
+  "block text-[11px] font-semibold uppercase tracking-[0.1em] text-zinc-400 dark:text-[#5a6a7e] mb-1.5 ml-1";
+
+const KIND_LABEL: Record<string, string> = {
+  transparent: "◇ Transparent",
+  sapling: "✦ Sapling",
+  unified: "❋ Unified",
+  sprout: "Sprout",
+  unknown: "Unknown",
+};
+
+function Field({ label, value }: { label: string; value?: string }) {
+  if (value === undefined) return null;
+
+  return (
+    <div className="grid grid-cols-[88px_1fr] gap-2 text-[13px]">
+      <span className="text-zinc-400 dark:text-[#5a6a7e] uppercase text-[10px] tracking-widest pt-0.5">
+        {label}
+      </span>
+      <span className="font-mono break-all text-zinc-800 dark:text-zinc-200">
+        {value || "—"}
+      </span>
+    </div>
+  );
+}
+
+function PaymentCard({ payment }: { payment: Zip321ParsedPayment }) {
+  const ok = payment.errors.length === 0;
+  const otherParams = Object.entries(payment.otherParams);
+
+  return (
+    <div
+      className={`rounded-xl border px-4 py-3 space-y-2 ${
+        ok
+          ? "border-zinc-200 dark:border-[#243040]"
+          : "border-red-500/30 bg-red-500/5"
+      }`}
+    >
+      <div className="flex justify-between items-center">
+        <span className={LABEL_CLASS}>
+          Payment {payment.index + 1}
+          {payment.index > 0 && ` · .${payment.index}`}
+        </span>
+        <span className="text-xs">
+          {ok ? "✓" : "⚠"}{" "}
+          {payment.address && KIND_LABEL[getZcashAddressKind(payment.address)]}
+        </span>
+      </div>
+
+      <Field label="Address" value={payment.address} />
+      <Field
+        label="Amount"
+        value={payment.amount !== undefined ? `${payment.amount} ZEC` : undefined}
+      />
+      <Field label="Label" value={payment.label} />
+      <Field label="Message" value={payment.message} />
+      <Field label="Memo" value={payment.memoText ?? payment.memo} />
+      {otherParams.map(([name, value]) => (
+        <Field key={name} label={name} value={value} />
+      ))}
+
+      {payment.errors.map((error, i) => (
+        <p key={i} className="text-[13px] text-red-400 font-medium">
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function PaymentUriDecoder() {
+  const [input, setInput] = useState("");
+  const deferredInput = useDeferredValue(input);
+  const { wasmMmoduleRef, wasmReady } = useWasm();
+
+  const result = useMemo(() => {
+    if (!deferredInput.trim()) return null;
+
+    const mod = wasmReady ? wasmMmoduleRef.current : null;
+    const isValidAddress = mod?.isZcashAddressValid ?? mod?.is_valid_zcash_address;
+
+    return parseZip321Uri(deferredInput, { isValidAddress });
+  }, [deferredInput, wasmReady, wasmMmoduleRef]);
+
+  const uriIssues = result?.issues.filter((issue) => issue.index === null) ?? [];
+
+  return (
+    <div className="w-full space-y-4">
+      <div>
+        <label className={LABEL_CLASS}>Payment URI</label>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="zcash:u1...?amount=1.5&memo=..."
+          rows={4}
+          className={`${INPUT_CLASS} resize-y font-mono text-sm`}
+        />
+      </div>
+
+      {result && (
+        <>
+          <div
+            className={`rounded-xl px-4 py-3 text-[13px] font-semibold ${
+              result.valid
+                ? "bg-emerald-500/5 border border-emerald-500/20 text-emerald-500"
+                : "bg-red-500/5 border border-red-500/15 text-red-400"
+            }`}
+          >
+            {result.valid
+              ? `✓ Valid ZIP-321 request with ${result.payments.length} payment${result.payments.length === 1 ? "" : "s"}`
+              : `⚠ ${result.issues.length} problem${result.issues.length === 1 ? "" : "s"} found`}
+          </div>
+
+          {uriIssues.map((issue, i) => (
+            <p key={i} className="text-[13px] text-red-400 font-medium ml-1">
+              {formatIssue(issue)}
+            </p>
+          ))}
+
+          <div className="space-y-3">
+            {result.payments.map((payment) => (
+              <PaymentCard key={payment.index} payment={payment} />
+            ))}
+          </div>
+        </>
+      )}
+
+      <WasmInitStatus wasmReady={wasmReady} />
+    </div>
+  );
+}
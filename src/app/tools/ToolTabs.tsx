@@ -4,9 +4,15 @@ import ZecToZatsConverter from "@/components/Converter/ZecToZatsConverter";
 import { useState } from "react";
 import AddressDecoder from "./AddressDecoder";
 import PaymentRequestBuilder from "./PaymentRequestBuilder";
+import PaymentUriDecoder from "./PaymentUriDecoder";
 import PaymentRequestWidget from "./zcash-payment-widget/PaymentRequestWidget";
 
-type TabId = "converter" | "payment" | "decoder" | "payment-request-widget";
+type TabId =
+  | "converter"
+  | "payment"
+  | "uri-decoder"
+  | "decoder"
+  | "payment-request-widget";
 
 interface Tab {
   id: TabId;
@@ -42,6 +48,14 @@ const TABS: Tab[] = [
     title: "Payment Request Widget",
     subtitle: "Generate zcash: URIs with QR codes for easy payment requests",
   },
+  {
+    id: "uri-decoder",
+    label: "Decode URI",
+    shortLabel: "URI",
+    badge: "ZIP-321",
+    title: "Payment URI Decoder",
+    subtitle: "Paste a zcash: URI to inspect and validate every payment",
+  },
   {
     id: "decoder",
     label: "Address Decoder",
@@ -117,6 +131,7 @@ export default function ToolTabs() {
           {active === "converter" && <ZecToZatsConverter />}
           {active === "payment" && <PaymentRequestBuilder />}
           {active === "payment-request-widget" && <PaymentRequestWidget />}
+          {active === "uri-decoder" && <PaymentUriDecoder />}
           {active === "decoder" && <AddressDecoder />}
         </div>
       </div>
@@ -1,3 +1,5 @@
+import { encodeZip321Memo } from "@/lib/payment-request-uri/zip321";
+
 export type ZcashNetwork = "mainnet" | "testnet" | "unknown";
 
 export function detectZcashNetwork(addr: string): ZcashNetwork {
@@ -26,8 +28,7 @@ export function detectZcashNetwork(addr: string): ZcashNetwork {
 
 export function encodeMemo(memo: string) {
   try {
-    const b64 = btoa(unescape(encodeURIComponent(memo)));
-    return b64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+    return encodeZip321Memo(memo);
   } catch {
     return undefined;
   }
@@ -49,6 +50,10 @@ export async function fetchZecPrice(
   });
 }
 
+export async function fetchZecRate(url: string, currency: string) {
+  return await fetch(`${url}?currency=${encodeURIComponent(currency)}`);
+}
+
 export async function resolveQRCode(
   url: string,
   address: string,
@@ -1,9 +1,11 @@
 "use client";
 
 import { useCallback, useEffect, useState } from "react";
+import { FIAT_CURRENCIES } from "@/lib/payment-request-uri/price/currencies";
 import {
   detectZcashNetwork,
   fetchZecPrice,
+  fetchZecRate,
   resolveQRCode,
   type ZcashNetwork,
 } from "../helper";
@@ -63,6 +65,8 @@ export default function PaymentRequestWidget() {
   const [priceFeedDataSource, setPriceFeedDataSource] = useState({
     rate: "",
     source: "",
+    currency: "usd",
+    stale: false,
   });
 
   const [payment, setPayment] = useState<Payment>({
@@ -138,11 +142,8 @@ export default function PaymentRequestWidget() {
     setLoading(true);
 
     try {
-      const res = await fetchZecPrice(
-        `${WIDGET_API_BASE_URL}/payment-request-uri/zcash-price-feed`,
-        payment.amount,
-        currency,
-      );
+      const priceFeedUrl = `${WIDGET_API_BASE_URL}/payment-request-uri/zcash-price-feed`;
+      const res = await fetchZecPrice(priceFeedUrl, payment.amount, currency);
 
       if (!res.ok) {
         throw new Error("PriceConversion: Price conversion failed!");
@@ -163,16 +164,26 @@ export default function PaymentRequestWidget() {
 
       const qrData = await qrRes.json();
 
+      // The embed shows an approximate USD value, so it needs the USD quote
+      // even when the merchant priced the payment in another fiat currency
+      let zecUsdRate = data.rate;
+      if (data.currency !== "usd") {
+        const usdRes = await fetchZecRate(priceFeedUrl, "usd");
+        zecUsdRate = usdRes.ok ? (await usdRes.json()).data.rate : undefined;
+      }
+
       setPriceFeedDataSource({
         rate: data.rate,
         source: data.source,
+        currency: data.currency,
+        stale: data.stale,
       });
 
       setGeneratedConfig({
         theme,
         qrData: qrData.data,
         amount: data.amount,
-        zecUsdRate: data.rate,
+        zecUsdRate,
         label: payment.label,
         address: payment.address,
         disabled: data.amount < 0,
@@ -334,8 +345,12 @@ export default function PaymentRequestWidget() {
                   onChange={(e) => setCurrency(e.target.value)}
                   className={`${INPUT_CLASS} disabled:text-slate-600`}
                 >
-                  <option value="usd">USD</option>
                   <option value="zec">ZEC</option>
+                  {FIAT_CURRENCIES.map((c) => (
+                    <option key={c} value={c}>
+                      {c.toUpperCase()}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -372,7 +387,7 @@ export default function PaymentRequestWidget() {
 
           <div className="text-slate-400 text-xs min-h-4">
             {priceFeedDataSource.source
-              ? `Source: ${priceFeedDataSource.source} - ZEC/USD: $${parseFloat(priceFeedDataSource.rate).toFixed(2)}`
+              ? `Source: ${priceFeedDataSource.source} - ZEC/${priceFeedDataSource.currency.toUpperCase()}: ${parseFloat(priceFeedDataSource.rate).toFixed(2)}${priceFeedDataSource.stale ? " (delayed)" : ""}`
               : ""}
           </div>
 
@@ -1,3 +1,4 @@
+import type { WidgetEvent } from "@/lib/payment-request-uri/telemetry/events";
 import { config } from "../../config";
 
 let widgetPromise: Promise<void> | null = null;
@@ -69,16 +70,24 @@ export async function loadZcashPaymentWidget(src: string) {
 
 /**
  * A minimal telemetry hook
- * @param event 
- * @param data 
+ * @param event
+ * @param data logged locally only, the endpoint never stores it
+ * @param apiBase widget API root, defaults to the configured one
  */
-export function logZcashPaymentWidgetEvent(event: string, data?: any) {
+export function logZcashPaymentWidgetEvent(
+  event: WidgetEvent,
+  data?: any,
+  apiBase = config.env.NEXT_PUBLIC_WIDGET_API_BASE_URL,
+) {
   try {
     console.log(`[ZPW] ${event}`, data);
-    fetch(config.ZCASH_PAYMENT_WIDGET_EVENT_ENDPOINT, {
+    fetch(`${apiBase}${config.ZCASH_PAYMENT_WIDGET_EVENT_ENDPOINT}`, {
       method: "POST",
+      // text/plain keeps this a simple CORS request (no preflight)
+      headers: { "Content-Type": "text/plain" },
       body: JSON.stringify({ event, data }),
-    });
+      keepalive: true,
+    }).catch(() => {});
   } catch (err) {
     console.error(`[ZPW Event log]: failed!`, err);
   }
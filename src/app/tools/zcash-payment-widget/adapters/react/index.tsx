@@ -20,13 +20,21 @@ export function ZcashPaymentURI(props: Props) {
     let mounted = true;
 
     async function init() {
-      logZcashPaymentWidgetEvent("zcash_payment_widget_load_start");
+      logZcashPaymentWidgetEvent(
+        "zcash_payment_widget_load_start",
+        undefined,
+        props.apiBase,
+      );
 
       try {
         setStatue("loading");
 
         await loadZcashPaymentWidget(scriptSrc);
-        logZcashPaymentWidgetEvent("zcash_payment_widget_loaded");
+        logZcashPaymentWidgetEvent(
+          "zcash_payment_widget_loaded",
+          undefined,
+          props.apiBase,
+        );
 
         if (!mounted || !window.renderZcashButton) return;
 
@@ -45,9 +53,11 @@ export function ZcashPaymentURI(props: Props) {
       } catch (err: any) {
         console.error("[Zcash Payment Widget] Loading failed:", err);
 
-        logZcashPaymentWidgetEvent("zcash_payment_widget_load_failed", {
-          error: err.message,
-        });
+        logZcashPaymentWidgetEvent(
+          "zcash_payment_widget_load_failed",
+          { error: err.message },
+          props.apiBase,
+        );
 
         if (mounted) setStatue("error");
       }
@@ -1,6 +1,9 @@
+import { WIDGET_TELEMETRY_PATH } from "@/lib/payment-request-uri/telemetry/events";
+
 export const config = {
   ZCASH_PAYMENT_WIDGET_TARGET: "#zcash-payment-widget-target",
-  ZCASH_PAYMENT_WIDGET_EVENT_ENDPOINT: "/api/payment-request-uri",
+  // Relative to `apiBase`
+  ZCASH_PAYMENT_WIDGET_EVENT_ENDPOINT: WIDGET_TELEMETRY_PATH,
   env: {
     ACCESS_CONTROL_ALLOW_ORIGIN: String(
       process.env.ACCESS_CONTROL_ALLOW_ORIGIN,
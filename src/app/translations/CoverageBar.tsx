@@ -0,0 +1,7 @@
+export default function CoverageBar({ percent }: { percent: number }) {
+  return (
+    <div className="h-2 w-full rounded-full bg-zinc-100 dark:bg-[#1e2d3d] overflow-hidden">
+      <div className="h-full rounded-full bg-[#F4B728]" style={{ width: `${percent}%` }} />
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { i18n } from "@/i18n/config";
+import { getLanguage, isLocale } from "@/i18n/routing";
+import {
+  analyzeLocaleCoverage,
+  DEFAULT_DICTIONARY_LOCALE,
+  DICTIONARIES_SOURCE_URL,
+  flattenDictionary,
+  loadDictionaries,
+} from "@/lib/dictionary-coverage";
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import CoverageBar from "../CoverageBar";
+
+export const dynamic = "force-static";
+export const dynamicParams = false;
+
+type Props = { params: Promise<{ locale: string }> };
+
+export function generateStaticParams() {
+  return i18n.locales
+    .filter((locale) => locale !== DEFAULT_DICTIONARY_LOCALE)
+    .map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { locale } = await params;
+  return {
+    title: `${getLanguage(locale).label} Translation Coverage | ZecHub`,
+    description: `Interface strings of the ZecHub Wiki still to be translated into ${getLanguage(locale).label}.`,
+  };
+}
+
+function StatCard({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-xl border border-zinc-200 dark:border-[#243040] bg-white dark:bg-[#151e29] px-4 py-3">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.1em] text-zinc-400 dark:text-[#5a6a7e]">
+        {label}
+      </p>
+      <p className="mt-1 text-2xl font-bold text-zinc-900 dark:text-white">{value}</p>
+    </div>
+  );
+}
+
+function KeyTable({
+  title,
+  description,
+  keys,
+  values,
+}: {
+  title: string;
+  description: string;
+  keys: string[];
+  values: Map<string, unknown>;
+}) {
+  if (keys.length === 0) return null;
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+          {title} ({keys.length})
+        </h2>
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">{description}</p>
+      </div>
+      <div className="overflow-x-auto rounded-xl border border-zinc-200 dark:border-[#243040]">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 dark:bg-[#0f1720] text-left">
+            <tr>
+              <th className="px-3 py-2 font-semibold">Key</th>
+              <th className="px-3 py-2 font-semibold">English</th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => (
+              <tr key={key} className="border-t border-zinc-100 dark:border-[#1e2d3d] align-top">
+                <td className="px-3 py-2 font-mono text-xs break-all">{key}</td>
+                <td className="px-3 py-2">
+                  {values.has(key) ? JSON.stringify(values.get(key)).replace(/^"|"$/g, "") : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+export default async function LocaleTranslationsPage({ params }: Props) {
+  const { locale } = await params;
+  if (!isLocale(locale) || locale === DEFAULT_DICTIONARY_LOCALE) return notFound();
+
+  const dictionaries = await loadDictionaries();
+  const english = dictionaries[DEFAULT_DICTIONARY_LOCALE] ?? {};
+  const coverage = analyzeLocaleCoverage(locale, english, dictionaries[locale] ?? null);
+  const englishValues = flattenDictionary(english);
+  const language = getLanguage(locale);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12 space-y-10">
+      <div className="space-y-3">
+        <Link href="/translations" className="text-sm underline">
+          All languages
+        </Link>
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">
+          {language.flag} {language.label} ({language.nativeLabel})
+        </h1>
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">
+          {coverage.hasDictionary ? (
+            <>
+              Edit{" "}
+              <a
+                href={`${DICTIONARIES_SOURCE_URL}/${locale}.json`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline"
+              >
+                dictionaries/{locale}.json
+              </a>{" "}
+              and add the strings below to improve this translation.
+            </>
+          ) : (
+            <>
+              There is no dictionary for this language yet; every string is shown in English. Start
+              one by copying{" "}
+              <a href={`${DICTIONARIES_SOURCE_URL}/en.json`} target="_blank" rel="noopener noreferrer" className="underline">
+                dictionaries/en.json
+              </a>{" "}
+              to <code>dictionaries/{locale}.json</code>.
+            </>
+          )}
+        </p>
+        <CoverageBar percent={coverage.percent} />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatCard label="Translated" value={`${coverage.percent}%`} />
+        <StatCard label="Missing" value={coverage.missing.length} />
+        <StatCard label="Same as English" value={coverage.identical.length} />
+        <StatCard label="Not in English" value={coverage.extra.length} />
+      </div>
+
+      {coverage.hasDictionary ? (
+        <>
+          <KeyTable
+            title="Missing"
+            description="Keys the dictionary does not define. They are shown in English."
+            keys={coverage.missing}
+            values={englishValues}
+          />
+          <KeyTable
+            title="Same as English"
+            description="Keys whose value is identical to English. Often copied over untranslated, sometimes correct as is (names, brands)."
+            keys={coverage.identical}
+            values={englishValues}
+          />
+          <KeyTable
+            title="Not in English"
+            description="Keys English no longer defines. They are never shown and can be removed."
+            keys={coverage.extra}
+            values={englishValues}
+          />
+        </>
+      ) : null}
+    </div>
+  );
+}
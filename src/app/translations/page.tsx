@@ -0,0 +1,72 @@
+import { i18n } from "@/i18n/config";
+import { getLanguage } from "@/i18n/routing";
+import { DICTIONARIES_SOURCE_URL, loadLocaleCoverage } from "@/lib/dictionary-coverage";
+import { Metadata } from "next";
+import Link from "next/link";
+import CoverageBar from "./CoverageBar";
+
+export const dynamic = "force-static";
+
+export const metadata: Metadata = {
+  title: "Translation Coverage | ZecHub",
+  description: "How much of the ZecHub Wiki interface is translated into each language, and what is left to do.",
+};
+
+export default async function TranslationsPage() {
+  const coverage = (await loadLocaleCoverage(i18n.locales)).sort((a, b) => b.percent - a.percent);
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12 space-y-10">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Translation Coverage</h1>
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">
+          Share of the {coverage[0]?.total ?? 0} interface strings in <code>dictionaries/en.json</code>{" "}
+          that each language translates. Missing strings are shown in English. Translations are
+          contributed as pull requests to the{" "}
+          <a href={DICTIONARIES_SOURCE_URL} target="_blank" rel="noopener noreferrer" className="underline">
+            dictionary files
+          </a>
+          .
+        </p>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-zinc-200 dark:border-[#243040]">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 dark:bg-[#0f1720] text-left">
+            <tr>
+              <th className="px-3 py-2 font-semibold">Language</th>
+              <th className="px-3 py-2 font-semibold w-1/3">Translated</th>
+              <th className="px-3 py-2 font-semibold text-right">Missing</th>
+              <th className="px-3 py-2 font-semibold text-right">Same as English</th>
+            </tr>
+          </thead>
+          <tbody>
+            {coverage.map((locale) => {
+              const language = getLanguage(locale.locale);
+              return (
+                <tr key={locale.locale} className="border-t border-zinc-100 dark:border-[#1e2d3d]">
+                  <td className="px-3 py-2">
+                    <Link href={`/translations/${locale.locale}`} className="font-medium hover:underline">
+                      {language.flag} {language.label}
+                    </Link>{" "}
+                    <span className="text-zinc-400 dark:text-[#5a6a7e]">({locale.locale})</span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-3">
+                      <CoverageBar percent={locale.percent} />
+                      <span className="tabular-nums w-14 text-right">{locale.percent}%</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">
+                    {locale.hasDictionary ? locale.missing.length : "No dictionary yet"}
+                  </td>
+                  <td className="px-3 py-2 text-right tabular-nums">{locale.identical.length}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
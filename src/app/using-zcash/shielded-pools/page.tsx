@@ -2,6 +2,7 @@ import MdxContainer from "@/components/MdxContainer";
 import SideMenu from "@/components/SideMenu/SideMenu";
 import { getFileContentCached, getRootCached } from "@/lib/authAndFetch";
 import { genMetadata, getBanner } from "@/lib/helpers";
+import { remarkWikiComponents } from "@/lib/mdx/components";
 import { normalizeMdx } from "@/lib/normalizeMdx";
 import { Metadata } from "next";
 import DynamicComponent from "next/dynamic";
@@ -30,7 +31,9 @@ export default async function Page() {
   const content = markdown ? markdown : "No Data or Wrong file";
 
   // ← This fixes the MDXRemote error
-  const mdxSource = await serialize(normalizeMdx(String(content)), {});
+  const mdxSource = await serialize(normalizeMdx(String(content)), {
+    mdxOptions: { remarkPlugins: [remarkWikiComponents] },
+  });
 
   return (
     <MdxContainer
@@ -0,0 +1,101 @@
+import { resolveShortUrl } from "@/lib/payment-request-uri/short-url";
+import { Metadata } from "next";
+import QRCode from "qrcode";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Zcash Payment Request | ZecHub",
+  description: "Scan the QR code or open the payment request in your Zcash wallet.",
+  robots: { index: false, follow: false },
+};
+
+const ERROR_MESSAGES = {
+  not_found: "This payment link does not exist.",
+  expired: "This payment link has expired. Ask the merchant for a new one.",
+  invalid: "This payment link no longer holds a valid Zcash payment request.",
+} as const;
+
+function describeUri(uri: string) {
+  const url = new URL(uri);
+
+  return {
+    address: decodeURIComponent(url.pathname),
+    amount: url.searchParams.get("amount"),
+    label: url.searchParams.get("label"),
+    message: url.searchParams.get("message"),
+  };
+}
+
+export default async function ShortPaymentLinkPage(props: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await props.params;
+  const result = await resolveShortUrl(id);
+
+  if (result.status !== "ok") {
+    return (
+      <div className="max-w-md mx-auto px-4 py-24 text-center space-y-4">
+        <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">
+          Payment link unavailable
+        </h1>
+        <p className="text-zinc-500 dark:text-[#5a6a7e]">
+          {ERROR_MESSAGES[result.status]}
+        </p>
+      </div>
+    );
+  }
+
+  const { uri, expiresAt } = result.record;
+  const { address, amount, label, message } = describeUri(uri);
+  const qrData = await QRCode.toDataURL(uri, { margin: 1, scale: 6 });
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16 sm:py-24">
+      <div className="rounded-3xl border border-zinc-200 dark:border-[#243040] bg-white dark:bg-[#151e29] p-6 sm:p-8 space-y-6">
+        <div className="text-center space-y-1">
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">
+            {label || "Pay with Zcash"}
+          </h1>
+          {message && (
+            <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">{message}</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl p-4 mx-auto w-fit">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={qrData} alt="Zcash payment QR code" width={220} height={220} />
+        </div>
+
+        {amount && (
+          <p className="text-center text-3xl font-bold text-zinc-900 dark:text-white">
+            <span className="text-[#F4B728]">{amount}</span>{" "}
+            <small className="text-base text-zinc-400">ZEC</small>
+          </p>
+        )}
+
+        <div>
+          <span className="block text-[11px] font-semibold uppercase tracking-[0.1em] text-zinc-400 mb-1.5">
+            Address
+          </span>
+          <p className="font-mono text-xs break-all text-zinc-700 dark:text-zinc-300">
+            {address}
+          </p>
+        </div>
+
+        <a
+          href={uri}
+          className="block w-full text-center py-3.5 px-6 rounded-xl font-semibold text-black bg-linear-to-r from-[#F4B728] to-[#d9a520]"
+        >
+          Open in Wallet
+        </a>
+
+        {expiresAt && (
+          <p className="text-center text-xs text-zinc-400">
+            Link valid until {new Date(expiresAt).toUTCString()}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
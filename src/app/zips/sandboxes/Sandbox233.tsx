@@ -1,5 +1,7 @@
 "use client";
 
+import { useHeightToday } from "@/hooks/useChainSchedule";
+import { BLOCKS_PER_YEAR, MAX_MONEY, blockSubsidy, issuedSupply } from "@/lib/chain-schedule";
 import { useState } from "react";
 import {
   Assumptions,
@@ -47,27 +49,26 @@ const SCENARIOS: Scenario[] = [
   },
 ];
 
-const ISSUED_NOW = 16.8e6;
-const MAX_MONEY = 21_000_000;
-const REMAINING = MAX_MONEY - ISSUED_NOW;
-// Approximate annual issuance at post-NU6 subsidy: 1.5625 ZEC × 420,480 blocks ≈ 657k ZEC/yr
-const ANNUAL_ISSUANCE_NOW = 657_000;
-
 export default function Sandbox233() {
   const [scenarioId, setScenarioId] = useState<ScenarioId>("active");
   const [years, setYears] = useState(10);
   const scenario = SCENARIOS.find((s) => s.id === scenarioId)!;
 
+  const heightNow = useHeightToday();
+  const remaining = MAX_MONEY - issuedSupply(heightNow);
+  // Annual issuance at the current subsidy, e.g. 1.5625 ZEC × 420,480 blocks ≈ 657k ZEC/yr
+  const annualIssuanceNow = blockSubsidy(heightNow) * BLOCKS_PER_YEAR;
+
   // Annual burn = burnPct × current annual issuance (held flat for clarity)
-  const annualBurn = (scenario.burnPctOfIssuance / 100) * ANNUAL_ISSUANCE_NOW;
+  const annualBurn = (scenario.burnPctOfIssuance / 100) * annualIssuanceNow;
 
   const N = 60;
   const xs = Array.from({ length: N }, (_, i) => (i / (N - 1)) * years);
   const cumBurn = xs.map((t) => annualBurn * t);
 
   const finalBurn = cumBurn[N - 1];
-  const burnVsIssuance = (annualBurn / ANNUAL_ISSUANCE_NOW) * 100;
-  const isNetDeflationary = annualBurn > ANNUAL_ISSUANCE_NOW;
+  const burnVsIssuance = (annualBurn / annualIssuanceNow) * 100;
+  const isNetDeflationary = annualBurn > annualIssuanceNow;
 
   return (
     <div className="max-w-[1100px] mx-auto px-4 md:px-9 pt-7 pb-16">
@@ -78,8 +79,8 @@ export default function Sandbox233() {
       <BaselineStrip
         items={[
           { value: "Opt-in", caption: "voluntary mechanism" },
-          { value: "~657k", caption: "ZEC issued per year (current)" },
-          { value: "~4.2M", caption: "ZEC remaining of 21M cap" },
+          { value: `~${Math.round(annualIssuanceNow / 1e3)}k`, caption: "ZEC issued per year (current)" },
+          { value: `~${(remaining / 1e6).toFixed(1)}M`, caption: "ZEC remaining of 21M cap" },
           { value: "0", caption: "automatic protocol burn" },
         ]}
       />
@@ -162,14 +163,14 @@ export default function Sandbox233() {
                     fill: "fill-purple-500/10",
                   },
                   {
-                    values: xs.map(() => ANNUAL_ISSUANCE_NOW),
+                    values: xs.map(() => annualIssuanceNow),
                     color: "stroke-zinc-500 dark:stroke-zinc-400",
                     dashed: true,
                   },
                 ]}
                 xLabel={["now", `+${years} yr`]}
                 yLabel={(v) => fmtZec(v, 0)}
-                domain={{ min: 0, max: Math.max(annualBurn, ANNUAL_ISSUANCE_NOW) * 1.1 }}
+                domain={{ min: 0, max: Math.max(annualBurn, annualIssuanceNow) * 1.1 }}
               />
               <Legend
                 items={[
@@ -185,7 +186,7 @@ export default function Sandbox233() {
                   <strong>This is a scenario tool, not a forecast.</strong> The whole question — how much voluntary burn happens — is unmodelled because user behaviour cannot be predicted.
                 </>,
                 <>
-                  <strong>Scenario calibration:</strong> percentages are fractions of <em>current</em> annual issuance (~657k ZEC/yr). The "Conservative" scenario assumes ~0.5% of issuance is burned; "ETH-comparable" assumes 25%.
+                  <strong>Scenario calibration:</strong> percentages are fractions of <em>current</em> annual issuance (~{Math.round(annualIssuanceNow / 1e3)}k ZEC/yr). The "Conservative" scenario assumes ~0.5% of issuance is burned; "ETH-comparable" assumes 25%.
                 </>,
                 <>
                   <strong>Annual issuance held constant:</strong> we use the current post-NU6 rate. In reality issuance declines over time (under either ZIP 234 or today's halvings), which we don't model here.
@@ -1,5 +1,7 @@
 "use client";
 
+import { useHeightToday } from "@/hooks/useChainSchedule";
+import { BLOCKS_PER_YEAR, MAX_MONEY, blockSubsidy, issuedSupply } from "@/lib/chain-schedule";
 import { useState } from "react";
 import {
   Assumptions,
@@ -16,57 +18,53 @@ import {
   fmtZec,
 } from "./shared";
 
-const BLOCKS_PER_YEAR = 420_480; // 75s blocks
-const HALVING_INTERVAL_BLOCKS = 1_680_000; // ~4 years
-const POST_NU6_SUBSIDY = 1.5625; // ZEC/block (post-NU6 halving)
-const MAX_MONEY = 21_000_000;
-const ISSUED_NOW = 16.8e6;
-const RESERVE_NOW = MAX_MONEY - ISSUED_NOW; // ~4.2M
-
-// Today's halving step-function: subsidy halves every HALVING_INTERVAL_BLOCKS
-function todaySubsidy(blocksFromNow: number): number {
-  // We're already mid-cycle; for projection assume the next halving is one full
-  // interval out, then halve every interval afterwards.
-  const halvingsAhead = Math.floor(blocksFromNow / HALVING_INTERVAL_BLOCKS);
-  return POST_NU6_SUBSIDY / Math.pow(2, halvingsAhead);
-}
-
 // ZIP 234 smoothed issuance: pick decay constant λ so that the ∫₀^∞ subsidy(h) dh
 // approximately equals the remaining money reserve. This matches the ZIP's stated
 // goal of "same long-term issuance schedule, no discontinuities."
 //
 //   subsidy(h) = S₀ · exp(-λ · h)
-//   ∫₀^∞ subsidy(h) dh = S₀ / λ  ≈ RESERVE_NOW
-//   → λ = S₀ / RESERVE_NOW   (per block)
-function smoothedSubsidy(blocksFromNow: number, recycledZec: number): number {
+//   ∫₀^∞ subsidy(h) dh = S₀ / λ  ≈ reserve
+//   → λ = S₀ / reserve   (per block)
+function smoothedSubsidy(
+  blocksFromNow: number,
+  recycledZec: number,
+  subsidyNow: number,
+  reserveNow: number,
+): number {
   // Recycling boosts the effective reserve, slowing decay.
-  const effectiveReserve = RESERVE_NOW + recycledZec;
-  const lambda = POST_NU6_SUBSIDY / effectiveReserve;
-  return POST_NU6_SUBSIDY * Math.exp(-lambda * blocksFromNow);
+  const effectiveReserve = reserveNow + recycledZec;
+  const lambda = subsidyNow / effectiveReserve;
+  return subsidyNow * Math.exp(-lambda * blocksFromNow);
 }
 
 export default function Sandbox234() {
   const [burnRate, setBurnRate] = useState(20_000); // ZEC/year burned (recycled)
   const [years, setYears] = useState(20);
 
+  const heightNow = useHeightToday();
+  const issuedNow = issuedSupply(heightNow);
+  const reserveNow = MAX_MONEY - issuedNow;
+  const subsidyNow = blockSubsidy(heightNow);
+
   // Sample N points over [0, years]
   const N = 80;
   const xsBlocks = Array.from({ length: N }, (_, i) =>
     Math.round((i / (N - 1)) * years * BLOCKS_PER_YEAR)
   );
 
-  const todaySubsidies = xsBlocks.map(todaySubsidy);
+  // Today's schedule: the subsidy halves every 1,680,000 blocks
+  const todaySubsidies = xsBlocks.map((b) => blockSubsidy(heightNow + b));
   // Cumulative recycled ZEC at time t = burnRate × t  (linearised)
   const smoothedSubsidies = xsBlocks.map((b) => {
     const t = b / BLOCKS_PER_YEAR;
     const recycled = burnRate * t;
-    return smoothedSubsidy(b, recycled);
+    return smoothedSubsidy(b, recycled, subsidyNow, reserveNow);
   });
 
   // Cumulative supply curves: integrate via trapezoidal rule, scaled by blocks/year
   function cumulative(subsidies: number[]): number[] {
     const out: number[] = [];
-    let acc = ISSUED_NOW;
+    let acc = issuedNow;
     for (let i = 0; i < subsidies.length; i++) {
       if (i === 0) {
         out.push(acc);
@@ -100,9 +98,9 @@ export default function Sandbox234() {
       <BaselineStrip
         items={[
           { value: "21,000,000", caption: "MAX_MONEY (ZEC)" },
-          { value: "~16.8M", caption: "issued so far" },
-          { value: "~4.2M", caption: "in money reserve" },
-          { value: "1.5625", caption: "ZEC/block (post-NU6)" },
+          { value: `~${(issuedNow / 1e6).toFixed(1)}M`, caption: "issued so far" },
+          { value: `~${(reserveNow / 1e6).toFixed(1)}M`, caption: "in money reserve" },
+          { value: String(subsidyNow), caption: "ZEC/block (current)" },
           { value: "75 s", caption: "block target time" },
         ]}
       />
@@ -207,7 +205,7 @@ export default function Sandbox234() {
                 ]}
                 xLabel={["now", `+${years} yr`]}
                 yLabel={(v) => fmtZec(v, 0)}
-                domain={{ min: ISSUED_NOW, max: MAX_MONEY }}
+                domain={{ min: issuedNow, max: MAX_MONEY }}
               />
               <Legend
                 items={[
@@ -220,7 +218,7 @@ export default function Sandbox234() {
             <Assumptions
               items={[
                 <>
-                  <strong>Today's curve:</strong> step-function halvings every 1,680,000 blocks (~4 years), starting from the post-NU6 subsidy of 1.5625 ZEC/block.
+                  <strong>Today's curve:</strong> step-function halvings every 1,680,000 blocks (~4 years), starting from the current subsidy of {subsidyNow} ZEC/block.
                 </>,
                 <>
                   <strong>ZIP 234 curve:</strong> S(h) = S₀·exp(-λ·h) with λ = S₀ / (reserve + cumulative burn). This integrates to roughly the same total issuance as today's schedule — the spec's stated goal.
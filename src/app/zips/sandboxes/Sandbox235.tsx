@@ -1,5 +1,7 @@
 "use client";
 
+import { useHeightToday } from "@/hooks/useChainSchedule";
+import { issuedSupply } from "@/lib/chain-schedule";
 import { useState } from "react";
 import {
   Assumptions,
@@ -17,7 +19,6 @@ import {
   fmtPct,
 } from "./shared";
 
-const TOTAL_SUPPLY_ZEC = 16.8e6; // ~16.8M ZEC currently issued
 const ZATS_PER_ZEC = 1e8;
 const BURN_FRACTION = 0.6;
 
@@ -26,12 +27,15 @@ export default function Sandbox235() {
   const [actions, setActions] = useState(2); // actions/tx
   const [feePerAction, setFeePerAction] = useState(5000); // zats
 
+  const totalSupplyZec = issuedSupply(useHeightToday());
+  const supplyLabel = `~${(totalSupplyZec / 1e6).toFixed(1)}M`;
+
   const dailyFeesZats = volume * actions * feePerAction;
   const dailyBurnZats = dailyFeesZats * BURN_FRACTION;
   const dailyMinerZats = dailyFeesZats * (1 - BURN_FRACTION);
   const annualBurnZats = dailyBurnZats * 365;
   const annualBurnZec = annualBurnZats / ZATS_PER_ZEC;
-  const burnPctOfSupply = (annualBurnZec / TOTAL_SUPPLY_ZEC) * 100;
+  const burnPctOfSupply = (annualBurnZec / totalSupplyZec) * 100;
 
   // Time-series: daily ZEC removed over 30 days at the chosen scenario
   const dailyBurnZec = dailyBurnZats / ZATS_PER_ZEC;
@@ -45,7 +49,7 @@ export default function Sandbox235() {
 
       <BaselineStrip
         items={[
-          { value: "~16.8M", caption: "ZEC issued (of 21M cap)" },
+          { value: supplyLabel, caption: "ZEC issued (of 21M cap)" },
           { value: "~8,000", caption: "tx/day (14d avg)" },
           { value: "~2", caption: "logical actions/tx (typical)" },
           { value: "5,000 zats", caption: "marginal_fee (ZIP 317)" },
@@ -132,7 +136,7 @@ export default function Sandbox235() {
 
             <ChartCard
               caption="Annualised burn vs total supply"
-              title={`% of ~16.8M ZEC removed per year`}
+              title={`% of ${supplyLabel} ZEC removed per year`}
               now={fmtPct(burnPctOfSupply, 4)}
               delta={
                 burnPctOfSupply > 0.1
@@ -176,7 +180,7 @@ export default function Sandbox235() {
                   <strong>Volume is held constant in time:</strong> we don't model congestion, fee bidding, or feedback effects from the burn itself.
                 </>,
                 <>
-                  <strong>Supply baseline:</strong> ~16.8M ZEC issued (of 21M cap) as of late 2025; % comparisons use this denominator.
+                  <strong>Supply baseline:</strong> {supplyLabel} ZEC issued (of 21M cap) as of today, per the issuance schedule; % comparisons use this denominator.
                 </>,
                 <>
                   <strong>No price effects:</strong> we report ZEC, not USD. The deflationary pressure on price is not modelled.
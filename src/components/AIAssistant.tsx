@@ -8,12 +8,16 @@ import {
   FormEvent,
   KeyboardEvent,
 } from "react";
+import Link from "next/link";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { readSseStream } from "@/lib/ai/sse";
+import type { Citation } from "@/lib/ai/types";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
+  citations?: Citation[];
 }
 
 interface ApiError {
@@ -22,6 +26,8 @@ interface ApiError {
 
 const MAX_MESSAGE_LENGTH = 1000;
 const AI_HISTORY_STORAGE_KEY = "zechub_ai_search_history_v1";
+// Shown in the privacy notice; set it when the server uses a self-hosted model
+const AI_PROCESSED_BY = process.env.NEXT_PUBLIC_AI_PROCESSED_BY || "OpenAI";
 
 const QUICK_QUESTIONS = [
   "What is Zcash?",
@@ -86,6 +92,42 @@ function CopyButton({ text }: { text: string }) {
   );
 }
 
+function SourceCards({ citations }: { citations: Citation[] }) {
+  // One card per page section; several chunks often come from the same one
+  const unique = citations.filter(
+    (c, i) => citations.findIndex((o) => o.href === c.href) === i,
+  );
+
+  return (
+    <div className="mt-2 flex flex-col gap-1.5">
+      <p className="text-[10px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+        Sources
+      </p>
+      {unique.map((c) => (
+        <Link
+          key={c.id}
+          href={c.href}
+          className="group rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs transition-colors hover:border-blue-300 hover:bg-blue-50 dark:border-slate-700 dark:bg-slate-800 dark:hover:border-blue-500/50 dark:hover:bg-slate-700"
+        >
+          <span className="flex items-center justify-between gap-2">
+            <span className="font-medium text-slate-800 group-hover:text-blue-700 dark:text-slate-100 dark:group-hover:text-blue-300">
+              {c.title}
+            </span>
+            <span className="shrink-0 tabular-nums text-[10px] text-slate-400">
+              {Math.round(c.similarity * 100)}%
+            </span>
+          </span>
+          {c.heading && (
+            <span className="mt-0.5 block truncate text-[11px] text-slate-500 dark:text-slate-400">
+              § {c.heading}
+            </span>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
 function MessageBubble({ msg }: { msg: Message }) {
   const isUser = msg.role === "user";
 
@@ -176,6 +218,9 @@ function MessageBubble({ msg }: { msg: Message }) {
             {msg.content}
           </ReactMarkdown>
         </div>
+        {msg.citations && msg.citations.length > 0 && (
+          <SourceCards citations={msg.citations} />
+        )}
         <CopyButton text={msg.content} />
       </div>
     </div>
@@ -224,6 +269,9 @@ export default function AIAssistantPanel({
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLTextAreaElement | null>(null);
   const processedAutoSendNonceRef = useRef<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -279,10 +327,26 @@ export default function AIAssistantPanel({
     setMessages(updatedHistory);
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let received = false;
+
+    // Append to the assistant message being streamed, creating it on the first event
+    const updateReply = (update: (reply: Message) => Message) => {
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        if (received && last?.role === "assistant") {
+          return [...prev.slice(0, -1), update(last)];
+        }
+        return [...prev, update({ role: "assistant", content: "" })];
+      });
+      received = true;
+    };
+
     try {
       const res = await fetch("/api/ai", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
         body: JSON.stringify({
           message: trimmed,
           pageUrl: typeof window !== "undefined" ? window.location.href : undefined,
@@ -291,22 +355,45 @@ export default function AIAssistantPanel({
             content: m.content,
           })),
         }),
+        signal: controller.signal,
       });
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         const data: ApiError = await res.json().catch(() => ({ error: "Unknown error." }));
         throw new Error(data.error ?? `Server error ${res.status}`);
       }
 
-      const data: { answer: string } = await res.json();
-      setMessages((prev) => [...prev, { role: "assistant", content: data.answer }]);
+      let streamError: string | null = null;
+      await readSseStream(res.body, (event) => {
+        switch (event.event) {
+          case "citations":
+            updateReply((reply) => ({ ...reply, citations: event.data.citations }));
+            break;
+          case "delta":
+            updateReply((reply) => ({ ...reply, content: reply.content + event.data.text }));
+            break;
+          case "error":
+            streamError = event.data.error;
+            break;
+        }
+      });
+
+      if (streamError) throw new Error(streamError);
       onAssistantReply?.();
     } catch (err: unknown) {
+      if (controller.signal.aborted) return;
+
       const msg = err instanceof Error ? err.message : "Something went wrong.";
       setError(msg);
-      setMessages((prev) => prev.slice(0, -1));
-      if (!overrideText) setInput(trimmed);
+      // Keep a partially streamed answer, otherwise drop the unanswered question
+      setMessages((prev) => {
+        const last = prev[prev.length - 1];
+        if (last?.role === "assistant" && last.content) return prev;
+        return prev.slice(0, last?.role === "assistant" ? -2 : -1);
+      });
+      if (!overrideText && !received) setInput(trimmed);
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
     }
   }, [autoResize, input, isLoading, messages]);
@@ -334,6 +421,7 @@ export default function AIAssistantPanel({
   }
 
   function clearConversation() {
+    abortRef.current?.abort();
     setMessages([]);
     setError(null);
     setSensitiveWarning(false);
@@ -348,12 +436,13 @@ export default function AIAssistantPanel({
   }
 
   const showQuickQuestions = messages.length === 0 && !isLoading;
+  const isThinking = isLoading && messages[messages.length - 1]?.role !== "assistant";
 
   return (
     <div className="flex h-full min-h-0 flex-col bg-slate-50 dark:bg-slate-900">
       <div className="flex items-center justify-between gap-3 border-b border-slate-200 bg-slate-100 px-4 py-2 dark:border-slate-800 dark:bg-slate-950/50">
         <p className="text-[10px] text-slate-500 leading-tight dark:text-slate-400">
-          Questions are processed by OpenAI. Never share seed phrases, private keys, or wallet addresses.
+          Questions are processed by {AI_PROCESSED_BY}. Never share seed phrases, private keys, or wallet addresses.
         </p>
         {messages.length > 0 && (
           <button
@@ -389,7 +478,7 @@ export default function AIAssistantPanel({
           messages.map((msg, i) => <MessageBubble key={i} msg={msg} />)
         )}
 
-        {isLoading && (
+        {isThinking && (
           <div className="flex justify-start mb-3">
             <div className="flex flex-col gap-1">
               <div className="flex items-center gap-1.5 mb-1">
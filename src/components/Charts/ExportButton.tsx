@@ -1,17 +1,33 @@
 import Button from "@/components/Button/Button";
+import { useSaveChartData } from "@/context/ChartExportContext";
 
 interface ExportButtonProps {
   handleSaveToPng: (imgLabel: string) => void;
   imgLabel: string;
 }
+
+const buttonClassName =
+  "bg-[#1984c7] text-white px-4 py-2 rounded-md  hover:bg-[#1675b1] transition cursor-pointer";
+
 export function ExportButton(props: ExportButtonProps) {
+  const { saveChartData, exportError } = useSaveChartData();
+
   return (
-    <div className="flex justify-between items-center text-sm text-gray-500">
-      <Button
-        text="Export PNG"
-        className="bg-[#1984c7] text-white px-4 py-2 rounded-md  hover:bg-[#1675b1] transition cursor-pointer"
-        onClick={() => props.handleSaveToPng(props.imgLabel)}
-      />
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex justify-between items-center gap-2 text-sm text-gray-500">
+        <Button
+          text="Export PNG"
+          className={buttonClassName}
+          onClick={() => props.handleSaveToPng(props.imgLabel)}
+        />
+        <Button text="CSV" className={buttonClassName} onClick={() => saveChartData("csv")} />
+        <Button text="JSON" className={buttonClassName} onClick={() => saveChartData("json")} />
+      </div>
+      {exportError && (
+        <p role="alert" className="text-xs text-red-600 dark:text-red-400">
+          {exportError}
+        </p>
+      )}
     </div>
   );
 }
@@ -9,7 +9,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/UI/shadcn/select";
-import { DATA_URL } from "@/lib/chart/data-url";
+import { useExportRows } from "@/context/ChartExportContext";
+import { useDataset } from "@/hooks/useDataset";
 import {
   CategoryScale,
   Chart as ChartJS,
@@ -22,8 +23,8 @@ import {
   Tooltip,
 } from "chart.js";
 import "chartjs-adapter-date-fns";
-import { format, parse } from "date-fns";
-import { RefObject, useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { RefObject, useMemo, useState } from "react";
 import { Line } from "react-chartjs-2";
 
 ChartJS.register(
@@ -37,62 +38,19 @@ ChartJS.register(
   TimeScale
 );
 
-interface RewardData {
-  Date: string;
-  Staked_Ratio: string;
-  Annual_Staking_Rewards_Ratio: string;
-  Inflation_Rate: string;
-}
-
 interface RewardChartProps {
   divChartRef: RefObject<HTMLDivElement | null>;
 }
 
 const RewardChart = (props: RewardChartProps) => {
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [namadaRewards, setNamadaRewards] = useState<RewardData[]>([]);
+  const rewards = useDataset("namadaRewards", { refetchInterval: 300000 }); // 5 minutes
+  const loading = rewards.isPending;
+  const error = rewards.error?.message ?? null;
+  const namadaRewards = useMemo(() => rewards.data ?? [], [rewards.data]);
   const [timeRange, setTimeRange] = useState<"7d" | "30d" | "90d" | "all">(
     "90d"
   );
 
-  useEffect(() => {
-    const fetchRewards = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-
-        const response = await fetch(DATA_URL.namadaRewardUrl);
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const data: RewardData[] = await response.json();
-
-        if (!Array.isArray(data)) {
-          throw new Error("Invalid data format");
-        }
-
-        setNamadaRewards(data);
-      } catch (err) {
-        console.error("Fetch error:", err);
-        setError(
-          err instanceof Error ? err.message : "Failed to load reward data"
-        );
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchRewards();
-
-    // Optional: Set up polling for live data
-    const interval = setInterval(fetchRewards, 300000); // 5 minutes
-
-    return () => clearInterval(interval);
-  }, []);
-
   // Filter data based on time range
   // Filter data based on time range
   const filteredData = (() => {
@@ -103,20 +61,19 @@ const RewardChart = (props: RewardChartProps) => {
     cutoffDate.setDate(cutoffDate.getDate() - days);
 
     return namadaRewards.filter((item) => {
-      const itemDate = parse(item.Date, "MM/dd/yyyy", new Date());
+      const itemDate = parseISO(item.Date);
       return itemDate >= cutoffDate;
     });
   })();
+  useExportRows("namada-rewards", rewards.data && filteredData);
 
   // Process data for chart
   const chartData = {
-    labels: filteredData.map((item) =>
-      parse(item.Date, "MM/dd/yyyy", new Date())
-    ),
+    labels: filteredData.map((item) => parseISO(item.Date)),
     datasets: [
       {
         label: "Staked Ratio (%)",
-        data: filteredData.map((item) => parseFloat(item.Staked_Ratio) * 100),
+        data: filteredData.map((item) => item.Staked_Ratio * 100),
         borderColor: "rgb(75, 192, 192)",
         backgroundColor: "rgba(75, 192, 192, 0.2)",
         yAxisID: "y",
@@ -125,7 +82,7 @@ const RewardChart = (props: RewardChartProps) => {
       {
         label: "Annual Staking Rewards (%)",
         data: filteredData.map(
-          (item) => parseFloat(item.Annual_Staking_Rewards_Ratio) * 100
+          (item) => item.Annual_Staking_Rewards_Ratio * 100
         ),
         borderColor: "rgb(54, 162, 235)",
         backgroundColor: "rgba(54, 162, 235, 0.2)",
@@ -133,7 +90,7 @@ const RewardChart = (props: RewardChartProps) => {
       },
       {
         label: "Inflation Rate (%)",
-        data: filteredData.map((item) => parseFloat(item.Inflation_Rate) * 100),
+        data: filteredData.map((item) => item.Inflation_Rate * 100),
         borderColor: "rgb(255, 99, 132)",
         backgroundColor: "rgba(255, 99, 132, 0.2)",
         yAxisID: "y1",
@@ -171,7 +128,7 @@ const RewardChart = (props: RewardChartProps) => {
       x: {
         type: "time" as const,
         time: {
-          parser: "MM/dd/yyyy",
+          parser: "yyyy-MM-dd",
           tooltipFormat: "MMM dd, yyyy",
           unit: timeRange === "7d" ? "day" : "month",
         },
@@ -357,7 +314,7 @@ const RewardChart = (props: RewardChartProps) => {
 
       <div className="flex justify-center gap-6 text-sm my-6 text-slate-600 dark:text-slate-300">
         {[namadaRewards[namadaRewards.length - 1]].map((id, index) => (
-          <div key={id.Date.toString()} className="flex items-center space-x-4">
+          <div key={id.Date} className="flex items-center space-x-4">
             <div className="flex items-center space-x-1">
               <span
                 className="w-3 h-3 inline-block rounded-sm"
@@ -369,19 +326,13 @@ const RewardChart = (props: RewardChartProps) => {
                 {" "}
                 Staked Ratio -{" "}
                 {(
-                  parseFloat(
-                    namadaRewards[namadaRewards.length - 1]?.Staked_Ratio || "0"
-                  ) * 100
+                  id.Staked_Ratio * 100
                 ).toFixed(2)}
                 %{" "}
                 <span className="text-xs text-slate-400">
                   (
                   {format(
-                    parse(
-                      namadaRewards[namadaRewards.length - 1]?.Date || "",
-                      "MM/dd/yyyy",
-                      new Date()
-                    ),
+                    parseISO(id.Date),
                     "PP"
                   )}
                   )
@@ -399,10 +350,7 @@ const RewardChart = (props: RewardChartProps) => {
                 {" "}
                 Annual Rewards -{" "}
                 {(
-                  parseFloat(
-                    namadaRewards[namadaRewards.length - 1]
-                      ?.Annual_Staking_Rewards_Ratio || "0"
-                  ) * 100
+                  id.Annual_Staking_Rewards_Ratio * 100
                 ).toFixed(3)}
                 %
               </p>
@@ -417,10 +365,7 @@ const RewardChart = (props: RewardChartProps) => {
               <p>
                 Inflation -{" "}
                 {(
-                  parseFloat(
-                    namadaRewards[namadaRewards.length - 1]?.Inflation_Rate ||
-                      "0"
-                  ) * 100
+                  id.Inflation_Rate * 100
                 ).toFixed(4)}
                 %
               </p>
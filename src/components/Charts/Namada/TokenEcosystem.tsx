@@ -1,10 +1,4 @@
-import {
-  Dispatch,
-  RefObject,
-  SetStateAction,
-  useEffect,
-  useState,
-} from "react";
+import { Dispatch, RefObject, SetStateAction, useMemo } from "react";
 
 import {
   Card,
@@ -12,11 +6,12 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/UI/shadcn/card";
+import { useExportRows } from "@/context/ChartExportContext";
+import { useDataset } from "@/hooks/useDataset";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { getNamadaSupply } from "@/lib/chart/helpers";
 import { FlattenedTokenData } from "@/lib/chart/types";
 import { Spinner } from "flowbite-react";
+import LoadingError from "../LoadingError";
 import {
   Area,
   AreaChart,
@@ -35,60 +30,26 @@ import {
   SelectValue,
 } from "../../UI/shadcn/select";
 
-type NamadaAsset = {
-  id: string;
-  totalSupply: string;
-  shieldedSupply: string;
-  transparentSupply: string;
-};
-
-type NamadaRawData = {
-  Date: string;
-  Total_Supply: NamadaAsset[];
-  Native_Supply_NAM: string;
-};
-
 type TokenEcosystemProps = {
   divChartRef: RefObject<HTMLDivElement | null>;
   selectedTokenId: string;
   setSelectedTokenId: Dispatch<SetStateAction<string>>;
 };
 export default function TokenEcosystem(props: TokenEcosystemProps) {
-  const [rawData, setRawData] = useState<NamadaRawData[]>([]);
-  const [tokenIds, setTokenIds] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+  const supply = useDataset("namadaSupply");
+  const loading = supply.isPending;
+  const rawData = useMemo(() => supply.data ?? [], [supply.data]);
+  const tokenIds = useMemo(
+    () => (rawData[0]?.Total_Supply ?? []).map((t) => t.id),
+    [rawData]
+  );
 
   const fontSize = useResponsiveFontSize();
 
-  useEffect(() => {
-    const controller = new AbortController();
-
-    async function fetchData() {
-      setLoading(true);
-      try {
-        const data = await getNamadaSupply(
-          DATA_URL.namadaSupplyUrl,
-          controller.signal
-        );
-        setRawData(data || []);
-
-        const firstEntry = data?.[0]?.Total_Supply || [];
-        setTokenIds(firstEntry.map((t: NamadaAsset) => t.id));
-      } catch (err) {
-        console.error("Failed to fetch namada data:", err);
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    fetchData();
-    return () => controller.abort();
-  }, []);
-
   const flattenedData: FlattenedTokenData[] = rawData.map((entry) => {
     const row: FlattenedTokenData = { Date: entry.Date };
     entry.Total_Supply.forEach((token) => {
-      const value = parseFloat(token.totalSupply || "0");
+      const value = token.totalSupply ?? 0;
       row[token.id] = value;
     });
     return row;
@@ -101,6 +62,7 @@ export default function TokenEcosystem(props: TokenEcosystemProps) {
           Date: d.Date,
           [props.selectedTokenId]: d[props.selectedTokenId],
         }));
+  useExportRows("namada-supply", supply.data && chartData);
 
   const activeTokenIds =
     props.selectedTokenId === "all" ? tokenIds : [props.selectedTokenId];
@@ -149,6 +111,10 @@ export default function TokenEcosystem(props: TokenEcosystemProps) {
               <div className="flex justify-center items-center h-full">
                 <Spinner />
               </div>
+            ) : supply.error ? (
+              <div className="flex justify-center items-center h-full">
+                <LoadingError message={supply.error.message} />
+              </div>
             ) : (
               <AreaChart data={chartData}>
                 <defs>
@@ -11,9 +11,7 @@ import {
 } from "@/components/UI/Table";
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
 import { fetchTreasuryFromSheet } from "@/lib/parseTreasurySheet";
-
-// NEW: Live ZEC price from the exact same Blockchair API used on the main ZecHub dashboard
-const BLOCKCHAIR_ZEC_STATS_URL = "https://api.blockchair.com/zcash/stats";
+import { DATA_URL } from "@/lib/chart/data-url";
 
 const PIE_COLORS = [
   "#3b82f6",
@@ -246,12 +244,12 @@ export default function SheetTreasuryTab() {
     };
   }, []);
 
-  // NEW: Live ZEC price fetch (exact same Blockchair endpoint + pattern as main ZecHub dashboard price label)
+  // Live ZEC price from the same chain stats as the main ZecHub dashboard
   useEffect(() => {
     let cancelled = false;
     const controller = new AbortController();
 
-    fetch(BLOCKCHAIR_ZEC_STATS_URL, { signal: controller.signal })
+    fetch(DATA_URL.chainStatsUrl, { signal: controller.signal })
       .then((res) => {
         if (!res.ok) throw new Error(`HTTP ${res.status}`);
         return res.json();
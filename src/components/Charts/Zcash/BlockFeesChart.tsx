@@ -1,10 +1,8 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { getBlockFeesData } from "@/lib/chart/helpers";
-import { BlockFees } from "@/lib/chart/types";
-import * as dateFns from "date-fns";
-import { RefObject, useEffect, useMemo, useState } from "react";
+import { useDataset } from "@/hooks/useDataset";
+import { RefObject, useMemo, useState } from "react";
 import {
   Area,
   AreaChart,
@@ -22,77 +20,32 @@ type BlockFeesChartProps = {
 };
 
 export default function BlockFeesChart(props: BlockFeesChartProps) {
-  const [blockFees, setBlockFees] = useState<BlockFees[]>([]);
-  const [loading, setLoading] = useState(false);
+  const blockFees = useDataset("blockFees");
   const [selectedYear, setSelectedYear] = useState<string>("all");
   const fontSize = useResponsiveFontSize();
 
-  useEffect(() => {
-    const controller = new AbortController();
-
-    const fetchAllData = async () => {
-      setLoading(true);
-
-      try {
-        const [blockFeesData] = await Promise.all([
-          getBlockFeesData(DATA_URL.blockFeesUrl, controller.signal),
-        ]);
-
-        if (blockFeesData) {
-          setBlockFees(blockFeesData);
-        }
-      } catch (err) {
-        console.error("Error fetching dashboard data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAllData();
-
-    return () => {
-      controller.abort();
-    };
-  }, []);
-
   // Extract available years from the data
   const availableYears = useMemo(() => {
-    const years = new Set<string>();
-    blockFees.forEach((d) => {
-      if (d.Date) {
-        try {
-          const year = dateFns.format(new Date(d.Date), "yyyy");
-          years.add(year);
-        } catch (err) {
-          console.error("Error parsing date:", d.Date);
-        }
-      }
-    });
+    const years = new Set((blockFees.data ?? []).map((d) => d.Date.slice(0, 4)));
     return Array.from(years).sort((a, b) => b.localeCompare(a)); // Sort descending
-  }, [blockFees]);
-
-  const parsedData = useMemo(() => {
-    let filtered = blockFees;
-
-    // Filter by year if a specific year is selected
-    if (selectedYear !== "all") {
-      filtered = blockFees.filter((d) => {
-        if (!d.Date) return false;
-        try {
-          const year = dateFns.format(new Date(d.Date), "yyyy");
-          return year === selectedYear;
-        } catch (err) {
-          return false;
-        }
-      });
-    }
-
-    return filtered.map((d) => ({
-      block: d.Block,
-      fees: parseFloat(d.Fees),
-      date: d.Date,
-    }));
-  }, [blockFees, selectedYear]);
+  }, [blockFees.data]);
+
+  // Filter by year if a specific year is selected
+  const yearFees = useMemo(() => {
+    const fees = blockFees.data ?? [];
+    return selectedYear === "all" ? fees : fees.filter((d) => d.Date.startsWith(selectedYear));
+  }, [blockFees.data, selectedYear]);
+  useExportRows("block-fees", blockFees.data && yearFees);
+
+  const parsedData = useMemo(
+    () =>
+      yearFees.map((d) => ({
+        block: d.Block,
+        fees: d.Fees,
+        date: d.Date,
+      })),
+    [yearFees],
+  );
 
   return (
     <ErrorBoundary fallback={"Failed to load Block Fees Chart"}>
@@ -123,7 +76,11 @@ export default function BlockFeesChart(props: BlockFeesChartProps) {
         </div>
       </div>
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={blockFees.isPending}
+        error={blockFees.error?.message}
+      >
         <AreaChart data={parsedData}>
           <defs>
             <linearGradient id="blockFeesGradient" x1="0" y1="0" x2="0" y2="1">
@@ -1,10 +1,13 @@
 import { Spinner } from "flowbite-react";
 import { forwardRef, ReactElement } from "react";
 import { ResponsiveContainer } from "recharts";
+import LoadingError from "../LoadingError";
 
 interface ChartContainerProps {
   children: ReactElement;
   loading: boolean;
+  /** Shown instead of the chart when its data could not be loaded */
+  error?: string;
   title?: string;
   height?: string;
 }
@@ -24,6 +27,10 @@ const ChartContainer = forwardRef<HTMLDivElement, ChartContainerProps>(
           <div className="flex justify-center items-center w-full h-full">
             <Spinner />
           </div>
+        ) : props.error ? (
+          <div className="flex justify-center items-center w-full h-full">
+            <LoadingError message={props.error} />
+          </div>
         ) : (
           <ResponsiveContainer width="100%" height="100%">
             {props.children}
@@ -1,11 +1,10 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
 import { useLanguage } from "@/context/LanguageContext";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { getDifficultyData } from "@/lib/chart/helpers";
-import { Difficulty } from "@/lib/chart/types";
+import { useDataset } from "@/hooks/useDataset";
 import * as dateFns from "date-fns";
-import { RefObject, useEffect, useMemo, useState } from "react";
+import { RefObject, useMemo } from "react";
 import {
   Area,
   AreaChart,
@@ -25,47 +24,16 @@ type DifficultyChartProps = {
 export default function DifficultyChart(props: DifficultyChartProps) {
   const { t } = useLanguage();
   const difficultyT = t?.pages?.dashboard?.charts?.difficultyChart;
-  const [difficulty, setDifficulty] = useState<Difficulty[]>([]);
-  const [loading, setLoading] = useState(false);
+  const difficulty = useDataset("difficulty");
+  useExportRows("difficulty", difficulty.data);
   const fontSize = useResponsiveFontSize(); // optional: pass min/max
 
-  useEffect(() => {
-    const controller = new AbortController();
-
-    const fetchAllData = async () => {
-      setLoading(true);
-
-      try {
-        const [difficultyData] = await Promise.all([
-          getDifficultyData(DATA_URL.difficultyUrl, controller.signal),
-        ]);
-
-        if (difficultyData) {
-          setDifficulty(difficultyData);
-        }
-      } catch (err) {
-        console.error("Error fetching dashboard data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAllData();
-
-    return () => {
-      controller.abort();
-    };
-  }, []);
-
   const parsedData = useMemo(() => {
-    return difficulty.map((d) => ({
-      date: dateFns.format(
-        dateFns.parse(d.Date, "MM/dd/yyyy", new Date()),
-        "MMM yyyy",
-      ),
-      difficulty: parseFloat(d.Difficulty),
+    return (difficulty.data ?? []).map((d) => ({
+      date: dateFns.format(dateFns.parseISO(d.Date), "MMM yyyy"),
+      difficulty: d.Difficulty,
     }));
-  }, [difficulty]);
+  }, [difficulty.data]);
 
   const formatVal = (v: number) =>
     v >= 1e6
@@ -81,7 +49,11 @@ export default function DifficultyChart(props: DifficultyChartProps) {
       <ChartHeader
         title={difficultyT?.title || "Mining Difficulty Over Time"}
       />
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={difficulty.isPending}
+        error={difficulty.error?.message}
+      >
         <AreaChart data={parsedData}>
           <defs>
             <linearGradient id="diffGradient" x1="0" y1="0" x2="0" y2="1">
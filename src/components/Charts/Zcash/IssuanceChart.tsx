@@ -9,10 +9,10 @@ import {
   YAxis,
 } from "recharts";
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
-import { useIssuanceData } from "@/hooks/useIssuanceData";
+import { useExportRows } from "@/context/ChartExportContext";
+import { useDataset } from "@/hooks/useDataset";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { RefObject, useState } from "react";
+import { RefObject, useMemo, useState } from "react";
 import ChartHeader from "../ChartHeader";
 import ChartContainer from "./ChartContainer";
 
@@ -21,9 +21,22 @@ type IssuanceChartProps = {
 };
 
 export default function IssuanceChart(props: IssuanceChartProps) {
-  const { data, loading } = useIssuanceData(DATA_URL.issuanceUrl);
+  const issuance = useDataset("issuance");
+  useExportRows("issuance", issuance.data);
   const fontSize = useResponsiveFontSize();
 
+  const data = useMemo(
+    () =>
+      (issuance.data ?? [])
+        .filter((_, i) => i % 7 === 0) // weekly sampling
+        .map((d) => ({
+          date: d.Date,
+          issuance: d["ZEC Issuance"],
+          inflation: d["Current Inflation (%)"],
+        })),
+    [issuance.data],
+  );
+
   // Toggle visibility for each series
   const [issuanceVisible, setIssuanceVisible] = useState(true);
   const [inflationVisible, setInflationVisible] = useState(true);
@@ -66,7 +79,11 @@ export default function IssuanceChart(props: IssuanceChartProps) {
     <ErrorBoundary fallback={"Failed to load Issuance Chart"}>
       <ChartHeader title="ZEC Issuance vs. Inflation Rate" />
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={issuance.isPending}
+        error={issuance.error?.message}
+      >
         <ComposedChart data={data}>
           <defs>
             <linearGradient id="inflationGradient" x1="0" y1="0" x2="0" y2="1">
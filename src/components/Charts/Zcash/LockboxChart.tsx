@@ -1,9 +1,8 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { getLockboxData } from "@/lib/chart/helpers";
-import { LockBox } from "@/lib/chart/types";
-import { RefObject, useEffect, useState } from "react";
+import { useDataset } from "@/hooks/useDataset";
+import { RefObject, useMemo, useState } from "react";
 import {
   Area,
   AreaChart,
@@ -21,9 +20,8 @@ type LockboxChartProps = {
 };
 
 export default function LockboxChart(props: LockboxChartProps) {
-  const [loading, setLoading] = useState(false);
-  const [lockboxData, setLockboxData] = useState<LockBox[]>([]);
-  const [processedData, setProcessedData] = useState<LockBox[]>([]);
+  const lockbox = useDataset("lockbox");
+  useExportRows("lockbox", lockbox.data);
   const [copied, setCopied] = useState(false);
   const fontSize = useResponsiveFontSize();
 
@@ -31,45 +29,19 @@ export default function LockboxChart(props: LockboxChartProps) {
   const [lockboxVisible, setLockboxVisible] = useState(true);
   const [coinholdersVisible, setCoinholdersVisible] = useState(true);
 
-  useEffect(() => {
-    const controller = new AbortController();
+  const processedData = useMemo(() => {
+    const sorted = [...(lockbox.data ?? [])].sort((a, b) =>
+      a.Date.localeCompare(b.Date),
+    );
 
-    const fetchAllData = async () => {
-      setLoading(true);
+    const cleanedData = Array.from(
+      new Map(sorted.map((item) => [item.Date, item])).values(),
+    );
 
-      try {
-        const [rawData] = await Promise.all([
-          getLockboxData(DATA_URL.lockboxUrl, controller.signal),
-        ]);
-
-        if (rawData) {
-          setLockboxData(rawData);
-
-          const sorted = [...rawData].sort(
-            (a, b) => new Date(a.Date).getTime() - new Date(b.Date).getTime(),
-          );
-
-          const cleanedData = Array.from(
-            new Map(sorted.map((item) => [item.Date, item])).values(),
-          );
-
-          const MAX_POINTS = 1200;
-          const step = Math.max(1, Math.floor(cleanedData.length / MAX_POINTS));
-          const sampled = cleanedData.filter((_, index) => index % step === 0);
-
-          setProcessedData(sampled);
-        }
-      } catch (err) {
-        console.error("Error fetching dashboard data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAllData();
-
-    return () => controller.abort();
-  }, []);
+    const MAX_POINTS = 1200;
+    const step = Math.max(1, Math.floor(cleanedData.length / MAX_POINTS));
+    return cleanedData.filter((_, index) => index % step === 0);
+  }, [lockbox.data]);
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -171,7 +143,11 @@ export default function LockboxChart(props: LockboxChartProps) {
         </div>
       </div>
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={lockbox.isPending}
+        error={lockbox.error?.message}
+      >
         <AreaChart data={processedData}>
           <defs>
             <linearGradient id="lockboxGradient" x1="0" y1="0" x2="0" y2="1">
@@ -1,5 +1,6 @@
 import DefaultSelect from "@/components/DefaultSelect";
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useLanguage } from "@/context/LanguageContext";
 import { useInMobile } from "@/hooks/useInMobile";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
@@ -114,6 +115,7 @@ export default function MiningPoolsDominanceChart(
 
     return { chartData: rows, seriesKeys: [...topPools, "Other"] };
   }, [dominance, isMobile]);
+  useExportRows("mining-pools", loading ? undefined : chartData);
 
   const xTickFormatter = (value: string) => {
     const date = new Date(`${value}T00:00:00Z`);
@@ -1,12 +1,12 @@
 "use client";
 
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { formatNumberShort, getNetInOutflowData } from "@/lib/chart/helpers";
-import { NetInOutflow } from "@/lib/chart/types";
+import { useDataset } from "@/hooks/useDataset";
+import { formatNumberShort } from "@/lib/chart/helpers";
 import * as dateFns from "date-fns";
-import { RefObject, useEffect, useState } from "react";
+import { RefObject, useMemo } from "react";
 import {
   Bar,
   BarChart,
@@ -27,52 +27,29 @@ interface NetInflowsOutflowsChartProps {
 export default function NetInflowsOutflowsChart(
   props: NetInflowsOutflowsChartProps
 ) {
-  const [loading, setLoading] = useState(false);
-  const [dataFlow, setDataFlow] = useState<NetInOutflow[]>([]);
-  const [error, setError] = useState(false);
+  const netFlows = useDataset("netInflowsOutflows");
+  useExportRows("net-flows", netFlows.data);
 
   const fontSize = useResponsiveFontSize();
 
-  useEffect(() => {
-    const controller = new AbortController();
-
-    const fetchAllData = async () => {
-      setLoading(true);
-
-      try {
-        const [netInOutflow] = await Promise.all([
-          getNetInOutflowData(
-            DATA_URL.netInflowsOutflowsUrl,
-            controller.signal
-          ),
-        ]);
-
-        setDataFlow(netInOutflow);
-      } catch (err) {
-        console.error("Error fetching dashboard data:", err);
-        setError(true);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAllData();
-
-    return () => controller.abort();
-  }, []);
-
-  const parsedData = dataFlow.map((item) => ({
-    date: item.Date,
-    netSaplingFlow: -parseFloat(item["Net Sapling Flow"]),
-    netOrchardFlow: -parseFloat(item["Net Orchard Flow"]),
-  }));
-
-  console.log(parsedData);
+  const parsedData = useMemo(
+    () =>
+      (netFlows.data ?? []).map((item) => ({
+        date: item.Date,
+        netSaplingFlow: -item["Net Sapling Flow"],
+        netOrchardFlow: -item["Net Orchard Flow"],
+      })),
+    [netFlows.data]
+  );
 
   return (
     <ErrorBoundary fallback={"Failed to load Net Inflows"}>
       <ChartHeader title="Net Sapling & Orchard Flow" />
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={netFlows.isPending}
+        error={netFlows.error?.message}
+      >
         <BarChart
           data={parsedData}
           margin={{ top: 20, right: 20, left: 0, bottom: 40 }}
@@ -93,7 +70,7 @@ export default function NetInflowsOutflowsChart(
 
           <XAxis
             dataKey="date"
-            tickFormatter={(date) => dateFns.format(new Date(date), "MMM yyyy")}
+            tickFormatter={(date) => dateFns.format(dateFns.parseISO(date), "MMM yyyy")}
             tick={{ fontSize, fill: "#94a3b8" }}
           />
           <YAxis
@@ -112,7 +89,7 @@ export default function NetInflowsOutflowsChart(
                 ? "Net Orchard Flow"
                 : name,
             ]}
-            labelFormatter={(label) => dateFns.format(new Date(label), "PPP")}
+            labelFormatter={(label) => dateFns.format(dateFns.parseISO(String(label)), "PPP")}
             contentStyle={{
               backgroundColor: "#fff",
               border: "1px solid #e5e7eb",
@@ -1,10 +1,9 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { getNetworkSolpsData } from "@/lib/chart/helpers";
-import { NetworkSolps } from "@/lib/chart/types";
+import { useDataset } from "@/hooks/useDataset";
 import * as dateFns from "date-fns";
-import { RefObject, useEffect, useMemo, useState } from "react";
+import { RefObject, useMemo } from "react";
 import {
   Area,
   AreaChart,
@@ -22,52 +21,25 @@ type NetworkSolpsChartProps = {
 };
 
 export default function NetworkSolpsChart(props: NetworkSolpsChartProps) {
-  const [networkSolps, setNetworkSolps] = useState<NetworkSolps[]>([]);
-  const [loading, setLoading] = useState(false);
+  const networkSolps = useDataset("networkSolps");
+  useExportRows("network-solps", networkSolps.data);
   const fontSize = useResponsiveFontSize(); // optional: pass min/max
 
-  useEffect(() => {
-    const controller = new AbortController();
-
-    const fetchAllData = async () => {
-      setLoading(true);
-
-      try {
-        const [networkSolpsData] = await Promise.all([
-          getNetworkSolpsData(DATA_URL.networkSolpsUrl, controller.signal),
-        ]);
-
-        if (networkSolpsData) {
-          setNetworkSolps(networkSolpsData);
-        }
-      } catch (err) {
-        console.error("Error fetching dashboard data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchAllData();
-
-    return () => {
-      controller.abort();
-    };
-  }, []);
-
   const parsedData = useMemo(() => {
-    return networkSolps.map((d) => ({
-      date: dateFns.format(
-        dateFns.parse(d.Date, "MM/dd/yyyy", new Date()),
-        "MMM yyyy"
-      ),
-      networkSolps: parseFloat(d.Networksolps),
+    return (networkSolps.data ?? []).map((d) => ({
+      date: dateFns.format(dateFns.parseISO(d.Date), "MMM yyyy"),
+      networkSolps: d.Networksolps,
     }));
-  }, [networkSolps]);
+  }, [networkSolps.data]);
 
   return (
     <ErrorBoundary fallback={"Failed to load Network Solps Chart"}>
       <ChartHeader title="Network Solps" />
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={networkSolps.isPending}
+        error={networkSolps.error?.message}
+      >
         <AreaChart data={parsedData}>
           <defs>
             <linearGradient id="netSolpsGradient" x1="0" y1="0" x2="0" y2="1">
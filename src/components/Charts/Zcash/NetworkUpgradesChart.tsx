@@ -1,4 +1,7 @@
-import { useEffect, useState } from "react";
+import { useExportRows } from "@/context/ChartExportContext";
+import { useDataset } from "@/hooks/useDataset";
+import { keepPreviousData } from "@tanstack/react-query";
+import { useState } from "react";
 
 interface Upgrade {
   id: string;
@@ -21,54 +24,23 @@ const createSlug = (name: string): string => {
 
 export default function NetworkUpgradesChart() {
   const [network, setNetwork] = useState<Network>("mainnet");
-  const [upgrades, setUpgrades] = useState<Upgrade[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isSwitching, setIsSwitching] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
-
-  const fetchUpgrades = async (selectedNetwork: Network, isInitial = false) => {
-    if (!isInitial) setIsSwitching(true);
-    setError(null);
-
-    const file =
-      selectedNetwork === "mainnet"
-        ? "/data/zcash/network_upgrades.json"
-        : "/data/zcash/network_upgrades_testnet.json";
-
-    try {
-      const res = await fetch(file, { cache: "force-cache" });
-      if (!res.ok) throw new Error(`Failed to load ${selectedNetwork} data`);
-
-      const json = await res.json();
-
-      let parsedUpgrades: Upgrade[] = [];
-      if (Array.isArray(json)) {
-        parsedUpgrades = json;
-      } else if (json?.upgrades && Array.isArray(json.upgrades)) {
-        parsedUpgrades = json.upgrades;
-        setLastUpdated(json.lastUpdated || null);
-      } else {
-        throw new Error("Invalid JSON structure");
-      }
-
-      setUpgrades(parsedUpgrades);
-    } catch (err: any) {
-      setError(err.message || `Failed to load ${selectedNetwork} upgrades`);
-    } finally {
-      setLoading(false);
-      setIsSwitching(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchUpgrades(network, true);
-  }, []);
+  // The previous network's table stays up, dimmed, while the other loads
+  const query = useDataset(
+    network === "mainnet" ? "networkUpgrades" : "networkUpgradesTestnet",
+    { placeholderData: keepPreviousData }
+  );
+  const upgrades: Upgrade[] = query.data?.upgrades ?? [];
+  const loading = query.isPending;
+  const isSwitching = query.isPlaceholderData;
+  const error = query.error?.message ?? null;
+  useExportRows(
+    network === "mainnet" ? "network-upgrades" : "testnet-network-upgrades",
+    isSwitching ? undefined : query.data?.upgrades,
+  );
 
   const handleNetworkChange = (newNetwork: Network) => {
     if (newNetwork !== network && !isSwitching) {
       setNetwork(newNetwork);
-      fetchUpgrades(newNetwork);
     }
   };
 
@@ -1,7 +1,7 @@
 "use client";
 
 import * as dateFns from "date-fns";
-import { RefObject, useEffect, useState } from "react";
+import { RefObject, useMemo } from "react";
 import {
   Area,
   AreaChart,
@@ -12,9 +12,9 @@ import {
   YAxis,
 } from "recharts";
 
+import { useExportRows } from "@/context/ChartExportContext";
+import { useDataset } from "@/hooks/useDataset";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { fetchShieldedSupplyData } from "@/lib/chart/helpers";
 import { formatNumber } from "@/lib/helpers";
 import { ErrorBoundary } from "../../ErrorBoundary/ErrorBoundary";
 import ChartHeader from "../ChartHeader";
@@ -31,34 +31,27 @@ type NodeCountChartProps = {
 };
 
 const NodeCountChart = (props: NodeCountChartProps) => {
-  const [chartData, setChartData] = useState<NodeCountAmountDatum[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  const nodeCount = useDataset("nodeCount");
+  useExportRows("node-count", nodeCount.data);
   const fontSize = useResponsiveFontSize(); // optional: pass min/max
 
-  useEffect(() => {
-    setLoading(true);
-
-    fetchShieldedSupplyData(DATA_URL.nodecountUrl)
-      .then((data) => {
-        const parsed = data.map((item: any) => {
-          const key = Object.keys(item).find((k) => k !== "Date") as string;
-          return {
-            Date: item.Date,
-            NodeCount: parseInt(item[key]?.replace(/,/g, ""), 10),
-          };
-        });
-
-        setChartData(parsed);
-      })
-      .catch((err) => setError(err))
-      .finally(() => setLoading(false));
-  }, []);
+  const chartData = useMemo<NodeCountAmountDatum[]>(
+    () =>
+      (nodeCount.data ?? []).map((item) => ({
+        Date: item.Date,
+        NodeCount: item.nodecount,
+      })),
+    [nodeCount.data]
+  );
 
   return (
     <ErrorBoundary fallback={"Failed to load Node Count Chart"}>
       <ChartHeader title="Node Count" />
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={nodeCount.isPending}
+        error={nodeCount.error?.message}
+      >
         <AreaChart
           data={chartData}
           margin={{ top: 20, right: 20, left: 0, bottom: 20 }}
@@ -77,7 +70,7 @@ const NodeCountChart = (props: NodeCountChartProps) => {
           {/* Axes */}
           <XAxis
             dataKey="Date"
-            tickFormatter={(str) => dateFns.format(new Date(str), "MMM yyyy")}
+            tickFormatter={(str) => dateFns.format(dateFns.parseISO(str), "MMM yyyy")}
             stroke="#94a3b8"
             tick={{ fontSize, fill: "#94a3b8" }}
             interval={"preserveStartEnd"}
@@ -95,7 +88,7 @@ const NodeCountChart = (props: NodeCountChartProps) => {
                 return (
                   <div className="bg-white dark:bg-slate-800 p-2 rounded shadow text-sm border border-slate-200 dark:border-slate-600">
                     <p className="text-gray-600 dark:text-gray-300">
-                      {dateFns.format(new Date(label!), "PPP")}
+                      {dateFns.format(dateFns.parseISO(String(label)), "PPP")}
                     </p>
                     <p className="font-semibold text-blue-600 dark:text-blue-300">
                       {formatNumber(payload[0].value as number)} nodes
@@ -1,6 +1,8 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { RefObject, useEffect, useState } from "react";
+import { useExportRows } from "@/context/ChartExportContext";
+import { useChainSchedule } from "@/hooks/useChainSchedule";
+import { useDataset } from "@/hooks/useDataset";
+import { RefObject, useMemo, useState } from "react";
 import {
   CartesianGrid,
   Legend,
@@ -11,25 +13,9 @@ import {
   YAxis,
 } from "recharts";
 import ChartHeader from "../ChartHeader";
+import LoadingError from "../LoadingError";
 import ChartContainer from "./ChartContainer";
 
-type TransactionSummaryDatum = {
-  height: number;
-  sapling: number;
-  orchard: number;
-};
-
-const HEIGHT_YEAR_MAP = [
-  { start: 0, end: 257775, year: "2018" },
-  { start: 257776, end: 676656, year: "2019" },
-  { start: 676657, end: 1095537, year: "2020" },
-  { start: 1095538, end: 1514418, year: "2021" },
-  { start: 1514419, end: 1933299, year: "2022" },
-  { start: 1933300, end: 2352180, year: "2023" },
-  { start: 2352181, end: 2771014, year: "2024" },
-  { start: 2771015, end: Infinity, year: "2025" },
-];
-
 type YearlyTotals = Record<string, { sapling: number; orchard: number }>;
 
 type PrivacySetVisualizationChartProps = {
@@ -39,38 +25,24 @@ type PrivacySetVisualizationChartProps = {
 function PrivacySetVisualizationChart({
   chartRef,
 }: PrivacySetVisualizationChartProps) {
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [data, setData] = useState<YearlyTotals>({});
+  const summary = useDataset("transactionSummary");
+  const schedule = useChainSchedule();
+  const loading = summary.isPending;
+  const error = summary.error?.message;
   const [viewMode, setViewMode] = useState<"linear" | "circular">("linear");
   const [hoveredId, setHoveredId] = useState<string | null>(null);
   const [targetPool, setTargetPool] = useState("");
 
-  useEffect(() => {
-    (async () => {
-      try {
-        const res = await fetch(DATA_URL.txsummaryUrl);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const raw: TransactionSummaryDatum[] = await res.json();
-
-        const totals: YearlyTotals = {};
-        for (const { height, sapling, orchard } of raw) {
-          const year =
-            HEIGHT_YEAR_MAP.find((r) => height >= r.start && height <= r.end)
-              ?.year || "Unknown";
-          if (!totals[year]) totals[year] = { sapling: 0, orchard: 0 };
-          totals[year].sapling += sapling;
-          totals[year].orchard += orchard;
-        }
-
-        setData(totals);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : String(err));
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, []);
+  const data = useMemo(() => {
+    const totals: YearlyTotals = {};
+    for (const { height, sapling, orchard } of summary.data ?? []) {
+      const year = String(schedule.yearOf(height));
+      if (!totals[year]) totals[year] = { sapling: 0, orchard: 0 };
+      totals[year].sapling += sapling;
+      totals[year].orchard += orchard;
+    }
+    return totals;
+  }, [summary.data, schedule]);
 
   const years = Object.keys(data).sort();
 
@@ -102,6 +74,7 @@ function PrivacySetVisualizationChart({
       orchard: orchardCumulative,
     };
   });
+  useExportRows("privacy-set", summary.data && linearChartData);
 
   // Circular chart parameters
   const maxRadius = 180;
@@ -189,7 +162,7 @@ function PrivacySetVisualizationChart({
       </p>
 
       {viewMode === "linear" ? (
-        <ChartContainer ref={chartRef} loading={loading}>
+        <ChartContainer ref={chartRef} loading={loading} error={error}>
           <LineChart
             width={500}
             height={400}
@@ -272,6 +245,8 @@ function PrivacySetVisualizationChart({
             <div className="flex justify-center items-center w-full h-full">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
             </div>
+          ) : error ? (
+            <LoadingError message={error} />
           ) : (
             <div className="relative w-full">
               <div className="w-full max-w-[1200px] mx-auto px-4">
@@ -1,4 +1,6 @@
-import { useEffect, useState, useMemo, RefObject } from "react";
+import { useState, useMemo, RefObject } from "react";
+import { useExportRows } from "@/context/ChartExportContext";
+import { useDataset } from "@/hooks/useDataset";
 import { useInMobile } from "@/hooks/useInMobile";
 import {
   LineChart,
@@ -15,36 +17,12 @@ import {
   ResponsiveContainer,
   ComposedChart,
 } from "recharts";
-import { DATA_URL } from "@/lib/chart/data-url";
 
 type ZcashDashboardProps = {
   chartRef: RefObject<HTMLDivElement | null>;
 };
 
 // Types
-type ZcashRawData = {
-  Dates: string;
-  Transactions: string;
-  Transparent_Transfer_TXs: string;
-  Sapling_Transfer_TXs: string;
-  Orchard_Transfer_TXs: string;
-  Total_Transfer_TXs: string;
-  Total_Transparent_TXs: string;
-  Coinbase_percent: string;
-  Total_Sapling_TXs: string;
-  Net_Sapling_Flow: string;
-  Total_Orchard_TXs: string;
-  Net_Orchard_Flow: string;
-  Total_Shielded_Supply: string;
-  Total_Lockbox_Supply: string;
-  Zebra_Nodes: string;
-  Zcashd_Nodes: string;
-  Total_Node_Count: string;
-  Closing_Price: string;
-  Shielded_Market_Cap: string;
-  Shielded_Transaction_Percentage: string;
-};
-
 type ProcessedData = {
   date: string;
   transactions: number;
@@ -90,23 +68,14 @@ const calculateChange = (current: number, previous: number): number => {
   return previous ? ((current - previous) / previous) * 100 : 0;
 };
 
-const parseNumber = (value: string): number => {
-  const parsed = parseFloat(value);
-  return isNaN(parsed) ? 0 : parsed;
-};
-
-const parseInt10 = (value: string): number => {
-  const parsed = parseInt(value, 10);
-  return isNaN(parsed) ? 0 : parsed;
-};
-
 // Main Component
 export default function ZcashDashboard({ chartRef }: ZcashDashboardProps) {
   const isMobile = useInMobile();
 
-  const [data, setData] = useState<ProcessedData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const shieldedStats = useDataset("shieldedStats");
+  const loading = shieldedStats.isPending;
+  const error = shieldedStats.error?.message;
+  useExportRows("shielded-stats", shieldedStats.data);
   const [activeTab, setActiveTab] = useState<TabKey>("transactions");
 
   // Transactions tab toggles
@@ -131,43 +100,31 @@ export default function ZcashDashboard({ chartRef }: ZcashDashboardProps) {
   const [saplingTxsVisible, setSaplingTxsVisible] = useState(true);
   const [orchardTxsVisible, setOrchardTxsVisible] = useState(true);
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const response = await fetch(DATA_URL.zcashShieldedStatsUrl);
-        if (!response.ok)
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        const rawData: ZcashRawData[] = await response.json();
-        const processed = rawData.map((item) => ({
-          date: item.Dates,
-          transactions: parseInt10(item.Transactions),
-          transparentTxs: parseInt10(item.Transparent_Transfer_TXs),
-          saplingTxs: parseInt10(item.Sapling_Transfer_TXs),
-          orchardTxs: parseInt10(item.Orchard_Transfer_TXs),
-          totalTransferTxs: parseInt10(item.Total_Transfer_TXs),
-          totalTransparentTxs: parseInt10(item.Total_Transparent_TXs),
-          totalSaplingTxs: parseInt10(item.Total_Sapling_TXs),
-          totalOrchardTxs: parseInt10(item.Total_Orchard_TXs),
-          netSaplingFlow: parseNumber(item.Net_Sapling_Flow),
-          netOrchardFlow: parseNumber(item.Net_Orchard_Flow),
-          totalShieldedSupply: parseNumber(item.Total_Shielded_Supply),
-          totalLockboxSupply: parseNumber(item.Total_Lockbox_Supply),
-          zebraNodes: parseInt10(item.Zebra_Nodes),
-          zcashdNodes: parseInt10(item.Zcashd_Nodes),
-          totalNodes: parseInt10(item.Total_Node_Count),
-          closingPrice: parseNumber(item.Closing_Price),
-          shieldedMarketCap: parseNumber(item.Shielded_Market_Cap),
-          shieldedPercentage: parseNumber(item.Shielded_Transaction_Percentage),
-        }));
-        setData(processed);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to load data");
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchData();
-  }, []);
+  const data = useMemo<ProcessedData[]>(
+    () =>
+      (shieldedStats.data ?? []).map((item) => ({
+        date: item.Dates,
+        transactions: item.Transactions,
+        transparentTxs: item.Transparent_Transfer_TXs,
+        saplingTxs: item.Sapling_Transfer_TXs,
+        orchardTxs: item.Orchard_Transfer_TXs,
+        totalTransferTxs: item.Total_Transfer_TXs,
+        totalTransparentTxs: item.Total_Transparent_TXs,
+        totalSaplingTxs: item.Total_Sapling_TXs,
+        totalOrchardTxs: item.Total_Orchard_TXs,
+        netSaplingFlow: item.Net_Sapling_Flow,
+        netOrchardFlow: item.Net_Orchard_Flow,
+        totalShieldedSupply: item.Total_Shielded_Supply,
+        totalLockboxSupply: item.Total_Lockbox_Supply,
+        zebraNodes: item.Zebra_Nodes,
+        zcashdNodes: item.Zcashd_Nodes,
+        totalNodes: item.Total_Node_Count,
+        closingPrice: item.Closing_Price,
+        shieldedMarketCap: item.Shielded_Market_Cap,
+        shieldedPercentage: item.Shielded_Transaction_Percentage,
+      })),
+    [shieldedStats.data],
+  );
 
   const stats = useMemo(() => {
     if (data.length < 2) return [];
@@ -1,13 +1,12 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
+import { useDataset } from "@/hooks/useDataset";
 import {
   formatNumberShort,
   getColorForPool,
-  getSupplyData,
   PoolType,
 } from "@/lib/chart/helpers";
-import { SupplyData } from "@/lib/chart/types";
 import { RefObject, useCallback, useEffect, useMemo, useState } from "react";
 import {
   Area,
@@ -31,91 +30,49 @@ type ShieldedSupplyChartProps = {
 };
 
 export default function ShieldedSupplyChart(props: ShieldedSupplyChartProps) {
-  const [loading, setLoading] = useState(true);
   const [selectedYear, setSelectedYear] = useState("all");
   const [selectedPool, setSelectedPool] = useState<PoolKey>("all");
   const [network, setNetwork] = useState<Network>("mainnet");
   const fontSize = useResponsiveFontSize();
   const isMobile = useInMobile();
-  const [orchardSupplyData, setOrchardSupplyData] = useState<SupplyData[]>([]);
-  const [saplingSupplyData, setSaplingSupplyData] = useState<SupplyData[]>([]);
-  const [sproutSupplyData, setSproutSupplyData] = useState<SupplyData[]>([]);
   const [sproutVisible, setSproutVisible] = useState(true);
   const [saplingVisible, setSaplingVisible] = useState(true);
   const [orchardVisible, setOrchardVisible] = useState(true);
   const [totalVisible, setTotalVisible] = useState(false);
 
-  const getPoolUrl = (pool: "sprout" | "sapling" | "orchard") => {
-    const mainUrl =
-      pool === "sprout"
-        ? DATA_URL.sproutUrl
-        : pool === "sapling"
-        ? DATA_URL.saplingUrl
-        : DATA_URL.orchardUrl;
-    if (network === "mainnet") return mainUrl;
-    return mainUrl.replace("/zcash/", "/zcash/testnet/");
-  };
+  const sprout = useDataset(network === "mainnet" ? "sproutSupply" : "testnetSproutSupply");
+  const sapling = useDataset(network === "mainnet" ? "saplingSupply" : "testnetSaplingSupply");
+  const orchard = useDataset(network === "mainnet" ? "orchardSupply" : "testnetOrchardSupply");
+  const loading = sprout.isPending || sapling.isPending || orchard.isPending;
+  const error = sprout.error ?? sapling.error ?? orchard.error;
 
-  useEffect(() => {
-    const controller = new AbortController();
-    const fetchAllData = async () => {
-      setLoading(true);
-      try {
-        const sproutUrl = getPoolUrl("sprout");
-        const saplingUrl = getPoolUrl("sapling");
-        const orchardUrl = getPoolUrl("orchard");
-        const [sprout, sapling, orchard] = await Promise.all([
-          getSupplyData(sproutUrl, controller.signal),
-          getSupplyData(saplingUrl, controller.signal),
-          getSupplyData(orchardUrl, controller.signal),
-        ]);
-        if (sprout) setSproutSupplyData(sprout);
-        if (sapling) setSaplingSupplyData(sapling);
-        if (orchard) setOrchardSupplyData(orchard);
-      } catch (err) {
-        console.error("Error fetching dashboard data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchAllData();
-    return () => controller.abort();
-  }, [network]);
+  const sproutSupplyData = useMemo(() => sprout.data ?? [], [sprout.data]);
+  const saplingSupplyData = useMemo(() => sapling.data ?? [], [sapling.data]);
+  const orchardSupplyData = useMemo(() => orchard.data ?? [], [orchard.data]);
 
   useEffect(() => {
     setSelectedYear("all");
   }, [network]);
 
-  const extractYear = useCallback((dateStr: string) => {
-    return new Date(dateStr).getFullYear().toString();
-  }, []);
+  const extractYear = useCallback((dateStr: string) => dateStr.slice(0, 4), []);
 
   const normalizePools = useCallback(() => {
-    const normalizeDate = (dateStr: string) => {
-      const [month, day, year] = dateStr.split("/");
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    };
-
-    const sprout = sproutSupplyData.map((d) => ({ ...d, close: normalizeDate(d.close) }));
-    const sapling = saplingSupplyData.map((d) => ({ ...d, close: normalizeDate(d.close) }));
-    const orchard = orchardSupplyData.map((d) => ({ ...d, close: normalizeDate(d.close) }));
-
     const allDates = new Set([
-      ...sprout.map((d) => d.close),
-      ...sapling.map((d) => d.close),
-      ...orchard.map((d) => d.close),
+      ...sproutSupplyData.map((d) => d.close),
+      ...saplingSupplyData.map((d) => d.close),
+      ...orchardSupplyData.map((d) => d.close),
     ]);
 
-    const dateArray = Array.from(allDates).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+    const dateArray = Array.from(allDates).sort();
 
     const dataMap: Record<string, any> = {};
     for (const date of dateArray) {
       dataMap[date] = { close: date, sprout: 0, sapling: 0, orchard: 0, total: 0 };
     }
 
-    for (const d of sprout) if (dataMap[d.close]) dataMap[d.close].sprout = d.supply ?? 0;
-    for (const d of sapling) if (dataMap[d.close]) dataMap[d.close].sapling = d.supply ?? 0;
-    for (const d of orchard) if (dataMap[d.close]) dataMap[d.close].orchard = d.supply ?? 0;
+    for (const d of sproutSupplyData) if (dataMap[d.close]) dataMap[d.close].sprout = d.supply ?? 0;
+    for (const d of saplingSupplyData) if (dataMap[d.close]) dataMap[d.close].sapling = d.supply ?? 0;
+    for (const d of orchardSupplyData) if (dataMap[d.close]) dataMap[d.close].orchard = d.supply ?? 0;
 
     // Forward fill (carry forward last known value)
     let lastSprout = 0;
@@ -156,6 +113,10 @@ export default function ShieldedSupplyChart(props: ShieldedSupplyChartProps) {
       selectedYear === "all" ? true : extractYear(d.close) === selectedYear
     );
   }, [selectedPool, combinedPoolData, sproutSupplyData, saplingSupplyData, orchardSupplyData, selectedYear, extractYear]);
+  useExportRows(
+    network === "mainnet" ? "shielded-supply" : "testnet-shielded-supply",
+    loading ? undefined : poolData,
+  );
 
   const getAvailableYears = useCallback((poolKey: PoolKey) => {
     const dataByPool = { sprout: sproutSupplyData, sapling: saplingSupplyData, orchard: orchardSupplyData };
@@ -338,7 +299,11 @@ export default function ShieldedSupplyChart(props: ShieldedSupplyChartProps) {
         </div>
       </div>
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={loading}
+        error={error?.message}
+      >
         <AreaChart data={poolData}>
           <defs>
             <linearGradient id="sproutGradient" x1="0" y1="0" x2="0" y2="1">
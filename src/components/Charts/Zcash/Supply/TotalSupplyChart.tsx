@@ -1,11 +1,11 @@
 import DefaultSelect from "@/components/DefaultSelect";
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useInMobile } from "@/hooks/useInMobile";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { formatNumberShort, getTotalSupplyData } from "@/lib/chart/helpers";
-import { totalSupply } from "@/lib/chart/types";
-import { RefObject, useCallback, useEffect, useMemo, useState } from "react";
+import { useDataset } from "@/hooks/useDataset";
+import { formatNumberShort } from "@/lib/chart/helpers";
+import { RefObject, useCallback, useMemo, useState } from "react";
 import {
   Area,
   AreaChart,
@@ -22,53 +22,25 @@ type TotalSupplyChartProps = {
 };
 
 export default function TotalSupplyChart(props: TotalSupplyChartProps) {
-  const [loading, setLoading] = useState(true);
+  const supply = useDataset("totalSupply");
   const [selectedYear, setSelectedYear] = useState("all");
-  const [totalSupplyData, setTotalSupplyData] = useState<totalSupply[]>([]);
   const fontSize = useResponsiveFontSize();
   const isMobile = useInMobile();
 
-  // Fetch data once (no artificial delay)
-  useEffect(() => {
-    const controller = new AbortController();
-    const fetchSupplyData = async () => {
-      setLoading(true);
-      try {
-        const supply = await getTotalSupplyData(
-          DATA_URL.totalSupplyUrl,
-          controller.signal
-        );
-        setTotalSupplyData(supply || []);
-      } catch (err) {
-        console.error("Error fetching total supply data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchSupplyData();
-    return () => controller.abort();
-  }, []);
-
-  const extractYear = useCallback((dateStr: string) => {
-    const parsed = new Date(dateStr);
-    return parsed.getFullYear().toString();
-  }, []);
+  const totalSupplyData = useMemo(() => supply.data ?? [], [supply.data]);
 
   const getAvailableYears = useCallback(() => {
-    const validData = totalSupplyData.filter(
-      (d) => d && d.close && !isNaN(new Date(d.close).getTime())
-    );
-    if (validData.length === 0) return ["all"];
-    const years = [...new Set(validData.map((d) => extractYear(d.close)))].sort();
+    const years = [...new Set(totalSupplyData.map((d) => d.close.slice(0, 4)))].sort();
     return ["all", ...years];
-  }, [totalSupplyData, extractYear]);
+  }, [totalSupplyData]);
 
   // Memoized filtered data → instant year switching
   const filteredData = useMemo(() => {
     return selectedYear === "all"
       ? totalSupplyData
-      : totalSupplyData.filter((d) => extractYear(d.close) === selectedYear);
-  }, [totalSupplyData, selectedYear, extractYear]);
+      : totalSupplyData.filter((d) => d.close.startsWith(selectedYear));
+  }, [totalSupplyData, selectedYear]);
+  useExportRows("total-supply", supply.data && filteredData);
 
   const latestSupply = filteredData[filteredData.length - 1]?.supply || 0;
 
@@ -95,7 +67,11 @@ export default function TotalSupplyChart(props: TotalSupplyChartProps) {
         </div>
       </ChartHeader>
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={supply.isPending}
+        error={supply.error?.message}
+      >
         <AreaChart data={filteredData}>
           <defs>
             <linearGradient id="totalSupplyGradient" x1="0" y1="0" x2="0" y2="1">
@@ -2,11 +2,10 @@
 
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
 import RangeSlider from "@/components/RangeSlider";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { fetchTransactionData } from "@/lib/chart/helpers";
-import { ShieldedTransactionDatum } from "@/lib/chart/types";
-import { RefObject, useEffect, useState } from "react";
+import { useDataset } from "@/hooks/useDataset";
+import { RefObject, useEffect, useMemo, useState } from "react";
 import {
   Area,
   AreaChart,
@@ -31,9 +30,7 @@ interface TransactionsSummaryChartProps {
 export default function TransactionsSummaryChart(
   props: TransactionsSummaryChartProps,
 ) {
-  const [chartData, setChartData] = useState<ShieldedTransactionDatum[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+  const summary = useDataset("transactionSummary");
 
   const [pool, setPool] = useState<"default" | "orchard" | "sapling">(
     "default",
@@ -48,24 +45,16 @@ export default function TransactionsSummaryChart(
 
   const fontSize = useResponsiveFontSize();
 
-  useEffect(() => {
-    const controller = new AbortController();
-    setLoading(true);
-
-    fetchTransactionData(DATA_URL.txsummaryUrl)
-      .then((data) => {
-        setChartData(data);
-        const heights = data.map((d) => d.height);
+  const chartData = useMemo(() => summary.data ?? [], [summary.data]);
 
-        setMinHeight(Math.min(...heights));
-        setMaxHeight(Math.max(...heights));
-        setEndHeight(Math.max(...heights));
-      })
-      .catch(setError)
-      .finally(() => setLoading(false));
+  useEffect(() => {
+    if (chartData.length === 0) return;
+    const heights = chartData.map((d) => d.height);
 
-    return () => controller.abort();
-  }, []);
+    setMinHeight(Math.min(...heights));
+    setMaxHeight(Math.max(...heights));
+    setEndHeight(Math.max(...heights));
+  }, [chartData]);
 
   const processData = () => {
     let saplingSum = 0;
@@ -143,6 +132,7 @@ export default function TransactionsSummaryChart(
   };
 
   const chartDataset = processData();
+  useExportRows("transaction-summary", summary.data && chartDataset);
 
   const handleStartChange = (val: number) => {
     // Prevent start from meeting or exceeding end
@@ -233,7 +223,11 @@ export default function TransactionsSummaryChart(
         </div>
       </ChartHeader>
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={summary.isPending}
+        error={summary.error?.message}
+      >
         {cumulative ? (
           <AreaChart data={chartDataset}>
             <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.1} />
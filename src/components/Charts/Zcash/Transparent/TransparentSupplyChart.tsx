@@ -1,11 +1,11 @@
 import DefaultSelect from "@/components/DefaultSelect";
 import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { useExportRows } from "@/context/ChartExportContext";
 import { useInMobile } from "@/hooks/useInMobile";
 import { useResponsiveFontSize } from "@/hooks/useResponsiveFontSize";
-import { DATA_URL } from "@/lib/chart/data-url";
-import { formatNumberShort, getSupplyData } from "@/lib/chart/helpers";
-import { SupplyData } from "@/lib/chart/types";
-import { RefObject, useCallback, useEffect, useMemo, useState } from "react";
+import { useDataset } from "@/hooks/useDataset";
+import { formatNumberShort } from "@/lib/chart/helpers";
+import { RefObject, useCallback, useMemo, useState } from "react";
 import {
   Area,
   AreaChart,
@@ -22,55 +22,26 @@ type TransparentSupplyChartProps = {
 };
 
 export default function TransparentSupplyChart(props: TransparentSupplyChartProps) {
-  const [loading, setLoading] = useState(true);
+  const supply = useDataset("transparentSupply");
   const [selectedYear, setSelectedYear] = useState("all");
-  const [supplyData, setSupplyData] = useState<SupplyData[]>([]);
   const fontSize = useResponsiveFontSize();
   const isMobile = useInMobile();
 
-  // Fetch data once (no artificial delay)
-  useEffect(() => {
-    const controller = new AbortController();
-    const fetchSupplyData = async () => {
-      setLoading(true);
-      try {
-        const supply = await getSupplyData(
-          DATA_URL.transparentSupplyUrl,
-          controller.signal
-        );
-        setSupplyData(supply || []);
-      } catch (err) {
-        console.error("Error fetching supply data:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchSupplyData();
-    return () => controller.abort();
-  }, []);
-
-  const extractYear = useCallback((dateStr: string) => {
-    const parsed = new Date(dateStr);
-    return parsed.getFullYear().toString();
-  }, []);
+  const supplyData = useMemo(() => supply.data ?? [], [supply.data]);
 
   const getAvailableYears = useCallback(() => {
-    const validData = supplyData.filter(
-      (d) => d && d.close && !isNaN(new Date(d.close).getTime())
-    );
-    if (validData.length === 0) return ["all"];
-    const years = [...new Set(validData.map((d) => extractYear(d.close)))].sort();
+    const years = [...new Set(supplyData.map((d) => d.close.slice(0, 4)))].sort();
     return ["all", ...years];
-  }, [supplyData, extractYear]);
+  }, [supplyData]);
 
   // Memoized filtered data for instant year switching
   const filteredData = useMemo(() => {
     return selectedYear === "all"
       ? supplyData
-      : supplyData.filter((d) => extractYear(d.close) === selectedYear);
-  }, [supplyData, selectedYear, extractYear]);
+      : supplyData.filter((d) => d.close.startsWith(selectedYear));
+  }, [supplyData, selectedYear]);
+  useExportRows("transparent-supply", supply.data && filteredData);
 
-  // Get latest supply from filtered data
   const latestSupply = filteredData[filteredData.length - 1]?.supply || 0;
 
   return (
@@ -96,7 +67,11 @@ export default function TransparentSupplyChart(props: TransparentSupplyChartProp
         </div>
       </ChartHeader>
 
-      <ChartContainer ref={props.chartRef} loading={loading}>
+      <ChartContainer
+        ref={props.chartRef}
+        loading={supply.isPending}
+        error={supply.error?.message}
+      >
         <AreaChart data={filteredData}>
           <defs>
             <linearGradient id="supplyGradient" x1="0" y1="0" x2="0" y2="1">
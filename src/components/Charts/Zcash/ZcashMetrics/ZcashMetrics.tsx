@@ -2,12 +2,12 @@
 
 import { useInMobile } from "@/hooks/useInMobile";
 import { DATA_URL } from "@/lib/chart/data-url";
+import { useDataset } from "@/hooks/useDataset";
 import {
   getBlockchainData,
-  getShieldedTxCount,
   getZcashCirculationCount,
 } from "@/lib/chart/helpers";
-import { BlockchainInfo, ShieldedTxCount } from "@/lib/chart/types";
+import { BlockchainInfo } from "@/lib/chart/types";
 import { useEffect, useState } from "react";
 import { useLanguage } from "@/context/LanguageContext";
 import { ErrorBoundary } from "../../../ErrorBoundary/ErrorBoundary";
@@ -35,9 +35,7 @@ export function ZcashMetrics(props: ZcashStatisticsPorps) {
   const [loading, setLoading] = useState(true);
   const [circulation, setCirculation] = useState<number | null>(null);
   const [blockchainInfo, setBlockchainInfo] = useState<BlockchainInfo | null>();
-  const [shieldedTxCount, setShieldedTxCount] = useState<
-    ShieldedTxCount[] | null
-  >([]);
+  const { data: shieldedTxCount } = useDataset("shieldedTxCount");
 
   useEffect(() => {
     const controller = new AbortController();
@@ -46,10 +44,9 @@ export function ZcashMetrics(props: ZcashStatisticsPorps) {
       setLoading(true);
 
       try {
-        const [chainData, circulationInfo, shieldedTxCount] = await Promise.all([
-          getBlockchainData(DATA_URL.blockchairUrl, controller.signal),
+        const [chainData, circulationInfo] = await Promise.all([
+          getBlockchainData(DATA_URL.chainStatsUrl, controller.signal),
           getZcashCirculationCount(DATA_URL.blockchainInfoUrl, controller.signal),
-          getShieldedTxCount(DATA_URL.shieldedTxCountUrl, controller.signal),
         ]);
 
         if (chainData) {
@@ -60,10 +57,6 @@ export function ZcashMetrics(props: ZcashStatisticsPorps) {
           setCirculation(circulationInfo);
         }
 
-        if (shieldedTxCount) {
-          setShieldedTxCount(shieldedTxCount);
-        }
-
         setLoading(false);
       } catch (err) {
         setLoading(false);
@@ -20,6 +20,7 @@ import dynamic from "next/dynamic";
 import { usePathname, useRouter } from "next/navigation";
 import "./index.css";
 import useExportDashboardAsPNG from "@/hooks/useExportDashboardAsPNG";
+import { ChartExportProvider } from "@/context/ChartExportContext";
 import { useLanguage } from "@/context/LanguageContext";
 import NamadaChart from "./Namada/NamadaChart";
 import PenumbraChart from "./Penumbra/PenumbraChart";
@@ -716,7 +717,7 @@ const Dashboard = ({
 
         {/* OTHER SECTIONS */}
         {currentView === "dashboard" && (
-          <>
+          <ChartExportProvider>
             {selectedCrypto === "zcash" && (
               <ZcashChart
                 divChartRef={divChartRef}
@@ -732,7 +733,7 @@ const Dashboard = ({
             {selectedCrypto === "penumbra" && (
               <PenumbraChart divChartRef={divChartRef} />
             )}
-          </>
+          </ChartExportProvider>
         )}
 
         {currentView === "proposals" && <ProposalsList />}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { FileDown } from "lucide-react";
+
+type Props = {
+  /** Wiki route of the page or series, without leading slash */
+  path: string;
+  series?: boolean;
+};
+
+const FORMATS = [
+  { format: "pdf", label: "PDF" },
+  { format: "epub", label: "EPUB" },
+];
+
+const linkClass =
+  "inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-sm font-medium transition-colors hover:bg-muted dark:border-slate-700";
+
+/** Download links for the PDF and EPUB exports of a page, for printing or reading on e-readers */
+export default function ExportLinks({ path, series = false }: Props) {
+  const { t } = useLanguage();
+  const template = series
+    ? t?.export?.seriesDownloadAs || "Download the whole series as {format}"
+    : t?.export?.downloadAs || "Download as {format}";
+
+  return (
+    <>
+      {FORMATS.map(({ format, label }) => (
+        <a
+          key={format}
+          href={`/api/export/${path}?format=${format}`}
+          download
+          rel="nofollow"
+          title={template.replace("{format}", label)}
+          aria-label={template.replace("{format}", label)}
+          className={linkClass}
+        >
+          <FileDown className="h-4 w-4" aria-hidden />
+          {label}
+        </a>
+      ))}
+    </>
+  );
+}
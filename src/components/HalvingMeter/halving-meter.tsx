@@ -1,27 +1,10 @@
 'use client';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { RefObject } from 'react';
-
-const api = ['https://api.blockchair.com/zcash/stats'];
-
-function fetchData(url: any) {
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    xhr.open('GET', url, true);
-    xhr.onload = function () {
-      if (xhr.status === 200) {
-        const data = JSON.parse(xhr.responseText);
-        resolve(data);
-      } else {
-        reject(new Error(`API request error: ${xhr.status} ${xhr.statusText}`));
-      }
-    };
-    xhr.onerror = function () {
-      reject(new Error('Network error'));
-    };
-    xhr.send();
-  });
-}
+import { useExportRows } from '@/context/ChartExportContext';
+import { DATA_URL } from '@/lib/chart/data-url';
+import { getBlockchainData } from '@/lib/chart/helpers';
+import { createChainSchedule, halvingHeight, halvingIndex } from '@/lib/chain-schedule';
 
 type HalvingMeterProps = {
   chartRef?: RefObject<HTMLDivElement | null>;
@@ -38,23 +21,23 @@ export const HalvingMeter = (props: HalvingMeterProps) => {
   const [seconds, setSeconds] = useState('00');
   const [loading, setLoading] = useState(true);
 
-  const previousHalvingBlock = 2726400; // Block 2726400 (Nov 28, 2024)
-  const nextHalvingBlock = 4406400;     // Block 4406400 (estimated Nov 28, 2028)
-
   // Fetch data once on mount
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchAllData = async () => {
       try {
-        const apiData = await Promise.all(api.map((url) => fetchData(url)));
-        const z_stats: any = apiData[0];
-        const blocks = z_stats.data.blocks;
-        const remaining = nextHalvingBlock - blocks;
+        const stats = await getBlockchainData(DATA_URL.chainStatsUrl, controller.signal);
+        if (!stats) throw new Error('Chain stats unavailable');
+        const blocks = stats.blocks;
+        const nextHalving = halvingHeight(halvingIndex(blocks) + 1);
         
         setCurrentBlock(blocks);
-        setBlocksToHalving(remaining);
+        setBlocksToHalving(nextHalving - blocks);
         
-        const secsToHalving = remaining * 75;
-        const cntDownDate = new Date().getTime() + secsToHalving * 1000;
+        // The tip is at most a minute old, so it stands in for now
+        const schedule = createChainSchedule({ tip: { height: blocks, time: Date.now() / 1000 } });
+        const cntDownDate = schedule.timeAt(nextHalving) * 1000;
         
         setCountDownDate(cntDownDate);
         setHalvingDate(cntDownDate);
@@ -66,12 +49,30 @@ export const HalvingMeter = (props: HalvingMeterProps) => {
     };
 
     fetchAllData();
+
+    return () => controller.abort();
   }, []); // Empty dependency array - only run once
 
   // Halving progress data - calculated from previous halving block
+  const previousHalvingBlock = halvingHeight(halvingIndex(currentBlock));
+  const nextHalvingBlock = halvingHeight(halvingIndex(currentBlock) + 1);
   const progressPercent = currentBlock > 0 ? 
     ((currentBlock - previousHalvingBlock) / (nextHalvingBlock - previousHalvingBlock)) * 100 : 0;
 
+  const exportRows = useMemo(
+    () =>
+      currentBlock > 0
+        ? [{
+            currentBlock,
+            nextHalvingBlock,
+            blocksToHalving,
+            estimatedHalvingDate: new Date(halvingDate).toISOString(),
+          }]
+        : undefined,
+    [currentBlock, nextHalvingBlock, blocksToHalving, halvingDate]
+  );
+  useExportRows('halving', exportRows);
+
   // Separate effect for the countdown timer
   useEffect(() => {
     if (!countDownDate || countDownDate === 0) return;
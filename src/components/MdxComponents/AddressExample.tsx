@@ -0,0 +1,65 @@
+"use client";
+
+import { getZcashAddressKind, type ZcashAddressKind } from "@/lib/payment-request-uri/zip321";
+import { useState } from "react";
+import { FaCheck, FaRegCopy } from "react-icons/fa";
+import ComponentError from "./ComponentError";
+
+const KIND_LABELS: Record<Exclude<ZcashAddressKind, "unknown">, string> = {
+  unified: "Unified address",
+  sapling: "Sapling address",
+  transparent: "Transparent address",
+  sprout: "Sprout address",
+};
+
+type Props = {
+  address: string;
+  /** Overrides the label derived from the address prefix */
+  label?: string;
+};
+
+/**
+ * `<AddressExample address="u1…" />` shows a sample address with its type
+ * and a copy button, clearly marked as an example not to send funds to.
+ */
+export default function AddressExample({ address, label }: Props) {
+  const [copied, setCopied] = useState(false);
+  const value = String(address ?? "").trim();
+  const kind = getZcashAddressKind(value);
+
+  if (kind === "unknown") {
+    return <ComponentError name="AddressExample" message={`"${value}" is not a Zcash address.`} />;
+  }
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      /* clipboard may be denied in insecure contexts */
+    }
+  };
+
+  return (
+    <figure className="my-6 rounded-lg border border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
+      <figcaption className="mb-2 flex flex-wrap items-center justify-between gap-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+        <span>{label ?? KIND_LABELS[kind]}</span>
+        <span className="rounded bg-amber-100 px-1.5 py-0.5 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200">
+          Example only, do not send funds
+        </span>
+      </figcaption>
+      <div className="flex items-start gap-2">
+        <code className="min-w-0 flex-1 break-all font-mono text-sm">{value}</code>
+        <button
+          type="button"
+          onClick={copy}
+          aria-label={copied ? "Address copied" : "Copy address"}
+          className="shrink-0 rounded-md p-2 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+        >
+          {copied ? <FaCheck aria-hidden /> : <FaRegCopy aria-hidden />}
+        </button>
+      </div>
+    </figure>
+  );
+}
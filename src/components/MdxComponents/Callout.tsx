@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { FaCheckCircle, FaExclamationTriangle, FaInfoCircle, FaLightbulb } from "react-icons/fa";
+
+const VARIANTS = {
+  info: {
+    icon: FaInfoCircle,
+    title: "Note",
+    className: "border-blue-300 bg-blue-50 text-blue-900 dark:border-blue-800 dark:bg-blue-950/40 dark:text-blue-100",
+  },
+  tip: {
+    icon: FaLightbulb,
+    title: "Tip",
+    className: "border-emerald-300 bg-emerald-50 text-emerald-900 dark:border-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-100",
+  },
+  success: {
+    icon: FaCheckCircle,
+    title: "Done",
+    className: "border-emerald-300 bg-emerald-50 text-emerald-900 dark:border-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-100",
+  },
+  warning: {
+    icon: FaExclamationTriangle,
+    title: "Warning",
+    className: "border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-100",
+  },
+  danger: {
+    icon: FaExclamationTriangle,
+    title: "Danger",
+    className: "border-red-300 bg-red-50 text-red-900 dark:border-red-800 dark:bg-red-950/40 dark:text-red-100",
+  },
+};
+
+type Props = {
+  type?: keyof typeof VARIANTS;
+  title?: string;
+  children?: ReactNode;
+};
+
+/** `<Callout type="warning" title="Back up your seed">…</Callout>` */
+export default function Callout({ type = "info", title, children }: Props) {
+  const variant = VARIANTS[type] ?? VARIANTS.info;
+  const Icon = variant.icon;
+
+  return (
+    <aside className={`my-6 rounded-lg border-l-4 px-4 py-3 ${variant.className}`}>
+      <p className="mb-1 flex items-center gap-2 font-semibold">
+        <Icon aria-hidden />
+        {title ?? variant.title}
+      </p>
+      <div className="[&>p:last-child]:mb-0 [&>p]:my-2">{children}</div>
+    </aside>
+  );
+}
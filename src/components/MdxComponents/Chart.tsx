@@ -0,0 +1,47 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import { useRef, type ComponentType, type RefObject } from "react";
+import ComponentError from "./ComponentError";
+import "@/components/Charts/index.css";
+
+type ChartProps = { chartRef: RefObject<HTMLDivElement | null> };
+
+const loading = () => (
+  <div className="flex h-[400px] items-center justify-center text-sm text-muted-foreground">
+    Loading chart…
+  </div>
+);
+
+/** Dashboard charts authors can embed by name, loaded only when used */
+const CHARTS: Record<string, ComponentType<ChartProps>> = {
+  "shielded-supply": dynamic(() => import("@/components/Charts/Zcash/ShieldedSupplyChart"), { ssr: false, loading }),
+  difficulty: dynamic(() => import("@/components/Charts/Zcash/DifficultyChart"), { ssr: false, loading }),
+  issuance: dynamic(() => import("@/components/Charts/Zcash/IssuanceChart"), { ssr: false, loading }),
+  lockbox: dynamic(() => import("@/components/Charts/Zcash/LockboxChart"), { ssr: false, loading }),
+  "net-flows": dynamic(() => import("@/components/Charts/Zcash/NetInflowsOutflowsChart"), { ssr: false, loading }),
+  "node-count": dynamic(() => import("@/components/Charts/Zcash/NodeCountChart"), { ssr: false, loading }),
+  "transaction-summary": dynamic(() => import("@/components/Charts/Zcash/TransactionSummaryChart"), { ssr: false, loading }),
+  "privacy-set": dynamic(() => import("@/components/Charts/Zcash/PrivacySetVisualizationChart"), { ssr: false, loading }),
+};
+
+/** `<Chart name="shielded-supply" />`, a live chart from the dashboard */
+export default function Chart({ name }: { name: string }) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const Component = Object.prototype.hasOwnProperty.call(CHARTS, name) ? CHARTS[name] : null;
+
+  if (!Component) {
+    return (
+      <ComponentError
+        name="Chart"
+        message={`has no chart named "${name}". Available: ${Object.keys(CHARTS).join(", ")}.`}
+      />
+    );
+  }
+
+  return (
+    <div className="not-prose my-6 rounded-lg border border-slate-200 p-4 dark:border-slate-700">
+      <Component chartRef={chartRef} />
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+type Props = {
+  name: string;
+  message: string;
+};
+
+/** Visible stand-in for a wiki component that is unknown or failed to render */
+export default function ComponentError({ name, message }: Props) {
+  return (
+    <div
+      role="alert"
+      className="my-4 rounded-lg border border-red-300 bg-red-50 px-4 py-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950/40 dark:text-red-200"
+    >
+      <code className="font-mono font-semibold">{`<${name}>`}</code> {message}
+    </div>
+  );
+}
@@ -2,19 +2,43 @@ import Link from "next/link";
 import Image from "next/image";
 import React, { HTMLProps, JSX } from "react";
 import { transformGithubFilePathToWikiLink } from "@/lib/helpers";
+import { slugify } from "@/lib/slugify";
 import type { MDXComponents } from "mdx/types";
+import { FaLink } from "react-icons/fa";
 
-// Strong slugify for TOC links (handles parentheses, +, etc.)
-const slugify = (text: string): string => {
-  return text
-    .trim()
-    .toLowerCase()
-    .replace(/[\(\)]/g, '')
-    .replace(/\+/g, '-and-')
-    .replace(/[^\w\s-]/g, '')
-    .replace(/[\s_-]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-};
+function Heading({
+  level,
+  className,
+  children,
+  id,
+  ...props
+}: Omit<HTMLProps<HTMLHeadingElement>, "as"> & { level: 1 | 2 | 3 }): JSX.Element {
+  const Tag = `h${level}` as const;
+  const headingId = id || slugify(React.Children.toArray(children).join("").trim());
+
+  const copyLink = () => {
+    const url = `${window.location.origin}${window.location.pathname}#${headingId}`;
+    navigator.clipboard?.writeText(url).catch(() => {
+      /* clipboard may be denied in insecure contexts */
+    });
+  };
+
+  return (
+    <Tag id={headingId} className={`group ${className}`} {...props}>
+      {children}
+      {headingId && (
+        <a
+          href={`#${headingId}`}
+          onClick={copyLink}
+          aria-label="Link to this section"
+          className="ml-2 align-middle text-[0.6em] text-muted-foreground no-underline opacity-0 transition-opacity hover:text-foreground focus:opacity-100 group-hover:opacity-100"
+        >
+          <FaLink className="inline" aria-hidden />
+        </a>
+      )}
+    </Tag>
+  );
+}
 
 const MdxComponents = {
   // TOC LINKS — underline on hover only (no dashed line)
@@ -49,22 +73,16 @@ const MdxComponents = {
     );
   },
 
-  // Headings with IDs
-  h1: (props: HTMLProps<HTMLHeadingElement>): JSX.Element => {
-    const text = React.Children.toArray(props.children).join('').trim();
-    const id = slugify(text);
-    return <h1 id={id} className="text-4xl font-bold my-6 scroll-mt-20" {...props} />;
-  },
-  h2: (props: HTMLProps<HTMLHeadingElement>): JSX.Element => {
-    const text = React.Children.toArray(props.children).join('').trim();
-    const id = slugify(text);
-    return <h2 id={id} className="text-3xl font-bold my-6 scroll-mt-20" {...props} />;
-  },
-  h3: (props: HTMLProps<HTMLHeadingElement>): JSX.Element => {
-    const text = React.Children.toArray(props.children).join('').trim();
-    const id = slugify(text);
-    return <h3 id={id} className="text-2xl font-bold my-5 scroll-mt-20" {...props} />;
-  },
+  // Headings with IDs (set by rehypeHeadingIds) and a hover permalink
+  h1: (props: HTMLProps<HTMLHeadingElement>): JSX.Element => (
+    <Heading level={1} className="text-4xl font-bold my-6 scroll-mt-20" {...props} />
+  ),
+  h2: (props: HTMLProps<HTMLHeadingElement>): JSX.Element => (
+    <Heading level={2} className="text-3xl font-bold my-6 scroll-mt-20" {...props} />
+  ),
+  h3: (props: HTMLProps<HTMLHeadingElement>): JSX.Element => (
+    <Heading level={3} className="text-2xl font-bold my-5 scroll-mt-20" {...props} />
+  ),
 
   // Code blocks — your exact tan styling
   code: (props: HTMLProps<HTMLElement> & { className?: string }): JSX.Element => {
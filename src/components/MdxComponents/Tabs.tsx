@@ -0,0 +1,71 @@
+"use client";
+
+import { Children, isValidElement, useId, useState, type ReactNode } from "react";
+
+type TabProps = {
+  label: string;
+  children?: ReactNode;
+};
+
+/** One panel of `<Tabs>`; only meaningful as its direct child */
+export function Tab({ children }: TabProps) {
+  return <>{children}</>;
+}
+
+/**
+ * ```mdx
+ * <Tabs>
+ *   <Tab label="Zashi">…</Tab>
+ *   <Tab label="Ywallet">…</Tab>
+ * </Tabs>
+ * ```
+ */
+export default function Tabs({ children }: { children?: ReactNode }) {
+  const id = useId();
+  const [active, setActive] = useState(0);
+
+  const tabs = Children.toArray(children).filter(
+    (child): child is React.ReactElement<TabProps> =>
+      isValidElement<TabProps>(child) && typeof child.props.label === "string",
+  );
+
+  if (tabs.length === 0) return null;
+  const selected = Math.min(active, tabs.length - 1);
+
+  return (
+    <div className="my-6 rounded-lg border border-slate-200 dark:border-slate-700">
+      <div role="tablist" className="flex flex-wrap border-b border-slate-200 dark:border-slate-700">
+        {tabs.map((tab, i) => (
+          <button
+            key={tab.props.label}
+            type="button"
+            role="tab"
+            id={`${id}-tab-${i}`}
+            aria-selected={i === selected}
+            aria-controls={`${id}-panel-${i}`}
+            onClick={() => setActive(i)}
+            className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium transition-colors ${
+              i === selected
+                ? "border-blue-600 text-foreground dark:border-blue-300"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {tab.props.label}
+          </button>
+        ))}
+      </div>
+      {tabs.map((tab, i) => (
+        <div
+          key={tab.props.label}
+          role="tabpanel"
+          id={`${id}-panel-${i}`}
+          aria-labelledby={`${id}-tab-${i}`}
+          hidden={i !== selected}
+          className="px-4 py-2"
+        >
+          {tab}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary";
+import { UNKNOWN_COMPONENT, type WikiMdxComponentName } from "@/lib/mdx/components";
+import type { ComponentType } from "react";
+import AddressExample from "./AddressExample";
+import Callout from "./Callout";
+import Chart from "./Chart";
+import ComponentError from "./ComponentError";
+import Tabs, { Tab } from "./Tabs";
+import ZecAmount from "./ZecAmount";
+import Zip from "./Zip";
+
+/** A component that throws renders an error box instead of taking the page down */
+function withErrorBoundary<P extends object>(name: string, Component: ComponentType<P>) {
+  const Wrapped = (props: P) => (
+    <ErrorBoundary fallback={<ComponentError name={name} message="failed to render." />}>
+      <Component {...props} />
+    </ErrorBoundary>
+  );
+  Wrapped.displayName = `Wiki(${name})`;
+  return Wrapped;
+}
+
+/**
+ * Components available to wiki markdown, see "MDX components" in the README.
+ * Names outside this map are rewritten to `UnknownComponent` by
+ * `remarkWikiComponents` at serialize time.
+ */
+const WikiComponents = {
+  Callout: withErrorBoundary("Callout", Callout),
+  Tabs: withErrorBoundary("Tabs", Tabs),
+  Tab: withErrorBoundary("Tab", Tab),
+  Zip: withErrorBoundary("Zip", Zip),
+  Chart: withErrorBoundary("Chart", Chart),
+  ZecAmount: withErrorBoundary("ZecAmount", ZecAmount),
+  AddressExample: withErrorBoundary("AddressExample", AddressExample),
+  [UNKNOWN_COMPONENT]: ({ name }: { name: string }) => (
+    <ComponentError name={name} message="is not a component available on the wiki." />
+  ),
+} satisfies Record<WikiMdxComponentName | typeof UNKNOWN_COMPONENT, ComponentType<never>>;
+
+export default WikiComponents;
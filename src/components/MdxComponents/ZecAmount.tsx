@@ -0,0 +1,64 @@
+"use client";
+
+import { isFiatCurrency } from "@/lib/payment-request-uri/price/currencies";
+import { formatZecAmount } from "@/lib/payment-request-uri/zip321";
+import { useEffect, useState } from "react";
+import ComponentError from "./ComponentError";
+
+const ZATOSHI_PER_ZEC = 100_000_000;
+const PRICE_FEED_URL = "/api/payment-request-uri/zcash-price-feed";
+
+type Props = {
+  /** Amount in ZEC, e.g. `1.5` */
+  value?: number | string;
+  /** Amount in zatoshi, used when `value` is not given */
+  zats?: number | string;
+  /** Also show the current value in this fiat currency, e.g. `usd` */
+  currency?: string;
+};
+
+/** `<ZecAmount value={0.5} currency="usd" />` renders "0.5 ZEC (≈ $12.34)" */
+export default function ZecAmount({ value, zats, currency }: Props) {
+  const zec = value !== undefined ? Number(value) : Number(zats) / ZATOSHI_PER_ZEC;
+  const fiatCurrency = currency?.toLowerCase();
+  const [fiat, setFiat] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!fiatCurrency || !isFiatCurrency(fiatCurrency) || !Number.isFinite(zec)) return;
+    const controller = new AbortController();
+
+    fetch(`${PRICE_FEED_URL}?currency=${fiatCurrency}`, {
+      signal: controller.signal,
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((body) => {
+        const rate = body?.data?.rate;
+        if (typeof rate !== "number") return;
+        setFiat(
+          new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: fiatCurrency.toUpperCase(),
+          }).format(zec * rate),
+        );
+      })
+      .catch(() => {
+        /* the ZEC amount alone is still correct */
+      });
+
+    return () => controller.abort();
+  }, [zec, fiatCurrency]);
+
+  if (!Number.isFinite(zec) || zec < 0) {
+    return <ComponentError name="ZecAmount" message="expects a non-negative `value` or `zats`." />;
+  }
+  if (fiatCurrency && !isFiatCurrency(fiatCurrency)) {
+    return <ComponentError name="ZecAmount" message={`does not support the currency "${currency}".`} />;
+  }
+
+  return (
+    <span className="whitespace-nowrap font-medium" title={`${Math.round(zec * ZATOSHI_PER_ZEC)} zatoshi`}>
+      {formatZecAmount(zec)} ZEC
+      {fiat && <span className="font-normal text-muted-foreground"> (≈ {fiat})</span>}
+    </span>
+  );
+}
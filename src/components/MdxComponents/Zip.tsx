@@ -0,0 +1,51 @@
+"use client";
+
+import type { Zip as ZipData, ZipStatus } from "@/app/zips/types";
+import { createContext, useContext } from "react";
+import ComponentError from "./ComponentError";
+
+/** ZIPs referenced by the page, loaded on the server by number */
+export const WikiZipsContext = createContext<Record<number, ZipData>>({});
+
+const STATUS_BADGE: Record<ZipStatus, string> = {
+  Final: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-200",
+  Active: "bg-sky-100 text-sky-800 dark:bg-sky-900/50 dark:text-sky-200",
+  Proposed: "bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200",
+  Draft: "bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200",
+  Reserved: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+  Withdrawn: "bg-rose-100 text-rose-800 dark:bg-rose-900/50 dark:text-rose-200",
+  Obsolete: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+};
+
+function zipUrl(num: number): string {
+  return `https://zips.z.cash/zip-${String(num).padStart(4, "0")}`;
+}
+
+/** `<Zip num={317} />`, an inline link to the ZIP with its title and status */
+export default function Zip({ num }: { num: number | string }) {
+  const zips = useContext(WikiZipsContext);
+  const number = Number(num);
+
+  if (!Number.isInteger(number) || number < 0) {
+    return <ComponentError name="Zip" message={`expects a ZIP number, got "${num}".`} />;
+  }
+
+  const zip = zips[number];
+
+  return (
+    <a
+      href={zipUrl(number)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="inline-flex items-baseline gap-1.5 font-medium text-blue-700 hover:underline dark:text-blue-300"
+    >
+      <span>ZIP {number}</span>
+      {zip && <span className="text-foreground">{zip.title}</span>}
+      {zip && (
+        <span className={`rounded px-1.5 py-0.5 text-[0.7em] font-semibold ${STATUS_BADGE[zip.status]}`}>
+          {zip.status}
+        </span>
+      )}
+    </a>
+  );
+}
@@ -1,6 +1,9 @@
 import Image from "next/image";
 import Link from "next/link";
 import ResearchArticleAside from "@/components/Research/ResearchArticleAside";
+import TableOfContents from "@/components/TableOfContents/TableOfContents";
+import type { TocItem } from "@/lib/toc";
+import { getLanguage } from "@/i18n/routing";
 
 type MdxContainerProps = {
   roots: any;
@@ -20,6 +23,15 @@ type MdxContainerProps = {
     shareUrl: string;
     pageTitle: string;
   };
+  /** Rendered below the article, e.g. its revision history */
+  footer?: React.ReactNode;
+  /** Locale of the article content */
+  lang?: string;
+  /** Headings and reading time of the article, shown beside it */
+  toc?: {
+    items: TocItem[];
+    readingTime: number;
+  };
 };
 
 const defaultImgSource = "/wiki-banner.avif";
@@ -37,15 +49,21 @@ export default async function MdxContainer({
   children,
   layoutVariant = "default",
   researchMeta,
+  footer,
+  lang,
+  toc,
 }: MdxContainerProps) {
   const lightSrc = heroImage?.src ?? defaultImgSource;
   const darkSrc = heroImage?.darkSrc ?? lightSrc;
   const width = heroImage?.width ?? 800;
   const height = heroImage?.height ?? 50;
   const isResearchArticle = layoutVariant === "research" && researchMeta;
+  const tableOfContents = toc ? (
+    <TableOfContents items={toc.items} readingTime={toc.readingTime} />
+  ) : null;
 
   return (
-    <main>
+    <main lang={lang} dir={lang ? getLanguage(lang).dir : undefined}>
       {!isResearchArticle ? (
         <div className="mb-5 flex w-full justify-center rounded bg-transparent pb-0 imd:pb-4">
           {/* Light mode image */}
@@ -119,21 +137,31 @@ export default async function MdxContainer({
               <div className="research-article-mdx max-w-none [&_img]:max-w-full [&_img]:rounded-lg">
                 {children}
               </div>
+              {footer}
             </section>
             <ResearchArticleAside
               title={researchMeta.pageTitle}
               shareUrl={researchMeta.shareUrl}
+              tableOfContents={tableOfContents}
             />
           </div>
         ) : (
-          <section
-            style={{ margin: "auto" }}
-            className={`h-auto w-full p-3 dark:border-slate-400 ${
-              hasSideMenu ? "xl:border-l" : ""
-            }`}
-          >
-            {children}
-          </section>
+          <div className="flex min-w-0 flex-1 flex-col gap-8 xl:flex-row xl:items-start">
+            {tableOfContents && (
+              <aside className="w-full shrink-0 px-3 xl:order-last xl:w-64 xl:px-0">
+                {tableOfContents}
+              </aside>
+            )}
+            <section
+              style={{ margin: "auto" }}
+              className={`h-auto w-full min-w-0 p-3 dark:border-slate-400 xl:flex-1 ${
+                hasSideMenu ? "xl:border-l" : ""
+              }`}
+            >
+              {children}
+              {footer}
+            </section>
+          </div>
         )}
       </div>
     </main>
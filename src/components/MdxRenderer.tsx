@@ -1,12 +1,28 @@
 "use client";
+import type { Zip } from "@/app/zips/types";
 import { useEffect } from "react";
 import { MDXRemote } from "next-mdx-remote";
 import MdxComponents from "./MdxComponents/MdxComponent";
+import WikiComponents from "./MdxComponents/WikiComponents";
+import { WikiZipsContext } from "./MdxComponents/Zip";
 
-export default function MdxRenderer({ source }: { source: any }) {
+const components = { ...MdxComponents, ...WikiComponents };
+
+export default function MdxRenderer({
+  source,
+  zips = {},
+}: {
+  source: any;
+  /** ZIPs referenced through `<Zip num={…}/>`, keyed by number */
+  zips?: Record<number, Zip>;
+}) {
   useEffect(() => {
     window.dispatchEvent(new CustomEvent("zechub:mdx-ready"));
   }, [source]);
 
-  return <MDXRemote {...source} components={MdxComponents} />;
+  return (
+    <WikiZipsContext.Provider value={zips}>
+      <MDXRemote {...source} components={components} />
+    </WikiZipsContext.Provider>
+  );
 }
@@ -0,0 +1,152 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import {
+  isOfflineStorageSupported,
+  listSavedArticles,
+  SAVED_ARTICLES_EVENT,
+  type SavedArticle,
+} from "@/lib/offline/articles";
+import { refreshSavedArticles, removeArticleOffline } from "@/lib/offline/sync";
+import { ArrowLeft, RefreshCw, Trash2, WifiOff } from "lucide-react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+
+const buttonClass =
+  "inline-flex items-center gap-2 rounded-md border border-zinc-200 px-3 py-1.5 text-sm font-medium transition-colors hover:bg-muted disabled:opacity-60 dark:border-[#243040]";
+
+function formatDate(iso: string, locale: string) {
+  return new Date(iso).toLocaleDateString(locale, { dateStyle: "medium" });
+}
+
+/**
+ * Articles saved on this device. `?article=<path>` shows one of them; the
+ * service worker redirects here when a page cannot be loaded offline.
+ */
+export default function OfflineLibrary() {
+  const { t, locale } = useLanguage();
+  const requested = useSearchParams().get("article");
+  const [articles, setArticles] = useState<SavedArticle[] | null>(null);
+  const [online, setOnline] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!isOfflineStorageSupported()) return setArticles([]);
+    setArticles(await listSavedArticles().catch(() => []));
+  }, []);
+
+  useEffect(() => {
+    load();
+    window.addEventListener(SAVED_ARTICLES_EVENT, load);
+    return () => window.removeEventListener(SAVED_ARTICLES_EVENT, load);
+  }, [load]);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  const refresh = async () => {
+    setRefreshing(true);
+    try {
+      await refreshSavedArticles({ force: true });
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (articles === null) return null;
+
+  if (!isOfflineStorageSupported()) {
+    return <p className="text-sm text-zinc-500">{t?.offline?.unsupported || "This browser cannot store articles for offline reading."}</p>;
+  }
+
+  const current = requested ? articles.find((a) => a.path === requested) : undefined;
+
+  const offlineNotice = !online && (
+    <p
+      role="status"
+      className="flex items-center gap-2 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-100"
+    >
+      <WifiOff className="h-4 w-4 shrink-0" aria-hidden />
+      {t?.offline?.offlineNotice || "You are offline."}
+      {requested && !current && (
+        <> {(t?.offline?.notSaved || "{page} is not saved on this device.").replace("{page}", requested)}</>
+      )}
+    </p>
+  );
+
+  if (current) {
+    return (
+      <div className="space-y-6">
+        {offlineNotice}
+        <Link href="/offline" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" aria-hidden />
+          {t?.offline?.backToLibrary || "All saved articles"}
+        </Link>
+        <article
+          lang={current.lang ?? undefined}
+          className="min-w-0"
+          dangerouslySetInnerHTML={{ __html: current.html }}
+        />
+        <p className="text-xs text-muted-foreground">
+          {(t?.offline?.updatedOn || "Updated {date}").replace("{date}", formatDate(current.refreshedAt, locale))}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {offlineNotice}
+      {articles.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-[#5a6a7e]">
+          {t?.offline?.empty || "No saved articles yet. Use “Save for offline” on any wiki article to keep a copy on this device."}
+        </p>
+      ) : (
+        <>
+          <ul className="divide-y divide-zinc-200 rounded-xl border border-zinc-200 dark:divide-[#243040] dark:border-[#243040]">
+            {articles.map((article) => (
+              <li key={article.path} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <Link
+                    href={`/offline?article=${encodeURIComponent(article.path)}`}
+                    className="block truncate font-medium text-zinc-900 hover:underline dark:text-white"
+                  >
+                    {article.title || article.path}
+                  </Link>
+                  <p className="text-xs text-zinc-500 dark:text-[#5a6a7e]">
+                    {article.path} ·{" "}
+                    {(t?.offline?.savedOn || "Saved {date}").replace("{date}", formatDate(article.savedAt, locale))}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeArticleOffline(article.path)}
+                  className={buttonClass}
+                  aria-label={`${t?.offline?.remove || "Remove"}: ${article.title || article.path}`}
+                >
+                  <Trash2 className="h-4 w-4" aria-hidden />
+                  {t?.offline?.remove || "Remove"}
+                </button>
+              </li>
+            ))}
+          </ul>
+          {online && (
+            <button type="button" onClick={refresh} disabled={refreshing} className={buttonClass}>
+              <RefreshCw className={`h-4 w-4 ${refreshing ? "animate-spin" : ""}`} aria-hidden />
+              {t?.offline?.refresh || "Update saved articles"}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
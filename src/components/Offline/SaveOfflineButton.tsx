@@ -0,0 +1,83 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import {
+  getSavedArticle,
+  isOfflineStorageSupported,
+  SAVED_ARTICLES_EVENT,
+} from "@/lib/offline/articles";
+import { OFFLINE_ARTICLE_ATTR, snapshotArticle } from "@/lib/offline/snapshot";
+import { removeArticleOffline, saveArticleOffline } from "@/lib/offline/sync";
+import { Check, Download } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+type Status = "unsupported" | "idle" | "saving" | "saved";
+
+const buttonClass =
+  "inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 text-sm font-medium transition-colors hover:bg-muted disabled:opacity-60 dark:border-slate-700";
+
+/** Keeps a copy of the current wiki article in IndexedDB for the offline library */
+export default function SaveOfflineButton() {
+  const { t } = useLanguage();
+  const [status, setStatus] = useState<Status>("unsupported");
+
+  const syncStatus = useCallback(async () => {
+    if (!isOfflineStorageSupported()) return;
+    const saved = await getSavedArticle(window.location.pathname).catch(() => null);
+    setStatus(saved ? "saved" : "idle");
+  }, []);
+
+  useEffect(() => {
+    syncStatus();
+    window.addEventListener(SAVED_ARTICLES_EVENT, syncStatus);
+    return () => window.removeEventListener(SAVED_ARTICLES_EVENT, syncStatus);
+  }, [syncStatus]);
+
+  if (status === "unsupported") return null;
+
+  const toggle = async () => {
+    const path = window.location.pathname;
+    if (status === "saved") {
+      await removeArticleOffline(path);
+      return;
+    }
+
+    const article = document.querySelector(`[${OFFLINE_ARTICLE_ATTR}]`);
+    if (!article) return;
+
+    setStatus("saving");
+    try {
+      const snapshot = snapshotArticle(article, window.location.href, document.title);
+      const lang = article.closest("[lang]")?.getAttribute("lang") ?? null;
+      await saveArticleOffline(path, snapshot, lang);
+    } catch (err) {
+      console.error("[offline] could not save article:", err);
+      setStatus("idle");
+    }
+  };
+
+  const label =
+    status === "saved"
+      ? t?.offline?.saved || "Saved for offline"
+      : status === "saving"
+        ? t?.offline?.saving || "Saving…"
+        : t?.offline?.save || "Save for offline";
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      disabled={status === "saving"}
+      aria-pressed={status === "saved"}
+      title={status === "saved" ? t?.offline?.remove || "Remove" : undefined}
+      className={buttonClass}
+    >
+      {status === "saved" ? (
+        <Check className="h-4 w-4 text-green-600" aria-hidden />
+      ) : (
+        <Download className="h-4 w-4" aria-hidden />
+      )}
+      {label}
+    </button>
+  );
+}
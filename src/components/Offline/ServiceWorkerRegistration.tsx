@@ -0,0 +1,32 @@
+"use client";
+
+import { isOfflineStorageSupported } from "@/lib/offline/articles";
+import { refreshSavedArticles } from "@/lib/offline/sync";
+import { postToServiceWorker, registerServiceWorker } from "@/lib/offline/worker";
+import { useEffect } from "react";
+
+/**
+ * Registers `public/sw.js` and, whenever the reader is (back) online,
+ * updates saved articles and the cached chart datasets.
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    // The dev server rebuilds assets on every change; a caching worker would serve stale ones
+    if (process.env.NODE_ENV !== "production") return;
+
+    const refresh = () => {
+      postToServiceWorker({ type: "refresh-data" });
+      if (isOfflineStorageSupported()) {
+        refreshSavedArticles().catch((err) =>
+          console.error("[offline] refreshing saved articles failed:", err),
+        );
+      }
+    };
+
+    registerServiceWorker().then(refresh);
+    window.addEventListener("online", refresh);
+    return () => window.removeEventListener("online", refresh);
+  }, []);
+
+  return null;
+}
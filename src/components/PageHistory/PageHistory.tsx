@@ -0,0 +1,164 @@
+import type { ContentFileLinks } from "@/lib/authAndFetch";
+import type { ContentCommit } from "@/lib/content-source";
+import Image from "next/image";
+import { FaGithub, FaHistory, FaRegEdit } from "react-icons/fa";
+import { MdOutlineRateReview } from "react-icons/md";
+
+type Props = {
+  commits: ContentCommit[];
+  links: ContentFileLinks;
+  /** Front matter `updated`, shown when the history is unavailable */
+  updated?: string | null;
+};
+
+const MAX_AVATARS = 8;
+
+type Contributor = {
+  key: string;
+  name: string;
+  login: string | null;
+  avatarUrl: string | null;
+  commits: number;
+};
+
+function formatDate(value: string): string | null {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/** Commit authors, most active first */
+function getContributors(commits: ContentCommit[]): Contributor[] {
+  const byKey = new Map<string, Contributor>();
+
+  for (const { author } of commits) {
+    const key = author.login ?? author.name;
+    const existing = byKey.get(key);
+    if (existing) existing.commits++;
+    else byKey.set(key, { key, ...author, commits: 1 });
+  }
+
+  return [...byKey.values()].sort((a, b) => b.commits - a.commits);
+}
+
+function Avatar({ name, avatarUrl }: { name: string; avatarUrl: string | null }) {
+  if (avatarUrl) {
+    return (
+      <Image
+        src={avatarUrl}
+        alt={name}
+        width={28}
+        height={28}
+        className="h-7 w-7 rounded-full ring-2 ring-background"
+      />
+    );
+  }
+
+  return (
+    <span
+      aria-label={name}
+      className="flex h-7 w-7 items-center justify-center rounded-full bg-muted text-xs font-semibold uppercase ring-2 ring-background"
+    >
+      {name.charAt(0)}
+    </span>
+  );
+}
+
+const linkClass =
+  "inline-flex items-center gap-2 rounded-md border border-slate-200 px-3 py-1.5 font-medium transition-colors hover:bg-muted dark:border-slate-700";
+
+export default function PageHistory({ commits, links, updated }: Props) {
+  const lastUpdated = formatDate(commits[0]?.date ?? updated ?? "");
+  const contributors = getContributors(commits);
+  const hidden = contributors.length - MAX_AVATARS;
+
+  return (
+    <footer className="mt-12 border-t border-slate-200 pt-6 text-sm dark:border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap items-center gap-4 text-muted-foreground">
+          {lastUpdated ? (
+            <span>
+              Last updated{" "}
+              <time dateTime={commits[0]?.date ?? updated ?? undefined}>
+                {lastUpdated}
+              </time>
+            </span>
+          ) : null}
+
+          {contributors.length > 0 ? (
+            <ul className="flex items-center -space-x-2" aria-label="Contributors">
+              {contributors.slice(0, MAX_AVATARS).map((c) => (
+                <li key={c.key} title={`${c.name} (${c.commits})`}>
+                  {c.login ? (
+                    <a href={`https://github.com/${c.login}`} target="_blank" rel="noopener noreferrer">
+                      <Avatar name={c.name} avatarUrl={c.avatarUrl} />
+                    </a>
+                  ) : (
+                    <Avatar name={c.name} avatarUrl={c.avatarUrl} />
+                  )}
+                </li>
+              ))}
+              {hidden > 0 ? <li className="pl-4 text-xs">+{hidden}</li> : null}
+            </ul>
+          ) : null}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <a href={links.edit} target="_blank" rel="noopener noreferrer" className={linkClass}>
+            <FaRegEdit aria-hidden /> Edit on GitHub
+          </a>
+          <a href={links.suggest} target="_blank" rel="noopener noreferrer" className={linkClass}>
+            <MdOutlineRateReview aria-hidden /> Suggest change
+          </a>
+        </div>
+      </div>
+
+      {commits.length > 0 ? (
+        <details className="mt-4">
+          <summary className="inline-flex cursor-pointer items-center gap-2 font-medium text-muted-foreground hover:text-foreground">
+            <FaHistory aria-hidden /> View history ({commits.length})
+          </summary>
+
+          <ol className="mt-4 space-y-3">
+            {commits.map((commit) => (
+              <li key={commit.sha} className="flex items-start gap-3">
+                <Avatar name={commit.author.name} avatarUrl={commit.author.avatarUrl} />
+                <div className="min-w-0 flex-1">
+                  {commit.url ? (
+                    <a
+                      href={commit.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block truncate font-medium hover:underline"
+                    >
+                      {commit.message}
+                    </a>
+                  ) : (
+                    <p className="truncate font-medium">{commit.message}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {commit.author.name} · {formatDate(commit.date) ?? commit.date} ·{" "}
+                    <code>{commit.sha.slice(0, 7)}</code>
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <a
+            href={links.history}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-4 inline-flex items-center gap-2 text-muted-foreground hover:text-foreground hover:underline"
+          >
+            <FaGithub aria-hidden /> Full history on GitHub
+          </a>
+        </details>
+      ) : null}
+    </footer>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { createChainSchedule } from "@/lib/chain-schedule";
 import React, { useEffect, useState } from "react";
 
 
@@ -9,17 +10,8 @@ type TransactionSummaryDatum = {
   orchard: number;
 };
 
-// Define year boundaries by block height
-const HEIGHT_YEAR_MAP = [
-  { start: 0, end: 257775, year: "2018" },
-  { start: 257776, end: 676656, year: "2019" },
-  { start: 676657, end: 1095537, year: "2020" },
-  { start: 1095538, end: 1514418, year: "2021" },
-  { start: 1514419, end: 1933299, year: "2022" },
-  { start: 1933300, end: 2352180, year: "2023" },
-  { start: 2352181, end: 2771014, year: "2024" },
-  { start: 2771015, end: Infinity, year: "2025" },
-];
+// Buckets blocks by the year they were mined in
+const schedule = createChainSchedule();
 
 const DATA_URL =
   "https://raw.githubusercontent.com/ZecHub/zechub-wiki/main/public/data/zcash/transaction_summary.json";
@@ -40,9 +32,7 @@ const PrivacySetVisualization: React.FC = () => {
         const raw: TransactionSummaryDatum[] = await res.json();
         const agg = new Map<string, { sapling: number; orchard: number }>();
         raw.forEach(({ height, sapling, orchard }) => {
-          const yr =
-            HEIGHT_YEAR_MAP.find((r) => height >= r.start && height <= r.end)
-              ?.year || "Unknown";
+          const yr = String(schedule.yearOf(height));
           if (!agg.has(yr)) agg.set(yr, { sapling: 0, orchard: 0 });
           const e = agg.get(yr)!;
           e.sapling += sapling;
@@ -62,18 +52,11 @@ const PrivacySetVisualization: React.FC = () => {
   if (error)
     return <div className="text-center p-8 text-red-500">Error: {error}</div>;
 
-  // Year sequences
-  const saplingYears = [
-    "2018",
-    "2019",
-    "2020",
-    "2021",
-    "2022",
-    "2023",
-    "2024",
-    "2025",
-  ];
-  const orchardYears = ["2022", "2023", "2024", "2025"];
+  // Year sequences, Orchard's from the first year it was used
+  const saplingYears = [...yearly.keys()].sort();
+  const orchardYears = saplingYears.slice(
+    Math.max(0, saplingYears.findIndex((y) => yearly.get(y)!.orchard > 0)),
+  );
 
   // Raw counts
   const rawSap: [string, number][] = saplingYears.map((y) => [
@@ -98,8 +81,8 @@ const PrivacySetVisualization: React.FC = () => {
   });
 
   // Totals (transactions)
-  const totalSapTx = cumSap[cumSap.length - 1][1];
-  const totalOrchTx = cumOrch[cumOrch.length - 1][1];
+  const totalSapTx = cumSap[cumSap.length - 1]?.[1] ?? 0;
+  const totalOrchTx = cumOrch[cumOrch.length - 1]?.[1] ?? 0;
   // Privacy set = notes ≈ tx * 2
   const totalSapNotes = totalSapTx * 2;
   const totalOrchNotes = totalOrchTx * 2;
@@ -8,9 +8,11 @@ type Props = {
   title: string;
   /** Full canonical URL for share intents (provided by the server). */
   shareUrl: string;
+  /** Rendered above the share links */
+  tableOfContents?: React.ReactNode;
 };
 
-export default function ResearchArticleAside({ title, shareUrl }: Props) {
+export default function ResearchArticleAside({ title, shareUrl, tableOfContents }: Props) {
   const [discordCopied, setDiscordCopied] = useState(false);
   const copyResetRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -44,6 +46,8 @@ export default function ResearchArticleAside({ title, shareUrl }: Props) {
 
   return (
     <aside className="w-full shrink-0 space-y-10 border-t border-slate-200 pt-8 dark:border-slate-400 xl:w-[min(100%,280px)] xl:border-t-0 xl:border-l xl:border-slate-200 xl:pl-8 xl:pt-0 dark:xl:border-slate-400">
+      {tableOfContents}
+
       <div>
         <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
           Share post
@@ -2,14 +2,28 @@ import Image from "next/image";
 import Link from "next/link";
 import { getName, transformGithubFilePathToWikiLink } from "@/lib/helpers";
 import { searcher } from "@/constants/searcher";
-import { getResearchCardCover } from "@/constants/researchCardCovers";
+import { getResearchCardCover, type ResearchCardCover } from "@/constants/researchCardCovers";
 
 const RESEARCH_IMG_LIGHT = "/explore/light/research.png";
 const RESEARCH_IMG_DARK = "/explore/dark/research.png";
 
+/** Taken from the article's front matter, with fallbacks from its body */
+export type ResearchArticleMeta = {
+  title?: string;
+  /** Front matter description, preferred over the search index entry */
+  description?: string;
+  /** First paragraph, used when neither has a description */
+  excerpt?: string;
+  /** Front matter cover, preferred over the curated covers */
+  cover?: ResearchCardCover;
+  /** First image in the article, used when no cover is known */
+  contentImage?: ResearchCardCover;
+};
+
 type Props = {
   roots: string[];
-  dynamicCovers?: Record<string, { src: string; alt?: string }>;
+  /** Keyed by wiki slug, e.g. `research/cbdc` */
+  articleMeta?: Record<string, ResearchArticleMeta>;
   showHeader?: boolean;
   title?: string;
   subtitle?: string;
@@ -23,7 +37,7 @@ function descriptionForWikiPath(wikiPath: string): string {
 
 export default function ResearchIndexGrid({
   roots,
-  dynamicCovers = {},
+  articleMeta = {},
   showHeader = true,
   title = "Research",
   subtitle = "Articles and notes from the ZecHub community.",
@@ -33,9 +47,12 @@ export default function ResearchIndexGrid({
     .map((filePath) => {
       const pathNoExt = filePath.replace(/\.md$/i, "");
       const wikiSlug = transformGithubFilePathToWikiLink(pathNoExt);
-      const titleText = getName(pathNoExt);
-      const desc = descriptionForWikiPath(wikiSlug);
-      return { wikiSlug, title: titleText, desc, key: filePath };
+      const meta = articleMeta[wikiSlug] ?? {};
+      const titleText = meta.title || getName(pathNoExt);
+      const desc =
+        meta.description || descriptionForWikiPath(wikiSlug) || meta.excerpt || "";
+      const cover = meta.cover || getResearchCardCover(wikiSlug) || meta.contentImage;
+      return { wikiSlug, title: titleText, desc, cover, key: filePath };
     })
     .sort((a, b) => a.title.localeCompare(b.title));
 
@@ -57,10 +74,7 @@ export default function ResearchIndexGrid({
       )}
 
       <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-        {articles.map(({ wikiSlug, title: articleTitle, desc, key }) => {
-          const staticCover = getResearchCardCover(wikiSlug);
-          const cover = staticCover || dynamicCovers[wikiSlug];
-
+        {articles.map(({ wikiSlug, title: articleTitle, desc, cover, key }) => {
           return (
             <li key={key}>
               <Link
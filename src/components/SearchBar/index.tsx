@@ -6,6 +6,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
   useCallback,
+  useDeferredValue,
   useEffect,
   useMemo,
   useRef,
@@ -19,13 +20,30 @@ import { MdArrowForward as ArrowIcon } from "react-icons/md";
 import { Icon } from "../UI/Icon";
 import { SearchInput } from "./SearchInput";
 import { useLanguage } from "@/context/LanguageContext";
-import { pathSectionLabel, searchWiki } from "@/lib/wikiSearch";
+import {
+  makeSnippet,
+  pathSectionLabel,
+  searchSections,
+  searchWiki,
+} from "@/lib/wikiSearch";
+import { useWikiSearchIndex } from "@/hooks/useWikiSearchIndex";
 import { HighlightMatch } from "./HighlightMatch";
 import AIAssistantPanel from "../AIAssistant";
 
 const SUGGESTED_COUNT = 8;
+const CONTENT_RESULTS_COUNT = 20;
 type SearchMode = "search" | "ai";
 
+type ResultItem = {
+  key: string;
+  url: string;
+  name: string;
+  desc: string;
+  /** Set for full-text matches inside a page section */
+  heading?: string | null;
+  isContent?: boolean;
+};
+
 const SearchBar = ({ openSearch, setOpenSearch }: SearchBarProps) => {
   const { t } = useLanguage();
   const router = useRouter();
@@ -45,15 +63,37 @@ const SearchBar = ({ openSearch, setOpenSearch }: SearchBarProps) => {
   const trimmedQuery = searchInput.trim();
   const hasQuery = trimmedQuery.length > 0;
 
-  const searchResults = useMemo(() => {
+  const { sections } = useWikiSearchIndex(openSearch);
+  const deferredQuery = useDeferredValue(trimmedQuery);
+
+  const searchResults = useMemo<ResultItem[]>(() => {
     if (!hasQuery) return [];
-    return searchWiki(searcher, trimmedQuery);
+    return searchWiki(searcher, trimmedQuery).map((item) => ({ key: item.url, ...item }));
   }, [trimmedQuery, hasQuery]);
 
-  const suggested = useMemo(() => searcher.slice(0, SUGGESTED_COUNT), []);
+  const contentResults = useMemo<ResultItem[]>(() => {
+    if (!deferredQuery) return [];
+    const pageUrls = new Set(searchResults.map((r) => r.url));
+
+    return searchSections(sections, deferredQuery, CONTENT_RESULTS_COUNT)
+      .filter((s) => s.heading || !pageUrls.has(s.url))
+      .map((s) => ({
+        key: `${s.url}#${s.anchor ?? ""}:${s.heading ?? ""}`,
+        url: s.anchor ? `${s.url}#${s.anchor}` : s.url,
+        name: s.title,
+        desc: makeSnippet(s.text, deferredQuery),
+        heading: s.heading,
+        isContent: true,
+      }));
+  }, [deferredQuery, sections, searchResults]);
 
-  const listToShow = hasQuery ? searchResults : suggested;
-  const showEmpty = hasQuery && searchResults.length === 0;
+  const suggested = useMemo<ResultItem[]>(
+    () => searcher.slice(0, SUGGESTED_COUNT).map((item) => ({ key: item.url, ...item })),
+    [],
+  );
+
+  const listToShow = hasQuery ? [...searchResults, ...contentResults] : suggested;
+  const showEmpty = hasQuery && listToShow.length === 0;
 
   const searchHint =
     t.common?.searchHint ||
@@ -68,6 +108,7 @@ const SearchBar = ({ openSearch, setOpenSearch }: SearchBarProps) => {
     t.common?.searchAskAiHint || "Get a synthesized answer with sources.";
   const suggestedTitle = t.common?.searchSuggested || "Suggested pages";
   const resultsTitle = t.common?.searchResultsLabel || "Results";
+  const contentTitle = t.common?.searchInContent || "In page content";
   const modalTitle = t.common?.searchModalTitle || "Search ZecHub Wiki";
   const aiModeTitle = t.common?.searchAiTitle || "Answer with AI";
 
@@ -319,51 +360,69 @@ const SearchBar = ({ openSearch, setOpenSearch }: SearchBarProps) => {
                           {listToShow.map((result, i) => {
                             const section = pathSectionLabel(result.url);
                             const selected = i === selectedIndex;
+                            const firstContent =
+                              result.isContent && !listToShow[i - 1]?.isContent;
                             return (
-                              <li key={result.url}>
-                                <Link
-                                  href={result.url}
-                                  data-selected={selected}
-                                  onClick={onClose}
-                                  onMouseEnter={() => setSelectedIndex(i)}
-                                  className="block rounded-xl outline-none transition focus-visible:ring-2 focus-visible:ring-blue-500"
-                                >
-                                  <div
-                                    className={`flex cursor-pointer items-start gap-3 border px-3 py-3 text-left transition sm:px-4 ${
-                                      selected
-                                        ? "border-blue-500 bg-blue-50 ring-1 ring-blue-500/30 dark:border-blue-400/60 dark:bg-blue-950/40 dark:ring-blue-400/25"
-                                        : "border-transparent bg-white hover:border-slate-200 hover:bg-white dark:bg-slate-900 dark:hover:border-slate-600 dark:hover:bg-slate-800/90"
-                                    }`}
+                              <Fragment key={result.key}>
+                                {firstContent ? (
+                                  <li className="px-3 pt-3 pb-1 text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                                    {contentTitle}
+                                  </li>
+                                ) : null}
+                                <li>
+                                  <Link
+                                    href={result.url}
+                                    data-selected={selected}
+                                    onClick={onClose}
+                                    onMouseEnter={() => setSelectedIndex(i)}
+                                    className="block rounded-xl outline-none transition focus-visible:ring-2 focus-visible:ring-blue-500"
                                   >
-                                    <div className="min-w-0 flex-1">
-                                      <div className="flex flex-wrap items-center gap-2">
-                                        <span className="text-base font-semibold text-slate-900 dark:text-white">
+                                    <div
+                                      className={`flex cursor-pointer items-start gap-3 border px-3 py-3 text-left transition sm:px-4 ${
+                                        selected
+                                          ? "border-blue-500 bg-blue-50 ring-1 ring-blue-500/30 dark:border-blue-400/60 dark:bg-blue-950/40 dark:ring-blue-400/25"
+                                          : "border-transparent bg-white hover:border-slate-200 hover:bg-white dark:bg-slate-900 dark:hover:border-slate-600 dark:hover:bg-slate-800/90"
+                                      }`}
+                                    >
+                                      <div className="min-w-0 flex-1">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                          <span className="text-base font-semibold text-slate-900 dark:text-white">
+                                            <HighlightMatch
+                                              text={result.name}
+                                              query={trimmedQuery}
+                                            />
+                                          </span>
+                                          {section ? (
+                                            <span className="inline-flex shrink-0 rounded-md bg-slate-100 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide text-slate-600 dark:bg-slate-800 dark:text-slate-400">
+                                              {section}
+                                            </span>
+                                          ) : null}
+                                        </div>
+                                        {result.heading ? (
+                                          <p className="mt-0.5 truncate text-sm font-medium text-slate-700 dark:text-slate-300">
+                                            §{" "}
+                                            <HighlightMatch
+                                              text={result.heading}
+                                              query={trimmedQuery}
+                                            />
+                                          </p>
+                                        ) : null}
+                                        <p className="mt-1 line-clamp-2 text-sm text-slate-600 dark:text-slate-400">
                                           <HighlightMatch
-                                            text={result.name}
+                                            text={result.desc}
                                             query={trimmedQuery}
                                           />
-                                        </span>
-                                        {section ? (
-                                          <span className="inline-flex shrink-0 rounded-md bg-slate-100 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide text-slate-600 dark:bg-slate-800 dark:text-slate-400">
-                                            {section}
-                                          </span>
-                                        ) : null}
+                                        </p>
                                       </div>
-                                      <p className="mt-1 line-clamp-2 text-sm text-slate-600 dark:text-slate-400">
-                                        <HighlightMatch
-                                          text={result.desc}
-                                          query={trimmedQuery}
-                                        />
-                                      </p>
+                                      <Icon
+                                        className="mt-1 h-4 w-4 shrink-0 text-slate-400 dark:text-slate-500"
+                                        icon={ArrowIcon}
+                                        aria-hidden
+                                      />
                                     </div>
-                                    <Icon
-                                      className="mt-1 h-4 w-4 shrink-0 text-slate-400 dark:text-slate-500"
-                                      icon={ArrowIcon}
-                                      aria-hidden
-                                    />
-                                  </div>
-                                </Link>
-                              </li>
+                                  </Link>
+                                </li>
+                              </Fragment>
                             );
                           })}
                         </ul>
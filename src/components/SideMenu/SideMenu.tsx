@@ -45,9 +45,11 @@ const images = [
 interface MenuProps {
   folder: string;
   roots: string[];
+  /** Front matter titles keyed by root path, shown instead of the file name */
+  labels?: Record<string, string>;
 }
 
-const SideMenu = ({ folder, roots }: MenuProps) => {
+const SideMenu = ({ folder, roots, labels = {} }: MenuProps) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const toggleMenu = () => setIsMenuOpen(!isMenuOpen);
   const root = roots.map((item) => item.slice(0, -3));
@@ -107,7 +109,7 @@ const SideMenu = ({ folder, roots }: MenuProps) => {
                       </div>
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium ">
-                          {item ? getName(item) : ""}
+                          {item ? labels[`${item}.md`] ?? getName(item) : ""}
                         </p>
                       </div>
                       <div className="inline-flex items-center text-base font-semibold ">
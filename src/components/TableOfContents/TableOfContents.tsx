@@ -0,0 +1,145 @@
+"use client";
+
+import type { TocItem } from "@/lib/toc";
+import { useEffect, useState } from "react";
+import { FaListUl, FaRegClock } from "react-icons/fa";
+
+type Props = {
+  items: TocItem[];
+  /** Estimated minutes to read the article */
+  readingTime: number;
+  /** Element whose scroll position drives the progress bar */
+  contentId?: string;
+};
+
+function flatten(items: TocItem[]): string[] {
+  return items.flatMap((item) => [item.id, ...flatten(item.children)]);
+}
+
+function TocList({ items, activeId }: { items: TocItem[]; activeId: string | null }) {
+  return (
+    <ul className="space-y-1.5">
+      {items.map((item) => (
+        <li key={item.id}>
+          <a
+            href={`#${item.id}`}
+            aria-current={item.id === activeId ? "location" : undefined}
+            className={`block border-l-2 py-0.5 pl-3 text-sm transition-colors ${
+              item.id === activeId
+                ? "border-blue-600 font-medium text-foreground dark:border-blue-300"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {item.text}
+          </a>
+          {item.children.length > 0 && (
+            <div className="ml-3">
+              <TocList items={item.children} activeId={activeId} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function TableOfContents({ items, readingTime, contentId = "content" }: Props) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  // Scroll-spy: the last heading that crossed the top fifth of the viewport is active
+  useEffect(() => {
+    const ids = flatten(items);
+    if (ids.length === 0) return;
+
+    let observer: IntersectionObserver | null = null;
+
+    const observe = () => {
+      observer?.disconnect();
+      observer = new IntersectionObserver(
+        (entries) => {
+          const visible = entries
+            .filter((entry) => entry.isIntersecting)
+            .sort((a, b) => a.boundingClientRect.top - b.boundingClientRect.top);
+          if (visible.length > 0) setActiveId(visible[0].target.id);
+        },
+        { rootMargin: "0px 0px -80% 0px" },
+      );
+
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (element) observer.observe(element);
+      }
+    };
+
+    // The article is rendered lazily, so headings may not exist yet
+    observe();
+    window.addEventListener("zechub:mdx-ready", observe);
+
+    return () => {
+      window.removeEventListener("zechub:mdx-ready", observe);
+      observer?.disconnect();
+    };
+  }, [items]);
+
+  useEffect(() => {
+    const update = () => {
+      const content = document.getElementById(contentId);
+      if (!content) return;
+
+      const rect = content.getBoundingClientRect();
+      const scrollable = rect.height - window.innerHeight;
+      const ratio = scrollable > 0 ? -rect.top / scrollable : 1;
+      setProgress(Math.min(1, Math.max(0, ratio)));
+    };
+
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [contentId]);
+
+  return (
+    <>
+      <div
+        className="fixed left-0 top-0 z-50 h-1 bg-blue-600 transition-[width] duration-150 dark:bg-blue-300"
+        style={{ width: `${progress * 100}%` }}
+        role="progressbar"
+        aria-label="Reading progress"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(progress * 100)}
+      />
+
+      <nav aria-label="Table of contents" className="xl:sticky xl:top-24">
+        <p className="mb-4 inline-flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <FaRegClock aria-hidden />
+          {readingTime} min read
+        </p>
+
+        {items.length > 0 && (
+          <details className="group xl:hidden">
+            <summary className="mb-3 inline-flex cursor-pointer list-none items-center gap-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              <FaListUl aria-hidden />
+              On this page
+            </summary>
+            <TocList items={items} activeId={activeId} />
+          </details>
+        )}
+
+        {items.length > 0 && (
+          <div className="hidden max-h-[calc(100vh-8rem)] overflow-y-auto xl:block">
+            <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+              On this page
+            </p>
+            <TocList items={items} activeId={activeId} />
+          </div>
+        )}
+      </nav>
+    </>
+  );
+}
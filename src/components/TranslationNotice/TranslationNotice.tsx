@@ -0,0 +1,37 @@
+import { getLanguage } from "@/i18n/routing";
+import { getDictionary } from "@/lib/getDictionary";
+import { FaLanguage } from "react-icons/fa";
+
+type Props = {
+  /** Locale the visitor asked for */
+  locale: string;
+};
+
+type WikiDictionary = { wiki?: { translationMissing?: string } };
+
+/** Shown above a wiki page served in English because it has no translation into `locale` */
+export default async function TranslationNotice({ locale }: Props) {
+  const language = getLanguage(locale);
+  const [localized, english] = (await Promise.all([
+    getDictionary(locale),
+    getDictionary("en"),
+  ])) as WikiDictionary[];
+
+  const message = (
+    localized.wiki?.translationMissing ??
+    english.wiki?.translationMissing ??
+    "This page has not been translated into {language} yet."
+  ).replace("{language}", language.nativeLabel);
+
+  return (
+    <div
+      lang={locale}
+      dir={language.dir}
+      role="note"
+      className="mb-6 flex items-start gap-3 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950/40 dark:text-amber-100"
+    >
+      <FaLanguage className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+      <p>{message}</p>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ export const exploreMenu = {
     { icon: "🔒", label: "Privacy Tools", href: "/privacy-tools" },
     { icon: "🔬", label: "Research", href: "/research" },
     { icon: "❓", label: "Glossary & FAQs", href: "/glossary-and-faqs" },
+    { icon: "📥", label: "Saved Articles", href: "/offline" },
     { icon: "✏️", label: "Contribute", href: "/contribute" },
   ],
   forkSection: [
@@ -0,0 +1,71 @@
+"use client";
+import { toCsv, type ExportRow } from "@/lib/metrics/csv";
+import React, { useCallback, useContext, useEffect, useRef, useState } from "react";
+
+type ChartRows = { name: string; rows: ExportRow[] };
+
+const ChartExportContext = React.createContext<React.RefObject<ChartRows | null> | null>(null);
+
+/** Lets the charts inside hand their data to the footer's CSV and JSON export */
+export const ChartExportProvider = (props: { children: React.ReactNode }) => {
+  const current = useRef<ChartRows | null>(null);
+  return <ChartExportContext.Provider value={current}>{props.children}</ChartExportContext.Provider>;
+};
+
+/**
+ * Offers the rows a chart is drawing, after its filters, for export as
+ * `name`; nothing is offered while `rows` is loading. Tabs only mount the
+ * active chart, so the last one to offer wins.
+ */
+export function useExportRows(name: string, rows: ExportRow[] | undefined) {
+  const current = useContext(ChartExportContext);
+
+  useEffect(() => {
+    if (!current || !rows) return;
+    const offered = { name, rows };
+    current.current = offered;
+    return () => {
+      if (current.current === offered) current.current = null;
+    };
+  }, [current, name, rows]);
+}
+
+/**
+ * Downloads the rows offered by the chart on screen. `exportError` says why
+ * the last attempt failed, for the export buttons to show.
+ */
+export function useSaveChartData() {
+  const current = useContext(ChartExportContext);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const saveChartData = useCallback(
+    (format: "csv" | "json") => {
+      const offered = current?.current;
+      if (!offered) {
+        setExportError("This chart has no data to export.");
+        return;
+      }
+
+      try {
+        const [body, type] =
+          format === "csv"
+            ? [toCsv(offered.rows), "text/csv"]
+            : [JSON.stringify(offered.rows, null, 2), "application/json"];
+        const url = URL.createObjectURL(new Blob([body], { type }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${offered.name}-zechub-data.${format}`;
+        link.click();
+        // Revoking in the same tick can cancel the download in some browsers
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+        setExportError(null);
+      } catch (err) {
+        console.error("[chart-export] failed:", err);
+        setExportError(`Could not export the ${format.toUpperCase()} file.`);
+      }
+    },
+    [current],
+  );
+
+  return { saveChartData, exportError };
+}
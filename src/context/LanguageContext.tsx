@@ -4,42 +4,20 @@
 
 import {
   createContext, useContext, useState,
-  useEffect, useCallback, useRef, useMemo, ReactNode,
+  useEffect, useCallback, useMemo, ReactNode,
 } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
 import { getDictionary } from '@/lib/getDictionary';
+import { LANGUAGES, type Language, type Locale } from '@/i18n/config';
+import {
+  getLanguage,
+  localizePath,
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  splitLocalePath,
+} from '@/i18n/routing';
 
-export interface Language {
-  code: string;
-  label: string;
-  nativeLabel: string;
-  flag: string;
-  googleCode: string;
-  dir?: 'ltr' | 'rtl';
-}
-
-export const LANGUAGES: Language[] = [
-  { code: 'en',  label: 'English',    nativeLabel: 'English',    flag: '🇺🇸', googleCode: 'en'    },
-  { code: 'es',  label: 'Spanish',    nativeLabel: 'Español',    flag: '🇪🇸', googleCode: 'es'    },
-  { code: 'fr',  label: 'French',     nativeLabel: 'Français',   flag: '🇫🇷', googleCode: 'fr'    },
-  { code: 'de',  label: 'German',     nativeLabel: 'Deutsch',    flag: '🇩🇪', googleCode: 'de'    },
-  { code: 'it',  label: 'Italian',    nativeLabel: 'Italiano',   flag: '🇮🇹', googleCode: 'it'    },
-  { code: 'pt',  label: 'Portuguese', nativeLabel: 'Português',  flag: '🇧🇷', googleCode: 'pt'    },
-  { code: 'ar',  label: 'Arabic',     nativeLabel: 'العربية',    flag: '🇸🇦', googleCode: 'ar',   dir: 'rtl' },
-  { code: 'zh',  label: 'Chinese',    nativeLabel: '中文',        flag: '🇨🇳', googleCode: 'zh-CN' },
-  { code: 'hi',  label: 'Hindi',      nativeLabel: 'हिन्दी',      flag: '🇮🇳', googleCode: 'hi'    },
-  { code: 'ru',  label: 'Russian',    nativeLabel: 'Русский',    flag: '🇷🇺', googleCode: 'ru'    },
-  { code: 'ja',  label: 'Japanese',   nativeLabel: '日本語',      flag: '🇯🇵', googleCode: 'ja'    },
-  { code: 'ko',  label: 'Korean',     nativeLabel: '한국어',      flag: '🇰🇷', googleCode: 'ko'    },
-  { code: 'tr',  label: 'Turkish',    nativeLabel: 'Türkçe',     flag: '🇹🇷', googleCode: 'tr'    },
-  { code: 'uk',  label: 'Ukrainian',  nativeLabel: 'Українська', flag: '🇺🇦', googleCode: 'uk'    },
-  { code: 'sw',  label: 'Swahili',    nativeLabel: 'Kiswahili',  flag: '🇰🇪', googleCode: 'sw'    },
-  { code: 'yo',  label: 'Yorùbá',     nativeLabel: 'Yorùbá',     flag: '🇳🇬', googleCode: 'yo'    },
-  { code: 'ig',  label: 'Igbo',       nativeLabel: 'Igbo',       flag: '🇳🇬', googleCode: 'ig'    },
-  { code: 'ak',  label: 'Twi (Akan)', nativeLabel: 'Twi',        flag: '🇬🇭', googleCode: 'ak'    },
-  { code: 'ee',  label: 'Ewe',        nativeLabel: 'Eʋegbe',     flag: '🇬🇭', googleCode: 'ee'    },
-];
-
-export type Locale = string;
+export { LANGUAGES, type Language, type Locale };
 
 interface LanguageContextType {
   locale: Locale;
@@ -48,17 +26,6 @@ interface LanguageContextType {
   t: Record<string, any>;
 }
 
-const STORAGE_KEY = 'zechub_language';
-const GOOGLE_TRANSLATE_SCRIPT_ID = 'google-translate-script';
-const GOOGLE_TRANSLATE_INCLUDED_LANGUAGES = LANGUAGES.map((l) => l.googleCode).join(',');
-
-declare global {
-  interface Window {
-    google?: any;
-    googleTranslateElementInit?: () => void;
-  }
-}
-
 /** In-memory English dictionary; merged under every locale so partial locale files keep full keys. */
 let enDictionarySingleton: Record<string, any> | null = null;
 
@@ -109,165 +76,17 @@ async function loadDictionaryForLocale(locale: Locale): Promise<Record<string, a
   return deepMerge(enDictionarySingleton, localized);
 }
 
-// ── Google Translate helpers ──────────────────────────────────────────────────
-
-function getGTSelect(): HTMLSelectElement | null {
-  return document.querySelector<HTMLSelectElement>('.goog-te-combo');
-}
-
-let googleTranslateScriptPromise: Promise<void> | null = null;
-
-function killGoogleTranslateBanner() {
-  const banner = document.querySelector<HTMLElement>('.goog-te-banner-frame');
-  if (banner) banner.style.setProperty('display', 'none', 'important');
-  document.body.style.setProperty('top', '0', 'important');
-  document.body.style.setProperty('position', 'static', 'important');
-}
-
-function initGoogleTranslate() {
-  if (!window.google?.translate?.TranslateElement || getGTSelect()) {
-    return;
-  }
-
-  new window.google.translate.TranslateElement(
-    {
-      pageLanguage: 'en',
-      includedLanguages: GOOGLE_TRANSLATE_INCLUDED_LANGUAGES,
-      layout: window.google.translate.TranslateElement.InlineLayout.HORIZONTAL,
-      autoDisplay: false,
-    },
-    'google_translate_element'
-  );
-
-  setTimeout(killGoogleTranslateBanner, 500);
-  setTimeout(killGoogleTranslateBanner, 1500);
-}
-
-function ensureGoogleTranslateScript(): Promise<void> {
-  if (typeof window === 'undefined') {
-    return Promise.resolve();
-  }
-
-  if (getGTSelect()) {
-    return Promise.resolve();
-  }
-
-  if (window.google?.translate?.TranslateElement) {
-    initGoogleTranslate();
-    return Promise.resolve();
-  }
-
-  if (googleTranslateScriptPromise) {
-    return googleTranslateScriptPromise;
-  }
-
-  googleTranslateScriptPromise = new Promise((resolve, reject) => {
-    window.googleTranslateElementInit = () => {
-      initGoogleTranslate();
-      resolve();
-    };
-
-    const existing = document.getElementById(GOOGLE_TRANSLATE_SCRIPT_ID);
-    if (existing) {
-      resolve();
-      return;
-    }
-
-    const script = document.createElement('script');
-    script.id = GOOGLE_TRANSLATE_SCRIPT_ID;
-    script.src = 'https://translate.google.com/translate_a/element.js?cb=googleTranslateElementInit';
-    script.async = true;
-    script.onerror = () => reject(new Error('Failed to load Google Translate'));
-    document.body.appendChild(script);
-  });
-
-  return googleTranslateScriptPromise;
-}
-
-function applyGoogleTranslate(googleCode: string): boolean {
-  const select = getGTSelect();
-  if (!select) return false;
-  select.value = googleCode;
-  select.dispatchEvent(new Event('change'));
-  return true;
-}
-
-function forceGoogleTranslate(googleCode: string): boolean {
-  const select = getGTSelect();
-  if (!select) return false;
-
-  select.value = '';
-  select.dispatchEvent(new Event('change'));
-
-  window.setTimeout(() => {
-    select.value = googleCode;
-    select.dispatchEvent(new Event('change'));
-  }, 50);
-
-  return true;
-}
-
-function scheduleGoogleTranslate(googleCode: string, maxAttempts = 25): () => void {
-  let cancelled = false;
-  let interval: ReturnType<typeof setInterval> | null = null;
-
-  ensureGoogleTranslateScript().then(() => {
-    if (cancelled) return;
-
-    let attempts = 0;
-    const tryApply = () => {
-      attempts++;
-      const applied = applyGoogleTranslate(googleCode);
-
-      if (applied || attempts > maxAttempts) {
-        if (interval) clearInterval(interval);
-        interval = null;
-      }
-    };
-
-    tryApply();
-    if (!getGTSelect()) {
-      interval = setInterval(tryApply, 200);
-    }
-  }).catch((error) => {
-    console.error(error);
-  });
-
-  return () => {
-    cancelled = true;
-    if (interval) clearInterval(interval);
-  };
-}
-
-function resetGoogleTranslateToEnglish(): boolean {
-  const select = getGTSelect();
-  if (!select) return false;
-  for (const val of ['', 'en']) {
-    select.value = val;
-    select.dispatchEvent(new Event('change'));
-  }
-  return true;
-}
-
-function clearGTCookies() {
-  const hostname = window.location.hostname;
-  document.cookie = `googtrans=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/; domain=.${hostname}`;
-  document.cookie = `googtrans=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/`;
-}
-
 // ── Context ───────────────────────────────────────────────────────────────────
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
 export function LanguageProvider({ children }: { children: ReactNode }) {
-  const [locale, setLocaleState] = useState<Locale>('en');
+  const pathname = usePathname() ?? '/';
+  const router = useRouter();
+  // The URL prefix is the source of truth, the proxy adds it for returning visitors
+  const { locale, pathname: unprefixed } = splitLocalePath(pathname);
   const [dictionary, setDictionary] = useState<Record<string, any>>({});
 
-  const restoredRef = useRef(false);
-
-  const userSelectedRef = useRef(false);
-  const currentLanguageRef = useRef<Language>(LANGUAGES[0]);
-
   useEffect(() => {
     let cancelled = false;
 
@@ -286,66 +105,21 @@ export function LanguageProvider({ children }: { children: ReactNode }) {
   }, [locale]);
 
   useEffect(() => {
-    if (restoredRef.current) return;
-    restoredRef.current = true;
-
-    const saved = localStorage.getItem(STORAGE_KEY) || 'en';
-
-    if (saved === 'en') return;
-
-    const savedLang = LANGUAGES.find(l => l.code === saved);
-    if (!savedLang) {
-      localStorage.setItem(STORAGE_KEY, 'en');
-      return;
-    }
-
-    setLocaleState(saved);
-
-    return scheduleGoogleTranslate(savedLang.googleCode, 50);
-  }, []);
-
-  const setLocale = useCallback((code: Locale) => {
-    userSelectedRef.current = true;
-
-    setLocaleState(code);
-    localStorage.setItem(STORAGE_KEY, code);
-    document.documentElement.lang = code;
-
-    const lang = LANGUAGES.find(l => l.code === code);
-    document.documentElement.dir = lang?.dir ?? 'ltr';
+    document.documentElement.lang = locale;
+    document.documentElement.dir = getLanguage(locale).dir ?? 'ltr';
+  }, [locale]);
 
-    if (code === 'en') {
-      currentLanguageRef.current = LANGUAGES[0];
-      const widgetReady = resetGoogleTranslateToEnglish();
-      if (!widgetReady) {
-        clearGTCookies();
+  const setLocale = useCallback(
+    (code: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${code}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+      if (code !== locale) {
+        router.push(localizePath(unprefixed, code) + window.location.search + window.location.hash);
       }
-      return;
-    }
-
-    if (lang) {
-      currentLanguageRef.current = lang;
-      scheduleGoogleTranslate(lang.googleCode, 25);
-    }
-  }, []);
-
-  const currentLanguage = LANGUAGES.find(l => l.code === locale) ?? LANGUAGES[0];
-
-  useEffect(() => {
-    currentLanguageRef.current = currentLanguage;
-  }, [currentLanguage]);
-
-  useEffect(() => {
-    const handleMdxReady = () => {
-      const lang = currentLanguageRef.current;
-      if (lang.code === 'en') return;
-
-      scheduleGoogleTranslate(lang.googleCode);
-    };
+    },
+    [locale, unprefixed, router],
+  );
 
-    window.addEventListener('zechub:mdx-ready', handleMdxReady);
-    return () => window.removeEventListener('zechub:mdx-ready', handleMdxReady);
-  }, []);
+  const currentLanguage = getLanguage(locale);
 
   const contextValue = useMemo(
     () => ({ locale, setLocale, currentLanguage, t: dictionary }),
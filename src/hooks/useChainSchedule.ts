@@ -0,0 +1,22 @@
+import { createChainSchedule } from "@/lib/chain-schedule";
+import { useMemo } from "react";
+import { useDataset } from "./useDataset";
+
+/**
+ * The mainnet schedule, anchored at the upgrade activations once
+ * `network_upgrades.json` has loaded. Until then it is the consensus target
+ * schedule, which is a few days off at most.
+ */
+export const useChainSchedule = () => {
+  const { data } = useDataset("networkUpgrades");
+  return useMemo(() => createChainSchedule({ upgrades: data?.upgrades }), [data]);
+};
+
+/**
+ * Estimated height at the start of the UTC day, for "issued so far" figures.
+ * Server and browser renders agree on it, unlike the height at `Date.now()`.
+ */
+export const useHeightToday = () => {
+  const schedule = useChainSchedule();
+  return schedule.heightAt(Math.floor(Date.now() / 86_400_000) * 86_400);
+};
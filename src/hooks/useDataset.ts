@@ -0,0 +1,24 @@
+import { DatasetError, fetchDataset, type DatasetKey } from "@/lib/datasets";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+/** The data files change at most a few times a day */
+const DATASET_STALE_MS = 10 * 60_000;
+const MAX_RETRIES = 2;
+
+/**
+ * A dashboard dataset, fetched once and shared by every chart that reads it.
+ * Missing or invalid files fail straight away; network and server errors are
+ * retried.
+ */
+export const useDataset = <K extends DatasetKey>(
+  dataset: K,
+  options: { refetchInterval?: number; placeholderData?: typeof keepPreviousData } = {},
+) =>
+  useQuery({
+    queryKey: ["dataset", dataset],
+    queryFn: ({ signal }) => fetchDataset(dataset, signal),
+    staleTime: DATASET_STALE_MS,
+    retry: (failures, err) =>
+      failures < MAX_RETRIES && !(err instanceof DatasetError && (err.status ?? 0) < 500),
+    ...options,
+  });
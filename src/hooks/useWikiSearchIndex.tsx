@@ -0,0 +1,49 @@
+import {
+  expandWikiSearchIndex,
+  WIKI_SEARCH_INDEX_URL,
+  WIKI_SEARCH_INDEX_VERSION,
+  type WikiSearchIndex,
+  type WikiSearchSection,
+} from "@/lib/wikiSearchIndex";
+import { useEffect, useState } from "react";
+
+// Shared by every search modal instance; fetched once per page load
+let indexPromise: Promise<WikiSearchSection[]> | null = null;
+
+function loadIndex(): Promise<WikiSearchSection[]> {
+  if (!indexPromise) {
+    indexPromise = fetch(WIKI_SEARCH_INDEX_URL)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Search index request failed: ${res.status}`);
+        return res.json() as Promise<WikiSearchIndex>;
+      })
+      .then((index) =>
+        index.version === WIKI_SEARCH_INDEX_VERSION ? expandWikiSearchIndex(index) : [],
+      )
+      .catch((err) => {
+        console.error("[search-index]", err);
+        indexPromise = null; // retry on the next open
+        return [];
+      });
+  }
+  return indexPromise;
+}
+
+/** Sections of the full-text wiki index, loaded the first time `enabled` is true */
+export const useWikiSearchIndex = (enabled: boolean) => {
+  const [sections, setSections] = useState<WikiSearchSection[] | null>(null);
+
+  useEffect(() => {
+    if (!enabled || sections) return;
+
+    let cancelled = false;
+    loadIndex().then((loaded) => {
+      if (!cancelled) setSections(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, sections]);
+
+  return { sections: sections ?? [], loading: enabled && sections === null };
+};
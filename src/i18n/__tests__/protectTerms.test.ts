@@ -0,0 +1,66 @@
+import type { Element, Root } from 'hast';
+import { rehypeProtectTerms } from '../protectTerms';
+
+const paragraph = (...children: Element['children']): Element => ({
+  type: 'element',
+  tagName: 'p',
+  properties: {},
+  children,
+});
+
+function render(node: Root | Element['children'][number]): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'root' || node.type === 'element') {
+    const inner = node.children.map((c) => render(c as Element)).join('');
+    if (node.type === 'element' && node.properties?.translate === 'no') return `[${inner}]`;
+    return inner;
+  }
+  return '';
+}
+
+describe('rehypeProtectTerms', () => {
+  const terms = ['Zcash', 'ZecHub', 'ZecHub Wiki', 'Arborist Calls', 'ZIP'];
+
+  it('wraps whole-word terms, preferring the longest match', () => {
+    const tree: Root = {
+      type: 'root',
+      children: [paragraph({ type: 'text', value: 'The ZecHub Wiki covers Zcash Arborist Calls and ZIPs.' })],
+    };
+
+    rehypeProtectTerms({ terms })(tree);
+
+    expect(render(tree)).toBe('The [ZecHub Wiki] covers [Zcash] [Arborist Calls] and ZIPs.');
+  });
+
+  it('leaves code and elements already marked translate="no" alone', () => {
+    const tree: Root = {
+      type: 'root',
+      children: [
+        paragraph(
+          { type: 'element', tagName: 'code', properties: {}, children: [{ type: 'text', value: 'Zcash' }] },
+          { type: 'text', value: ' on ' },
+          {
+            type: 'element',
+            tagName: 'strong',
+            properties: {},
+            children: [{ type: 'text', value: 'ZecHub' }],
+          },
+        ),
+      ],
+    };
+
+    rehypeProtectTerms({ terms })(tree);
+
+    expect(render(tree)).toBe('Zcash on [ZecHub]');
+    const code = (tree.children[0] as Element).children[0] as Element;
+    expect(code.children).toEqual([{ type: 'text', value: 'Zcash' }]);
+  });
+
+  it('uses the shared glossary by default', () => {
+    const tree: Root = { type: 'root', children: [paragraph({ type: 'text', value: 'Run zcashd' })] };
+
+    rehypeProtectTerms()(tree);
+
+    expect(render(tree)).toBe('Run [zcashd]');
+  });
+});
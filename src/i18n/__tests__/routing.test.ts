@@ -0,0 +1,26 @@
+import { localizePath, splitLocalePath, translatedContentPath } from '../routing';
+
+describe('locale routing', () => {
+  it('splits a locale prefix off the path', () => {
+    expect(splitLocalePath('/es/using-zcash/wallets')).toEqual({
+      locale: 'es',
+      pathname: '/using-zcash/wallets',
+    });
+    expect(splitLocalePath('/ar')).toEqual({ locale: 'ar', pathname: '/' });
+    expect(splitLocalePath('/using-zcash')).toEqual({ locale: 'en', pathname: '/using-zcash' });
+    expect(splitLocalePath('/esperanto/page')).toEqual({ locale: 'en', pathname: '/esperanto/page' });
+  });
+
+  it('prefixes every locale but English', () => {
+    expect(localizePath('/using-zcash/wallets', 'es')).toBe('/es/using-zcash/wallets');
+    expect(localizePath('/', 'fr')).toBe('/fr');
+    expect(localizePath('/using-zcash', 'en')).toBe('/using-zcash');
+    expect(localizePath('/using-zcash', 'xx')).toBe('/using-zcash');
+  });
+
+  it('maps English content paths to the translation folder', () => {
+    expect(translatedContentPath('site/Using_Zcash/Wallets.md', 'es')).toBe(
+      'i18n/es/site/Using_Zcash/Wallets.md',
+    );
+  });
+});
@@ -1,6 +1,36 @@
 export type Locale = string;
 
+export interface Language {
+  code: string;
+  label: string;
+  nativeLabel: string;
+  flag: string;
+  dir?: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', label: 'English',    nativeLabel: 'English',    flag: '🇺🇸' },
+  { code: 'es', label: 'Spanish',    nativeLabel: 'Español',    flag: '🇪🇸' },
+  { code: 'fr', label: 'French',     nativeLabel: 'Français',   flag: '🇫🇷' },
+  { code: 'de', label: 'German',     nativeLabel: 'Deutsch',    flag: '🇩🇪' },
+  { code: 'it', label: 'Italian',    nativeLabel: 'Italiano',   flag: '🇮🇹' },
+  { code: 'pt', label: 'Portuguese', nativeLabel: 'Português',  flag: '🇧🇷' },
+  { code: 'ar', label: 'Arabic',     nativeLabel: 'العربية',    flag: '🇸🇦', dir: 'rtl' },
+  { code: 'zh', label: 'Chinese',    nativeLabel: '中文',        flag: '🇨🇳' },
+  { code: 'hi', label: 'Hindi',      nativeLabel: 'हिन्दी',      flag: '🇮🇳' },
+  { code: 'ru', label: 'Russian',    nativeLabel: 'Русский',    flag: '🇷🇺' },
+  { code: 'ja', label: 'Japanese',   nativeLabel: '日本語',      flag: '🇯🇵' },
+  { code: 'ko', label: 'Korean',     nativeLabel: '한국어',      flag: '🇰🇷' },
+  { code: 'tr', label: 'Turkish',    nativeLabel: 'Türkçe',     flag: '🇹🇷' },
+  { code: 'uk', label: 'Ukrainian',  nativeLabel: 'Українська', flag: '🇺🇦' },
+  { code: 'sw', label: 'Swahili',    nativeLabel: 'Kiswahili',  flag: '🇰🇪' },
+  { code: 'yo', label: 'Yorùbá',     nativeLabel: 'Yorùbá',     flag: '🇳🇬' },
+  { code: 'ig', label: 'Igbo',       nativeLabel: 'Igbo',       flag: '🇳🇬' },
+  { code: 'ak', label: 'Twi (Akan)', nativeLabel: 'Twi',        flag: '🇬🇭' },
+  { code: 'ee', label: 'Ewe',        nativeLabel: 'Eʋegbe',     flag: '🇬🇭' },
+];
+
 export const i18n = {
   defaultLocale: 'en' as Locale,
-  locales: ['en', 'es', 'fr', 'de', 'it', 'pt', 'ar', 'zh', 'hi', 'ru', 'ja', 'ko', 'tr', 'uk', 'sw', 'yo', 'ig', 'ak', 'ee'] as Locale[],
+  locales: LANGUAGES.map((l) => l.code) as Locale[],
 } as const;
@@ -0,0 +1,88 @@
+import { PROTECTED_TRANSLATION_TERMS } from '@/constants/protectedTranslationTerms';
+import type { Element, ElementContent, Root, RootContent, Text } from 'hast';
+
+/** Their text is code or already opted out of translation */
+const SKIP_TAGS = new Set(['code', 'pre', 'kbd', 'samp', 'script', 'style', 'svg']);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Longest terms first so `ZecHub Wiki` wins over `ZecHub` */
+export function protectedTermsPattern(terms: string[]): RegExp {
+  const alternatives = [...new Set(terms)]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return new RegExp(`(?<![\\p{L}\\p{N}_-])(?:${alternatives})(?![\\p{L}\\p{N}_-])`, 'gu');
+}
+
+function protectedSpan(value: string): Element {
+  return {
+    type: 'element',
+    tagName: 'span',
+    properties: { translate: 'no', className: ['notranslate'] },
+    children: [{ type: 'text', value }],
+  };
+}
+
+function splitText(node: Text, pattern: RegExp): ElementContent[] | null {
+  const parts: ElementContent[] = [];
+  let last = 0;
+
+  for (const match of node.value.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ type: 'text', value: node.value.slice(last, start) });
+    parts.push(protectedSpan(match[0]));
+    last = start + match[0].length;
+  }
+
+  if (parts.length === 0) return null;
+  if (last < node.value.length) parts.push({ type: 'text', value: node.value.slice(last) });
+  return parts;
+}
+
+type ParentNode = { children: RootContent[] };
+
+/**
+ * Rehype plugin wrapping the terms from `protectedTranslationTerms.ts` in
+ * `<span translate="no">`, so browser translation leaves names like
+ * "Arborist Calls" or "Orchard" alone. Code and links' URLs are untouched.
+ */
+export function rehypeProtectTerms(options: { terms?: string[] } = {}) {
+  const pattern = protectedTermsPattern(
+    options.terms ?? PROTECTED_TRANSLATION_TERMS.map(({ term }) => term),
+  );
+
+  return (tree: Root) => {
+    const visit = (node: ParentNode) => {
+      const children: RootContent[] = [];
+
+      for (const child of node.children) {
+        if (child.type === 'text') {
+          const parts = splitText(child, pattern);
+          children.push(...(parts ?? [child]));
+          continue;
+        }
+
+        if (child.type === 'element') {
+          const translate = child.properties?.translate;
+          if (SKIP_TAGS.has(child.tagName) || translate === 'no') {
+            children.push(child);
+            continue;
+          }
+        }
+
+        // Also descends into MDX JSX elements such as <Callout>
+        if ('children' in child && Array.isArray(child.children)) {
+          visit(child as ParentNode);
+        }
+        children.push(child);
+      }
+
+      node.children = children;
+    };
+
+    visit(tree);
+  };
+}
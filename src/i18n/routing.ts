@@ -0,0 +1,47 @@
+import { i18n, LANGUAGES, type Language, type Locale } from './config';
+
+/** Request header the proxy sets to the locale of a `/<locale>/…` URL */
+export const LOCALE_HEADER = 'x-zechub-locale';
+
+/** Cookie remembering the language picked in the language switcher */
+export const LOCALE_COOKIE = 'zechub_locale';
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/** Translated wiki pages mirror the English paths under `i18n/<locale>/` in the content repo */
+export const TRANSLATIONS_ROOT = 'i18n';
+
+export function isLocale(value: string | null | undefined): value is Locale {
+  return !!value && i18n.locales.includes(value);
+}
+
+export function getLanguage(locale: Locale): Language {
+  return LANGUAGES.find((l) => l.code === locale) ?? LANGUAGES[0];
+}
+
+/** `/es/using-zcash` → `{ locale: 'es', pathname: '/using-zcash' }`; unprefixed paths are English */
+export function splitLocalePath(pathname: string): { locale: Locale; pathname: string } {
+  const [, first, ...rest] = pathname.split('/');
+
+  if (isLocale(first)) {
+    return { locale: first, pathname: `/${rest.join('/')}` };
+  }
+  return { locale: i18n.defaultLocale, pathname };
+}
+
+/** Prefix an unprefixed path with `locale`; English paths stay unprefixed */
+export function localizePath(pathname: string, locale: Locale): string {
+  const path = pathname.startsWith('/') ? pathname : `/${pathname}`;
+  if (locale === i18n.defaultLocale || !isLocale(locale)) return path;
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/** Content repo path of the `locale` translation of the English page at `path` */
+export function translatedContentPath(path: string, locale: Locale): string {
+  return `${TRANSLATIONS_ROOT}/${locale}/${path.replace(/^\/+/, '')}`;
+}
+
+/** Locale of the current request, as set by the proxy for `/<locale>/…` URLs */
+export function getRequestLocale(headers: { get(name: string): string | null }): Locale {
+  const locale = headers.get(LOCALE_HEADER);
+  return isLocale(locale) ? locale : i18n.defaultLocale;
+}
@@ -0,0 +1,95 @@
+import { extractFirstParagraph, getWikiPageMeta, parseFrontMatter } from "../frontMatter";
+
+const PATH = "site/Research/Privacy_Models.md";
+
+describe("parseFrontMatter", () => {
+  it("strips the front matter block and normalises its fields", () => {
+    const { frontMatter, body } = parseFrontMatter(
+      [
+        "---",
+        "title: Privacy Models",
+        "tags: zcash, privacy ,",
+        "authors: [Alice, 42]",
+        "updated: 2024-03-05",
+        "translationOf: site/Research/Privacy_Models.md",
+        "---",
+        "",
+        "# Privacy Models",
+      ].join("\n"),
+    );
+
+    expect(body).toBe("# Privacy Models");
+    expect(frontMatter).toEqual({
+      title: "Privacy Models",
+      tags: ["zcash", "privacy"],
+      authors: ["Alice", "42"],
+      updated: "2024-03-05",
+      translationOf: "site/Research/Privacy_Models.md",
+    });
+  });
+
+  it("drops malformed fields instead of rejecting the page", () => {
+    const { frontMatter } = parseFrontMatter("---\ntitle: ''\nupdated: someday\ncover: [1, 2]\n---\nBody");
+
+    expect(frontMatter).toEqual({ tags: [], authors: [] });
+  });
+
+  it("leaves pages without or with invalid front matter untouched", () => {
+    const rule = "Intro\n\n---\n\nMore";
+    expect(parseFrontMatter(rule).body).toBe(rule);
+
+    const invalid = "---\ntitle: [unclosed\n---\nBody";
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseFrontMatter(invalid)).toEqual({
+      frontMatter: { tags: [], authors: [] },
+      body: invalid,
+    });
+  });
+});
+
+describe("getWikiPageMeta", () => {
+  it("prefers front matter and resolves the cover against the content repo", () => {
+    const meta = getWikiPageMeta(
+      "---\ntitle: Custom\ndescription: Short summary\ncover: ../images/cover.png\n---\n# Heading\n\n![x](diagram.png)",
+      PATH,
+    );
+
+    expect(meta.title).toBe("Custom");
+    expect(meta.description).toBe("Short summary");
+    expect(meta.image).toBe(
+      "https://raw.githubusercontent.com/ZecHub/zechub/main/site/images/cover.png",
+    );
+  });
+
+  it("falls back to the first h1, paragraph and content image", () => {
+    const meta = getWikiPageMeta(
+      [
+        "![badge](https://img.shields.io/badge/x)",
+        "# Privacy **Models**",
+        "[Edit](https://github.com)",
+        "![Diagram](img/diagram.png)",
+        "Zcash offers [shielded](https://z.cash) transactions that hide sender, receiver and amount.",
+      ].join("\n\n"),
+      PATH,
+    );
+
+    expect(meta.title).toBe("Privacy Models");
+    expect(meta.description).toBe(
+      "Zcash offers shielded transactions that hide sender, receiver and amount.",
+    );
+    expect(meta.image).toBe(
+      "https://raw.githubusercontent.com/ZecHub/zechub/main/site/Research/img/diagram.png",
+    );
+  });
+});
+
+describe("extractFirstParagraph", () => {
+  it("skips code and cuts long paragraphs at a word boundary", () => {
+    const description = extractFirstParagraph(
+      `\`\`\`\nzcashd --help and more long command output here\n\`\`\`\n\n${"shielded ".repeat(40)}`,
+    );
+
+    expect(description!.length).toBeLessThanOrEqual(160);
+    expect(description).toMatch(/^shielded .*shielded…$/);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Element, Root } from "hast";
+import { splitMarkdownSections } from "../markdownSections";
+import { createSlugger } from "../slugify";
+import { buildTocTree, estimateReadingTime, rehypeHeadingIds, type TocHeading } from "../toc";
+
+const heading = (tagName: string, text: string, id?: string): Element => ({
+  type: "element",
+  tagName,
+  properties: id ? { id } : {},
+  children: [{ type: "text", value: text }],
+});
+
+describe("createSlugger", () => {
+  it("numbers repeated headings and skips slugs already taken", () => {
+    const slug = createSlugger();
+
+    expect(["Setup", "Setup", "Setup 1", "Setup", "!!!"].map(slug)).toEqual([
+      "setup",
+      "setup-1",
+      "setup-1-1",
+      "setup-2",
+      "",
+    ]);
+  });
+});
+
+describe("rehypeHeadingIds", () => {
+  it("gives h1–h3 unique ids, keeps explicit ones and collects the headings", () => {
+    const tree: Root = {
+      type: "root",
+      children: [
+        heading("h1", "Wallets"),
+        heading("h2", "Mobile"),
+        {
+          type: "element",
+          tagName: "div",
+          properties: {},
+          children: [heading("h3", "Mobile"), heading("h4", "Ignored")],
+        },
+        heading("h2", "Desktop", "desktop-wallets"),
+      ],
+    };
+    const headings: TocHeading[] = [];
+
+    rehypeHeadingIds({ headings })(tree);
+
+    expect(headings).toEqual([
+      { id: "wallets", text: "Wallets", level: 1 },
+      { id: "mobile", text: "Mobile", level: 2 },
+      { id: "mobile-1", text: "Mobile", level: 3 },
+      { id: "desktop-wallets", text: "Desktop", level: 2 },
+    ]);
+    expect((tree.children[1] as Element).properties?.id).toBe("mobile");
+  });
+
+  it("matches the anchors of splitMarkdownSections", () => {
+    const sections = splitMarkdownSections("# FAQ\n## Fees\ntext\n## Fees\nmore");
+    expect(sections.map((s) => s.anchor).filter(Boolean)).toEqual(["faq", "fees", "fees-1"]);
+  });
+});
+
+describe("buildTocTree", () => {
+  it("nests headings and drops a single leading h1", () => {
+    const toc = buildTocTree([
+      { id: "title", text: "Title", level: 1 },
+      { id: "a", text: "A", level: 2 },
+      { id: "a1", text: "A1", level: 3 },
+      { id: "b", text: "B", level: 2 },
+      { id: "b1", text: "B1", level: 3 },
+    ]);
+
+    expect(toc.map((item) => item.id)).toEqual(["a", "b"]);
+    expect(toc[1].children.map((item) => item.id)).toEqual(["b1"]);
+  });
+
+  it("keeps h1s when a page has several", () => {
+    const toc = buildTocTree([
+      { id: "one", text: "One", level: 1 },
+      { id: "two", text: "Two", level: 1 },
+    ]);
+
+    expect(toc).toHaveLength(2);
+  });
+});
+
+describe("estimateReadingTime", () => {
+  it("counts words at 200 per minute with a one minute floor", () => {
+    expect(estimateReadingTime("Short page.")).toBe(1);
+    expect(estimateReadingTime("word ".repeat(1000))).toBe(5);
+  });
+});
@@ -0,0 +1,67 @@
+import { makeSnippet, searchSections } from "../wikiSearch";
+import { buildWikiSearchIndex, expandWikiSearchIndex } from "../wikiSearchIndex";
+
+const index = buildWikiSearchIndex([
+  {
+    url: "/using-zcash/wallets",
+    fallbackTitle: "Wallets",
+    markdown: [
+      "# Zcash Wallets",
+      "Pick a wallet that supports **shielded** transactions.",
+      "## Hardware (Ledger + Keystone)",
+      "Hardware wallets keep spending keys offline. See [Keystone](https://keyst.one).",
+      "```",
+      "# not a heading",
+      "```",
+    ].join("\n"),
+  },
+  {
+    url: "/zcash-tech/halo",
+    fallbackTitle: "Halo",
+    markdown: "Halo removes the trusted setup from Zcash proofs.\n\n## Recursion\nProofs can verify other proofs.",
+  },
+]);
+
+const sections = expandWikiSearchIndex(index);
+
+describe("wiki search index", () => {
+  it("stores one entry per heading with plain text and anchors", () => {
+    expect(index.pages).toEqual([
+      ["Zcash Wallets", "/using-zcash/wallets"],
+      ["Halo", "/zcash-tech/halo"],
+    ]);
+    expect(sections.map((s) => s.anchor)).toEqual([
+      "zcash-wallets",
+      "hardware-ledger-and-keystone",
+      null,
+      "recursion",
+    ]);
+    expect(sections[1].text).toBe(
+      "Hardware wallets keep spending keys offline. See Keystone. not a heading",
+    );
+    expect(sections[0].text).not.toContain("**");
+  });
+
+  it("finds sections by body text and ranks heading matches first", () => {
+    expect(searchSections(sections, "trusted setup").map((s) => s.url)).toEqual([
+      "/zcash-tech/halo",
+    ]);
+
+    const hits = searchSections(sections, "hardware");
+    expect(hits[0].heading).toBe("Hardware (Ledger + Keystone)");
+  });
+
+  it("tolerates typos in headings but not unmatched body words", () => {
+    expect(searchSections(sections, "recursoin")[0]?.anchor).toBe("recursion");
+    expect(searchSections(sections, "quantum teleportation")).toEqual([]);
+  });
+
+  it("cuts snippets around the first match", () => {
+    const text = `${"lorem ipsum ".repeat(30)}the viewing key reveals incoming notes ${"dolor ".repeat(30)}`;
+    const snippet = makeSnippet(text, "viewing key", 40);
+
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+    expect(snippet).toContain("the viewing key reveals");
+  });
+});
@@ -0,0 +1,17 @@
+import "server-only";
+
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Gate for the internal report pages under `/admin`, which are opened with
+ * `?secret=<ADMIN_SECRET>`. Returns `false` when no secret is configured.
+ */
+export function isAdminSecret(secret: string | null | undefined): boolean {
+  const expected = process.env.ADMIN_SECRET;
+  if (!expected || !secret) return false;
+
+  const a = new TextEncoder().encode(secret);
+  const b = new TextEncoder().encode(expected);
+
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,76 @@
+import {
+  CHUNK_OVERLAP_CHARS,
+  chunkMarkdown,
+  headingText,
+  MAX_CHUNK_CHARS,
+} from "../chunkMarkdown";
+
+const paragraph = (word: string, length = 300) =>
+  `${word} `.repeat(Math.ceil(length / (word.length + 1))).trim().slice(0, length);
+
+describe("chunkMarkdown", () => {
+  it("starts a new chunk at every h1–h3 and records the heading path", () => {
+    const chunks = chunkMarkdown(
+      [
+        "# Wallets",
+        "Zcash wallets come in many shapes, from mobile apps to hardware devices.",
+        "## Mobile (iOS + Android)",
+        "Mobile wallets such as Zashi support shielded transactions by default.",
+        "#### Notes",
+        "Deeper headings stay inside the section they belong to, as plain text.",
+      ].join("\n"),
+    );
+
+    expect(chunks.map((c) => c.heading)).toEqual(["Wallets", "Mobile (iOS + Android)"]);
+    expect(chunks[1].headingPath).toEqual(["Wallets", "Mobile (iOS + Android)"]);
+    expect(chunks[1].anchor).toBe("mobile-ios-and-android");
+    expect(chunks[1].content).toContain("#### Notes");
+  });
+
+  it("ignores headings inside fenced code and skips near-empty sections", () => {
+    const chunks = chunkMarkdown(
+      [
+        "# Install",
+        "## Empty",
+        "## Build",
+        "Run the following to build the node from source on Linux:",
+        "```bash",
+        "# not a heading",
+        "cargo build --release",
+        "```",
+      ].join("\n"),
+    );
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].heading).toBe("Build");
+    expect(chunks[0].content).toContain("# not a heading");
+  });
+
+  it("packs long sections with overlap between consecutive chunks", () => {
+    const blocks = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot", "golf"].map(
+      (w) => paragraph(w),
+    );
+    const chunks = chunkMarkdown(`## Long\n\n${blocks.join("\n\n")}`);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(MAX_CHUNK_CHARS + CHUNK_OVERLAP_CHARS * 2);
+      expect(chunk.anchor).toBe("long");
+    }
+
+    const lastOfFirst = chunks[0].content.split("\n\n").pop()!;
+    expect(chunks[1].content.startsWith(lastOfFirst.slice(-CHUNK_OVERLAP_CHARS))).toBe(true);
+    expect(chunks.map((c) => c.index)).toEqual(chunks.map((_, i) => i));
+  });
+
+  it("hard-splits a single paragraph longer than a chunk", () => {
+    const chunks = chunkMarkdown(paragraph("zcash", MAX_CHUNK_CHARS * 3));
+
+    expect(chunks.length).toBeGreaterThanOrEqual(3);
+    expect(chunks[0].heading).toBeNull();
+  });
+
+  it("unwraps inline markdown in heading text", () => {
+    expect(headingText("[Zebra](https://zfnd.org) **node** `v2`")).toBe("Zebra node v2");
+  });
+});
@@ -0,0 +1,59 @@
+import { EmbeddingDimensionError, withDimensionCheck } from "../providers/dimensions";
+import {
+  createFakeChatProvider,
+  createFakeEmbeddingProvider,
+  fakeEmbedding,
+} from "../providers/fake";
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe("fake AI providers", () => {
+  it("embeds deterministically with unit-length vectors", async () => {
+    const provider = createFakeEmbeddingProvider(64);
+    const [a, b] = await provider.embed(["Shielded ZEC", "shielded zec"]);
+
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b);
+    expect(cosine(a, a)).toBeCloseTo(1);
+  });
+
+  it("keeps related texts closer than unrelated ones", () => {
+    const query = fakeEmbedding("how do shielded transactions work", 256);
+    const related = fakeEmbedding("shielded transactions hide the sender", 256);
+    const unrelated = fakeEmbedding("the ambassador map lists cities", 256);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("streams a chat reply for the last user turn", async () => {
+    const provider = createFakeChatProvider();
+    let reply = "";
+    for await (const text of provider.streamChat(
+      [
+        { role: "system", content: "be brief" },
+        { role: "user", content: "What is ZEC?" },
+      ],
+      new AbortController().signal,
+    )) {
+      reply += text;
+    }
+
+    expect(reply).toContain('"What is ZEC?"');
+  });
+});
+
+describe("withDimensionCheck", () => {
+  it("rejects vectors that do not match the configured size", async () => {
+    const provider = withDimensionCheck(createFakeEmbeddingProvider(768), 1536);
+
+    await expect(provider.embed(["zcash"])).rejects.toBeInstanceOf(EmbeddingDimensionError);
+  });
+
+  it("passes matching vectors through", async () => {
+    const provider = withDimensionCheck(createFakeEmbeddingProvider(8), 8);
+
+    await expect(provider.embed(["a", "b"])).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+import { encodeSseEvent, readSseStream } from "../sse";
+import type { AiStreamEvent } from "../types";
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((c) => controller.enqueue(c));
+      controller.close();
+    },
+  });
+}
+
+describe("server-sent events", () => {
+  it("round-trips events split across arbitrary chunk boundaries", async () => {
+    const events: AiStreamEvent[] = [
+      {
+        event: "citations",
+        data: {
+          citations: [
+            {
+              id: "a",
+              path: "site/Using_Zcash/Wallets.md",
+              title: "Using Zcash — Wallets",
+              heading: "Mobile",
+              href: "/using-zcash/wallets#mobile",
+              similarity: 0.82,
+            },
+          ],
+        },
+      },
+      { event: "delta", data: { text: "Zcash\n\nis " } },
+      { event: "delta", data: { text: "private." } },
+      { event: "done", data: { mode: "rag" } },
+    ];
+
+    const bytes = new TextEncoder().encode(
+      events.map((e) => new TextDecoder().decode(encodeSseEvent(e))).join(""),
+    );
+    const chunks = [bytes.subarray(0, 7), bytes.subarray(7, 150), bytes.subarray(150)];
+
+    const received: AiStreamEvent[] = [];
+    await readSseStream(streamOf(chunks), (e) => received.push(e));
+
+    expect(received).toEqual(events);
+  });
+});
@@ -0,0 +1,114 @@
+import { splitMarkdownSections } from "@/lib/markdownSections";
+
+export { headingText } from "@/lib/markdownSections";
+
+/** Target upper bound for a chunk, roughly 400 tokens of prose */
+export const MAX_CHUNK_CHARS = 1600;
+/** Trailing text of the previous chunk repeated at the start of the next one */
+export const CHUNK_OVERLAP_CHARS = 200;
+/** Sections shorter than this (headings only, stray links) are not worth embedding */
+const MIN_CHUNK_CHARS = 40;
+
+export interface MarkdownChunk {
+  /** Position of the chunk within the page, stable as long as the page structure is */
+  index: number;
+  /** Nearest h1–h3 above the chunk, `null` for text before the first heading */
+  heading: string | null;
+  /** `id` the rendered heading gets from `rehypeHeadingIds`, usable as `#anchor` */
+  anchor: string | null;
+  /** Enclosing headings from the outermost down, e.g. `["Wallets", "Mobile"]` */
+  headingPath: string[];
+  content: string;
+}
+
+/** Split one over-long block on sentence ends, falling back to hard cuts */
+function splitLongBlock(block: string): string[] {
+  const parts: string[] = [];
+  let rest = block;
+
+  while (rest.length > MAX_CHUNK_CHARS) {
+    const window = rest.slice(0, MAX_CHUNK_CHARS);
+    const sentenceEnd = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+    const cut = sentenceEnd > MAX_CHUNK_CHARS / 2 ? sentenceEnd + 1 : MAX_CHUNK_CHARS;
+
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut);
+  }
+
+  if (rest.trim()) parts.push(rest.trim());
+  return parts;
+}
+
+/** Paragraph-aligned tail of `blocks` no longer than the overlap budget */
+function overlapTail(blocks: string[]): string[] {
+  const tail: string[] = [];
+  let size = 0;
+
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    size += blocks[i].length;
+    if (size > CHUNK_OVERLAP_CHARS) break;
+    tail.unshift(blocks[i]);
+  }
+
+  if (tail.length === 0 && blocks.length > 0) {
+    tail.push(blocks[blocks.length - 1].slice(-CHUNK_OVERLAP_CHARS));
+  }
+
+  return tail;
+}
+
+function packSection(body: string): string[] {
+  const blocks = body
+    .split(/\n\s*\n/)
+    .map((b) => b.trim())
+    .filter(Boolean)
+    .flatMap(splitLongBlock);
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let size = 0;
+  let fresh = 0; // blocks in `current` that are not overlap from the previous chunk
+
+  for (const block of blocks) {
+    if (fresh > 0 && size + block.length > MAX_CHUNK_CHARS) {
+      chunks.push(current.join("\n\n"));
+      current = overlapTail(current);
+      size = current.reduce((n, b) => n + b.length, 0);
+      fresh = 0;
+    }
+
+    current.push(block);
+    size += block.length;
+    fresh++;
+  }
+
+  if (fresh > 0) chunks.push(current.join("\n\n"));
+  return chunks;
+}
+
+/**
+ * Split a wiki page into embedding-sized chunks. Sections start at every
+ * h1–h3 so a chunk never straddles two headings; long sections are packed
+ * paragraph by paragraph with a small overlap between consecutive chunks.
+ */
+export function chunkMarkdown(markdown: string): MarkdownChunk[] {
+  const withoutComments = markdown.replace(/<!--[\s\S]*?-->/g, "");
+  const chunks: MarkdownChunk[] = [];
+
+  for (const section of splitMarkdownSections(withoutComments)) {
+    const body = section.content;
+    if (body.replace(/^#{1,3}\s+.*$/m, "").trim().length < MIN_CHUNK_CHARS) continue;
+
+    for (const content of packSection(body)) {
+      chunks.push({
+        index: chunks.length,
+        heading: section.heading,
+        anchor: section.anchor,
+        headingPath: section.headingPath,
+        content,
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,259 @@
+import "server-only";
+
+import { createHash } from "crypto";
+import { parseFrontMatter } from "@/lib/frontMatter";
+import { getAllWikiPages, WIKI_BASE_URL, wikiPathToSlug, wikiPathToTitle } from "@/lib/wikiPages";
+import { chunkMarkdown } from "./chunkMarkdown";
+import { EMBEDDING_DIMENSIONS, getEmbeddingProvider, type EmbeddingProvider } from "./providers";
+import { getSupabaseAdminClient } from "./supabase";
+import { resetEmbeddingCache } from "./vectorSearch";
+
+const TABLE = "docs_embeddings";
+const PAGE_SIZE = 1000;
+const EMBED_BATCH_SIZE = 64;
+const WRITE_BATCH_SIZE = 100;
+
+/**
+ * Deletions are skipped when the walk finds fewer than this share of the
+ * pages already indexed — a partial GitHub listing must not wipe the index.
+ */
+const MIN_PAGE_RATIO = 0.5;
+
+export interface DocChunkMetadata {
+  path: string;
+  url: string;
+  /** Wiki route without the host, matched against the assistant's `pageUrl` */
+  slug: string;
+  heading: string | null;
+  anchor: string | null;
+  headingPath: string[];
+  chunkIndex: number;
+  contentHash: string;
+  model: string;
+}
+
+interface DocChunkRow {
+  id: string;
+  content: string;
+  metadata: DocChunkMetadata;
+}
+
+interface IndexedRow {
+  id: string;
+  path: string | null;
+  contentHash: string | null;
+}
+
+export interface IngestOptions {
+  /** Compute the diff without embedding, writing or deleting anything */
+  dryRun?: boolean;
+}
+
+export interface IngestReport {
+  pages: number;
+  chunks: number;
+  embedded: number;
+  unchanged: number;
+  deleted: number;
+  /** Pages whose content could not be fetched; their existing chunks are kept */
+  failedPaths: string[];
+  deletionsSkipped: boolean;
+  dryRun: boolean;
+  durationMs: number;
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** Deterministic UUID for a chunk position so re-ingestion upserts in place */
+function chunkId(path: string, index: number): string {
+  const hex = sha256(`${path}#${index}`);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16) + hex.slice(17, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+export function buildPageRows(
+  path: string,
+  markdown: string,
+  provider: EmbeddingProvider,
+): DocChunkRow[] {
+  const model = `${provider.name}:${provider.model}`;
+  const slug = wikiPathToSlug(path);
+  const { frontMatter, body } = parseFrontMatter(markdown);
+  const title = frontMatter.title ?? wikiPathToTitle(path);
+
+  return chunkMarkdown(body).map((chunk) => {
+    const breadcrumb = [title, ...chunk.headingPath.filter((h) => h !== title)];
+    const content = `${breadcrumb.join(" > ")}\n\n${chunk.content}`;
+
+    return {
+      id: chunkId(path, chunk.index),
+      content,
+      metadata: {
+        path,
+        url: `${WIKI_BASE_URL}/${slug}`,
+        slug,
+        heading: chunk.heading,
+        anchor: chunk.anchor,
+        headingPath: chunk.headingPath,
+        chunkIndex: chunk.index,
+        // Switching the embedding model re-embeds everything
+        contentHash: sha256(`${model}:${EMBEDDING_DIMENSIONS}:${content}`),
+        model,
+      },
+    };
+  });
+}
+
+function batches<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+async function loadIndexedRows(
+  supabase: ReturnType<typeof getSupabaseAdminClient>,
+): Promise<IndexedRow[]> {
+  const rows: IndexedRow[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select("id, metadata")
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to read ${TABLE}: ${error.message}`);
+    if (!data || data.length === 0) break;
+
+    for (const row of data) {
+      const metadata = (row.metadata ?? {}) as Partial<DocChunkMetadata>;
+      rows.push({
+        id: String(row.id),
+        path: typeof metadata.path === "string" ? metadata.path : null,
+        contentHash: typeof metadata.contentHash === "string" ? metadata.contentHash : null,
+      });
+    }
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+async function runIngestion({ dryRun = false }: IngestOptions): Promise<IngestReport> {
+  const startedAt = Date.now();
+  const supabase = getSupabaseAdminClient();
+  const provider = getEmbeddingProvider();
+
+  const pages = await getAllWikiPages();
+  if (pages.length === 0) {
+    throw new Error("No markdown pages found; refusing to touch the index");
+  }
+
+  const failedPaths = pages.filter((p) => p.markdown === null).map((p) => p.path);
+
+  const wanted = pages.flatMap(({ path, markdown }) =>
+    markdown === null ? [] : buildPageRows(path, markdown, provider),
+  );
+
+  const indexed = await loadIndexedRows(supabase);
+  const indexedById = new Map(indexed.map((row) => [row.id, row]));
+
+  const changed = wanted.filter(
+    (row) => indexedById.get(row.id)?.contentHash !== row.metadata.contentHash,
+  );
+
+  // Chunks of pages we failed to fetch are kept as they are
+  const keep = new Set(wanted.map((r) => r.id));
+  const failed = new Set(failedPaths);
+  const stale = indexed.filter(
+    (row) => !keep.has(row.id) && !(row.path && failed.has(row.path)),
+  );
+
+  const indexedPages = new Set(
+    indexed.filter((row) => row.contentHash && row.path).map((row) => row.path),
+  );
+  const deletionsSkipped = pages.length < indexedPages.size * MIN_PAGE_RATIO;
+  if (deletionsSkipped) {
+    console.warn(
+      `[ingest] only ${pages.length} pages found for ${indexedPages.size} indexed; skipping deletions`,
+    );
+  }
+
+  if (!dryRun) {
+    for (const batch of batches(changed, EMBED_BATCH_SIZE)) {
+      const vectors = await provider.embed(batch.map((row) => row.content));
+
+      for (const rows of batches(
+        batch.map((row, i) => ({ ...row, embedding: vectors[i] })),
+        WRITE_BATCH_SIZE,
+      )) {
+        const { error } = await supabase.from(TABLE).upsert(rows, { onConflict: "id" });
+        if (error) throw new Error(`Failed to upsert into ${TABLE}: ${error.message}`);
+      }
+    }
+
+    if (!deletionsSkipped) {
+      for (const batch of batches(stale, WRITE_BATCH_SIZE)) {
+        const { error } = await supabase
+          .from(TABLE)
+          .delete()
+          .in("id", batch.map((row) => row.id));
+        if (error) throw new Error(`Failed to delete from ${TABLE}: ${error.message}`);
+      }
+    }
+
+    if (changed.length > 0 || (!deletionsSkipped && stale.length > 0)) {
+      resetEmbeddingCache();
+    }
+  }
+
+  const report: IngestReport = {
+    pages: pages.length,
+    chunks: wanted.length,
+    embedded: changed.length,
+    unchanged: wanted.length - changed.length,
+    deleted: deletionsSkipped ? 0 : stale.length,
+    failedPaths,
+    deletionsSkipped,
+    dryRun,
+    durationMs: Date.now() - startedAt,
+  };
+
+  console.log(
+    `[ingest] ${dryRun ? "dry run" : "done"} — pages=${report.pages} chunks=${report.chunks}` +
+      ` embedded=${report.embedded} unchanged=${report.unchanged} deleted=${report.deleted}` +
+      ` failed=${failedPaths.length} | ${report.durationMs}ms`,
+  );
+
+  return report;
+}
+
+// In-flight runs by mode; a dry run only reads, so it can overlap a real one
+const running = new Map<boolean, Promise<IngestReport>>();
+
+/**
+ * Sync `docs_embeddings` with the wiki served by `getFileContentCached`.
+ * Pages are chunked per heading, only chunks whose content hash changed are
+ * re-embedded, and chunks of pages that no longer exist are deleted.
+ * Concurrent calls in the same mode share the run already in progress.
+ */
+export function ingestWikiDocs(options: IngestOptions = {}): Promise<IngestReport> {
+  const dryRun = options.dryRun ?? false;
+  let run = running.get(dryRun);
+
+  if (!run) {
+    run = runIngestion({ ...options, dryRun }).finally(() => {
+      running.delete(dryRun);
+    });
+    running.set(dryRun, run);
+  }
+
+  return run;
+}
@@ -1,26 +0,0 @@
-import "server-only";
-
-import OpenAI from "openai";
-
-export const EMBEDDING_MODEL = "text-embedding-3-large";
-export const EMBEDDING_DIMENSIONS = 1536;
-export const CHAT_MODEL = "gpt-4.1-mini";
-
-let openaiClient: OpenAI | null = null;
-
-export function hasOpenAIApiKey(): boolean {
-  return Boolean(process.env.OPENAI_API_KEY);
-}
-
-export function getOpenAIClient(): OpenAI {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not configured.");
-  }
-
-  if (!openaiClient) {
-    openaiClient = new OpenAI({ apiKey });
-  }
-
-  return openaiClient;
-}
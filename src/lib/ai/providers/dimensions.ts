@@ -0,0 +1,40 @@
+import type { EmbeddingProvider } from "./types";
+
+/**
+ * Size of the vectors stored in `docs_embeddings`; must match the column type.
+ * Override only together with a table created for the embedding model in use.
+ */
+export const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS) || 1536;
+
+export class EmbeddingDimensionError extends Error {
+  constructor(provider: EmbeddingProvider, actual: number, expected: number) {
+    super(
+      `${provider.name} embedding model "${provider.model}" returned ${actual}-dimensional vectors, ` +
+        `expected EMBEDDING_DIMENSIONS=${expected}`,
+    );
+    this.name = "EmbeddingDimensionError";
+  }
+}
+
+/** Wrap a provider so every batch is checked for count and vector size */
+export function withDimensionCheck(
+  provider: EmbeddingProvider,
+  dimensions = EMBEDDING_DIMENSIONS,
+): EmbeddingProvider {
+  return {
+    ...provider,
+    async embed(inputs, signal) {
+      const vectors = await provider.embed(inputs, signal);
+
+      if (vectors.length !== inputs.length) {
+        throw new Error(
+          `${provider.name} returned ${vectors.length} embeddings for ${inputs.length} inputs`,
+        );
+      }
+      const wrong = vectors.find((v) => v.length !== dimensions);
+      if (wrong) throw new EmbeddingDimensionError(provider, wrong.length, dimensions);
+
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { ChatProvider, EmbeddingProvider } from "./types";
+
+export const FAKE_MODEL = "fake";
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag-of-words vector: identical texts give identical vectors and
+ * texts sharing words stay close, which is enough to exercise retrieval.
+ */
+export function fakeEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+  for (const token of tokens) {
+    const hash = fnv1a(token);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
+
+/** Never calls out to a network; for tests and local development */
+export function createFakeChatProvider(): ChatProvider {
+  return {
+    name: "fake",
+    model: FAKE_MODEL,
+    async *streamChat(input) {
+      const question = [...input].reverse().find((t) => t.role === "user")?.content ?? "";
+      const reply = `This is a placeholder answer to "${question}" from the fake provider.`;
+
+      for (const word of reply.split(/(?<= )/)) yield word;
+    },
+  };
+}
+
+export function createFakeEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  return {
+    name: "fake",
+    model: FAKE_MODEL,
+    async embed(inputs) {
+      return inputs.map((text) => fakeEmbedding(text, dimensions));
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import "server-only";
+
+import { EMBEDDING_DIMENSIONS, withDimensionCheck } from "./dimensions";
+import {
+  createFakeChatProvider,
+  createFakeEmbeddingProvider,
+} from "./fake";
+import {
+  createOpenAIChatProvider,
+  createOpenAIEmbeddingProvider,
+  isOpenAIConfigured,
+} from "./openai";
+import {
+  createOpenAICompatibleChatProvider,
+  createOpenAICompatibleEmbeddingProvider,
+  isOpenAICompatibleConfigured,
+} from "./openaiCompatible";
+import type { ChatProvider, EmbeddingProvider, ProviderKind } from "./types";
+
+export { EMBEDDING_DIMENSIONS, EmbeddingDimensionError } from "./dimensions";
+export type { ChatProvider, ChatTurn, EmbeddingProvider, ProviderKind } from "./types";
+
+const PROVIDER_KINDS: ProviderKind[] = ["openai", "openai-compatible", "fake"];
+
+const reportedKinds = new Set<string>();
+
+/** `null` for an unrecognised value, which leaves that provider unconfigured */
+function providerKind(value: string | undefined): ProviderKind | null {
+  if (!value) return "openai";
+  if (PROVIDER_KINDS.includes(value as ProviderKind)) return value as ProviderKind;
+
+  if (!reportedKinds.has(value)) {
+    reportedKinds.add(value);
+    console.error(
+      `[ai] Unknown AI provider "${value}", expected one of ${PROVIDER_KINDS.join(", ")}; treating it as not configured`,
+    );
+  }
+  return null;
+}
+
+function chatKind(): ProviderKind | null {
+  return providerKind(process.env.AI_CHAT_PROVIDER);
+}
+
+/** Embeddings follow the chat provider unless `AI_EMBEDDING_PROVIDER` says otherwise */
+function embeddingKind(): ProviderKind | null {
+  return providerKind(process.env.AI_EMBEDDING_PROVIDER || process.env.AI_CHAT_PROVIDER);
+}
+
+function requireKind(kind: ProviderKind | null, name: string): ProviderKind {
+  if (!kind) throw new Error(`${name} does not name a known AI provider.`);
+  return kind;
+}
+
+function isConfigured(kind: ProviderKind | null): boolean {
+  switch (kind) {
+    case null:
+      return false;
+    case "openai":
+      return isOpenAIConfigured();
+    case "openai-compatible":
+      return isOpenAICompatibleConfigured();
+    case "fake":
+      return true;
+  }
+}
+
+function requireModel(name: string): string {
+  const model = process.env[name];
+  if (!model) throw new Error(`${name} is required for the openai-compatible provider.`);
+  return model;
+}
+
+export function isChatConfigured(): boolean {
+  return isConfigured(chatKind());
+}
+
+export function isEmbeddingConfigured(): boolean {
+  return isConfigured(embeddingKind());
+}
+
+let chatProvider: ChatProvider | null = null;
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/** Chat adapter selected by `AI_CHAT_PROVIDER` (default `openai`) */
+export function getChatProvider(): ChatProvider {
+  if (chatProvider) return chatProvider;
+
+  const model = process.env.AI_CHAT_MODEL;
+  switch (requireKind(chatKind(), "AI_CHAT_PROVIDER")) {
+    case "openai":
+      chatProvider = createOpenAIChatProvider(model);
+      break;
+    case "openai-compatible":
+      chatProvider = createOpenAICompatibleChatProvider(requireModel("AI_CHAT_MODEL"));
+      break;
+    case "fake":
+      chatProvider = createFakeChatProvider();
+      break;
+  }
+
+  return chatProvider;
+}
+
+/** Embedding adapter selected by `AI_EMBEDDING_PROVIDER`, checked against `EMBEDDING_DIMENSIONS` */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (embeddingProvider) return embeddingProvider;
+
+  const model = process.env.AI_EMBEDDING_MODEL;
+  let provider: EmbeddingProvider;
+  switch (requireKind(embeddingKind(), "AI_EMBEDDING_PROVIDER")) {
+    case "openai":
+      provider = createOpenAIEmbeddingProvider(EMBEDDING_DIMENSIONS, model);
+      break;
+    case "openai-compatible":
+      provider = createOpenAICompatibleEmbeddingProvider(requireModel("AI_EMBEDDING_MODEL"));
+      break;
+    case "fake":
+      provider = createFakeEmbeddingProvider(EMBEDDING_DIMENSIONS);
+      break;
+  }
+
+  embeddingProvider = withDimensionCheck(provider);
+  return embeddingProvider;
+}
@@ -0,0 +1,60 @@
+import "server-only";
+
+import OpenAI from "openai";
+import type { ChatProvider, EmbeddingProvider } from "./types";
+
+export const OPENAI_CHAT_MODEL = "gpt-4.1-mini";
+export const OPENAI_EMBEDDING_MODEL = "text-embedding-3-large";
+
+let openaiClient: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY is not configured.");
+  }
+
+  if (!openaiClient) {
+    openaiClient = new OpenAI({ apiKey });
+  }
+
+  return openaiClient;
+}
+
+export function isOpenAIConfigured(): boolean {
+  return Boolean(process.env.OPENAI_API_KEY);
+}
+
+export function createOpenAIChatProvider(model = OPENAI_CHAT_MODEL): ChatProvider {
+  return {
+    name: "openai",
+    model,
+    async *streamChat(input, signal) {
+      const stream = await getOpenAIClient().responses.create(
+        { model, input, stream: true },
+        { signal },
+      );
+
+      for await (const event of stream) {
+        if (event.type === "response.output_text.delta") yield event.delta;
+      }
+    },
+  };
+}
+
+export function createOpenAIEmbeddingProvider(
+  dimensions: number,
+  model = OPENAI_EMBEDDING_MODEL,
+): EmbeddingProvider {
+  return {
+    name: "openai",
+    model,
+    async embed(inputs, signal) {
+      const res = await getOpenAIClient().embeddings.create(
+        { model, input: inputs, dimensions },
+        { signal },
+      );
+      return [...res.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import "server-only";
+
+import OpenAI from "openai";
+import type { ChatProvider, EmbeddingProvider } from "./types";
+
+let compatibleClient: OpenAI | null = null;
+
+/**
+ * Client for a self-hosted server speaking the OpenAI HTTP API, e.g. Ollama
+ * (`http://localhost:11434/v1`) or the llama.cpp server. Only the widely
+ * implemented Chat Completions and Embeddings endpoints are used.
+ */
+function getCompatibleClient(): OpenAI {
+  const baseURL = process.env.AI_BASE_URL;
+  if (!baseURL) {
+    throw new Error("AI_BASE_URL is not configured.");
+  }
+
+  if (!compatibleClient) {
+    // Local servers usually ignore the key, but the SDK requires one
+    compatibleClient = new OpenAI({ baseURL, apiKey: process.env.AI_API_KEY || "unused" });
+  }
+
+  return compatibleClient;
+}
+
+export function isOpenAICompatibleConfigured(): boolean {
+  return Boolean(process.env.AI_BASE_URL);
+}
+
+export function createOpenAICompatibleChatProvider(model: string): ChatProvider {
+  return {
+    name: "openai-compatible",
+    model,
+    async *streamChat(input, signal) {
+      const stream = await getCompatibleClient().chat.completions.create(
+        { model, messages: input, stream: true },
+        { signal },
+      );
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+export function createOpenAICompatibleEmbeddingProvider(model: string): EmbeddingProvider {
+  return {
+    name: "openai-compatible",
+    model,
+    async embed(inputs, signal) {
+      // No `dimensions`: most local servers reject it, the caller checks the size instead
+      const res = await getCompatibleClient().embeddings.create(
+        { model, input: inputs },
+        { signal },
+      );
+      return [...res.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    },
+  };
+}
@@ -0,0 +1,21 @@
+export interface ChatTurn {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatProvider {
+  /** Adapter name, e.g. `openai`, used in logs */
+  name: string;
+  model: string;
+  /** Stream the assistant reply as text fragments */
+  streamChat(input: ChatTurn[], signal: AbortSignal): AsyncIterable<string>;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  /** Embed every input; vectors are returned in input order */
+  embed(inputs: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export type ProviderKind = "openai" | "openai-compatible" | "fake";
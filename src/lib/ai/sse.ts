@@ -0,0 +1,54 @@
+import type { AiStreamEvent } from "./types";
+
+const encoder = new TextEncoder();
+
+export function encodeSseEvent({ event, data }: AiStreamEvent): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function parseSseBlock(block: string): AiStreamEvent | null {
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+
+  if (data.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(data.join("\n")) } as AiStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+/** Read a `text/event-stream` response body, calling `onEvent` for every complete event */
+export async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AiStreamEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseSseBlock(buffer.slice(0, boundary));
+      if (parsed) onEvent(parsed);
+
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  const rest = parseSseBlock(buffer.trim());
+  if (rest) onEvent(rest);
+}
@@ -17,3 +17,22 @@ export interface RetrievedDocChunk {
   metadata: Record<string, unknown>;
   similarity: number;
 }
+
+/** A retrieved chunk as shown to the user next to an answer */
+export interface Citation {
+  id: string;
+  path: string;
+  title: string;
+  heading: string | null;
+  /** Site-relative link to the page, including `#anchor` when the chunk has a heading */
+  href: string;
+  similarity: number;
+}
+
+export type AiAnswerMode = "rag" | "fallback" | "out_of_scope";
+
+export type AiStreamEvent =
+  | { event: "citations"; data: { citations: Citation[] } }
+  | { event: "delta"; data: { text: string } }
+  | { event: "done"; data: { mode: AiAnswerMode } }
+  | { event: "error"; data: { error: string } };
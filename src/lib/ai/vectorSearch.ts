@@ -2,10 +2,9 @@ import "server-only";
 
 import {
   EMBEDDING_DIMENSIONS,
-  EMBEDDING_MODEL,
-  getOpenAIClient,
-  hasOpenAIApiKey,
-} from "./openai";
+  getEmbeddingProvider,
+  isEmbeddingConfigured,
+} from "./providers";
 import { getSupabaseAdminClient } from "./supabase";
 import type { RetrievedDocChunk } from "./types";
 
@@ -29,6 +28,12 @@ if (!g.__zechubEmbCache) {
 }
 const _cache = g.__zechubEmbCache;
 
+/** Drop the in-memory embeddings so the next search reloads them, e.g. after ingestion */
+export function resetEmbeddingCache() {
+  _cache.data = null;
+  _cache.promise = null;
+}
+
 async function loadEmbeddingCache(
   supabase: ReturnType<typeof getSupabaseAdminClient>
 ): Promise<CachedEmbedding[]> {
@@ -137,7 +142,10 @@ async function searchDocsJS(
 
   if (matchPath) {
     const filtered = results.filter(
-      (r) => r.metadata?.path === matchPath || r.metadata?.url === matchPath
+      (r) =>
+        r.metadata?.path === matchPath ||
+        r.metadata?.url === matchPath ||
+        r.metadata?.slug === matchPath
     );
     results = filtered.length > 0 ? filtered : results;
   }
@@ -186,27 +194,22 @@ export async function searchDocs(
     return { chunks: [], searchAvailable: true, outOfScope: false };
   }
 
-  if (!hasOpenAIApiKey()) {
-    console.warn("[vectorSearch] OPENAI_API_KEY missing; skipping semantic search");
+  if (!isEmbeddingConfigured()) {
+    console.warn("[vectorSearch] embedding provider not configured; skipping semantic search");
     return { chunks: [], searchAvailable: null, outOfScope: false };
   }
 
   let queryEmbedding: number[];
   const embedStart = Date.now();
   try {
-    const openai = getOpenAIClient();
-    const embeddingRes = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: trimmed,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
-    const vec = embeddingRes.data[0]?.embedding;
+    const provider = getEmbeddingProvider();
+    const [vec] = await provider.embed([trimmed]);
     if (!vec) {
-      console.error("[vectorSearch] no embedding vector returned from OpenAI");
+      console.error(`[vectorSearch] no embedding vector returned from ${provider.name}`);
       return { chunks: [], searchAvailable: null, outOfScope: false };
     }
     queryEmbedding = vec;
-    console.log(`[vectorSearch] embedding ok — ${Date.now() - embedStart}ms`);
+    console.log(`[vectorSearch] embedding ok — ${Date.now() - embedStart}ms | provider=${provider.name}`);
   } catch (err) {
     console.error(`[vectorSearch] embedding failed (${Date.now() - embedStart}ms):`, err);
     return { chunks: [], searchAvailable: null, outOfScope: false };
@@ -1,82 +1,94 @@
-import { getFiles, transformUri } from "@/lib/helpers";
+import {
+  findFuzzyMatch,
+  getContentSource,
+  type ContentCommit,
+} from "@/lib/content-source";
+import {
+  CONTENT_TAG,
+  CONTENT_TREE_TAG,
+  contentDirTag,
+  contentFileTag,
+  contentTranslationsTag,
+} from "@/lib/content-cache/tags";
+import { transformUri } from "@/lib/helpers";
+import { i18n } from "@/i18n/config";
+import { isLocale, translatedContentPath, TRANSLATIONS_ROOT } from "@/i18n/routing";
 import { unstable_cache } from "next/cache";
-import { Octokit } from "octokit";
 
-const { GITHUB_TOKEN, OWNER, REPO, BRANCH } = process.env;
+const source = getContentSource();
 
-const authUser = GITHUB_TOKEN;
-const owner = OWNER || "";
-const repo = REPO || "";
+const HISTORY_LIMIT = 30;
 
-const octokit = new Octokit({ auth: authUser });
+/** `unstable_cache` for GitHub; a local checkout is read fresh so edits show up on reload */
+const cached: typeof unstable_cache = (fn, keyParts, options) =>
+  source.cacheable ? unstable_cache(fn, keyParts, options) : fn;
 
-function normalize(str: string): string {
-  return str
-    .replace(/\.md$/i, "")
-    .toLowerCase()
-    .replace(/[-_ ]+/g, "");
+/**
+ * `cached` with tags derived from the arguments, so the push webhook can
+ * revalidate one file or folder without purging the rest of `github-content`.
+ */
+function cachedWithTags<A extends unknown[], R>(
+  fn: (...args: A) => Promise<R>,
+  keyParts: string[],
+  { revalidate, tags }: { revalidate: number | false; tags: (...args: A) => string[] },
+): (...args: A) => Promise<R> {
+  return (...args) =>
+    cached(fn, keyParts, { revalidate, tags: [CONTENT_TAG, ...tags(...args)] })(...args);
 }
 
-export const getFileContentCached = unstable_cache(
-  async (path: string) => {
+const listingPath = (path: string) => transformUri(path).replace("/Site", "/site");
+
+/**
+ * A content file and the path it was read from, which differs from `path`
+ * when only the fuzzy file name fallback found it; `null` when nothing did.
+ */
+export const getResolvedFileCached = cachedWithTags(
+  async (path: string): Promise<{ path: string; markdown: string } | null> => {
     try {
       try {
-        const res = await octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path,
-          ref: BRANCH,
-        });
-        // @ts-ignore
-        return atob(res.data?.content || "");
+        return { path, markdown: await source.readFile(path) };
       } catch (err: any) {
-        console.log({ "Error! Status": err.status, Message: err.response?.data?.message });
+        console.log({
+          "Error! Status": err.status ?? err.code,
+          Message: err.response?.data?.message ?? err.message,
+        });
       }
 
       const folderPath = path.split("/").slice(0, -1).join("/");
       const realFiles = await getRootCached(folderPath);
       if (realFiles?.length) {
-        const slugPart = path.split("/").pop()?.replace(/\.md$/i, "") || "";
-        const normalizedSlug = normalize(slugPart);
-        for (const file of realFiles) {
-          if (normalize(file) === normalizedSlug || normalize(file).includes(normalizedSlug)) {
-            const res = await octokit.rest.repos.getContent({
-              owner, repo, path: file, ref: BRANCH,
-            });
-            // @ts-ignore
-            return atob(res.data?.content || "");
-          }
-        }
+        const match = findFuzzyMatch(path, realFiles);
+        if (match) return { path: match, markdown: await source.readFile(match) };
       }
       return null;
     } catch {
       return null;
     }
   },
-  ["github-file-content-cache"],
-  { revalidate: false, tags: ["github-content"] },
+  ["github-resolved-file-cache"],
+  {
+    revalidate: false,
+    // The folder tag refreshes a `null` or fuzzy match once a page is added next to it
+    tags: (path) => [contentFileTag(path), contentDirTag(path.split("/").slice(0, -1).join("/"))],
+  },
 );
 
-export const getRootCached = unstable_cache(
+export const getFileContentCached = async (path: string) =>
+  (await getResolvedFileCached(path))?.markdown ?? null;
+
+export const getRootCached = cachedWithTags(
   async (path: string) => {
-    const res = await octokit.rest.repos.getContent({
-      owner,
-      repo,
-      path: transformUri(path).replace("/Site", "/site"),
-      ref: BRANCH,
-    });
-    const data = res.data;
-    const elements = getFiles(data);
-    return elements.filter((item: string) => item.endsWith(".md"));
+    const entries = await source.listDir(listingPath(path));
+    return entries.map((e) => e.path).filter((item: string) => item.endsWith(".md"));
   },
   ["github-root-md-cache"],
-  { revalidate: 30, tags: ["github-content"] },
+  { revalidate: 3600, tags: (path) => [contentDirTag(listingPath(path))] },
 );
 
 export async function getSiteFolders(path: string) {
   try {
-    const res = await octokit.rest.repos.getContent({ owner, repo, path, ref: BRANCH });
-    return getFiles(res.data);
+    const entries = await source.listDir(path);
+    return entries.map((e) => e.path);
   } catch {
     return [];
   }
@@ -84,15 +96,9 @@ export async function getSiteFolders(path: string) {
 
 export async function getRootFileName(path: string) {
   try {
-    const res = await octokit.rest.repos.getContent({
-      owner,
-      repo,
-      path: transformUri(path).replace("/Site", "/site"),
-      ref: BRANCH,
-    });
-    const data = res.data;
-    const elements = getFiles(data);
-    return elements
+    const entries = await source.listDir(transformUri(path).replace("/Site", "/site"));
+    return entries
+      .map((e) => e.path)
       .filter((item: string) => item.endsWith(".md"))
       .map((item: string) => item.split("/").pop()?.replace(/\.md$/, "") || "");
   } catch {
@@ -102,9 +108,9 @@ export async function getRootFileName(path: string) {
 
 /**
  * Recursive version that preserves the exact same first-call transformation
- * as the original working getRootCached, then uses raw GitHub paths for subdirs.
+ * as the original working getRootCached, then uses raw repo paths for subdirs.
  */
-export const getAllMarkdownRecursively = unstable_cache(
+export const getAllMarkdownRecursively = cached(
   async (initialPath: string): Promise<string[]> => {
     const results: string[] = [];
 
@@ -112,19 +118,11 @@ export const getAllMarkdownRecursively = unstable_cache(
       try {
         const apiPath = isInitial
           ? transformUri(currentPath).replace("/Site", "/site")
-          : currentPath; // raw path from GitHub (correct casing)
+          : currentPath; // raw path from the content source (correct casing)
 
-        const res = await octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path: apiPath,
-          ref: BRANCH,
-        });
-
-        const items = Array.isArray(res.data) ? res.data : [res.data];
+        const items = await source.listDir(apiPath);
 
         for (const item of items) {
-          if (!item?.path) continue;
           if (item.type === "file" && item.path.endsWith(".md")) {
             results.push(item.path);
           } else if (item.type === "dir") {
@@ -140,5 +138,86 @@ export const getAllMarkdownRecursively = unstable_cache(
     return results;
   },
   ["github-all-md-recursive-final"],
-  { revalidate: 60, tags: ["github-content"] },
-);
\ No newline at end of file
+  { revalidate: 3600, tags: [CONTENT_TAG, CONTENT_TREE_TAG] },
+);
+
+/** Latest commits touching a content file, newest first; empty when unavailable */
+export const getFileHistoryCached = cachedWithTags(
+  async (path: string): Promise<ContentCommit[]> => {
+    try {
+      return await source.listCommits(path, HISTORY_LIMIT);
+    } catch (err: unknown) {
+      console.error(`[content] history of ${path} unavailable:`, err instanceof Error ? err.message : err);
+      return [];
+    }
+  },
+  ["github-file-history-cache"],
+  { revalidate: 3600, tags: (path) => [contentFileTag(path)] },
+);
+
+/** Locales with a folder under `i18n/` in the content repo */
+const getTranslationRootLocalesCached = cached(
+  async (): Promise<string[]> => {
+    const folders = await getSiteFolders(TRANSLATIONS_ROOT);
+    return folders
+      .map((folder) => folder.split("/").pop() ?? "")
+      .filter((locale) => isLocale(locale) && locale !== i18n.defaultLocale);
+  },
+  ["github-translation-root-cache"],
+  { revalidate: 3600, tags: [CONTENT_TAG, contentDirTag(TRANSLATIONS_ROOT)] },
+);
+
+/**
+ * Locales besides English that have a translation of the page at `path`,
+ * i.e. a file at `translatedContentPath(path, locale)`.
+ */
+export const getTranslationLocalesCached = cachedWithTags(
+  async (path: string): Promise<string[]> => {
+    const locales = await getTranslationRootLocalesCached();
+
+    const found = await Promise.all(
+      locales.map((locale) =>
+        source.readFile(translatedContentPath(path, locale)).then(
+          () => locale,
+          () => null,
+        ),
+      ),
+    );
+    return found.filter((locale): locale is string => locale !== null);
+  },
+  ["github-translation-locales-cache"],
+  { revalidate: 3600, tags: (path) => [contentTranslationsTag(path)] },
+);
+
+export interface ContentFileLinks {
+  /** File on GitHub */
+  view: string;
+  /** GitHub's web editor, which offers a fork and pull request to non-members */
+  edit: string;
+  history: string;
+  /** New issue proposing a change to the page */
+  suggest: string;
+}
+
+/**
+ * Links to a content file on GitHub. They point at the published repo even
+ * when pages are served from a local checkout.
+ */
+export function getContentFileLinks(path: string, pageUrl?: string): ContentFileLinks {
+  const { OWNER, REPO, BRANCH } = process.env;
+  const repoUrl = `https://github.com/${OWNER || "ZecHub"}/${REPO || "zechub"}`;
+  const branch = BRANCH || "main";
+  const file = path.replace(/^\/+/, "").split("/").map(encodeURIComponent).join("/");
+
+  const issue = new URLSearchParams({
+    title: `Suggested change: ${path.split("/").pop()?.replace(/\.md$/i, "")}`,
+    body: `Page: ${pageUrl ?? file}\nSource: ${repoUrl}/blob/${branch}/${file}\n\n**What should change?**\n`,
+  });
+
+  return {
+    view: `${repoUrl}/blob/${branch}/${file}`,
+    edit: `${repoUrl}/edit/${branch}/${file}`,
+    history: `${repoUrl}/commits/${branch}/${file}`,
+    suggest: `${repoUrl}/issues/new?${issue}`,
+  };
+}
@@ -0,0 +1,54 @@
+import { blockSubsidy, halvingHeight, halvingIndex, issuedSupply, MAX_MONEY } from "../consensus";
+
+describe("halvings", () => {
+  it("fall at the mainnet heights", () => {
+    expect([1, 2, 3].map(halvingHeight)).toEqual([1_046_400, 2_726_400, 4_406_400]);
+    expect(halvingHeight(0)).toBe(0);
+  });
+
+  it("are counted from those heights on", () => {
+    expect(halvingIndex(653_600)).toBe(0);
+    expect(halvingIndex(1_046_399)).toBe(0);
+    expect(halvingIndex(1_046_400)).toBe(1);
+    expect(halvingIndex(4_406_399)).toBe(2);
+    expect(halvingIndex(4_406_400)).toBe(3);
+  });
+});
+
+describe("blockSubsidy", () => {
+  it("ramps up over the slow start", () => {
+    expect(blockSubsidy(0)).toBe(0);
+    expect(blockSubsidy(1)).toBe(0.000625);
+    expect(blockSubsidy(10_000)).toBe(6.250625);
+    expect(blockSubsidy(19_999)).toBe(12.5);
+  });
+
+  it("halves at Blossom and at each halving", () => {
+    expect(blockSubsidy(653_599)).toBe(12.5);
+    expect(blockSubsidy(653_600)).toBe(6.25);
+    expect(blockSubsidy(1_046_400)).toBe(3.125);
+    expect(blockSubsidy(2_726_400)).toBe(1.5625);
+    expect(blockSubsidy(4_406_400)).toBe(0.78125);
+  });
+});
+
+describe("issuedSupply", () => {
+  it("matches the supply at each schedule change", () => {
+    expect(issuedSupply(19_999)).toBe(125_000);
+    expect(issuedSupply(653_599)).toBe(8_045_000);
+    expect(issuedSupply(1_046_399)).toBe(10_500_000);
+    expect(issuedSupply(2_726_399)).toBe(15_750_000);
+  });
+
+  it("grows by each block's subsidy", () => {
+    for (const height of [1, 9_999, 10_000, 20_000, 653_600, 3_000_000, 4_406_400]) {
+      expect(issuedSupply(height) - issuedSupply(height - 1)).toBeCloseTo(blockSubsidy(height), 8);
+    }
+  });
+
+  it("stays under MAX_MONEY", () => {
+    const final = issuedSupply(1e9);
+    expect(final).toBeLessThan(MAX_MONEY);
+    expect(final).toBeGreaterThan(MAX_MONEY - 1);
+  });
+});
@@ -0,0 +1,67 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { BLOSSOM_HEIGHT } from "../consensus";
+import { createChainSchedule, GENESIS_TIME, parseActivationDate } from "../schedule";
+
+const { upgrades } = JSON.parse(
+  readFileSync(join(__dirname, "../../../../public/data/zcash/network_upgrades.json"), "utf8"),
+);
+
+const utc = (iso: string) => Date.parse(iso) / 1000;
+
+describe("parseActivationDate", () => {
+  it("reads the ctime dates in network_upgrades.json as UTC", () => {
+    expect(parseActivationDate("Tue Jun 2 21:03:08 2026")).toBe(utc("2026-06-02T21:03:08Z"));
+    expect(parseActivationDate("Mon Jun 25 18:37:31 2018")).toBe(utc("2018-06-25T18:37:31Z"));
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseActivationDate("2026-06-02")).toBeNull();
+    expect(parseActivationDate("Tue Foo 2 21:03:08 2026")).toBeNull();
+  });
+});
+
+describe("createChainSchedule", () => {
+  it("follows the target spacing without anchors", () => {
+    const schedule = createChainSchedule();
+    expect(schedule.timeAt(0)).toBe(GENESIS_TIME);
+    expect(schedule.timeAt(BLOSSOM_HEIGHT)).toBe(GENESIS_TIME + BLOSSOM_HEIGHT * 150);
+    expect(schedule.timeAt(BLOSSOM_HEIGHT + 48)).toBe(GENESIS_TIME + BLOSSOM_HEIGHT * 150 + 3600);
+  });
+
+  it("passes through every anchor", () => {
+    const tip = { height: 3_400_000, time: utc("2026-07-10T00:00:00Z") };
+    const schedule = createChainSchedule({ upgrades, tip });
+    expect(schedule.timeAt(2_726_400)).toBe(utc("2024-11-23T03:02:59Z"));
+    expect(schedule.timeAt(tip.height)).toBe(tip.time);
+    expect(schedule.timeAt(tip.height + 1152)).toBe(tip.time + 86_400);
+  });
+
+  it("inverts timeAt", () => {
+    const schedule = createChainSchedule({ upgrades });
+    for (const height of [0, 1, 500_000, BLOSSOM_HEIGHT, 2_000_000, 3_364_600, 5_000_000]) {
+      expect(schedule.heightAt(schedule.timeAt(height))).toBe(height);
+      expect(schedule.heightAt(schedule.timeAt(height) - 1)).toBe(Math.max(0, height - 1));
+    }
+  });
+
+  it("buckets heights into years", () => {
+    const schedule = createChainSchedule({ upgrades });
+    expect(schedule.yearOf(419_200)).toBe(2018);
+    expect(schedule.yearOf(2_726_400)).toBe(2024);
+    expect(schedule.yearOf(3_364_600)).toBe(2026);
+    expect(schedule.yearOf(3_364_600 + 420_480)).toBe(2027);
+  });
+
+  it("ignores anchors that go back in time", () => {
+    const schedule = createChainSchedule({
+      upgrades: [
+        { activationHeight: 1_000_000, activationDate: "Wed Nov 18 04:34:16 2020" },
+        { activationHeight: 1_100_000, activationDate: "Mon Jun 25 18:37:31 2018" },
+        { activationHeight: 1_200_000, activationDate: "soon" },
+      ],
+    });
+    const time = utc("2020-11-18T04:34:16Z");
+    expect(schedule.timeAt(1_100_000)).toBe(time + 100_000 * 75);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Mainnet consensus parameters, as named in the protocol spec (§5.3 and
+ * §7.8). Heights and subsidies only; mapping heights to dates is in
+ * `schedule.ts`.
+ */
+export const BLOSSOM_HEIGHT = 653_600;
+export const PRE_BLOSSOM_SPACING = 150;
+export const POST_BLOSSOM_SPACING = 75;
+export const SLOW_START_INTERVAL = 20_000;
+const SLOW_START_SHIFT = SLOW_START_INTERVAL / 2;
+export const PRE_BLOSSOM_HALVING_INTERVAL = 840_000;
+export const POST_BLOSSOM_HALVING_INTERVAL = 1_680_000;
+export const MAX_MONEY = 21_000_000;
+
+/** Blocks in a 365 day year at the post-Blossom spacing */
+export const BLOCKS_PER_YEAR = (365 * 86_400) / POST_BLOSSOM_SPACING;
+
+const COIN = 100_000_000;
+const MAX_BLOCK_SUBSIDY = 12.5 * COIN;
+const SLOW_START_RATE = MAX_BLOCK_SUBSIDY / SLOW_START_INTERVAL;
+const BLOSSOM_SPACING_RATIO = PRE_BLOSSOM_SPACING / POST_BLOSSOM_SPACING;
+
+/** Target seconds between block `height - 1` and `height` */
+export const targetSpacing = (height: number) =>
+  height < BLOSSOM_HEIGHT ? PRE_BLOSSOM_SPACING : POST_BLOSSOM_SPACING;
+
+/** Number of halvings at or before `height` */
+export function halvingIndex(height: number): number {
+  if (height < SLOW_START_SHIFT) return 0;
+  if (height < BLOSSOM_HEIGHT) {
+    return Math.floor((height - SLOW_START_SHIFT) / PRE_BLOSSOM_HALVING_INTERVAL);
+  }
+  // Blossom halved the interval's remainder in blocks along with the spacing
+  const preBlossomBlocks = (BLOSSOM_HEIGHT - SLOW_START_SHIFT) * BLOSSOM_SPACING_RATIO;
+  return Math.floor((preBlossomBlocks + height - BLOSSOM_HEIGHT) / POST_BLOSSOM_HALVING_INTERVAL);
+}
+
+/** Height of halving `n`; halving 0 is the launch */
+export function halvingHeight(n: number): number {
+  if (n <= 0) return 0;
+  const preBlossomBlocks = (BLOSSOM_HEIGHT - SLOW_START_SHIFT) * BLOSSOM_SPACING_RATIO;
+  return BLOSSOM_HEIGHT + n * POST_BLOSSOM_HALVING_INTERVAL - preBlossomBlocks;
+}
+
+function subsidyZat(height: number): number {
+  if (height <= 0) return 0;
+  if (height < SLOW_START_SHIFT) return SLOW_START_RATE * height;
+  if (height < SLOW_START_INTERVAL) return SLOW_START_RATE * (height + 1);
+
+  const halvings = 2 ** halvingIndex(height);
+  if (height < BLOSSOM_HEIGHT) return Math.floor(MAX_BLOCK_SUBSIDY / halvings);
+  return Math.floor(MAX_BLOCK_SUBSIDY / (BLOSSOM_SPACING_RATIO * halvings));
+}
+
+/** ZEC created by the block at `height`, funding streams included */
+export const blockSubsidy = (height: number) => subsidyZat(height) / COIN;
+
+/** First height after `height` where the subsidy can change */
+const nextSubsidyChange = (height: number) =>
+  height < BLOSSOM_HEIGHT ? BLOSSOM_HEIGHT : halvingHeight(halvingIndex(height) + 1);
+
+/**
+ * ZEC issued by all blocks up to and including `height`. Burns are not
+ * subtracted, so this is the supply the schedule allows rather than what
+ * the chain reports.
+ */
+export function issuedSupply(height: number): number {
+  const slowStartEnd = Math.min(height, SLOW_START_SHIFT - 1);
+  let zat = (SLOW_START_RATE * slowStartEnd * (slowStartEnd + 1)) / 2;
+  if (height >= SLOW_START_SHIFT) {
+    // Blocks SLOW_START_SHIFT.. pay the rate times height + 1
+    const last = Math.min(height, SLOW_START_INTERVAL - 1) + 1;
+    zat += (SLOW_START_RATE * (last * (last + 1) - SLOW_START_SHIFT * (SLOW_START_SHIFT + 1))) / 2;
+  }
+
+  for (let start = SLOW_START_INTERVAL; start <= height; start = nextSubsidyChange(start)) {
+    const subsidy = subsidyZat(start);
+    if (subsidy === 0) break;
+    const end = Math.min(nextSubsidyChange(start) - 1, height);
+    zat += subsidy * (end - start + 1);
+  }
+  return zat / COIN;
+}
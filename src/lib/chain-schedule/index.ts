@@ -0,0 +1,17 @@
+export {
+  BLOCKS_PER_YEAR,
+  BLOSSOM_HEIGHT,
+  MAX_MONEY,
+  POST_BLOSSOM_HALVING_INTERVAL,
+  POST_BLOSSOM_SPACING,
+  PRE_BLOSSOM_HALVING_INTERVAL,
+  PRE_BLOSSOM_SPACING,
+  SLOW_START_INTERVAL,
+  blockSubsidy,
+  halvingHeight,
+  halvingIndex,
+  issuedSupply,
+  targetSpacing,
+} from "./consensus";
+export { GENESIS_TIME, createChainSchedule, parseActivationDate } from "./schedule";
+export type { ChainAnchor, ChainSchedule, UpgradeActivation } from "./schedule";
@@ -0,0 +1,118 @@
+import { BLOSSOM_HEIGHT, POST_BLOSSOM_SPACING, PRE_BLOSSOM_SPACING } from "./consensus";
+
+/** Time of the genesis block, 2016-10-28 07:56:00 UTC */
+export const GENESIS_TIME = 1_477_641_360;
+
+/** A block whose time is known, in unix seconds */
+export interface ChainAnchor {
+  height: number;
+  time: number;
+}
+
+/** The fields of a `network_upgrades.json` entry the schedule reads */
+export interface UpgradeActivation {
+  activationHeight: number;
+  activationDate?: string;
+}
+
+/**
+ * Heights and times in both directions. Between anchors, times follow the
+ * target spacing stretched to fit the anchors; past the last one, they follow
+ * the target spacing.
+ */
+export interface ChainSchedule {
+  /** Estimated time of the block at `height`, in unix seconds */
+  timeAt(height: number): number;
+  /** Estimated height of the last block at or before `time` */
+  heightAt(time: number): number;
+  /** UTC year the block at `height` was, or will be, mined in */
+  yearOf(height: number): number;
+}
+
+const BLOSSOM_OFFSET = BLOSSOM_HEIGHT * PRE_BLOSSOM_SPACING;
+
+/** Seconds from genesis to `height` if every block hit the target spacing */
+const targetOffset = (height: number) =>
+  height < BLOSSOM_HEIGHT
+    ? height * PRE_BLOSSOM_SPACING
+    : BLOSSOM_OFFSET + (height - BLOSSOM_HEIGHT) * POST_BLOSSOM_SPACING;
+
+const heightAtOffset = (offset: number) =>
+  offset < BLOSSOM_OFFSET
+    ? offset / PRE_BLOSSOM_SPACING
+    : BLOSSOM_HEIGHT + (offset - BLOSSOM_OFFSET) / POST_BLOSSOM_SPACING;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Unix seconds of an `activationDate`, written by the upgrades script in
+ * `ctime` format (`Tue Jun 2 21:03:08 2026`, UTC), or `null`.
+ */
+export function parseActivationDate(value: string): number | null {
+  const match = /^[A-Z][a-z]{2} ([A-Z][a-z]{2}) +(\d{1,2}) (\d{2}):(\d{2}):(\d{2}) (\d{4})$/.exec(value.trim());
+  const month = match ? MONTHS.indexOf(match[1]) : -1;
+  if (!match || month < 0) return null;
+
+  const [, , day, hours, minutes, seconds, year] = match.map(Number);
+  return Date.UTC(year, month, day, hours, minutes, seconds) / 1000;
+}
+
+/**
+ * Anchors in height order, starting at genesis. Anchors that do not move
+ * forward in time from the previous one are dropped.
+ */
+function orderAnchors(anchors: ChainAnchor[]): ChainAnchor[] {
+  const ordered = [{ height: 0, time: GENESIS_TIME }];
+  for (const anchor of [...anchors].sort((a, b) => a.height - b.height)) {
+    const last = ordered[ordered.length - 1];
+    if (anchor.height > last.height && anchor.time > last.time) ordered.push(anchor);
+  }
+  return ordered;
+}
+
+/**
+ * Mainnet schedule anchored at genesis, each upgrade's activation and the
+ * observed `tip`. With no other anchors, it is the consensus target schedule.
+ */
+export function createChainSchedule(
+  options: { upgrades?: UpgradeActivation[]; tip?: ChainAnchor } = {},
+): ChainSchedule {
+  const activations = (options.upgrades ?? []).flatMap(({ activationHeight, activationDate }) => {
+    const time = activationDate ? parseActivationDate(activationDate) : null;
+    return time === null ? [] : [{ height: activationHeight, time }];
+  });
+  const anchors = orderAnchors(options.tip ? [...activations, options.tip] : activations);
+
+  // Last anchor at or before the point, chosen by `key`
+  const anchorBefore = (key: (a: ChainAnchor) => number, value: number) => {
+    let i = 0;
+    while (i + 1 < anchors.length && key(anchors[i + 1]) <= value) i++;
+    return i;
+  };
+
+  // Observed seconds per target second between anchor i and the next
+  const stretch = (i: number) => {
+    const from = anchors[i];
+    const to = anchors[i + 1];
+    if (!to) return 1;
+    return (to.time - from.time) / (targetOffset(to.height) - targetOffset(from.height));
+  };
+
+  const timeAt = (height: number) => {
+    const i = anchorBefore((a) => a.height, height);
+    const from = anchors[i];
+    return from.time + (targetOffset(height) - targetOffset(from.height)) * stretch(i);
+  };
+
+  return {
+    timeAt,
+    heightAt(time) {
+      const i = anchorBefore((a) => a.time, time);
+      const from = anchors[i];
+      const offset = targetOffset(from.height) + (time - from.time) / stretch(i);
+      // The epsilon keeps a block's own time from rounding down to the block before
+      return Math.max(0, Math.floor(heightAtOffset(offset) + 1e-6));
+    },
+    yearOf: (height) => new Date(timeAt(height) * 1000).getUTCFullYear(),
+  };
+}
@@ -0,0 +1,89 @@
+import { mergeReadings, normalizeBlockchair, normalizeExplorer } from "../normalize";
+
+const BLOCKCHAIR = {
+  data: {
+    blocks: 3100000,
+    transactions_24h: 9000,
+    market_price_usd: 41.5,
+    market_price_btc: 0.00041,
+    market_cap_usd: 680000000,
+    difficulty: 80000000,
+  },
+  context: { code: 200 },
+};
+
+describe("normalizeBlockchair", () => {
+  it("keeps the BlockchainInfo fields", () => {
+    expect(normalizeBlockchair(BLOCKCHAIR)).toEqual({
+      blocks: 3100000,
+      transactions_24h: 9000,
+      market_price_usd: 41.5,
+      market_price_btc: 0.00041,
+      market_cap_usd: 680000000,
+    });
+  });
+
+  it("throws on errors reported in the context", () => {
+    expect(() => normalizeBlockchair({ data: null, context: { code: 402, error: "Invalid key" } })).toThrow(
+      "Blockchair: Invalid key",
+    );
+  });
+  it("throws on stats that are missing or not numbers", () => {
+    expect(() => normalizeBlockchair({ data: { ...BLOCKCHAIR.data, market_price_usd: "n/a" }, context: {} })).toThrow(
+      "Unexpected response from Blockchair: market_price_usd",
+    );
+    expect(() => normalizeBlockchair({ data: { blocks: 3100000 }, context: {} })).toThrow(
+      "Unexpected response from Blockchair",
+    );
+    expect(() => normalizeBlockchair("<html>")).toThrow("Unexpected response from Blockchair");
+  });
+});
+
+describe("normalizeExplorer", () => {
+  it("only keeps the chain tip of getblockchaininfo", () => {
+    expect(normalizeExplorer({ chain: "main", blocks: 3100002, chainSupply: { chainValue: 16e6 } })).toEqual({
+      blocks: 3100002,
+    });
+  });
+
+  it("throws when there is no chain tip", () => {
+    expect(() => normalizeExplorer({ error: "down" })).toThrow("Unexpected response from the explorer: blocks");
+    expect(() => normalizeExplorer({ blocks: "3100002" })).toThrow("Unexpected response from the explorer");
+  });
+});
+
+describe("mergeReadings", () => {
+  it("takes each field from the first provider that has it", () => {
+    const merged = mergeReadings(
+      [
+        { provider: "Blockchair", stats: { market_price_usd: 41.5 } },
+        { provider: "Explorer", stats: { blocks: 3100002 } },
+      ],
+      { blocks: 3000000, transactions_24h: 8000, market_cap_usd: 1, market_price_usd: 2, market_price_btc: 3 },
+    );
+
+    expect(merged).toEqual({
+      stats: { blocks: 3100002, transactions_24h: 8000, market_cap_usd: 1, market_price_usd: 41.5, market_price_btc: 3 },
+      sources: ["Blockchair", "Explorer"],
+    });
+  });
+
+  it("fills fields nobody has with 0 and skips providers without data", () => {
+    expect(
+      mergeReadings(
+        [
+          { provider: "Blockchair", stats: {} },
+          { provider: "Explorer", stats: { blocks: 5 } },
+        ],
+        null,
+      ),
+    ).toEqual({
+      stats: { blocks: 5, transactions_24h: 0, market_cap_usd: 0, market_price_usd: 0, market_price_btc: 0 },
+      sources: ["Explorer"],
+    });
+  });
+
+  it("is null without a chain tip", () => {
+    expect(mergeReadings([{ provider: "Blockchair", stats: { market_price_usd: 40 } }], null)).toBeNull();
+  });
+});
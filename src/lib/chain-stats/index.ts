@@ -0,0 +1,82 @@
+import "server-only";
+
+import { mergeReadings } from "./normalize";
+import { CHAIN_STATS_PROVIDERS } from "./providers";
+import type { ChainStats, ChainStatsReading, ChainStatsSnapshot } from "./types";
+
+export type { ChainStats } from "./types";
+
+const FRESH_MS = 60_000;
+/** How long the last good snapshot may be served when every provider fails */
+const MAX_STALE_MS = 6 * 60 * 60_000;
+const PROVIDER_TIMEOUT_MS = 5000;
+
+export class ChainStatsUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChainStatsUnavailableError";
+  }
+}
+
+interface StatsCache {
+  snapshot: ChainStatsSnapshot | null;
+  promise: Promise<ChainStatsSnapshot> | null;
+}
+
+const cache: StatsCache = { snapshot: null, promise: null };
+
+async function fetchSnapshot(): Promise<ChainStatsSnapshot> {
+  const readings = await Promise.all(
+    CHAIN_STATS_PROVIDERS.map(async (provider): Promise<ChainStatsReading> => {
+      try {
+        return {
+          provider: provider.name,
+          stats: await provider.fetchStats(AbortSignal.timeout(PROVIDER_TIMEOUT_MS)),
+        };
+      } catch (err) {
+        console.error(`[chain-stats] ${provider.name} failed:`, err);
+        return { provider: provider.name, stats: {} };
+      }
+    }),
+  );
+
+  const merged = mergeReadings(readings, cache.snapshot?.stats ?? null);
+  if (!merged) throw new ChainStatsUnavailableError("No provider returned the Zcash chain tip");
+
+  return { ...merged, updatedAt: Date.now() };
+}
+
+/**
+ * Chain tip, 24h transactions and market data, merged from the providers
+ * and cached for 60s with concurrent callers sharing one refresh. A failed
+ * refresh falls back to the last good snapshot for up to 6 hours, after
+ * that a `ChainStatsUnavailableError` is thrown.
+ */
+export async function getChainStats(): Promise<ChainStats> {
+  let snapshot = cache.snapshot;
+  let stale = false;
+
+  if (!snapshot || Date.now() - snapshot.updatedAt >= FRESH_MS) {
+    if (!cache.promise) {
+      cache.promise = fetchSnapshot().finally(() => {
+        cache.promise = null;
+      });
+    }
+
+    try {
+      snapshot = cache.snapshot = await cache.promise;
+    } catch (err) {
+      if (!snapshot || Date.now() - snapshot.updatedAt >= MAX_STALE_MS) throw err;
+      console.error("[chain-stats] refresh failed, serving the last good snapshot:", err);
+      stale = true;
+    }
+  }
+
+  return {
+    data: snapshot.stats,
+    sources: snapshot.sources,
+    updatedAt: new Date(snapshot.updatedAt).toISOString(),
+    ageSeconds: Math.round((Date.now() - snapshot.updatedAt) / 1000),
+    stale,
+  };
+}
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { BlockchainInfo } from "@/lib/chart/types";
+import type { ChainStatsReading } from "./types";
+
+const FIELDS = [
+  "blocks",
+  "transactions_24h",
+  "market_cap_usd",
+  "market_price_usd",
+  "market_price_btc",
+] as const satisfies readonly (keyof BlockchainInfo)[];
+
+function parse<T>(source: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, json: unknown): T {
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Unexpected response from ${source}: ${issue?.path.join(".")} ${issue?.message}`);
+  }
+  return parsed.data;
+}
+
+const blockHeight = z.number().int().nonnegative();
+
+// Errors come back with `data: null` and the reason in `context`
+const blockchairEnvelope = z.object({
+  data: z.unknown(),
+  context: z.object({ error: z.string().optional() }),
+});
+
+const blockchairStats = z.object({
+  blocks: blockHeight,
+  transactions_24h: z.number().nonnegative(),
+  market_cap_usd: z.number().nonnegative(),
+  market_price_usd: z.number().nonnegative(),
+  market_price_btc: z.number().nonnegative(),
+}) satisfies z.ZodType<BlockchainInfo>;
+
+/** `api.blockchair.com/zcash/stats`, which reports errors in `context` */
+export function normalizeBlockchair(json: unknown): Partial<BlockchainInfo> {
+  const { data, context } = parse("Blockchair", blockchairEnvelope, json);
+  if (context.error) throw new Error(`Blockchair: ${context.error}`);
+  return parse("Blockchair", blockchairStats, data);
+}
+
+const explorerInfo = z.object({ blocks: blockHeight });
+
+/** An explorer's `getblockchaininfo`, which only knows the chain tip */
+export function normalizeExplorer(json: unknown): Partial<BlockchainInfo> {
+  return parse("the explorer", explorerInfo, json);
+}
+
+/**
+ * One `BlockchainInfo` from the readings, in order of preference: each field
+ * comes from the first reading that has it, else from `previous`, else 0.
+ * Returns `null` when no reading has the chain tip.
+ */
+export function mergeReadings(
+  readings: ChainStatsReading[],
+  previous: BlockchainInfo | null,
+): { stats: BlockchainInfo; sources: string[] } | null {
+  if (!readings.some((r) => r.stats.blocks !== undefined)) return null;
+
+  const stats = {} as BlockchainInfo;
+  for (const field of FIELDS) {
+    stats[field] = readings.find((r) => r.stats[field] !== undefined)?.stats[field] ?? previous?.[field] ?? 0;
+  }
+
+  return {
+    stats,
+    sources: readings.filter((r) => Object.keys(r.stats).length > 0).map((r) => r.provider),
+  };
+}
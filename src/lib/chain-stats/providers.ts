@@ -0,0 +1,37 @@
+import "server-only";
+
+import { normalizeBlockchair, normalizeExplorer } from "./normalize";
+import type { ChainStatsProvider } from "./types";
+
+/** The parsed body, checked against each provider's shape in `./normalize` */
+async function getJson(url: string, signal: AbortSignal): Promise<unknown> {
+  const res = await fetch(url, {
+    signal,
+    cache: "no-store",
+    headers: { Accept: "application/json" },
+  });
+
+  if (!res.ok) throw new Error(`HTTP ${res.status} from ${new URL(url).host}`);
+  return res.json();
+}
+
+const blockchair: ChainStatsProvider = {
+  name: "Blockchair",
+  async fetchStats(signal) {
+    const url = new URL("https://api.blockchair.com/zcash/stats");
+    // Works without a key too, at a much lower rate limit
+    if (process.env.BLOCKCHAIR_API_KEY) url.searchParams.set("key", process.env.BLOCKCHAIR_API_KEY);
+    return normalizeBlockchair(await getJson(url.toString(), signal));
+  },
+};
+
+const explorer: ChainStatsProvider = {
+  name: "Explorer",
+  async fetchStats(signal) {
+    const url = process.env.ZCASH_EXPLORER_INFO_URL || "https://explorer.zec.rocks/api/v1/blockchain-info";
+    return normalizeExplorer(await getJson(url, signal));
+  },
+};
+
+/** In order of preference, see `mergeReadings` */
+export const CHAIN_STATS_PROVIDERS: ChainStatsProvider[] = [blockchair, explorer];
@@ -0,0 +1,29 @@
+import type { BlockchainInfo } from "@/lib/chart/types";
+
+export interface ChainStatsProvider {
+  name: string;
+  /** The fields of `BlockchainInfo` this provider knows */
+  fetchStats(signal: AbortSignal): Promise<Partial<BlockchainInfo>>;
+}
+
+export interface ChainStatsReading {
+  provider: string;
+  stats: Partial<BlockchainInfo>;
+}
+
+export interface ChainStatsSnapshot {
+  stats: BlockchainInfo;
+  /** Providers that answered */
+  sources: string[];
+  updatedAt: number;
+}
+
+export interface ChainStats {
+  /** Same shape as Blockchair's `data`, which the charts were written against */
+  data: BlockchainInfo;
+  sources: string[];
+  updatedAt: string;
+  ageSeconds: number;
+  /** Served from the last good snapshot because every provider failed */
+  stale: boolean;
+}
@@ -4,6 +4,11 @@ export const DATA_URL = {
   saplingUrl: "/data/zcash/sapling_supply.json",
   totalSupplyUrl: "/data/zcash/total_supply.json",
   orchardUrl: "/data/zcash/orchard_supply.json",
+  testnetSproutUrl: "/data/zcash/testnet/sprout_supply.json",
+  testnetSaplingUrl: "/data/zcash/testnet/sapling_supply.json",
+  testnetOrchardUrl: "/data/zcash/testnet/orchard_supply.json",
+  networkUpgradesUrl: "/data/zcash/network_upgrades.json",
+  networkUpgradesTestnetUrl: "/data/zcash/network_upgrades_testnet.json",
   txsummaryUrl: "/data/zcash/transaction_summary.json",
   transparentSupplyUrl: "/data/zcash/transparent_supply.json",
   netInflowsOutflowsUrl: "/data/zcash/netinflowoutflow.json",
@@ -17,8 +22,7 @@ export const DATA_URL = {
     "https://api.github.com/repos/ZecHub/zechub-wiki/commits?path=public/data/zcash/shielded_supply.json",
   namadaSupplyUrl: "/data/namada/namada_supply.json",
   blockchainInfoUrl: "/api/blockchain-info",
-  blockchairUrl:
-    "https://api.blockchair.com/zcash/stats?key=A___nd1AAQ1G2DSEi9xRDFbAYUjawP2d",
+  chainStatsUrl: "/api/chain-stats",
   namadaRewardUrl: "/data/namada/namada_rewards_rate.json",
   blockFeesUrl: "/data/zcash/blockFeesZEC.json",
   networkSolpsUrl: "/data/zcash/networksolps.json",
@@ -58,8 +62,6 @@ export const DATE_URL = {
   namadaSupplyUrl:
     "https://api.github.com/repos/ZecHub/zechub-wiki/commits?path=public/data/namada/namada_supply.json&per_page=1",
   blockchainInfoUrl: "/api/blockchain-info",
-  blockchairUrl:
-    "https://api.blockchair.com/zcash/stats?key=A___NwjLQ29USRVGxzBQd2QoFvxSRNSk",
   namadaRewardUrl:
     "https://api.github.com/repos/ZecHub/zechub-wiki/commits?path=public/data/namada/namada_rewards_rate.json&per_page=1",
   zcashShieldedStatsUrl:
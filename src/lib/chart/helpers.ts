@@ -1,18 +1,7 @@
 import { DATE_URL } from "./data-url";
 import {
   BlockchainInfo,
-  Difficulty,
-  Issuance,
-  IssuanceParsed,
-  LockBox,
-  NetInOutflow,
-  NodeCountData,
-  ShieldedAmountDatum,
-  ShieldedTransactionDatum,
-  ShieldedTxCount,
   SupplyData,
-  BlockFees,
-  NetworkSolps,
   MiningHistoryResponse,
   MiningPoolDominanceResponse,
   MiningPoolsResponse,
@@ -33,30 +22,6 @@ export async function getBlockchainData(
     return null;
   }
 }
-export async function getIssuanceData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<IssuanceParsed[] | null> {
-  try {
-    const res = await fetch(url, {
-      signal,
-    });
-    if (!res.ok) return null;
-    const data: Issuance[] = await res.json();
-
-    const parsed = data.map((entry) => ({
-      Date: entry.Date,
-      zecIssuance: parseFloat(entry["ZEC  Supply"]),
-      zecSupply: parseFloat(entry["ZEC  Supply"]),
-      inflation: parseFloat(entry["Current Inflation (%)"]),
-    }));
-
-    return parsed;
-  } catch {
-    return null;
-  }
-}
-
 export async function getZcashCirculationCount(
   url: string,
   signal?: AbortSignal,
@@ -73,21 +38,6 @@ export async function getZcashCirculationCount(
   }
 }
 
-export async function getSupplyData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<SupplyData[]> {
-  try {
-    const res = await fetch(url, {
-      signal,
-    });
-    if (!res.ok) return [];
-    return (await res.json()) as SupplyData[];
-  } catch {
-    return [];
-  }
-}
-
 export async function getLastUpdatedDate(
   url: string,
   signal?: AbortSignal,
@@ -133,21 +83,6 @@ export function getCommitUrlForTab(tabLabel: string): string {
   return urlMap[tabLabel] || DATE_URL.defaultUrl;
 }
 
-export async function getShieldedTxCount(
-  url: string,
-  signal?: AbortSignal,
-): Promise<ShieldedTxCount[] | null> {
-  try {
-    const res = await fetch(url, {
-      signal,
-    });
-    if (!res.ok) return null;
-    return (await res.json()) as ShieldedTxCount[];
-  } catch {
-    return null;
-  }
-}
-
 export async function getMiningHistory(
   url: string,
   range: string,
@@ -196,186 +131,6 @@ export async function getMiningPoolsDominance(
   }
 }
 
-export async function getNodeCountData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<NodeCountData[]> {
-  try {
-    const res = await fetch(url, {
-      signal,
-    });
-    if (!res.ok) return [];
-    return (await res.json()) as NodeCountData[];
-  } catch {
-    return [];
-  }
-}
-
-export async function getLockboxData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<LockBox[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error(err.message || err);
-    }
-    return [];
-  }
-}
-export async function getNetInOutflowData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<NetInOutflow[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error(err.message || err);
-    }
-    return [];
-  }
-}
-export async function getDifficultyData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<Difficulty[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error(err.message || err);
-    }
-    return [];
-  }
-}
-export async function getNetworkSolpsData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<NetworkSolps[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error(err.message || err);
-    }
-    return [];
-  }
-}
-
-export async function getTotalSupplyData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<any[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error(err.message || err);
-    }
-    return [];
-  }
-}
-
-export async function getBlockFeesData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<BlockFees[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error(err.message || err);
-    }
-    return [];
-  }
-}
-
-export async function getNamadaSupply(
-  url: string,
-  signal?: AbortSignal,
-): Promise<any[]> {
-  try {
-    const res = await fetch(url, { signal });
-
-    if (!res.ok) {
-      console.warn(`Fetch failed: ${res.status} ${res.statusText}`);
-      return [];
-    }
-
-    const data: any[] = await res.json();
-    return data;
-  } catch (err: any) {
-    if (err.name === "AbortError") {
-      console.warn("Fetch aborted.");
-    } else {
-      console.error("Error fetching Namada supply:", err.message || err);
-    }
-    return [];
-  }
-}
-
 export async function getDaoProps(
   url: string,
   signal?: AbortSignal,
@@ -400,26 +155,6 @@ export async function getDaoProps(
   }
 }
 
-export async function fetchTransactionData(
-  url: string,
-): Promise<Array<ShieldedTransactionDatum>> {
-  const response = await fetch(url);
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-  return await response.json();
-}
-/**
- * Loads the historic shielded pool data from a public json file in Github repo
- * @returns Promise of shielded pool data
- */
-export async function fetchShieldedSupplyData(
-  url: string,
-  signal?: AbortSignal,
-): Promise<Array<ShieldedAmountDatum>> {
-  const response = await fetch(url);
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-  return await response.json();
-}
-
 export function formatDate(s: string | null): string {
   if (!s) return "N/A";
   const d = new Date(s);
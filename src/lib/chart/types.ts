@@ -9,11 +9,6 @@ export interface BlockchainInfo {
 export type PoolKey = "default" | "sprout" | "sapling" | "orchard";
 export type NamadaAsset = { id: string; totalSupply: string };
 export type SupplyData = { close: string; supply: number };
-export type ShieldedTxCount = {
-  sapling: number;
-  orchard: number;
-  timestamp: string;
-};
 export type MiningHistoryBucket = {
   avg_difficulty: number;
   avg_network_hashrate_gsols: number;
@@ -47,19 +42,6 @@ export type MiningPoolDominanceResponse = {
   range: string;
   slug: string | null;
 };
-export type NodeCountData = { Date: string; nodecount: string };
-
-/**
- * Type of values from the shielded pool over time. Each datum is amount
- * shielded at a given date.
- */
-export type ShieldedAmountDatum = {
-  close: string;
-  supply: number;
-  Date: string;
-  Hashrate: any;
-};
-
 export interface ShieldedPoolChartProps {
   dataUrl: string;
   color: string;
@@ -67,39 +49,6 @@ export interface ShieldedPoolChartProps {
 
 export type ShieldedSupplyLastUpdated = string;
 
-export type Issuance = {
-  Date: string;
-  "ZEC Issuance": string;
-  "ZEC  Supply": string;
-  "Current Inflation (%)": string;
-  "Unnamed: 4": string;
-  "ZIP 234": string;
-  "Unnamed: 6": string;
-};
-
-export type IssuanceParsed = {
-  Date: string;
-  zecIssuance: number;
-  zecSupply: number;
-  inflation: number;
-};
-
-export type Difficulty = {
-  Date: string;
-  Difficulty: string;
-};
-
-export type totalSupply = {
-  close: string;
-  supply: string;
-};
-
-export type BlockFees = {
-  Block: string;
-  Fees: string;
-  Date: string;
-};
-
 export type DaoProps = {
   coreAddress: string;
   proposalModuleAddress: string;
@@ -146,34 +95,9 @@ export type DaoProps = {
   executedAt: string;
 };
 
-export type NetworkSolps = {
-  Date: string;
-  Networksolps: string;
-};
-
-export type NetInOutflow = {
-  Date: string;
-  "Net Sapling Flow": string;
-  "Net Orchard Flow": string;
-};
-
-export type LockBox = {
-  Date: string;
-  lockbox: number;
-  coinholders_fund: number;
-};
-
 export type BlockchainNetwork = "Zcash" | "Namada" | "Penumbra";
 
 export type FlattenedTokenData = {
   Date: string;
   [tokenId: string]: number | string; // `Date` is string, others are numbers
 };
-
-export type ShieldedTransactionDatum = {
-  height: number;
-  sapling: number;
-  sapling_filter: number;
-  orchard: number;
-  orchard_filter: number;
-};
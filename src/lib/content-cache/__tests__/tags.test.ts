@@ -0,0 +1,66 @@
+import {
+  CONTENT_TREE_TAG,
+  contentDirTag,
+  contentFileTag,
+  contentTranslationsTag,
+  planContentInvalidation,
+} from "../tags";
+
+describe("content cache tags", () => {
+  it("match however the loaders spell a path", () => {
+    expect(contentFileTag("/site/Using_Zcash/Wallets.md")).toBe(contentFileTag("site/using-zcash/wallets.md"));
+    expect(contentDirTag("/site/Using_Zcash/")).toBe("github-content:dir:site/using_zcash");
+  });
+});
+
+describe("planContentInvalidation", () => {
+  it("touches the file, its folder's reads and its page when a page is edited", () => {
+    // The folder tag also covers routes that reached the file through the fuzzy fallback
+    expect(
+      planContentInvalidation([{ path: "site/Using_Zcash/Wallets.md", type: "modified" }]),
+    ).toEqual({
+      tags: [contentFileTag("site/Using_Zcash/Wallets.md"), contentDirTag("site/Using_Zcash")],
+      pages: ["site/Using_Zcash/Wallets.md"],
+      folders: [],
+      indexes: true,
+    });
+  });
+
+  it("also refreshes the folder listing and wiki tree when a page is added or removed", () => {
+    const plan = planContentInvalidation([
+      { path: "site/Guides/New_Guide.md", type: "added" },
+      { path: "site/Guides/Old_Guide.md", type: "removed" },
+    ]);
+
+    expect(plan.tags).toEqual([
+      contentFileTag("site/Guides/New_Guide.md"),
+      contentDirTag("site/Guides"),
+      CONTENT_TREE_TAG,
+      contentFileTag("site/Guides/Old_Guide.md"),
+    ]);
+    expect(plan.folders).toEqual(["site/Guides"]);
+  });
+
+  it("maps a new translation to the English page's locale list", () => {
+    const plan = planContentInvalidation([{ path: "i18n/es/site/Using_Zcash/Wallets.md", type: "added" }]);
+
+    expect(plan.tags).toEqual(
+      expect.arrayContaining([
+        contentFileTag("i18n/es/site/Using_Zcash/Wallets.md"),
+        contentTranslationsTag("site/Using_Zcash/Wallets.md"),
+        contentDirTag("i18n"),
+      ]),
+    );
+    expect(plan.tags).not.toContain(CONTENT_TREE_TAG);
+    expect(plan.pages).toEqual(["site/Using_Zcash/Wallets.md"]);
+  });
+
+  it("ignores files that are not wiki markdown", () => {
+    expect(
+      planContentInvalidation([
+        { path: "README.md", type: "modified" },
+        { path: "site/Using_Zcash/wallet.png", type: "added" },
+      ]),
+    ).toEqual({ tags: [], pages: [], folders: [], indexes: false });
+  });
+});
@@ -0,0 +1,51 @@
+import { createHmac } from "crypto";
+import { getPushChanges, MAX_PUSH_COMMITS, pushEventSchema, verifyWebhookSignature } from "../webhook";
+
+const sign = (body: string, secret: string) =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+const push = (overrides: Record<string, unknown> = {}) =>
+  pushEventSchema.parse({
+    ref: "refs/heads/main",
+    repository: { full_name: "ZecHub/zechub" },
+    commits: [
+      { id: "a", added: ["site/A.md"], modified: ["site/B.md"], removed: [] },
+      { id: "b", removed: ["site/C.md"] },
+    ],
+    ...overrides,
+  });
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ zen: "Keep it logically awesome." });
+
+  it("accepts the HMAC of the raw body", () => {
+    expect(verifyWebhookSignature(body, sign(body, "s3cret"), "s3cret")).toBe(true);
+  });
+
+  it("rejects other secrets, altered bodies and missing headers", () => {
+    expect(verifyWebhookSignature(body, sign(body, "other"), "s3cret")).toBe(false);
+    expect(verifyWebhookSignature(`${body} `, sign(body, "s3cret"), "s3cret")).toBe(false);
+    expect(verifyWebhookSignature(body, null, "s3cret")).toBe(false);
+    expect(verifyWebhookSignature(body, "sha256=abc", "s3cret")).toBe(false);
+  });
+});
+
+describe("getPushChanges", () => {
+  it("lists changed files across commits", () => {
+    expect(getPushChanges(push())).toEqual({
+      changes: [
+        { path: "site/A.md", type: "added" },
+        { path: "site/B.md", type: "modified" },
+        { path: "site/C.md", type: "removed" },
+      ],
+      complete: true,
+    });
+  });
+
+  it("flags force pushes and truncated commit lists as incomplete", () => {
+    expect(getPushChanges(push({ forced: true })).complete).toBe(false);
+
+    const commits = Array.from({ length: MAX_PUSH_COMMITS }, (_, i) => ({ id: String(i) }));
+    expect(getPushChanges(push({ commits })).complete).toBe(false);
+  });
+});
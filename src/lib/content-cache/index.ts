@@ -0,0 +1,56 @@
+import "server-only";
+
+import { wikiPathToSlug } from "@/lib/wikiPages";
+import { revalidatePath, revalidateTag } from "next/cache";
+import { CONTENT_TAG, type ContentInvalidationPlan } from "./tags";
+
+export * from "./tags";
+export { getPushChanges, pushEventSchema, verifyWebhookSignature, type PushEvent } from "./webhook";
+
+/** Routes built from every wiki page */
+const INDEX_ROUTES = ["/search-index.json", "/rss.xml", "/sitemap"];
+
+export interface ContentInvalidationResult {
+  tags: string[];
+  routes: string[];
+  /** Everything under `github-content` was purged */
+  full: boolean;
+}
+
+/** Drop every cached markdown file and listing */
+export function purgeContentCache(): ContentInvalidationResult {
+  revalidateTag(CONTENT_TAG, { expire: 0 });
+  console.log(`[content-cache] purged ${CONTENT_TAG}`);
+
+  return { tags: [CONTENT_TAG], routes: [], full: true };
+}
+
+/**
+ * Revalidate the cache tags of a plan from `planContentInvalidation` and the
+ * routes rendered from the affected pages: the page and its social card, the
+ * listing of folders that gained or lost a page, and the site-wide indexes.
+ */
+export function invalidateContent(plan: ContentInvalidationPlan): ContentInvalidationResult {
+  const routes = new Set<string>();
+
+  for (const page of plan.pages) {
+    const slug = wikiPathToSlug(page);
+    routes.add(`/${slug}`);
+    routes.add(`/og/${slug}`);
+  }
+  // The wiki root itself has no listing route
+  for (const folder of plan.folders.filter((f) => f.includes("/"))) {
+    routes.add(`/${wikiPathToSlug(folder)}`);
+  }
+  if (plan.indexes) INDEX_ROUTES.forEach((route) => routes.add(route));
+
+  for (const tag of plan.tags) revalidateTag(tag, { expire: 0 });
+  for (const route of routes) revalidatePath(route);
+
+  console.log(
+    `[content-cache] invalidated ${plan.tags.length} tags, ${routes.size} routes:`,
+    [...plan.tags, ...routes].join(" "),
+  );
+
+  return { tags: plan.tags, routes: [...routes], full: false };
+}
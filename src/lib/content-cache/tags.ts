@@ -0,0 +1,99 @@
+/** On every cached content loader; purging it clears everything, as `/api/revalidate` does */
+export const CONTENT_TAG = "github-content";
+/** On the recursive listing of the whole wiki, which changes when pages are added or removed */
+export const CONTENT_TREE_TAG = "github-content:tree";
+
+const WIKI_DIR = "site";
+const TRANSLATIONS_DIR = "i18n";
+
+/**
+ * Paths are compared the way `findFuzzyMatch` does: without leading slashes,
+ * case-insensitively and with `-` and `_` treated alike, so `/site/using-zcash`
+ * and `site/Using_Zcash` share a tag.
+ */
+export function normalizeContentPath(path: string): string {
+  return path.replace(/^\/+|\/+$/g, "").toLowerCase().replace(/-/g, "_");
+}
+
+function parentDir(path: string): string {
+  return normalizeContentPath(path).split("/").slice(0, -1).join("/");
+}
+
+/** Content of, and commit history of, one file */
+export const contentFileTag = (path: string) => `github-content:file:${normalizeContentPath(path)}`;
+/** Markdown listing of one folder */
+export const contentDirTag = (path: string) => `github-content:dir:${normalizeContentPath(path)}`;
+/** Which locales translate the English page at `path` */
+export const contentTranslationsTag = (path: string) =>
+  `github-content:translations:${normalizeContentPath(path)}`;
+
+export type ContentChangeType = "added" | "modified" | "removed";
+
+export interface ContentChange {
+  path: string;
+  type: ContentChangeType;
+}
+
+export interface ContentInvalidationPlan {
+  tags: string[];
+  /** English wiki pages (`site/….md`) whose routes render changed content */
+  pages: string[];
+  /** Wiki folders whose listings gained or lost a page */
+  folders: string[];
+  /** Whether the search index, feeds and AI embeddings need rebuilding */
+  indexes: boolean;
+}
+
+/** `i18n/es/site/A.md` → `{ locale: "es", path: "site/A.md" }` */
+function splitTranslationPath(path: string): { locale: string; path: string } | null {
+  const [root, locale, ...rest] = path.replace(/^\/+/, "").split("/");
+  return root === TRANSLATIONS_DIR && locale && rest.length > 0
+    ? { locale, path: rest.join("/") }
+    : null;
+}
+
+/**
+ * Cache tags and routes affected by a set of changed files in the content
+ * repo. Edits touch the file itself and its folder's tag, which every file
+ * read in that folder carries, so pages that only found the file through the
+ * fuzzy file name fallback are refreshed too. Added and removed pages also
+ * touch the wiki tree and, for translations, the page's list of locales.
+ * Files outside `site/` and `i18n/` and non-markdown files are ignored.
+ */
+export function planContentInvalidation(changes: ContentChange[]): ContentInvalidationPlan {
+  const tags = new Set<string>();
+  const pages = new Set<string>();
+  const folders = new Set<string>();
+
+  for (const change of changes) {
+    const path = change.path.replace(/^\/+/, "");
+    if (!/\.md$/i.test(path)) continue;
+
+    const translation = splitTranslationPath(path);
+    const englishPath = translation?.path ?? path;
+    if (englishPath.split("/")[0] !== WIKI_DIR) continue;
+
+    const structural = change.type !== "modified";
+
+    tags.add(contentFileTag(path));
+    tags.add(contentDirTag(parentDir(path)));
+    pages.add(englishPath);
+
+    if (structural) {
+      if (translation) {
+        tags.add(contentTranslationsTag(englishPath));
+        tags.add(contentDirTag(TRANSLATIONS_DIR));
+      } else {
+        tags.add(CONTENT_TREE_TAG);
+        folders.add(path.split("/").slice(0, -1).join("/"));
+      }
+    }
+  }
+
+  return {
+    tags: [...tags],
+    pages: [...pages],
+    folders: [...folders],
+    indexes: pages.size > 0,
+  };
+}
@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { ContentChange } from "./tags";
+
+/** GitHub lists at most this many commits in a push payload; longer pushes are truncated */
+export const MAX_PUSH_COMMITS = 20;
+
+const SIGNATURE_PREFIX = "sha256=";
+
+/** `X-Hub-Signature-256` check: HMAC-SHA256 of the raw request body with the webhook secret */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null | undefined,
+  secret: string,
+): boolean {
+  if (!secret || !signature?.startsWith(SIGNATURE_PREFIX)) return false;
+
+  const expected = new Uint8Array(createHmac("sha256", secret).update(body, "utf8").digest());
+  const received = new Uint8Array(Buffer.from(signature.slice(SIGNATURE_PREFIX.length), "hex"));
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+const paths = z.array(z.string()).default([]);
+
+export const pushEventSchema = z.object({
+  ref: z.string(),
+  after: z.string().optional(),
+  created: z.boolean().default(false),
+  deleted: z.boolean().default(false),
+  forced: z.boolean().default(false),
+  repository: z.object({ full_name: z.string() }),
+  commits: z
+    .array(z.object({ id: z.string(), added: paths, modified: paths, removed: paths }))
+    .default([]),
+});
+
+export type PushEvent = z.infer<typeof pushEventSchema>;
+
+/**
+ * Files changed by a push, in commit order. `complete` is `false` when the
+ * payload cannot be trusted to list every change — a truncated commit list,
+ * a force push or a branch being created — and everything should be purged.
+ */
+export function getPushChanges(event: PushEvent): { changes: ContentChange[]; complete: boolean } {
+  const changes = event.commits.flatMap((commit) => [
+    ...commit.added.map((path): ContentChange => ({ path, type: "added" })),
+    ...commit.modified.map((path): ContentChange => ({ path, type: "modified" })),
+    ...commit.removed.map((path): ContentChange => ({ path, type: "removed" })),
+  ]);
+
+  return {
+    changes,
+    complete:
+      !event.forced && !event.created && !event.deleted && event.commits.length < MAX_PUSH_COMMITS,
+  };
+}
@@ -0,0 +1,92 @@
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createLocalContentSource } from "../local";
+import { findFuzzyMatch } from "../resolve";
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), "zechub-content-"));
+  mkdirSync(join(root, "site/Using_Zcash/Guides"), { recursive: true });
+  mkdirSync(join(root, ".git"));
+  writeFileSync(join(root, "site/Using_Zcash/Wallets.md"), "# Wallets\n\nZashi – shielded by default ✓");
+  writeFileSync(join(root, "site/Using_Zcash/Blockchain_Explorers.md"), "# Explorers");
+  writeFileSync(join(root, "site/Using_Zcash/Guides/Sync.md"), "# Sync");
+});
+
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+describe("local content source", () => {
+  it("reads files as UTF-8 with or without a leading slash", async () => {
+    const source = createLocalContentSource(root);
+
+    expect(await source.readFile("/site/Using_Zcash/Wallets.md")).toContain("✓");
+    expect(await source.readFile("site/Using_Zcash/Wallets.md")).toContain("Zashi");
+    await expect(source.readFile("site/Using_Zcash/Missing.md")).rejects.toThrow();
+  });
+
+  it("lists directories with repo-relative paths in tree order", async () => {
+    const source = createLocalContentSource(root);
+
+    expect(await source.listDir("/site/Using_Zcash")).toEqual([
+      { path: "site/Using_Zcash/Blockchain_Explorers.md", name: "Blockchain_Explorers.md", type: "file" },
+      { path: "site/Using_Zcash/Guides", name: "Guides", type: "dir" },
+      { path: "site/Using_Zcash/Wallets.md", name: "Wallets.md", type: "file" },
+    ]);
+    expect((await source.listDir("")).map((e) => e.name)).toEqual(["site"]);
+  });
+
+  it("refuses paths outside of the content directory", async () => {
+    const source = createLocalContentSource(join(root, "site"));
+
+    await expect(source.readFile("../site/Using_Zcash/Wallets.md")).resolves.toContain("Wallets");
+    await expect(source.readFile("../../etc/passwd")).rejects.toThrow(/outside/);
+  });
+});
+
+describe("local commit history", () => {
+  it("lists the commits touching a file from git log, newest first", async () => {
+    const repo = mkdtempSync(join(tmpdir(), "zechub-history-"));
+    const git = (...args: string[]) =>
+      execFileSync("git", ["-c", "user.name=Zec Hub", "-c", "user.email=wiki@zechub.test", ...args], {
+        cwd: repo,
+      });
+
+    try {
+      git("init", "-q");
+      mkdirSync(join(repo, "site"));
+      writeFileSync(join(repo, "site/Page.md"), "one");
+      git("add", "-A");
+      git("commit", "-qm", "Add page");
+      writeFileSync(join(repo, "site/Other.md"), "other");
+      git("add", "-A");
+      git("commit", "-qm", "Add other page");
+      writeFileSync(join(repo, "site/Page.md"), "two");
+      git("commit", "-qam", "Fix typo | in page");
+
+      const commits = await createLocalContentSource(repo).listCommits("/site/Page.md", 10);
+
+      expect(commits.map((c) => c.message)).toEqual(["Fix typo | in page", "Add page"]);
+      expect(commits[0]).toMatchObject({
+        url: null,
+        author: { name: "Zec Hub", login: null, avatarUrl: null },
+      });
+      expect(commits[0].sha).toMatch(/^[0-9a-f]{40}$/);
+      expect(isNaN(Date.parse(commits[0].date))).toBe(false);
+    } finally {
+      rmSync(repo, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("findFuzzyMatch", () => {
+  const files = ["site/Using_Zcash/Blockchain_Explorers.md", "site/Using_Zcash/Wallets.md"];
+
+  it("ignores case, dashes, underscores and spaces in the file name", () => {
+    expect(findFuzzyMatch("/site/Using_Zcash/blockchain-explorers.md", files)).toBe(files[0]);
+    expect(findFuzzyMatch("/site/Using_Zcash/WALLETS", files)).toBe(files[1]);
+    expect(findFuzzyMatch("/site/Using_Zcash/Exchanges.md", files)).toBeUndefined();
+  });
+});
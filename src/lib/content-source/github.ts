@@ -0,0 +1,74 @@
+import { Octokit } from "octokit";
+import type { ContentCommit, ContentEntry, ContentSource } from "./types";
+
+export interface GitHubContentOptions {
+  token?: string;
+  owner: string;
+  repo: string;
+  /** Defaults to the repo's default branch */
+  branch?: string;
+}
+
+/** Content served by the GitHub contents API, subject to its rate limits */
+export function createGitHubContentSource({
+  token,
+  owner,
+  repo,
+  branch,
+}: GitHubContentOptions): ContentSource {
+  const octokit = new Octokit({ auth: token });
+
+  const getContent = (path: string) =>
+    octokit.rest.repos.getContent({ owner, repo, path, ref: branch });
+
+  return {
+    name: "github",
+    cacheable: true,
+
+    async readFile(path) {
+      const { data } = await getContent(path);
+      if (Array.isArray(data) || data.type !== "file") {
+        throw new Error(`${path} is not a file`);
+      }
+
+      return Buffer.from(data.content ?? "", "base64").toString("utf8");
+    },
+
+    async listDir(path) {
+      const { data } = await getContent(path);
+      if (!Array.isArray(data)) throw new Error(`${path} is not a directory`);
+
+      return data
+        .filter((item) => item.type === "file" || item.type === "dir")
+        .map((item): ContentEntry => ({
+          path: item.path,
+          name: item.name,
+          type: item.type as ContentEntry["type"],
+        }));
+    },
+
+    async listCommits(path, limit) {
+      const { data } = await octokit.rest.repos.listCommits({
+        owner,
+        repo,
+        path: path.replace(/^\/+/, ""),
+        sha: branch,
+        per_page: limit,
+      });
+
+      return data.map(
+        (c): ContentCommit => ({
+          sha: c.sha,
+          message: c.commit.message.split("\n")[0],
+          date: c.commit.author?.date ?? c.commit.committer?.date ?? "",
+          url: c.html_url,
+          author: {
+            name: c.commit.author?.name ?? c.author?.login ?? "Unknown",
+            login: c.author?.login ?? null,
+            avatarUrl: c.author?.avatar_url ?? null,
+          },
+        }),
+      );
+    },
+  };
+}
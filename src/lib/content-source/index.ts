@@ -0,0 +1,32 @@
+import { createGitHubContentSource } from "./github";
+import { createLocalContentSource } from "./local";
+import type { ContentSource } from "./types";
+
+export { findFuzzyMatch } from "./resolve";
+export type { ContentCommit, ContentEntry, ContentSource } from "./types";
+
+let source: ContentSource | null = null;
+
+/**
+ * `CONTENT_SOURCE=local` reads the wiki from the checkout at `CONTENT_DIR`,
+ * anything else uses the GitHub repo configured by `OWNER`/`REPO`/`BRANCH`.
+ */
+export function getContentSource(): ContentSource {
+  if (source) return source;
+
+  const { CONTENT_SOURCE, CONTENT_DIR, GITHUB_TOKEN, OWNER, REPO, BRANCH } = process.env;
+
+  if (CONTENT_SOURCE === "local") {
+    if (!CONTENT_DIR) throw new Error("CONTENT_SOURCE=local requires CONTENT_DIR");
+    source = createLocalContentSource(CONTENT_DIR);
+  } else {
+    source = createGitHubContentSource({
+      token: GITHUB_TOKEN,
+      owner: OWNER || "",
+      repo: REPO || "",
+      branch: BRANCH || undefined,
+    });
+  }
+
+  return source;
+}
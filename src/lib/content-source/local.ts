@@ -0,0 +1,90 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import nodePath from "path";
+import { promisify } from "util";
+import type { ContentCommit, ContentEntry, ContentSource } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+const IGNORED_NAMES = new Set([".git"]);
+// Unit and record separators, which cannot appear in commit subjects or names
+const FIELD_SEP = "\x1f";
+const RECORD_SEP = "\x1e";
+
+/**
+ * Content read from a checkout of the content repo on disk, so unpublished
+ * pages can be previewed and the site rendered without GitHub API calls.
+ */
+export function createLocalContentSource(root: string): ContentSource {
+  const base = nodePath.resolve(root);
+
+  const resolve = (path: string): string => {
+    const full = nodePath.resolve(base, path.replace(/^\/+/, ""));
+    if (full !== base && !full.startsWith(base + nodePath.sep)) {
+      throw new Error(`${path} is outside of the content directory`);
+    }
+    return full;
+  };
+
+  const toRepoPath = (full: string) =>
+    nodePath.relative(base, full).split(nodePath.sep).join("/");
+
+  return {
+    name: "local",
+    cacheable: false,
+
+    async readFile(path) {
+      return fs.readFile(resolve(path), "utf8");
+    },
+
+    async listDir(path) {
+      const dir = resolve(path);
+      const dirents = await fs.readdir(dir, { withFileTypes: true });
+
+      const entries = await Promise.all(
+        dirents
+          .filter((d) => !IGNORED_NAMES.has(d.name))
+          .map(async (d): Promise<ContentEntry | null> => {
+            const full = nodePath.join(dir, d.name);
+            const stat = d.isSymbolicLink() ? await fs.stat(full).catch(() => null) : d;
+            if (!stat || (!stat.isFile() && !stat.isDirectory())) return null;
+
+            return {
+              path: toRepoPath(full),
+              name: d.name,
+              type: stat.isDirectory() ? "dir" : "file",
+            };
+          }),
+      );
+
+      // Byte order, the way GitHub lists a tree, so fuzzy matches pick the same file
+      return entries
+        .filter((e) => e !== null)
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+    },
+
+    /** History from `git log`, so `root` has to be a git checkout */
+    async listCommits(path, limit) {
+      const { stdout } = await execFileAsync(
+        "git",
+        [
+          "log",
+          `--max-count=${limit}`,
+          `--format=%H${FIELD_SEP}%an${FIELD_SEP}%aI${FIELD_SEP}%s${RECORD_SEP}`,
+          "--",
+          resolve(path),
+        ],
+        { cwd: base },
+      );
+
+      return stdout
+        .split(RECORD_SEP)
+        .map((record) => record.trim())
+        .filter(Boolean)
+        .map((record): ContentCommit => {
+          const [sha, name, date, message] = record.split(FIELD_SEP);
+          return { sha, message, date, url: null, author: { name, login: null, avatarUrl: null } };
+        });
+    },
+  };
+}
@@ -0,0 +1,19 @@
+function normalize(str: string): string {
+  return str
+    .replace(/\.md$/i, "")
+    .toLowerCase()
+    .replace(/[-_ ]+/g, "");
+}
+
+/**
+ * Markdown file in `files` that `path` most likely meant when it does not
+ * exist verbatim, ignoring case, `-`, `_` and spaces in the file name.
+ */
+export function findFuzzyMatch(path: string, files: string[]): string | undefined {
+  const slugPart = path.split("/").pop()?.replace(/\.md$/i, "") || "";
+  const normalizedSlug = normalize(slugPart);
+
+  return files.find(
+    (file) => normalize(file) === normalizedSlug || normalize(file).includes(normalizedSlug),
+  );
+}
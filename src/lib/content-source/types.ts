@@ -0,0 +1,38 @@
+export interface ContentEntry {
+  /** Path from the root of the content repo, e.g. `site/Using_Zcash/Wallets.md` */
+  path: string;
+  name: string;
+  type: "file" | "dir";
+}
+
+export interface ContentCommit {
+  sha: string;
+  /** First line of the commit message */
+  message: string;
+  /** ISO 8601 author date */
+  date: string;
+  /** Commit page on GitHub, `null` for local commits that may not be pushed */
+  url: string | null;
+  author: {
+    name: string;
+    /** GitHub login, only known for commits read through the API */
+    login: string | null;
+    avatarUrl: string | null;
+  };
+}
+
+/**
+ * Where the wiki markdown is read from. Paths are relative to the root of the
+ * content repo, with or without a leading slash. `readFile` and `listDir`
+ * throw when the path does not exist.
+ */
+export interface ContentSource {
+  name: "github" | "local";
+  /** Whether reads go through the Next data cache; local files are always read fresh */
+  cacheable: boolean;
+  readFile(path: string): Promise<string>;
+  /** Direct children of a directory, sorted by name like a git tree */
+  listDir(path: string): Promise<ContentEntry[]>;
+  /** Most recent commits touching a file, newest first */
+  listCommits(path: string, limit: number): Promise<ContentCommit[]>;
+}
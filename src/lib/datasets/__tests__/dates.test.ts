@@ -0,0 +1,29 @@
+import { parseDatasetDate } from "../dates";
+
+describe("parseDatasetDate", () => {
+  it("reads every format used by the data files", () => {
+    expect(parseDatasetDate("06/29/2026")).toBe("2026-06-29");
+    expect(parseDatasetDate("2024/11/17")).toBe("2024-11-17");
+    expect(parseDatasetDate("2024-11-17")).toBe("2024-11-17");
+    expect(parseDatasetDate("2019-01-01 00:00:00")).toBe("2019-01-01");
+    expect(parseDatasetDate("2024-09-05T19:11:11.440662Z")).toBe("2024-09-05");
+  });
+
+  it("pads single digit months and days", () => {
+    expect(parseDatasetDate("6/2/2026")).toBe("2026-06-02");
+    expect(parseDatasetDate("2026/6/2")).toBe("2026-06-02");
+  });
+
+  it("rejects days that do not exist", () => {
+    expect(parseDatasetDate("02/30/2024")).toBeNull();
+    expect(parseDatasetDate("13/01/2024")).toBeNull();
+    expect(parseDatasetDate("2024-00-10")).toBeNull();
+    expect(parseDatasetDate("02/29/2024")).toBe("2024-02-29");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseDatasetDate("")).toBeNull();
+    expect(parseDatasetDate("Mon Jun 25 18:37:31 2018")).toBeNull();
+    expect(parseDatasetDate("29/06/2026")).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { join, relative } from "path";
+import { DATASETS, DatasetError, parseDataset, type DatasetKey } from "..";
+
+const PUBLIC_DIR = join(__dirname, "../../../../public");
+const DATA_DIRS = ["data/zcash", "data/namada"];
+
+/** Scripts, raw exports and notes kept next to the chart data */
+const NOT_DATASETS = [/\/zcashShieldedMetrics\//, /\.csv$/, /\.md$/];
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
+const dataFiles = DATA_DIRS.map((dir) => join(PUBLIC_DIR, dir))
+  .filter((dir) => existsSync(dir))
+  .flatMap(listFiles)
+  .map((path) => `/${relative(PUBLIC_DIR, path).split("\\").join("/")}`)
+  .filter((url) => !NOT_DATASETS.some((pattern) => pattern.test(url)));
+
+const datasetByUrl = new Map(
+  (Object.keys(DATASETS) as DatasetKey[]).map((key) => [DATASETS[key].url as string, key]),
+);
+
+describe("dashboard data files", () => {
+  it("are all registered", () => {
+    expect(dataFiles.filter((url) => !datasetByUrl.has(url))).toEqual([]);
+  });
+
+  it("exist for every registered zcash dataset", () => {
+    const missing = [...datasetByUrl.keys()].filter(
+      (url) => url.startsWith("/data/zcash/") && !dataFiles.includes(url),
+    );
+    expect(missing).toEqual([]);
+  });
+
+  it.each(dataFiles.filter((url) => datasetByUrl.has(url)))("%s matches its schema", (url) => {
+    const json = JSON.parse(readFileSync(join(PUBLIC_DIR, url), "utf8"));
+    expect(() => parseDataset(datasetByUrl.get(url)!, json)).not.toThrow();
+  });
+});
+
+describe("parseDataset", () => {
+  it("parses numbers and normalizes dates", () => {
+    expect(parseDataset("difficulty", [{ Date: "10/28/2016", Difficulty: "1.0" }])).toEqual([
+      { Date: "2016-10-28", Difficulty: 1 },
+    ]);
+    expect(
+      parseDataset("netInflowsOutflows", [
+        { Date: "2024-11-17", "Net Sapling Flow": "70655.9", "Net Orchard Flow": "-76754.52" },
+      ]),
+    ).toEqual([{ Date: "2024-11-17", "Net Sapling Flow": 70655.9, "Net Orchard Flow": -76754.52 }]);
+  });
+
+  it("drops columns no chart reads", () => {
+    const [row] = parseDataset("issuance", [
+      {
+        Date: "2019-01-01 00:00:00",
+        "ZEC Issuance": "7200",
+        "ZEC  Supply": "5560800",
+        "Current Inflation (%)": "47.25",
+        "Unnamed: 4": "",
+      },
+    ]);
+    expect(row).toEqual({
+      Date: "2019-01-01",
+      "ZEC Issuance": 7200,
+      "ZEC  Supply": 5560800,
+      "Current Inflation (%)": 47.25,
+    });
+  });
+
+  it("names the first bad field", () => {
+    expect(() => parseDataset("lockbox", [{ Date: "11/23/2024", lockbox: "n/a", coinholders_fund: 0 }])).toThrow(
+      new DatasetError('Invalid lockbox data at 0.lockbox: Expected a number, got "n/a"', "lockbox"),
+    );
+    expect(() => parseDataset("nodeCount", [{ Date: "Nov 17", nodecount: "85" }])).toThrow(
+      'Invalid nodeCount data at 0.Date: Unrecognised date "Nov 17"',
+    );
+    expect(() => parseDataset("totalSupply", { supply: 1 })).toThrow(/^Invalid totalSupply data: /);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Date formats found in the dashboard data files. Times, when present, are
+ * dropped: every dataset has at most one row per day.
+ */
+const DATE_PATTERNS: { pattern: RegExp; order: ("year" | "month" | "day")[] }[] = [
+  // 06/29/2026
+  { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ["month", "day", "year"] },
+  // 2024/11/17
+  { pattern: /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/, order: ["year", "month", "day"] },
+  // 2024-11-17, 2019-01-01 00:00:00, 2024-09-05T19:11:11.440662Z
+  { pattern: /^(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+Z?)?$/, order: ["year", "month", "day"] },
+];
+
+const pad = (value: number, length: number) => String(value).padStart(length, "0");
+
+/**
+ * `YYYY-MM-DD` for a date in any of the dataset formats, `null` when it is
+ * not one of them or not a real day.
+ */
+export function parseDatasetDate(value: string): string | null {
+  const trimmed = value.trim();
+
+  for (const { pattern, order } of DATE_PATTERNS) {
+    const match = pattern.exec(trimmed);
+    if (!match) continue;
+
+    const parts = { year: 0, month: 0, day: 0 };
+    order.forEach((part, i) => (parts[part] = Number(match[i + 1])));
+
+    const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+    if (date.getUTCMonth() !== parts.month - 1 || date.getUTCDate() !== parts.day) return null;
+
+    return `${pad(parts.year, 4)}-${pad(parts.month, 2)}-${pad(parts.day, 2)}`;
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+import { DATASETS, type Dataset, type DatasetKey } from "./registry";
+
+export { parseDatasetDate } from "./dates";
+export { DATASETS } from "./registry";
+export type { Dataset, DatasetKey, DatasetRow } from "./registry";
+
+export class DatasetError extends Error {
+  constructor(
+    message: string,
+    readonly dataset: DatasetKey,
+    /** HTTP status of the failed request, `null` when the file itself is bad */
+    readonly status: number | null = null,
+  ) {
+    super(message);
+    this.name = "DatasetError";
+  }
+}
+
+/** Validates the JSON of `dataset`, throwing a `DatasetError` naming the first bad field */
+export function parseDataset<K extends DatasetKey>(dataset: K, json: unknown): Dataset<K> {
+  const result = DATASETS[dataset].schema.safeParse(json);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const at = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    throw new DatasetError(`Invalid ${dataset} data${at}: ${issue.message}`, dataset);
+  }
+  return result.data as Dataset<K>;
+}
+
+export async function fetchDataset<K extends DatasetKey>(
+  dataset: K,
+  signal?: AbortSignal,
+): Promise<Dataset<K>> {
+  const res = await fetch(DATASETS[dataset].url, { signal });
+  if (!res.ok) {
+    throw new DatasetError(`Unable to load ${dataset} data (HTTP ${res.status})`, dataset, res.status);
+  }
+
+  const json = await res.json().catch(() => {
+    throw new DatasetError(`Unable to load ${dataset} data: response is not JSON`, dataset);
+  });
+  return parseDataset(dataset, json);
+}
@@ -0,0 +1,191 @@
+import { DATA_URL } from "@/lib/chart/data-url";
+import { z } from "zod";
+import { parseDatasetDate } from "./dates";
+
+/** Any of the dataset date formats, as `YYYY-MM-DD` */
+const date = z.string().transform((value, ctx) => {
+  const parsed = parseDatasetDate(value);
+  if (parsed === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unrecognised date "${value}"` });
+    return z.NEVER;
+  }
+  return parsed;
+});
+
+/** A number, or a string holding one as the spreadsheet exports write them */
+const numeric = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  if (typeof value === "number") return value;
+  if (/^-?\d+(\.\d+)?(e[-+]?\d+)?$/i.test(value.trim())) return Number(value);
+
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected a number, got "${value}"` });
+  return z.NEVER;
+});
+
+/** A number, with blanks and `"na"` read as `null` */
+const optionalNumeric = z.union([
+  z.union([z.literal(""), z.literal("na"), z.null()]).transform(() => null),
+  numeric,
+]);
+
+const supplyRow = z.object({ close: date, supply: numeric });
+
+const networkUpgrades = z.object({
+  upgrades: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      activationHeight: z.number().int(),
+      status: z.string(),
+      activationDate: z.string().optional(),
+    }),
+  ),
+  lastUpdated: date.optional(),
+});
+
+/**
+ * Every file the dashboard charts read. Rows keep the column names of the
+ * file, with dates rewritten as `YYYY-MM-DD` and numbers parsed; columns no
+ * chart uses are dropped.
+ */
+export const DATASETS = {
+  shieldedSupply: { url: DATA_URL.defaultUrl, schema: z.array(supplyRow) },
+  sproutSupply: { url: DATA_URL.sproutUrl, schema: z.array(supplyRow) },
+  saplingSupply: { url: DATA_URL.saplingUrl, schema: z.array(supplyRow) },
+  orchardSupply: { url: DATA_URL.orchardUrl, schema: z.array(supplyRow) },
+  testnetSproutSupply: { url: DATA_URL.testnetSproutUrl, schema: z.array(supplyRow) },
+  testnetSaplingSupply: { url: DATA_URL.testnetSaplingUrl, schema: z.array(supplyRow) },
+  testnetOrchardSupply: { url: DATA_URL.testnetOrchardUrl, schema: z.array(supplyRow) },
+  totalSupply: { url: DATA_URL.totalSupplyUrl, schema: z.array(supplyRow) },
+  transparentSupply: { url: DATA_URL.transparentSupplyUrl, schema: z.array(supplyRow) },
+
+  transactionSummary: {
+    url: DATA_URL.txsummaryUrl,
+    schema: z.array(
+      z.object({
+        height: z.number().int(),
+        sapling: numeric,
+        sapling_filter: numeric,
+        orchard: numeric,
+        orchard_filter: numeric,
+      }),
+    ),
+  },
+
+  shieldedTxCount: {
+    url: DATA_URL.shieldedTxCountUrl,
+    schema: z.array(z.object({ timestamp: date, sprout: numeric, sapling: numeric, orchard: numeric })),
+  },
+
+  netInflowsOutflows: {
+    url: DATA_URL.netInflowsOutflowsUrl,
+    schema: z.array(
+      z.object({ Date: date, "Net Sapling Flow": numeric, "Net Orchard Flow": numeric }),
+    ),
+  },
+
+  nodeCount: {
+    url: DATA_URL.nodecountUrl,
+    schema: z.array(z.object({ Date: date, nodecount: numeric })),
+  },
+
+  difficulty: {
+    url: DATA_URL.difficultyUrl,
+    schema: z.array(z.object({ Date: date, Difficulty: numeric })),
+  },
+
+  networkSolps: {
+    url: DATA_URL.networkSolpsUrl,
+    schema: z.array(z.object({ Date: date, Networksolps: numeric })),
+  },
+
+  lockbox: {
+    url: DATA_URL.lockboxUrl,
+    schema: z.array(z.object({ Date: date, lockbox: numeric, coinholders_fund: numeric })),
+  },
+
+  blockFees: {
+    url: DATA_URL.blockFeesUrl,
+    schema: z.array(z.object({ Date: date, Block: z.number().int(), Fees: numeric, TxCount: numeric })),
+  },
+
+  issuance: {
+    url: DATA_URL.issuanceUrl,
+    schema: z.array(
+      z.object({
+        Date: date,
+        "ZEC Issuance": numeric,
+        "ZEC  Supply": numeric,
+        "Current Inflation (%)": numeric,
+      }),
+    ),
+  },
+
+  shieldedStats: {
+    url: DATA_URL.zcashShieldedStatsUrl,
+    schema: z.array(
+      z.object({
+        Dates: date,
+        Transactions: numeric,
+        Transparent_Transfer_TXs: numeric,
+        Sapling_Transfer_TXs: numeric,
+        Orchard_Transfer_TXs: numeric,
+        Total_Transfer_TXs: numeric,
+        Total_Transparent_TXs: numeric,
+        Coinbase_percent: optionalNumeric,
+        Total_Sapling_TXs: numeric,
+        Net_Sapling_Flow: numeric,
+        Total_Orchard_TXs: numeric,
+        Net_Orchard_Flow: numeric,
+        Total_Shielded_Supply: numeric,
+        Total_Lockbox_Supply: numeric,
+        Zebra_Nodes: numeric,
+        Zcashd_Nodes: numeric,
+        Total_Node_Count: numeric,
+        Closing_Price: numeric,
+        Shielded_Market_Cap: numeric,
+        Shielded_Transaction_Percentage: numeric,
+      }),
+    ),
+  },
+
+  networkUpgrades: { url: DATA_URL.networkUpgradesUrl, schema: networkUpgrades },
+  networkUpgradesTestnet: { url: DATA_URL.networkUpgradesTestnetUrl, schema: networkUpgrades },
+
+  namadaSupply: {
+    url: DATA_URL.namadaSupplyUrl,
+    schema: z.array(
+      z.object({
+        Date: date,
+        Total_Supply: z.array(
+          z.object({
+            id: z.string(),
+            totalSupply: optionalNumeric,
+            shieldedSupply: optionalNumeric,
+            transparentSupply: optionalNumeric,
+          }),
+        ),
+        Native_Supply_NAM: optionalNumeric,
+      }),
+    ),
+  },
+
+  namadaRewards: {
+    url: DATA_URL.namadaRewardUrl,
+    schema: z.array(
+      z.object({
+        Date: date,
+        Staked_Ratio: numeric,
+        Annual_Staking_Rewards_Ratio: numeric,
+        Inflation_Rate: numeric,
+      }),
+    ),
+  },
+} satisfies Record<string, { url: string; schema: z.ZodTypeAny }>;
+
+export type DatasetKey = keyof typeof DATASETS;
+
+/** Parsed contents of a dataset */
+export type Dataset<K extends DatasetKey> = z.output<(typeof DATASETS)[K]["schema"]>;
+
+/** One row of an array dataset */
+export type DatasetRow<K extends DatasetKey> = Dataset<K> extends (infer Row)[] ? Row : never;
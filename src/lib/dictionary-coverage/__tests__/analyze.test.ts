@@ -0,0 +1,88 @@
+import { analyzeDictionaryCoverage, analyzeLocaleCoverage, flattenDictionary } from "../analyze";
+import type { DictionaryUsage } from "../types";
+
+const en = {
+  common: { search: "Search", readMore: "Read more", count: "{count}" },
+  footer: { links: ["Home", "About"], rights: "All rights reserved" },
+};
+
+const usage = (key: string, fallback: string | null = null, dynamic = false): DictionaryUsage => ({
+  key,
+  file: "src/File.tsx",
+  line: 1,
+  fallback,
+  dynamic,
+});
+
+describe("flattenDictionary", () => {
+  it("keys leaves by dotted path and keeps arrays whole", () => {
+    expect([...flattenDictionary(en).keys()]).toEqual([
+      "common.search",
+      "common.readMore",
+      "common.count",
+      "footer.links",
+      "footer.rights",
+    ]);
+  });
+});
+
+describe("analyzeLocaleCoverage", () => {
+  it("splits keys into translated, missing, same-as-English and extra", () => {
+    const coverage = analyzeLocaleCoverage("de", en, {
+      common: { search: "Suche", readMore: "Read more", count: "{count}", legacy: "Alt" },
+      footer: { links: ["Start", "Über"] },
+    });
+
+    expect(coverage).toMatchObject({
+      hasDictionary: true,
+      total: 5,
+      translated: 3,
+      percent: 60,
+      missing: ["footer.rights"],
+      identical: ["common.readMore"],
+      extra: ["common.legacy"],
+    });
+  });
+
+  it("reports a locale without a dictionary as fully missing", () => {
+    expect(analyzeLocaleCoverage("pt", en, null)).toMatchObject({
+      hasDictionary: false,
+      translated: 0,
+      percent: 0,
+    });
+  });
+});
+
+describe("analyzeDictionaryCoverage", () => {
+  it("finds unused keys, undefined keys and fallbacks that disagree with English", () => {
+    const report = analyzeDictionaryCoverage({
+      dictionaries: { en, de: { common: { search: "Suche" } } },
+      locales: ["en", "de", "pt"],
+      usages: [
+        usage("common.search", "Search"),
+        usage("common.readMore.toUpperCase"),
+        usage("common.rights", "All Rights Reserved"),
+        usage("footer.rights", "All Rights Reserved"),
+        usage("common.missing", "Missing"),
+      ],
+      generatedAt: new Date("2026-01-01T00:00:00Z"),
+    });
+
+    expect(report.locales.map((l) => l.locale)).toEqual(["de", "pt"]);
+    expect(report.unused).toEqual(["common.count", "footer.links"]);
+    expect(report.undefinedKeys.map((k) => k.key)).toEqual(["common.missing", "common.rights"]);
+    expect(report.fallbackMismatches).toEqual([
+      expect.objectContaining({ key: "footer.rights", english: "All rights reserved" }),
+    ]);
+  });
+
+  it("treats reads of an object or computed keys below it as reading every key inside", () => {
+    const report = analyzeDictionaryCoverage({
+      dictionaries: { en },
+      locales: ["en"],
+      usages: [usage("common", null, true), usage("footer")],
+    });
+
+    expect(report.unused).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { extractDictionaryUsages } from "../extract";
+
+const keys = (source: string) => extractDictionaryUsages(source, "src/File.tsx").map((u) => u.key);
+
+describe("extractDictionaryUsages", () => {
+  it("reads chains off the useLanguage() binding with their fallbacks", () => {
+    const usages = extractDictionaryUsages(
+      [
+        "const { locale, t } = useLanguage();",
+        'const label = t.common?.search || "Search";',
+        "return <h1>{t?.dao?.headerTitle ??",
+        "  'ZecHub DAO'}</h1>;",
+      ].join("\n"),
+      "src/File.tsx",
+    );
+
+    expect(usages).toEqual([
+      { key: "common.search", file: "src/File.tsx", line: 2, fallback: "Search", dynamic: false },
+      { key: "dao.headerTitle", file: "src/File.tsx", line: 3, fallback: "ZecHub DAO", dynamic: false },
+    ]);
+  });
+
+  it("follows renamed bindings, getDictionary() results and aliases", () => {
+    expect(
+      keys(
+        [
+          "const { t: languageDict } = useLanguage();",
+          "const charts = languageDict?.pages?.dashboard?.charts;",
+          "charts?.headerTitle;",
+          "const dict = (await getDictionary()) as Dictionary;",
+          "dict.pages?.wallets?.title;",
+        ].join("\n"),
+      ),
+    ).toEqual(["pages.dashboard.charts.headerTitle", "pages.wallets.title"]);
+  });
+
+  it("marks computed access as dynamic", () => {
+    const [usage] = extractDictionaryUsages(
+      "const { t } = useLanguage();\nt?.visualizer?.[id]?.title;",
+      "src/File.tsx",
+    );
+
+    expect(usage).toMatchObject({ key: "visualizer", dynamic: true, fallback: null });
+  });
+
+  it("ignores other variables named t, comments and files without a dictionary", () => {
+    expect(keys("const t = setTimeout(run, 100);\nt.unref();")).toEqual([]);
+    expect(
+      keys(
+        [
+          "const { t } = useLanguage();",
+          "// t.common.commented",
+          "tabs.find((t) => t.key === view);",
+          'const url = "https://t.me/zechub";',
+        ].join("\n"),
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import type {
+  DictionaryCoverageReport,
+  DictionaryTree,
+  DictionaryUsage,
+  DictionaryValue,
+  FallbackMismatch,
+  LocaleCoverage,
+} from "./types";
+
+export const DEFAULT_DICTIONARY_LOCALE = "en";
+
+const isTree = (value: DictionaryValue | undefined): value is DictionaryTree =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Leaf values by dot-separated key; arrays count as a single leaf */
+export function flattenDictionary(tree: DictionaryTree, prefix = ""): Map<string, DictionaryValue> {
+  const leaves = new Map<string, DictionaryValue>();
+
+  for (const [key, value] of Object.entries(tree)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isTree(value)) {
+      for (const [leaf, leafValue] of flattenDictionary(value, path)) leaves.set(leaf, leafValue);
+    } else {
+      leaves.set(path, value);
+    }
+  }
+
+  return leaves;
+}
+
+/** Same value as English, ignoring values without letters (`"{count}"`, `"—"`) that need no translation */
+function isUntranslated(value: DictionaryValue, english: DictionaryValue): boolean {
+  if (typeof english === "string" && !/\p{L}/u.test(english.replace(/\{[^}]*\}/g, ""))) return false;
+  return JSON.stringify(value) === JSON.stringify(english);
+}
+
+export function analyzeLocaleCoverage(
+  locale: string,
+  english: DictionaryTree,
+  dictionary: DictionaryTree | null,
+): LocaleCoverage {
+  const englishLeaves = flattenDictionary(english);
+  const leaves = dictionary ? flattenDictionary(dictionary) : new Map<string, DictionaryValue>();
+
+  const missing: string[] = [];
+  const identical: string[] = [];
+
+  for (const [key, value] of englishLeaves) {
+    if (!leaves.has(key)) missing.push(key);
+    else if (isUntranslated(leaves.get(key)!, value)) identical.push(key);
+  }
+
+  const total = englishLeaves.size;
+  const translated = total - missing.length - identical.length;
+
+  return {
+    locale,
+    hasDictionary: dictionary !== null,
+    total,
+    translated,
+    percent: total === 0 ? 100 : Math.floor((translated / total) * 1000) / 10,
+    missing,
+    identical,
+    extra: [...leaves.keys()].filter((key) => !englishLeaves.has(key)),
+  };
+}
+
+/**
+ * The English key a usage reads: the key itself, an object above several
+ * keys, or — for `t.common.search.length` and the like — the nearest leaf
+ * above it. `null` when English does not define it.
+ */
+function resolveUsage(
+  key: string,
+  leaves: Map<string, DictionaryValue>,
+  objects: Set<string>,
+): { key: string; object: boolean } | null {
+  if (leaves.has(key)) return { key, object: false };
+  if (objects.has(key)) return { key, object: true };
+
+  const segments = key.split(".");
+  for (let i = segments.length - 1; i > 0; i--) {
+    const parent = segments.slice(0, i).join(".");
+    if (leaves.has(parent)) return { key: parent, object: false };
+  }
+  return null;
+}
+
+export interface DictionaryCoverageInput {
+  /** Parsed `dictionaries/*.json` by locale, English included */
+  dictionaries: Record<string, DictionaryTree>;
+  /** Locales the site offers, with or without a dictionary file */
+  locales: readonly string[];
+  usages: DictionaryUsage[];
+  generatedAt?: Date;
+}
+
+export function analyzeDictionaryCoverage({
+  dictionaries,
+  locales,
+  usages,
+  generatedAt = new Date(),
+}: DictionaryCoverageInput): DictionaryCoverageReport {
+  const english = dictionaries[DEFAULT_DICTIONARY_LOCALE] ?? {};
+  const leaves = flattenDictionary(english);
+  const objects = new Set<string>();
+  for (const key of leaves.keys()) {
+    const segments = key.split(".");
+    for (let i = 1; i < segments.length; i++) objects.add(segments.slice(0, i).join("."));
+  }
+
+  const used = new Set<string>();
+  const usedObjects: string[] = [];
+  const undefinedKeys = new Map<string, { fallback: string | null; locations: string[] }>();
+  const fallbackMismatches: FallbackMismatch[] = [];
+
+  for (const usage of usages) {
+    const resolved = resolveUsage(usage.key, leaves, objects);
+
+    if (!resolved) {
+      const entry = undefinedKeys.get(usage.key) ?? { fallback: null, locations: [] };
+      entry.fallback ??= usage.fallback;
+      entry.locations.push(`${usage.file}:${usage.line}`);
+      undefinedKeys.set(usage.key, entry);
+      continue;
+    }
+
+    if (resolved.object || usage.dynamic) usedObjects.push(resolved.key);
+    else used.add(resolved.key);
+
+    const value = leaves.get(usage.key);
+    if (usage.fallback !== null && typeof value === "string" && value.trim() !== usage.fallback.trim()) {
+      fallbackMismatches.push({
+        key: usage.key,
+        file: usage.file,
+        line: usage.line,
+        fallback: usage.fallback,
+        english: value,
+      });
+    }
+  }
+
+  const unused = [...leaves.keys()].filter(
+    (key) => !used.has(key) && !usedObjects.some((object) => key.startsWith(`${object}.`) || key === object),
+  );
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    keys: leaves.size,
+    files: new Set(usages.map((u) => u.file)).size,
+    usages: usages.length,
+    locales: locales
+      .filter((locale) => locale !== DEFAULT_DICTIONARY_LOCALE)
+      .map((locale) => analyzeLocaleCoverage(locale, english, dictionaries[locale] ?? null)),
+    unused,
+    undefinedKeys: [...undefinedKeys]
+      .map(([key, entry]) => ({ key, ...entry }))
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    fallbackMismatches,
+  };
+}
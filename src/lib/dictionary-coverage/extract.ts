@@ -0,0 +1,158 @@
+import type { DictionaryUsage } from "./types";
+
+const IDENT = "[A-Za-z_$][\\w$]*";
+/** `.a?.b .c` — member segments of a property chain, whitespace and optional chaining allowed */
+const CHAIN = `(?:\\s*\\??\\.\\s*${IDENT})+`;
+
+const USE_LANGUAGE = /\{([^{}]*)\}\s*=\s*useLanguage\(\)/g;
+const GET_DICTIONARY = new RegExp(`(${IDENT})\\s*=\\s*\\(?\\s*(?:await\\s+)?getDictionary\\(`, "g");
+const FALLBACK = /\s*(?:\|\||\?\?)\s*(?:"((?:\\.|[^"\\])*)"|'((?:\\.|[^'\\])*)'|`((?:\\.|[^`\\$])*)`)/y;
+
+interface Binding {
+  /** Key path the name points at, `[]` for the dictionary itself */
+  prefix: string[];
+  /** Offset of the right-hand side of `const name = root.a.b`, for aliases */
+  declaredAt: number | null;
+}
+
+const STRING_OR_COMMENT = /("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g;
+
+const escapeRegExp = (value: string) => value.replace(/[$]/g, "\\$");
+
+/** Blank out comments, keeping offsets and line numbers intact */
+function stripComments(source: string): string {
+  return source.replace(STRING_OR_COMMENT, (match, literal?: string) =>
+    literal ? match : match.replace(/[^\n]/g, " "),
+  );
+}
+
+function chainSegments(chain: string): string[] {
+  return chain
+    .split(".")
+    .map((segment) => segment.replace(/[\s?]/g, ""))
+    .filter(Boolean);
+}
+
+function unescapeLiteral(value: string): string {
+  return value.replace(/\\(n|t|.)/g, (_, c: string) => (c === "n" ? "\n" : c === "t" ? "\t" : c));
+}
+
+function lineIndex(source: string): (offset: number) => number {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === "\n") starts.push(i + 1);
+  }
+
+  return (offset) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+}
+
+/** Names bound to the dictionary: `const { t } = useLanguage()`, `const dict = await getDictionary()` */
+function findRoots(source: string): Map<string, Binding> {
+  const roots = new Map<string, Binding>();
+
+  for (const [, inner] of source.matchAll(USE_LANGUAGE)) {
+    const t = inner.match(new RegExp(`(?:^|,)\\s*t\\s*(?::\\s*(${IDENT}))?\\s*(?:,|$)`));
+    if (t) roots.set(t[1] ?? "t", { prefix: [], declaredAt: null });
+  }
+  for (const [, name] of source.matchAll(GET_DICTIONARY)) {
+    roots.set(name, { prefix: [], declaredAt: null });
+  }
+
+  return roots;
+}
+
+/** `const charts = t?.pages?.dashboard?.charts || …` makes `charts.title` read `pages.dashboard.charts.title` */
+function addAliases(source: string, bindings: Map<string, Binding>): void {
+  const declaration = new RegExp(
+    `(?:const|let|var)\\s+(${IDENT})\\s*=\\s*\\(?\\s*((${IDENT})(${CHAIN}))`,
+    "g",
+  );
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const match of source.matchAll(declaration)) {
+      const [, alias, , root, chain] = match;
+      const target = bindings.get(root);
+      if (!target || bindings.has(alias)) continue;
+
+      bindings.set(alias, {
+        prefix: [...target.prefix, ...chainSegments(chain)],
+        declaredAt: match.index! + match[0].length - match[2].length,
+      });
+      changed = true;
+    }
+  }
+}
+
+/**
+ * Every dictionary key read in a source file. The dictionary is recognised
+ * through `useLanguage()` and `getDictionary()` bindings and the `const x =
+ * t.a.b` aliases derived from them; keys reached through props or function
+ * arguments are not seen.
+ */
+export function extractDictionaryUsages(contents: string, file: string): DictionaryUsage[] {
+  const source = stripComments(contents);
+  const bindings = findRoots(source);
+  if (bindings.size === 0) return [];
+  addAliases(source, bindings);
+
+  const lineOf = lineIndex(source);
+  const lines = source.split("\n");
+  const found: (DictionaryUsage & { name: string; offset: number })[] = [];
+
+  for (const [name, binding] of bindings) {
+    const usage = new RegExp(
+      `(?<![\\w$./])${escapeRegExp(name)}(${CHAIN})?(\\s*\\??\\.?\\s*\\[)?`,
+      "g",
+    );
+    // `(t) => t.key` inside the component shadows the binding
+    const shadowed = new RegExp(
+      `(?:\\(\\s*|,\\s*)${escapeRegExp(name)}\\s*[,)][^;]*=>|(?<![\\w$])${escapeRegExp(name)}\\s*=>`,
+    );
+
+    for (const match of source.matchAll(usage)) {
+      const [text, chain = "", computed] = match;
+      if (!chain && !computed) continue;
+
+      const line = lineOf(match.index!);
+      if (shadowed.test(lines[line - 1])) continue;
+
+      FALLBACK.lastIndex = match.index! + text.length;
+      const fallback = computed ? null : FALLBACK.exec(source);
+      const literal = fallback ? (fallback[1] ?? fallback[2] ?? fallback[3]) : null;
+
+      found.push({
+        name,
+        offset: match.index!,
+        key: [...binding.prefix, ...chainSegments(chain)].join("."),
+        file,
+        line,
+        fallback: literal === null ? null : unescapeLiteral(literal),
+        dynamic: Boolean(computed),
+      });
+    }
+  }
+
+  // An alias declaration only counts as a read of the whole object when the alias itself is never
+  // read; one with a string fallback is a leaf and stays
+  const readAliases = new Set(found.map((u) => u.name));
+  const aliasDeclarations = new Set(
+    [...bindings]
+      .filter(([name, b]) => b.declaredAt !== null && readAliases.has(name))
+      .map(([, b]) => b.declaredAt),
+  );
+
+  return found
+    .filter((u) => u.key && !(aliasDeclarations.has(u.offset) && u.fallback === null))
+    .sort((a, b) => a.line - b.line || a.offset - b.offset)
+    .map(({ name: _name, offset: _offset, ...usage }) => usage);
+}
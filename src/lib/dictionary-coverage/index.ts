@@ -0,0 +1,21 @@
+export {
+  analyzeDictionaryCoverage,
+  analyzeLocaleCoverage,
+  DEFAULT_DICTIONARY_LOCALE,
+  flattenDictionary,
+} from "./analyze";
+export { extractDictionaryUsages } from "./extract";
+export {
+  DICTIONARIES_SOURCE_URL,
+  loadDictionaries,
+  loadDictionaryUsages,
+  loadLocaleCoverage,
+} from "./load";
+export { formatDictionaryCoverageMarkdown } from "./report";
+export type {
+  DictionaryCoverageReport,
+  DictionaryTree,
+  DictionaryUsage,
+  FallbackMismatch,
+  LocaleCoverage,
+} from "./types";
@@ -0,0 +1,63 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { analyzeLocaleCoverage, DEFAULT_DICTIONARY_LOCALE } from "./analyze";
+import { extractDictionaryUsages } from "./extract";
+import type { DictionaryTree, DictionaryUsage, LocaleCoverage } from "./types";
+
+export const DICTIONARIES_DIR = "dictionaries";
+/** Where translators edit the dictionary files */
+export const DICTIONARIES_SOURCE_URL = "https://github.com/ZecHub/zechub-wiki/tree/main/dictionaries";
+const SOURCE_DIR = "src";
+const SOURCE_FILE = /\.(ts|tsx|js|jsx)$/;
+const SKIPPED_DIRS = new Set(["__tests__", "node_modules"]);
+
+/** Every `dictionaries/<locale>.json`, by locale */
+export async function loadDictionaries(root = process.cwd()): Promise<Record<string, DictionaryTree>> {
+  const dir = path.join(root, DICTIONARIES_DIR);
+  const files = (await readdir(dir)).filter((file) => file.endsWith(".json")).sort();
+
+  const entries = await Promise.all(
+    files.map(async (file): Promise<[string, DictionaryTree]> => [
+      path.basename(file, ".json"),
+      JSON.parse(await readFile(path.join(dir, file), "utf8")),
+    ]),
+  );
+  return Object.fromEntries(entries);
+}
+
+/** Coverage of every non-English locale, from the dictionary files alone */
+export async function loadLocaleCoverage(
+  locales: readonly string[],
+  root = process.cwd(),
+): Promise<LocaleCoverage[]> {
+  const dictionaries = await loadDictionaries(root);
+  const english = dictionaries[DEFAULT_DICTIONARY_LOCALE] ?? {};
+
+  return locales
+    .filter((locale) => locale !== DEFAULT_DICTIONARY_LOCALE)
+    .map((locale) => analyzeLocaleCoverage(locale, english, dictionaries[locale] ?? null));
+}
+
+async function listSourceFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map(async (entry) => {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) return SKIPPED_DIRS.has(entry.name) ? [] : listSourceFiles(full);
+      return SOURCE_FILE.test(entry.name) ? [full] : [];
+    }),
+  );
+  return nested.flat();
+}
+
+/** Dictionary reads in every source file under `src/`, with repo-relative paths */
+export async function loadDictionaryUsages(root = process.cwd()): Promise<DictionaryUsage[]> {
+  const files = (await listSourceFiles(path.join(root, SOURCE_DIR))).sort();
+  const usages: DictionaryUsage[] = [];
+
+  for (const file of files) {
+    const source = await readFile(file, "utf8");
+    usages.push(...extractDictionaryUsages(source, path.relative(root, file).split(path.sep).join("/")));
+  }
+  return usages;
+}
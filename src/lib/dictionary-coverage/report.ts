@@ -0,0 +1,66 @@
+import type { DictionaryCoverageReport } from "./types";
+
+const escapeCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+
+function keyList(title: string, keys: string[]): string[] {
+  if (keys.length === 0) return [];
+  return [
+    "",
+    `<details><summary>${title} (${keys.length})</summary>`,
+    "",
+    ...keys.map((key) => `- \`${key}\``),
+    "",
+    "</details>",
+  ];
+}
+
+/** Markdown version of the report, e.g. for a CI job summary */
+export function formatDictionaryCoverageMarkdown(report: DictionaryCoverageReport): string {
+  const lines = [
+    "# Dictionary coverage",
+    "",
+    `${report.keys} English keys, read ${report.usages} times in ${report.files} source files ` +
+      `(${report.generatedAt}).`,
+    "",
+    "| Locale | Translated | Missing | Same as English | Extra |",
+    "| --- | --- | --- | --- | --- |",
+  ];
+
+  for (const locale of report.locales) {
+    lines.push(
+      `| ${locale.locale}${locale.hasDictionary ? "" : " (no dictionary)"} | ` +
+        `${locale.translated}/${locale.total} (${locale.percent}%) | ${locale.missing.length} | ` +
+        `${locale.identical.length} | ${locale.extra.length} |`,
+    );
+  }
+
+  if (report.undefinedKeys.length > 0) {
+    lines.push("", "## Keys missing from en.json", "", "| Key | Fallback | Used in |", "| --- | --- | --- |");
+    for (const { key, fallback, locations } of report.undefinedKeys) {
+      lines.push(
+        `| \`${key}\` | ${fallback === null ? "—" : escapeCell(fallback)} | ${locations.join(", ")} |`,
+      );
+    }
+  }
+
+  if (report.fallbackMismatches.length > 0) {
+    lines.push("", "## Fallbacks that differ from en.json", "", "| Key | Fallback | en.json | Location |", "| --- | --- | --- | --- |");
+    for (const m of report.fallbackMismatches) {
+      lines.push(
+        `| \`${m.key}\` | ${escapeCell(m.fallback)} | ${escapeCell(m.english)} | ${m.file}:${m.line} |`,
+      );
+    }
+  }
+
+  lines.push(...keyList("Possibly unused English keys", report.unused));
+
+  for (const locale of report.locales.filter((l) => l.hasDictionary)) {
+    lines.push(
+      ...keyList(`${locale.locale}: missing`, locale.missing),
+      ...keyList(`${locale.locale}: same as English`, locale.identical),
+      ...keyList(`${locale.locale}: not in en.json`, locale.extra),
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
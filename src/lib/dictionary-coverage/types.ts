@@ -0,0 +1,59 @@
+export type DictionaryValue = string | number | boolean | null | DictionaryValue[] | DictionaryTree;
+
+export interface DictionaryTree {
+  [key: string]: DictionaryValue;
+}
+
+export interface DictionaryUsage {
+  /** Dot-separated path below the dictionary root, e.g. `common.search` */
+  key: string;
+  /** Path relative to the repo root */
+  file: string;
+  /** 1-based */
+  line: number;
+  /** String literal after `||` / `??`, shown when the key is missing */
+  fallback: string | null;
+  /** The chain continues with a computed `[...]` access, so everything below `key` may be read */
+  dynamic: boolean;
+}
+
+export interface FallbackMismatch {
+  key: string;
+  file: string;
+  line: number;
+  fallback: string;
+  english: string;
+}
+
+export interface LocaleCoverage {
+  locale: string;
+  /** `false` when there is no `dictionaries/<locale>.json` and every key shows English */
+  hasDictionary: boolean;
+  total: number;
+  /** Keys present with a value that differs from English */
+  translated: number;
+  /** `translated / total`, 0–100, rounded down to one decimal */
+  percent: number;
+  /** English keys the locale does not define, shown in English at runtime */
+  missing: string[];
+  /** Keys whose value is the same as English, often copied over untranslated */
+  identical: string[];
+  /** Keys the locale defines that English does not, never read */
+  extra: string[];
+}
+
+export interface DictionaryCoverageReport {
+  generatedAt: string;
+  /** Leaf keys in `en.json` */
+  keys: number;
+  /** Source files that read from a dictionary */
+  files: number;
+  usages: number;
+  locales: LocaleCoverage[];
+  /** English keys no source file reads, directly or through a parent object */
+  unused: string[];
+  /** Keys read in source that `en.json` does not define, so only the fallback ever shows */
+  undefinedKeys: { key: string; fallback: string | null; locations: string[] }[];
+  /** Fallback literals that disagree with `en.json` */
+  fallbackMismatches: FallbackMismatch[];
+}
@@ -0,0 +1,128 @@
+import JSZip from "jszip";
+import type { Root } from "mdast";
+import { renderEpub } from "../epub";
+import type { ExportDocument, ExportImages } from "../types";
+
+const PNG = Uint8Array.from(
+  Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==",
+    "base64",
+  ),
+);
+
+const POOLS = "https://raw.githubusercontent.com/ZecHub/zechub/main/site/Research/Series/pools.png";
+
+const intro: Root = {
+  type: "root",
+  children: [
+    { type: "heading", depth: 2, children: [{ type: "text", value: "Pools" }] },
+    {
+      type: "paragraph",
+      children: [
+        { type: "image", url: POOLS, alt: "Pools" },
+        { type: "text", value: " " },
+        { type: "image", url: "https://example.com/gone.png", alt: "Missing" },
+      ],
+    },
+    {
+      type: "table",
+      children: [
+        { type: "tableRow", children: ["a", "b"].map((value) => ({ type: "tableCell", children: [{ type: "text", value }] })) },
+        { type: "tableRow", children: ["1", "2"].map((value) => ({ type: "tableCell", children: [{ type: "text", value }] })) },
+      ],
+    },
+  ],
+};
+
+const next: Root = {
+  type: "root",
+  children: [
+    {
+      type: "list",
+      spread: false,
+      children: [
+        { type: "listItem", checked: true, spread: false, children: [{ type: "paragraph", children: [{ type: "text", value: "done" }] }] },
+      ],
+    },
+  ],
+};
+
+const doc: ExportDocument = {
+  title: "Series",
+  description: null,
+  url: "https://zechub.wiki/research/series",
+  language: "en",
+  authors: ["Ana"],
+  updated: null,
+  chapters: [
+    {
+      title: "Intro & <Basics>",
+      path: "site/Research/Series/01_Intro.md",
+      url: "https://zechub.wiki/research/series/01-intro",
+      authors: ["Ana"],
+      updated: null,
+      content: intro,
+    },
+    {
+      title: "Next",
+      path: "site/Research/Series/02_Next.md",
+      url: "https://zechub.wiki/research/series/02-next",
+      authors: [],
+      updated: null,
+      content: next,
+    },
+  ],
+};
+
+const images: ExportImages = new Map([
+  [
+    POOLS,
+    {
+      url: POOLS,
+      data: PNG,
+      mediaType: "image/png",
+      width: 1,
+      height: 1,
+    },
+  ],
+]);
+
+async function open() {
+  return JSZip.loadAsync(await renderEpub(doc, images, new Date("2025-06-01T12:00:00.123Z")));
+}
+
+describe("renderEpub", () => {
+  it("starts with the uncompressed mimetype entry", async () => {
+    const bytes = await renderEpub(doc, images);
+    const header = Buffer.from(bytes.subarray(0, 58)).toString("latin1");
+
+    expect(header.slice(30, 38)).toBe("mimetype");
+    expect(header.slice(38)).toBe("application/epub+zip");
+  });
+
+  it("lists chapters, images and attribution in the package", async () => {
+    const opf = await (await open()).file("OEBPS/content.opf")!.async("string");
+
+    expect(opf).toContain("<dc:title>Series</dc:title>");
+    expect(opf).toContain("<dc:creator>Ana</dc:creator>");
+    expect(opf).toContain("<dc:rights>Licensed under the MIT License");
+    expect(opf).toContain('<meta property="dcterms:modified">2025-06-01T12:00:00Z</meta>');
+    expect(opf).toContain('href="images/image-1.png" media-type="image/png"');
+    expect(opf).toMatch(/<itemref idref="chapter-1"\/>\s*<itemref idref="chapter-2"\/>/);
+  });
+
+  it("writes escaped chapters with embedded images and a linked table of contents", async () => {
+    const zip = await open();
+    const chapter = await zip.file("OEBPS/chapter-1.xhtml")!.async("string");
+    const nav = await zip.file("OEBPS/nav.xhtml")!.async("string");
+
+    expect(chapter).toContain("<h1>Intro &amp; &lt;Basics&gt;</h1>");
+    expect(chapter).toContain('<h2 id="pools">Pools</h2>');
+    expect(chapter).toContain('<img src="images/image-1.png" alt="Pools"/>');
+    expect(chapter).toContain('<span class="missing-image">[Missing]</span>');
+    expect(chapter).toContain("<thead><tr><th>a</th><th>b</th></tr></thead>");
+    expect(await zip.file("OEBPS/chapter-2.xhtml")!.async("string")).toContain("<li>☑ done</li>");
+    expect(nav).toContain('<a href="chapter-1.xhtml#pools">Pools</a>');
+    expect(await zip.file("OEBPS/images/image-1.png")!.async("uint8array")).toEqual(PNG);
+  });
+});
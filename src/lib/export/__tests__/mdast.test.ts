@@ -0,0 +1,119 @@
+import type { Paragraph, Root } from "mdast";
+import { listHeadings, listImages, prepareExportTree } from "../mdast";
+
+const PATH = "site/Research/zcash-foundations-series/Privacy_Models.md";
+const URL = "https://zechub.wiki/research/zcash-foundations-series/privacy-models";
+
+const text = (value: string) => ({ type: "text" as const, value });
+
+describe("prepareExportTree", () => {
+  it("takes the leading h1 out as the title", () => {
+    const tree: Root = {
+      type: "root",
+      children: [
+        { type: "heading", depth: 1, children: [text("Privacy "), { type: "emphasis", children: [text("Models")] }] },
+        { type: "paragraph", children: [text("Text")] },
+      ],
+    };
+
+    const { title, content } = prepareExportTree(tree, PATH, URL);
+
+    expect(title).toBe("Privacy Models");
+    expect(content.children.map((c) => c.type)).toEqual(["paragraph"]);
+  });
+
+  it("resolves relative images against the content repo like the site does", () => {
+    const tree: Root = {
+      type: "root",
+      children: [
+        {
+          type: "paragraph",
+          children: [
+            { type: "image", url: "images/pools.png", alt: "Diagram" },
+            { type: "image", url: "/ZecHubBlue.png", alt: "Logo" },
+          ],
+        },
+      ],
+    };
+
+    expect(listImages(prepareExportTree(tree, PATH, URL).content)).toEqual([
+      "https://raw.githubusercontent.com/ZecHub/zechub/main/site/Research/zcash-foundations-series/images/pools.png",
+      "https://zechub.wiki/ZecHubBlue.png",
+    ]);
+  });
+
+  it("keeps images from raw HTML and drops other tags and badges", () => {
+    const tree: Root = {
+      type: "root",
+      children: [
+        { type: "html", value: '<p align="center"><img src="banner.png" alt="Banner"></p>' },
+        {
+          type: "paragraph",
+          children: [
+            {
+              type: "link",
+              url: "https://github.com/ZecHub/zechub/edit/main/x.md",
+              children: [{ type: "image", url: "https://img.shields.io/badge/Edit-blue", alt: "Edit Page" }],
+            },
+          ],
+        },
+        { type: "html", value: '<Callout type="warning">' },
+        { type: "paragraph", children: [text("Back up"), { type: "html", value: "<br>" }, text("your seed")] },
+        { type: "html", value: "</Callout>" },
+      ],
+    };
+
+    const { content } = prepareExportTree(tree, PATH, URL);
+
+    expect(content.children).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          {
+            type: "image",
+            url: "https://raw.githubusercontent.com/ZecHub/zechub/main/site/Research/zcash-foundations-series/banner.png",
+            alt: "Banner",
+          },
+        ],
+      },
+      { type: "paragraph", children: [text("Back up"), { type: "break" }, text("your seed")] },
+    ]);
+  });
+
+  it("turns content links into wiki pages and site paths into absolute URLs", () => {
+    const links = ["../../Using_Zcash/Wallets.md#mobile", "/privacy-tools", "#top", "https://z.cash", "docs/spec.pdf"];
+    const tree: Root = {
+      type: "root",
+      children: [{ type: "paragraph", children: links.map((url) => ({ type: "link", url, children: [text(url)] })) }],
+    };
+
+    const { content } = prepareExportTree(tree, PATH, URL);
+
+    expect((content.children[0] as Paragraph).children.map((c) => (c.type === "link" ? c.url : null))).toEqual([
+      "https://zechub.wiki/using-zcash/wallets#mobile",
+      "https://zechub.wiki/privacy-tools",
+      "#top",
+      "https://z.cash",
+      "https://raw.githubusercontent.com/ZecHub/zechub/main/site/Research/zcash-foundations-series/docs/spec.pdf",
+    ]);
+  });
+});
+
+describe("listHeadings", () => {
+  it("gives repeated headings unique ids", () => {
+    const tree: Root = {
+      type: "root",
+      children: [
+        { type: "heading", depth: 2, children: [text("Setup")] },
+        { type: "heading", depth: 3, children: [text("Setup")] },
+        { type: "heading", depth: 2, children: [text("Keys & "), { type: "strong", children: [text("Addresses")] }] },
+      ],
+    };
+
+    expect(listHeadings(tree).map(({ depth, text, id }) => ({ depth, text, id }))).toEqual([
+      { depth: 2, text: "Setup", id: "setup" },
+      { depth: 3, text: "Setup", id: "setup-1" },
+      { depth: 2, text: "Keys & Addresses", id: "keys-addresses" },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import type { Root } from "mdast";
+import { renderPdf, toWinAnsi } from "../pdf";
+import type { ExportChapter, ExportDocument } from "../types";
+
+const text = (value: string) => ({ type: "text" as const, value });
+
+function chapter(title: string, content: Root["children"]): ExportChapter {
+  const slug = title.toLowerCase();
+  return {
+    title,
+    path: `site/a/${title}.md`,
+    url: `https://zechub.wiki/a/${slug}`,
+    authors: [],
+    updated: null,
+    content: { type: "root", children: content },
+  };
+}
+
+describe("toWinAnsi", () => {
+  it("keeps Latin text and typographic punctuation, replaces arrows and drops emoji", () => {
+    expect(toWinAnsi("Café – “quoted” → next 🚀")).toBe("Café – “quoted” -> next ");
+  });
+});
+
+describe("renderPdf", () => {
+  it("renders a series with a table of contents page per chapter list", async () => {
+    const doc: ExportDocument = {
+      title: "Series",
+      description: "Two pages",
+      url: "https://zechub.wiki/a",
+      language: "en",
+      authors: ["Ana"],
+      updated: "2025-05-01",
+      chapters: [
+        chapter("One", [
+          { type: "heading", depth: 2, children: [text("Part")] },
+          {
+            type: "paragraph",
+            children: [
+              text("Some "),
+              { type: "strong", children: [text("bold")] },
+              text(" "),
+              { type: "link", url: "https://z.cash", children: [text("link")] },
+              text("."),
+            ],
+          },
+          { type: "code", value: "code" },
+        ]),
+        chapter("Two", [
+          { type: "blockquote", children: [{ type: "paragraph", children: [text("Quote")] }] },
+          {
+            type: "list",
+            ordered: true,
+            start: 1,
+            spread: false,
+            children: ["First", "Second"].map((item) => ({
+              type: "listItem" as const,
+              spread: false,
+              children: [{ type: "paragraph" as const, children: [text(item)] }],
+            })),
+          },
+          {
+            type: "table",
+            children: [
+              { type: "tableRow", children: ["a", "b"].map((v) => ({ type: "tableCell" as const, children: [text(v)] })) },
+              { type: "tableRow", children: ["1", "2"].map((v) => ({ type: "tableCell" as const, children: [text(v)] })) },
+            ],
+          },
+        ]),
+      ],
+    };
+
+    const pdf = Buffer.from(await renderPdf(doc, new Map())).toString("latin1");
+
+    expect(pdf.startsWith("%PDF-1.7")).toBe(true);
+    // Title page, contents and one page per chapter
+    expect(pdf.match(/\/Type \/Page\b/g)).toHaveLength(4);
+    expect(pdf).toContain("/Outlines");
+  });
+});
@@ -0,0 +1,25 @@
+import type { ExportDocument, ExportFormat } from "./types";
+
+export const EXPORT_PUBLISHER = "ZecHub";
+
+/** License of the wiki content, stated in every exported file */
+export const CONTENT_LICENSE = {
+  name: "MIT License",
+  url: "https://github.com/ZecHub/zechub/blob/main/LICENSE",
+};
+
+/** Source, authors and license, one sentence per line, for the title page of either format */
+export function attributionLines(doc: ExportDocument): string[] {
+  return [
+    `From the ZecHub Wiki: ${doc.url}`,
+    doc.authors.length > 0
+      ? `Written by ${doc.authors.join(", ")} and the ZecHub community.`
+      : "Written by the ZecHub community.",
+    `Licensed under the ${CONTENT_LICENSE.name}: ${CONTENT_LICENSE.url}`,
+  ];
+}
+
+export function exportFilename(doc: ExportDocument, format: ExportFormat): string {
+  const name = new URL(doc.url).pathname.split("/").filter(Boolean).pop() || "zechub-wiki";
+  return `${name}.${format}`;
+}
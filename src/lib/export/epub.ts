@@ -0,0 +1,184 @@
+import JSZip from "jszip";
+import { attributionLines, CONTENT_LICENSE, EXPORT_PUBLISHER } from "./document";
+import { listHeadings } from "./mdast";
+import type { ExportDocument, ExportImages } from "./types";
+import { escapeXml, renderXhtml } from "./xhtml";
+
+export const EPUB_MEDIA_TYPE = "application/epub+zip";
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.25; page-break-after: avoid; }
+h1 { margin-top: 0; }
+img { display: block; max-width: 100%; height: auto; margin: 1em auto; }
+pre { white-space: pre-wrap; font-size: 0.85em; background: #f4f4f5; padding: 0.75em; }
+code { font-family: monospace; }
+blockquote { margin: 1em 0; padding-left: 1em; border-left: 3px solid #F4B728; color: #444; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+th, td { border: 1px solid #ccc; padding: 0.3em 0.5em; text-align: left; vertical-align: top; }
+.source, .footnote, .attribution { font-size: 0.85em; color: #555; }
+.missing-image { color: #777; font-style: italic; }
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+/** Headings listed under each chapter in the table of contents */
+const TOC_DEPTH = 2;
+
+function xhtmlPage(doc: ExportDocument, title: string, body: string): string {
+  const lang = escapeXml(doc.language);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const chapterFile = (index: number) => `chapter-${index + 1}.xhtml`;
+
+/** `dcterms:modified` wants seconds precision */
+const epubDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, "Z");
+
+/**
+ * EPUB 3 book of `doc`: a title page with attribution and license, a table
+ * of contents (also as `toc.ncx` for EPUB 2 readers) and one XHTML file per
+ * chapter. Images missing from `images` are replaced by their alt text.
+ */
+export async function renderEpub(
+  doc: ExportDocument,
+  images: ExportImages,
+  generatedAt = new Date(),
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  // Readers identify the format from this first, uncompressed entry
+  zip.file("mimetype", EPUB_MEDIA_TYPE, { compression: "STORE" });
+  zip.file("META-INF/container.xml", CONTAINER_XML);
+
+  const imageHrefs = new Map<string, string>();
+  const imageItems: string[] = [];
+  for (const image of images.values()) {
+    const href = `images/image-${imageHrefs.size + 1}.${image.mediaType === "image/png" ? "png" : "jpg"}`;
+    imageHrefs.set(image.url, href);
+    imageItems.push(`<item id="image-${imageHrefs.size}" href="${href}" media-type="${image.mediaType}"/>`);
+    zip.file(`OEBPS/${href}`, image.data);
+  }
+
+  const toc = doc.chapters.map((chapter, i) => ({
+    title: chapter.title,
+    href: chapterFile(i),
+    headings: listHeadings(chapter.content).filter((h) => h.depth <= TOC_DEPTH && h.text),
+  }));
+
+  doc.chapters.forEach((chapter, i) => {
+    const body = `<section epub:type="chapter">
+<h1>${escapeXml(chapter.title)}</h1>
+${renderXhtml(chapter.content, { images: imageHrefs })}
+<p class="source">Source: <a href="${escapeXml(chapter.url)}">${escapeXml(chapter.url)}</a></p>
+</section>`;
+    zip.file(`OEBPS/${chapterFile(i)}`, xhtmlPage(doc, chapter.title, body));
+  });
+
+  const titleBody = `<section epub:type="titlepage">
+<h1>${escapeXml(doc.title)}</h1>
+${doc.description ? `<p>${escapeXml(doc.description)}</p>` : ""}
+<div class="attribution">
+${attributionLines(doc).map((line) => `<p>${escapeXml(line)}</p>`).join("\n")}
+</div>
+</section>`;
+  zip.file("OEBPS/title.xhtml", xhtmlPage(doc, doc.title, titleBody));
+
+  const navBody = `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${toc
+  .map(
+    (entry) =>
+      `<li><a href="${entry.href}">${escapeXml(entry.title)}</a>` +
+      (entry.headings.length > 0
+        ? `<ol>${entry.headings
+            .map((h) => `<li><a href="${entry.href}#${escapeXml(h.id)}">${escapeXml(h.text)}</a></li>`)
+            .join("")}</ol>`
+        : "") +
+      "</li>",
+  )
+  .join("\n")}
+</ol>
+</nav>`;
+  zip.file("OEBPS/nav.xhtml", xhtmlPage(doc, "Contents", navBody));
+
+  let playOrder = 0;
+  // Numbered in reading order, so a chapter is numbered before its headings
+  const navPoint = (label: string, src: string, inner: () => string = () => "") => {
+    const order = ++playOrder;
+    return `<navPoint id="nav-${order}" playOrder="${order}"><navLabel><text>${escapeXml(label)}</text></navLabel><content src="${escapeXml(src)}"/>${inner()}</navPoint>`;
+  };
+  const navPoints = toc
+    .map((entry) =>
+      navPoint(entry.title, entry.href, () =>
+        entry.headings.map((h) => navPoint(h.text, `${entry.href}#${h.id}`)).join(""),
+      ),
+    )
+    .join("\n");
+  zip.file(
+    "OEBPS/toc.ncx",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(doc.url)}"/></head>
+<docTitle><text>${escapeXml(doc.title)}</text></docTitle>
+<navMap>
+${navPoints}
+</navMap>
+</ncx>
+`,
+  );
+
+  const creators = doc.authors.length > 0 ? doc.authors : [`${EXPORT_PUBLISHER} community`];
+  zip.file(
+    "OEBPS/content.opf",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(doc.language)}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(doc.url)}</dc:identifier>
+<dc:title>${escapeXml(doc.title)}</dc:title>
+<dc:language>${escapeXml(doc.language)}</dc:language>
+${creators.map((name) => `<dc:creator>${escapeXml(name)}</dc:creator>`).join("\n")}
+<dc:publisher>${EXPORT_PUBLISHER}</dc:publisher>
+<dc:rights>Licensed under the ${escapeXml(CONTENT_LICENSE.name)}: ${escapeXml(CONTENT_LICENSE.url)}</dc:rights>
+<dc:source>${escapeXml(doc.url)}</dc:source>
+${doc.description ? `<dc:description>${escapeXml(doc.description)}</dc:description>` : ""}
+${doc.updated ? `<dc:date>${doc.updated}</dc:date>` : ""}
+<meta property="dcterms:modified">${epubDate(generatedAt)}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>
+${doc.chapters.map((_, i) => `<item id="chapter-${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml"/>`).join("\n")}
+${imageItems.join("\n")}
+</manifest>
+<spine toc="ncx">
+<itemref idref="title"/>
+<itemref idref="nav"/>
+${doc.chapters.map((_, i) => `<itemref idref="chapter-${i + 1}"/>`).join("\n")}
+</spine>
+</package>
+`,
+  );
+  zip.file("OEBPS/style.css", STYLESHEET);
+
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE", mimeType: EPUB_MEDIA_TYPE });
+}
@@ -0,0 +1,23 @@
+import "server-only";
+
+import { exportFilename } from "./document";
+import { EPUB_MEDIA_TYPE, renderEpub } from "./epub";
+import { loadExportDocument, loadExportImages } from "./load";
+import { renderPdf } from "./pdf";
+import type { ExportFile, ExportFormat } from "./types";
+
+export { EXPORT_SERIES } from "./load";
+export { EXPORT_FORMATS, type ExportFile, type ExportFormat } from "./types";
+
+/** The page or series at a wiki route as a PDF or EPUB file, `null` when there is no such page */
+export async function exportWikiPage(slug: string[], format: ExportFormat): Promise<ExportFile | null> {
+  const doc = await loadExportDocument(slug);
+  if (!doc) return null;
+
+  const images = await loadExportImages(doc);
+  console.log(`[export] ${format} of ${doc.url}: ${doc.chapters.length} chapter(s), ${images.size} image(s)`);
+
+  return format === "pdf"
+    ? { filename: exportFilename(doc, format), contentType: "application/pdf", body: await renderPdf(doc, images) }
+    : { filename: exportFilename(doc, format), contentType: EPUB_MEDIA_TYPE, body: await renderEpub(doc, images) };
+}
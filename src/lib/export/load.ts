@@ -0,0 +1,123 @@
+import "server-only";
+
+import { getAllMarkdownRecursively, getRootCached } from "@/lib/authAndFetch";
+import {
+  getLocalizedWikiContent,
+  mapWithConcurrency,
+  resolveWikiContentPath,
+  WIKI_BASE_URL,
+  wikiPathToSlug,
+} from "@/lib/wikiPages";
+import sharp from "sharp";
+import { buildExportDocument, type ExportSource } from "./markdown";
+import { listImages } from "./mdast";
+import type { ExportDocument, ExportImage, ExportImages } from "./types";
+
+const FETCH_CONCURRENCY = 4;
+const IMAGE_TIMEOUT_MS = 8000;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGES = 150;
+/** Wide enough for print, small enough to keep a series under a few MB */
+const MAX_IMAGE_WIDTH = 1600;
+
+/** Research folders the site shows as a series, exported as one book */
+export const EXPORT_SERIES: Record<string, { folder: string; title: string; description: string }> = {
+  "research/zcash-foundations-series": {
+    folder: "site/Research/zcash-foundations-series",
+    title: "Zcash Foundations Series",
+    description:
+      "A collection of foundational articles covering Zcash shielded transactions, privacy models, protocol design, and core concepts that power the network.",
+  },
+};
+
+const byFolderOrder = new Intl.Collator("en", { numeric: true, sensitivity: "base" }).compare;
+
+/** The English page at a wiki route, or every article of a series in folder order */
+export async function loadExportDocument(slug: string[]): Promise<ExportDocument | null> {
+  const route = slug.join("/").toLowerCase();
+  const url = `${WIKI_BASE_URL}/${route}`;
+  const series = EXPORT_SERIES[route];
+
+  if (series) {
+    const paths = (await getAllMarkdownRecursively(series.folder).catch((): string[] => [])).sort(byFolderOrder);
+    const sources = await mapWithConcurrency(paths, FETCH_CONCURRENCY, async (path) => {
+      const { markdown } = await getLocalizedWikiContent(path);
+      return markdown ? { path, url: `${WIKI_BASE_URL}/${wikiPathToSlug(path)}`, markdown } : null;
+    });
+    const found = sources.filter((source): source is ExportSource => source !== null);
+
+    return found.length > 0
+      ? buildExportDocument(found, { url, title: series.title, description: series.description })
+      : null;
+  }
+
+  const roots = slug[0] === "research" ? await getRootCached(`/site/${slug[0]}`).catch(() => []) : [];
+  const { path, markdown } = await getLocalizedWikiContent(resolveWikiContentPath(slug, roots));
+
+  return markdown ? buildExportDocument([{ path, url, markdown }], { url }) : null;
+}
+
+/**
+ * Download an image and convert it for embedding: JPEGs stay JPEG, anything
+ * else (GIF, WebP, SVG, …) becomes PNG, which both PDF and EPUB readers show.
+ * Images that fail to load are left out and rendered as their alt text.
+ */
+/**
+ * The response body, or `null` once it passes `maxBytes`. The declared length
+ * is checked first, and the download is cancelled as soon as the cap is
+ * reached, so an oversized image is never held in memory.
+ */
+async function readBodyCapped(res: Response, maxBytes: number): Promise<Buffer | null> {
+  if (Number(res.headers.get("content-length")) > maxBytes || !res.body) {
+    await res.body?.cancel();
+    return null;
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return Buffer.concat(chunks);
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+}
+
+async function loadImage(url: string): Promise<ExportImage | null> {
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    if (!res.ok) return null;
+
+    const bytes = await readBodyCapped(res, MAX_IMAGE_BYTES);
+    if (!bytes) return null;
+
+    const { format } = await sharp(bytes).metadata();
+    const resized = sharp(bytes).rotate().resize({ width: MAX_IMAGE_WIDTH, withoutEnlargement: true });
+    const { data, info } = await (format === "jpeg" ? resized.jpeg({ quality: 82 }) : resized.png())
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      url,
+      data: new Uint8Array(data),
+      mediaType: format === "jpeg" ? "image/jpeg" : "image/png",
+      width: info.width,
+      height: info.height,
+    };
+  } catch (err) {
+    console.warn(`[export] skipping image ${url}:`, (err as Error).message);
+    return null;
+  }
+}
+
+export async function loadExportImages(doc: ExportDocument): Promise<ExportImages> {
+  const urls = [...new Set(doc.chapters.flatMap((chapter) => listImages(chapter.content)))].slice(0, MAX_IMAGES);
+  const images = await mapWithConcurrency(urls, FETCH_CONCURRENCY, loadImage);
+
+  return new Map(images.filter((image) => image !== null).map((image) => [image.url, image]));
+}
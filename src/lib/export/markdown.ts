@@ -0,0 +1,74 @@
+import { getWikiPageMeta } from "@/lib/frontMatter";
+import type { Root } from "mdast";
+import remarkGfm from "remark-gfm";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+import { prepareExportTree } from "./mdast";
+import type { ExportChapter, ExportDocument } from "./types";
+
+/** Wiki markdown parsed and prepared for export, see `prepareExportTree` */
+export function parseExportMarkdown(
+  markdown: string,
+  filePath: string,
+  baseUrl: string,
+): { title: string | null; content: Root } {
+  const content = unified().use(remarkParse).use(remarkGfm).parse(markdown);
+  return prepareExportTree(content, filePath, baseUrl);
+}
+
+export interface ExportSource {
+  /** Path in the content repo */
+  path: string;
+  /** Page on the site */
+  url: string;
+  markdown: string;
+}
+
+function fileTitle(path: string): string {
+  const file = path.split("/").pop() ?? path;
+  return file.replace(/\.md$/i, "").replace(/[_-]+/g, " ").trim();
+}
+
+/**
+ * A page, or the pages of a series in reading order, as one document. The
+ * title and description default to the first page's.
+ */
+export function buildExportDocument(
+  sources: ExportSource[],
+  options: { url: string; title?: string; description?: string; language?: string },
+): ExportDocument {
+  const chapters: ExportChapter[] = [];
+  let description: string | null = null;
+
+  for (const source of sources) {
+    const meta = getWikiPageMeta(source.markdown, source.path);
+    const { title, content } = parseExportMarkdown(meta.body, source.path, source.url);
+    description ??= meta.description;
+
+    chapters.push({
+      title: meta.title || title || fileTitle(source.path),
+      path: source.path,
+      url: source.url,
+      authors: meta.authors,
+      updated: meta.updated,
+      content,
+    });
+  }
+
+  const updated = chapters
+    .map((c) => c.updated)
+    .filter((date): date is string => date !== null)
+    .sort()
+    .pop();
+
+  return {
+    title: options.title ?? chapters[0]?.title ?? "ZecHub Wiki",
+    description: options.description ?? description,
+    url: options.url,
+    language: options.language ?? "en",
+    authors: [...new Set(chapters.flatMap((c) => c.authors))],
+    updated: updated ?? null,
+    chapters,
+  };
+}
+
@@ -0,0 +1,179 @@
+import { resolveContentImage } from "@/lib/frontMatter";
+import { createSlugger } from "@/lib/slugify";
+import type { Heading, Image, Nodes, Parent, Root, RootContent } from "mdast";
+import nodePath from "path";
+
+const { posix } = nodePath;
+
+/** Status badges ("Edit page", shields.io) mean nothing on paper */
+const BADGE_RE = /shields\.io|badge/i;
+const IMG_TAG_RE = /<img\b[^>]*>/gi;
+const BR_TAG_RE = /^<br\s*\/?>$/i;
+const SKIPPED_SCHEMES = /^(mailto|tel|javascript|data):/i;
+
+export interface ExportHeading {
+  node: Heading;
+  depth: number;
+  text: string;
+  /** Unique within the chapter, assigned in document order */
+  id: string;
+}
+
+function attr(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/** Plain text of a node, images replaced by their alt text */
+export function nodeText(node: Nodes): string {
+  if (node.type === "image") return node.alt ?? "";
+  if ("value" in node && node.type !== "html") return node.value;
+  if ("children" in node) return node.children.map((child: Nodes) => nodeText(child)).join("");
+  return "";
+}
+
+/** Site route of a markdown file in the content repo, the way the wiki links it */
+function contentPathToUrl(path: string, baseUrl: string): string {
+  const route = path
+    .replace(/^\/?site\//i, "")
+    .replace(/\.md$/i, "")
+    .toLowerCase()
+    .replace(/_/g, "-");
+  return new URL(`/${route}`, baseUrl).href;
+}
+
+/**
+ * Absolute form of a link in the file at `filePath`: `#anchors` stay, content
+ * files (`/site/...` and relative paths) become their wiki page and other
+ * absolute paths are site routes.
+ */
+function resolveLink(url: string, filePath: string, baseUrl: string): string {
+  if (!url || url.startsWith("#") || SKIPPED_SCHEMES.test(url) || /^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return url;
+  }
+
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const path = hashIndex === -1 ? url : url.slice(0, hashIndex);
+
+  if (path.startsWith("/") && !/^\/site\//i.test(path)) return new URL(url, baseUrl).href;
+
+  const contentPath = path.startsWith("/")
+    ? path.slice(1)
+    : posix.normalize(posix.join(posix.dirname(filePath), path));
+  return /\.md$/i.test(contentPath)
+    ? contentPathToUrl(contentPath, baseUrl) + hash
+    : resolveContentImage(contentPath, "") + hash;
+}
+
+function resolveImage(src: string, filePath: string, baseUrl: string): string | null {
+  if (!src || BADGE_RE.test(src)) return null;
+  try {
+    return new URL(resolveContentImage(src, filePath), baseUrl).href;
+  } catch {
+    return null;
+  }
+}
+
+/** `<img>` tags of a raw HTML node as markdown images */
+function htmlImages(html: string, filePath: string, baseUrl: string): Image[] {
+  return (html.match(IMG_TAG_RE) ?? []).flatMap((tag) => {
+    const url = resolveImage(attr(tag, "src") ?? "", filePath, baseUrl);
+    return url ? [{ type: "image", url, alt: attr(tag, "alt") ?? "" } satisfies Image] : [];
+  });
+}
+
+const isEmpty = (node: RootContent) =>
+  (node.type === "paragraph" || node.type === "link") && node.children.length === 0;
+
+/**
+ * Raw HTML and MDX component tags are dropped, keeping their images and the
+ * markdown between them; badges are removed; links and images are made absolute.
+ */
+function normalize(parent: Parent, filePath: string, baseUrl: string, inline: boolean): void {
+  const children: RootContent[] = [];
+
+  for (const child of parent.children as RootContent[]) {
+    if (child.type === "html") {
+      if (inline && BR_TAG_RE.test(child.value.trim())) {
+        children.push({ type: "break" });
+        continue;
+      }
+      const images = htmlImages(child.value, filePath, baseUrl);
+      if (images.length === 0) continue;
+      children.push(...(inline ? images : [{ type: "paragraph" as const, children: images }]));
+      continue;
+    }
+
+    if (child.type === "image") {
+      const url = resolveImage(child.url, filePath, baseUrl);
+      if (url) children.push({ ...child, url });
+      continue;
+    }
+
+    if (child.type === "link") child.url = resolveLink(child.url, filePath, baseUrl);
+    if (child.type === "definition") child.url = resolveLink(child.url, filePath, baseUrl);
+
+    if ("children" in child) {
+      const phrasing = child.type === "paragraph" || child.type === "heading" || child.type === "tableCell";
+      normalize(child, filePath, baseUrl, inline || phrasing);
+      if (isEmpty(child)) continue;
+    }
+
+    children.push(child);
+  }
+
+  parent.children = children;
+}
+
+/**
+ * Ready parsed wiki markdown for export, in place: the first h1 is taken out
+ * as the title; relative images resolve against the content repo like they
+ * do on the site, and other URLs against `baseUrl`.
+ */
+export function prepareExportTree(
+  content: Root,
+  filePath: string,
+  baseUrl: string,
+): { title: string | null; content: Root } {
+  normalize(content, filePath, baseUrl, false);
+
+  const first = content.children[0];
+  if (first?.type === "heading" && first.depth === 1) {
+    content.children.shift();
+    return { title: nodeText(first).trim() || null, content };
+  }
+
+  return { title: null, content };
+}
+
+/** Every heading of `content`, in document order, with the id both renderers give it */
+export function listHeadings(content: Root): ExportHeading[] {
+  const slug = createSlugger();
+  const headings: ExportHeading[] = [];
+
+  const walk = (node: Nodes) => {
+    if (node.type === "heading") {
+      const text = nodeText(node).trim();
+      headings.push({ node, depth: node.depth, text, id: slug(text) || `section-${headings.length + 1}` });
+    } else if ("children" in node) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(content);
+
+  return headings;
+}
+
+/** URLs of the images in `content`, in order, without duplicates */
+export function listImages(content: Root): string[] {
+  const urls = new Set<string>();
+
+  const walk = (node: Nodes) => {
+    if (node.type === "image") urls.add(node.url);
+    else if ("children" in node) node.children.forEach(walk);
+  };
+  walk(content);
+
+  return [...urls];
+}
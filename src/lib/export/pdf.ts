@@ -0,0 +1,488 @@
+import type { Definition, Heading, List, Nodes, PhrasingContent, Root, Table } from "mdast";
+import PDFDocument from "pdfkit";
+import { attributionLines, EXPORT_PUBLISHER } from "./document";
+import { listHeadings, nodeText } from "./mdast";
+import type { ExportDocument, ExportImages } from "./types";
+
+const FONTS = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+  italic: "Helvetica-Oblique",
+  boldItalic: "Helvetica-BoldOblique",
+  mono: "Courier",
+};
+
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  link: "#1d4ed8",
+  accent: "#F4B728",
+  shade: "#f4f4f5",
+  rule: "#d4d4d8",
+};
+
+const MARGIN = 64;
+const BODY_SIZE = 10.5;
+const SMALL_SIZE = 8.5;
+const CODE_SIZE = 8.5;
+const HEADING_SIZES: Record<number, number> = { 1: 22, 2: 16, 3: 13.5, 4: 12, 5: 11, 6: 11 };
+const LINE_GAP = 2;
+const BLOCK_GAP = 7;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 4;
+const TOC_ENTRIES_PER_PAGE = 30;
+/** Headings added to the bookmarks under each chapter */
+const OUTLINE_DEPTH = 2;
+
+/** Characters of Windows-1252 above Latin-1, the only other ones the standard PDF fonts can show */
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+const REPLACEMENTS: Record<string, string> = {
+  "→": "->",
+  "←": "<-",
+  "↔": "<->",
+  "⇒": "=>",
+  "≈": "~",
+  "≠": "!=",
+  "≤": "<=",
+  "≥": ">=",
+  "✓": "v",
+  "✔": "v",
+  "✅": "[x]",
+  "❌": "[ ]",
+  "\u2011": "-",
+  "\u2212": "-",
+};
+
+/** `text` limited to what the built-in fonts can draw: emoji and other scripts are dropped */
+export function toWinAnsi(text: string): string {
+  let out = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code === 10 || (code >= 32 && code < 127) || (code >= 160 && code <= 255) || WIN_ANSI_EXTRAS.includes(char)) {
+      out += char;
+    } else {
+      out += REPLACEMENTS[char] ?? "";
+    }
+  }
+  return out;
+}
+
+interface Run {
+  text: string;
+  font: string;
+  link: string | null;
+  strike: boolean;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  link?: string | null;
+  strike?: boolean;
+}
+
+interface TocEntry {
+  title: string;
+  destination: string;
+}
+
+function fontFor({ bold, italic }: RunStyle): string {
+  if (bold && italic) return FONTS.boldItalic;
+  if (bold) return FONTS.bold;
+  return italic ? FONTS.italic : FONTS.regular;
+}
+
+/** Only links a reader can follow from paper or a PDF viewer */
+const externalLink = (url: string | undefined) => (url && /^(https?|mailto):/i.test(url) ? url : null);
+
+const isImage = (node: PhrasingContent) => node.type === "image" || node.type === "imageReference";
+
+/** Paragraphs holding only images (or linked images) are drawn as figures */
+function figureImages(children: PhrasingContent[]): PhrasingContent[] | null {
+  const images: PhrasingContent[] = [];
+  for (const child of children) {
+    if (isImage(child)) images.push(child);
+    else if (child.type === "link" && child.children.length > 0 && child.children.every(isImage)) {
+      images.push(...child.children);
+    } else if (child.type === "break" || (child.type === "text" && !child.value.trim())) continue;
+    else return null;
+  }
+  return images.length > 0 ? images : null;
+}
+
+/**
+ * Print-ready A4 PDF of `doc`: a title page with attribution and license, a
+ * linked table of contents, one chapter per page range and bookmarks for
+ * chapters and their sections. Uses the built-in Helvetica and Courier, so
+ * text outside Windows-1252 (emoji, non-Latin scripts) is left out.
+ */
+export function renderPdf(
+  doc: ExportDocument,
+  images: ExportImages,
+  generatedAt = new Date(),
+): Promise<Uint8Array> {
+  const pdf = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    pdfVersion: "1.7",
+    lang: doc.language,
+    displayTitle: true,
+    info: {
+      Title: doc.title,
+      Author: doc.authors.length > 0 ? doc.authors.join(", ") : `${EXPORT_PUBLISHER} community`,
+      Subject: doc.description ?? undefined,
+      Keywords: "Zcash, ZecHub",
+      Creator: "ZecHub Wiki",
+      CreationDate: generatedAt,
+    },
+  });
+
+  const result = new Promise<Uint8Array>((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    pdf.on("data", (chunk: Buffer) => chunks.push(new Uint8Array(chunk)));
+    pdf.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    pdf.on("error", reject);
+  });
+
+  let page = 0;
+  pdf.on("pageAdded", () => page++);
+  const destinationPages = new Map<string, number>();
+
+  const left = pdf.page.margins.left;
+  const contentWidth = pdf.page.width - left - pdf.page.margins.right;
+  const bottom = () => pdf.page.height - pdf.page.margins.bottom;
+
+  const ensureSpace = (height: number) => {
+    if (pdf.y + height > bottom()) pdf.addPage();
+  };
+
+  const destination = (name: string) => {
+    pdf.addNamedDestination(name);
+    destinationPages.set(name, page);
+  };
+
+  const writeRuns = (runs: Run[], x: number, width: number, size: number, color = COLORS.text) => {
+    const visible = runs.filter((run) => run.text);
+    if (visible.length === 0) return;
+
+    visible.forEach((run, i) => {
+      pdf.font(run.font).fontSize(size).fillColor(run.link ? COLORS.link : color);
+      const options = {
+        width,
+        lineGap: LINE_GAP,
+        continued: i < visible.length - 1,
+        // Explicit values, as continued text inherits unset options from the previous run
+        link: run.link,
+        underline: Boolean(run.link),
+        strike: run.strike,
+      };
+      if (i === 0) pdf.text(run.text, x, pdf.y, options);
+      else pdf.text(run.text, options);
+    });
+    pdf.x = x;
+  };
+
+  const renderChapter = (chapterIndex: number, content: Root, outline: PDFKit.PDFOutline) => {
+    const headings = listHeadings(content);
+    const ids = new Map(headings.map((h) => [h.node, h.id]));
+    const definitions = new Map<string, Definition>();
+
+    const collect = (node: Nodes) => {
+      if (node.type === "definition") definitions.set(node.identifier, node);
+      else if ("children" in node) node.children.forEach(collect);
+    };
+    collect(content);
+
+    const runs = (nodes: PhrasingContent[], style: RunStyle = {}): Run[] =>
+      nodes.flatMap((node): Run[] => {
+        const run = (text: string, font = fontFor(style)): Run => ({
+          text: toWinAnsi(text),
+          font,
+          link: style.link ?? null,
+          strike: Boolean(style.strike),
+        });
+
+        switch (node.type) {
+          case "text":
+            return [run(node.value.replace(/\s*\n\s*/g, " "))];
+          case "inlineCode":
+            return [run(node.value, FONTS.mono)];
+          case "break":
+            return [run("\n")];
+          case "emphasis":
+            return runs(node.children, { ...style, italic: true });
+          case "strong":
+            return runs(node.children, { ...style, bold: true });
+          case "delete":
+            return runs(node.children, { ...style, strike: true });
+          case "link":
+            return runs(node.children, { ...style, link: externalLink(node.url) ?? style.link });
+          case "linkReference":
+            return runs(node.children, {
+              ...style,
+              link: externalLink(definitions.get(node.identifier)?.url) ?? style.link,
+            });
+          case "image":
+          case "imageReference":
+            return node.alt ? [run(`[${node.alt}]`, FONTS.italic)] : [];
+          case "footnoteReference":
+            return [run(`[${node.label ?? node.identifier}]`)];
+          default:
+            return [];
+        }
+      });
+
+    const figure = (node: PhrasingContent, x: number, width: number) => {
+      const url =
+        node.type === "image"
+          ? node.url
+          : node.type === "imageReference"
+            ? definitions.get(node.identifier)?.url
+            : undefined;
+      const image = url ? images.get(url) : undefined;
+      const alt = "alt" in node ? node.alt : null;
+
+      if (!image) {
+        if (alt) {
+          const text = toWinAnsi(`[${alt}]`);
+          writeRuns([{ text, font: FONTS.italic, link: null, strike: false }], x, width, BODY_SIZE, COLORS.muted);
+          pdf.y += BLOCK_GAP;
+        }
+        return;
+      }
+
+      // Pixels at 96 dpi, never wider than the column or taller than most of a page
+      let w = Math.min(width, image.width * 0.75);
+      let h = (w * image.height) / image.width;
+      const maxHeight = (bottom() - pdf.page.margins.top) * 0.6;
+      if (h > maxHeight) {
+        h = maxHeight;
+        w = (h * image.width) / image.height;
+      }
+
+      ensureSpace(h);
+      pdf.image(Buffer.from(image.data), x + (width - w) / 2, pdf.y, { width: w, height: h });
+      pdf.x = x;
+      pdf.y += h + BLOCK_GAP;
+    };
+
+    const heading = (node: Heading, x: number, width: number) => {
+      const size = HEADING_SIZES[node.depth] ?? BODY_SIZE;
+      pdf.y += size * 0.5;
+      // Keep the heading on the page of the text following it
+      ensureSpace(size * 2 + BODY_SIZE * 3);
+
+      const id = ids.get(node);
+      if (id) destination(`c${chapterIndex}-${id}`);
+      if (node.depth <= OUTLINE_DEPTH) outline.addItem(toWinAnsi(nodeText(node).trim()));
+
+      writeRuns(runs(node.children, { bold: true }), x, width, size);
+      pdf.y += size * 0.35;
+    };
+
+    const list = (node: List, x: number, width: number) => {
+      node.children.forEach((item, i) => {
+        const marker =
+          item.checked != null
+            ? item.checked ? "[x]" : "[ ]"
+            : node.ordered ? `${(node.start ?? 1) + i}.` : "•";
+
+        ensureSpace(BODY_SIZE * 2.5);
+        const y = pdf.y;
+        pdf.font(FONTS.regular).fontSize(BODY_SIZE).fillColor(COLORS.text);
+        pdf.text(marker, x, y, { lineBreak: false });
+        pdf.y = y;
+
+        item.children.forEach((child) => block(child, x + LIST_INDENT, width - LIST_INDENT, item.spread ? BLOCK_GAP : 2));
+      });
+      pdf.y += BLOCK_GAP;
+    };
+
+    const table = (node: Table, x: number, width: number) => {
+      const columns = Math.max(...node.children.map((row) => row.children.length));
+      const columnWidth = width / columns;
+      const textWidth = columnWidth - CELL_PADDING * 2;
+
+      node.children.forEach((row, r) => {
+        const cells = Array.from({ length: columns }, (_, c) =>
+          toWinAnsi(row.children[c] ? nodeText(row.children[c]).trim() : ""),
+        );
+        pdf.font(r === 0 ? FONTS.bold : FONTS.regular).fontSize(SMALL_SIZE);
+        const height =
+          Math.max(...cells.map((cell) => pdf.heightOfString(cell || " ", { width: textWidth, lineGap: 1 }))) +
+          CELL_PADDING * 2;
+
+        ensureSpace(height);
+        const y = pdf.y;
+        if (r === 0) pdf.rect(x, y, width, height).fill(COLORS.shade);
+
+        cells.forEach((cell, c) => {
+          pdf.fillColor(COLORS.text).text(cell, x + c * columnWidth + CELL_PADDING, y + CELL_PADDING, {
+            width: textWidth,
+            align: node.align?.[c] ?? "left",
+            lineGap: 1,
+          });
+        });
+        pdf.moveTo(x, y + height).lineTo(x + width, y + height).lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+        pdf.x = x;
+        pdf.y = y + height;
+      });
+      pdf.y += BLOCK_GAP;
+    };
+
+    const block = (node: Nodes, x: number, width: number, gap = BLOCK_GAP): void => {
+      switch (node.type) {
+        case "paragraph": {
+          const figures = figureImages(node.children);
+          if (figures) figures.forEach((image) => figure(image, x, width));
+          else {
+            ensureSpace(BODY_SIZE * 2);
+            writeRuns(runs(node.children), x, width, BODY_SIZE);
+            pdf.y += gap;
+          }
+          return;
+        }
+        case "heading":
+          return heading(node, x, width);
+        case "list":
+          return list(node, x, width);
+        case "table":
+          return table(node, x, width);
+        case "thematicBreak":
+          ensureSpace(BLOCK_GAP * 2);
+          pdf.moveTo(x, pdf.y + BLOCK_GAP / 2).lineTo(x + width, pdf.y + BLOCK_GAP / 2).lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+          pdf.y += BLOCK_GAP * 2;
+          return;
+        case "code": {
+          const text = toWinAnsi(node.value);
+          pdf.font(FONTS.mono).fontSize(CODE_SIZE);
+          const height = pdf.heightOfString(text, { width: width - CELL_PADDING * 4, lineGap: 1 }) + CELL_PADDING * 4;
+          // Shade blocks that fit on a page; longer ones flow across pages unshaded
+          if (height <= bottom() - pdf.page.margins.top) {
+            ensureSpace(height);
+            pdf.rect(x, pdf.y, width, height).fill(COLORS.shade);
+          }
+          pdf.fillColor(COLORS.text).text(text, x + CELL_PADDING * 2, pdf.y + CELL_PADDING * 2, {
+            width: width - CELL_PADDING * 4,
+            lineGap: 1,
+          });
+          pdf.x = x;
+          pdf.y += CELL_PADDING * 2 + gap;
+          return;
+        }
+        case "blockquote": {
+          const startPage = page;
+          const startY = pdf.y;
+          node.children.forEach((child: Nodes) => block(child, x + QUOTE_INDENT, width - QUOTE_INDENT));
+          if (page === startPage) {
+            pdf.moveTo(x + 2, startY).lineTo(x + 2, pdf.y - BLOCK_GAP).lineWidth(2).strokeColor(COLORS.accent).stroke();
+          }
+          return;
+        }
+        case "footnoteDefinition": {
+          const label = { text: `[${node.label ?? node.identifier}] `, font: FONTS.regular, link: null, strike: false };
+          const [first, ...rest] = node.children;
+          if (first?.type === "paragraph") {
+            writeRuns([label, ...runs(first.children)], x, width, SMALL_SIZE, COLORS.muted);
+            pdf.y += gap;
+          }
+          rest.forEach((child: Nodes) => block(child, x, width));
+          return;
+        }
+        case "definition":
+        case "html":
+        case "yaml":
+          return;
+        default:
+          if ("children" in node) node.children.forEach((child: Nodes) => block(child, x, width, gap));
+      }
+    };
+
+    content.children.forEach((child) => block(child, left, contentWidth));
+  };
+
+  // Title page
+  pdf.y = pdf.page.margins.top + 140;
+  pdf.font(FONTS.bold).fontSize(11).fillColor(COLORS.accent).text("ZECHUB WIKI", left, pdf.y, { characterSpacing: 2 });
+  pdf.y += 12;
+  pdf.font(FONTS.bold).fontSize(28).fillColor(COLORS.text).text(toWinAnsi(doc.title), { width: contentWidth });
+  if (doc.description) {
+    pdf.y += 10;
+    pdf.font(FONTS.regular).fontSize(13).fillColor(COLORS.muted).text(toWinAnsi(doc.description), { width: contentWidth });
+  }
+  pdf.y = bottom() - 80;
+  pdf.font(FONTS.regular).fontSize(SMALL_SIZE).fillColor(COLORS.muted);
+  for (const line of [...attributionLines(doc), `Exported on ${generatedAt.toISOString().slice(0, 10)}.`]) {
+    pdf.text(toWinAnsi(line), left, pdf.y, { width: contentWidth, lineGap: LINE_GAP });
+  }
+
+  // A series lists its chapters, a single page its sections
+  const series = doc.chapters.length > 1;
+  const toc: TocEntry[] = series
+    ? doc.chapters.map((chapter, i) => ({ title: chapter.title, destination: `c${i}` }))
+    : listHeadings(doc.chapters[0]?.content ?? { type: "root", children: [] })
+        .filter((h) => h.depth <= OUTLINE_DEPTH && h.text)
+        .map((h) => ({ title: h.text, destination: `c0-${h.id}` }));
+
+  // Reserved now and filled in once the page numbers are known
+  const tocStart = page + 1;
+  const tocPages = toc.length > 1 ? Math.ceil(toc.length / TOC_ENTRIES_PER_PAGE) : 0;
+  for (let i = 0; i < tocPages; i++) pdf.addPage();
+
+  doc.chapters.forEach((chapter, i) => {
+    pdf.addPage();
+    destination(`c${i}`);
+    const outline = pdf.outline.addItem(toWinAnsi(chapter.title));
+
+    if (series) {
+      pdf.font(FONTS.bold).fontSize(SMALL_SIZE).fillColor(COLORS.accent).text(`CHAPTER ${i + 1}`, left, pdf.y, { characterSpacing: 1 });
+      pdf.y += 4;
+    }
+    pdf.font(FONTS.bold).fontSize(HEADING_SIZES[1]).fillColor(COLORS.text).text(toWinAnsi(chapter.title), left, pdf.y, { width: contentWidth });
+    pdf.y += BLOCK_GAP * 2;
+
+    renderChapter(i, chapter.content, outline);
+
+    pdf.y += BLOCK_GAP;
+    ensureSpace(SMALL_SIZE * 2);
+    pdf.font(FONTS.regular).fontSize(SMALL_SIZE).fillColor(COLORS.muted).text("Source: ", left, pdf.y, { continued: true });
+    pdf.fillColor(COLORS.link).text(chapter.url, { link: chapter.url, underline: true });
+  });
+
+  toc.forEach((entry, i) => {
+    const slot = i % TOC_ENTRIES_PER_PAGE;
+    pdf.switchToPage(tocStart + Math.floor(i / TOC_ENTRIES_PER_PAGE));
+    if (slot === 0) {
+      pdf.font(FONTS.bold).fontSize(HEADING_SIZES[2]).fillColor(COLORS.text).text("Contents", left, pdf.page.margins.top);
+    }
+
+    const y = pdf.page.margins.top + 36 + slot * 20;
+    const number = String((destinationPages.get(entry.destination) ?? 0) + 1);
+    pdf.font(FONTS.regular).fontSize(BODY_SIZE);
+    const numberWidth = pdf.widthOfString(number);
+    pdf.fillColor(COLORS.text).text(toWinAnsi(entry.title), left, y, {
+      width: contentWidth - numberWidth - 16,
+      height: BODY_SIZE * 1.3,
+      ellipsis: true,
+      goTo: entry.destination,
+    });
+    pdf.fillColor(COLORS.muted).text(number, left + contentWidth - numberWidth, y, { lineBreak: false });
+  });
+
+  // Footer on every page but the title page
+  const { count } = pdf.bufferedPageRange();
+  const footer = toWinAnsi(`${doc.title} · ZecHub Wiki`);
+  for (let i = 1; i < count; i++) {
+    pdf.switchToPage(i);
+    const y = pdf.page.height - pdf.page.margins.bottom + 24;
+    const number = String(i + 1);
+    pdf.font(FONTS.regular).fontSize(SMALL_SIZE).fillColor(COLORS.muted);
+    pdf.text(footer, left, y, { lineBreak: false });
+    pdf.text(number, left + contentWidth - pdf.widthOfString(number), y, { lineBreak: false });
+  }
+
+  pdf.end();
+  return result;
+}
@@ -0,0 +1,50 @@
+import type { Root } from "mdast";
+
+export const EXPORT_FORMATS = ["pdf", "epub"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportChapter {
+  title: string;
+  /** Path in the content repo, e.g. `site/Research/zcash-foundations-series/Privacy_Models.md` */
+  path: string;
+  /** Page on the site */
+  url: string;
+  authors: string[];
+  /** `YYYY-MM-DD` */
+  updated: string | null;
+  /** Parsed markdown with image URLs absolute and the leading title heading removed */
+  content: Root;
+}
+
+/** A wiki page, or a series of them, ready to be rendered to a file */
+export interface ExportDocument {
+  title: string;
+  description: string | null;
+  /** Canonical URL of the page or series, also used as the book identifier */
+  url: string;
+  language: string;
+  /** Authors of every chapter, in order of first appearance */
+  authors: string[];
+  /** Most recent chapter update, `YYYY-MM-DD` */
+  updated: string | null;
+  chapters: ExportChapter[];
+}
+
+/** An image of the document, downloaded and converted to a format both renderers embed */
+export interface ExportImage {
+  url: string;
+  data: Uint8Array;
+  mediaType: "image/jpeg" | "image/png";
+  /** Pixels */
+  width: number;
+  height: number;
+}
+
+export type ExportImages = Map<string, ExportImage>;
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Uint8Array;
+}
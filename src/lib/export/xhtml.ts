@@ -0,0 +1,126 @@
+import type { Definition, Nodes, Root, Table } from "mdast";
+import { listHeadings } from "./mdast";
+
+const XML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]);
+}
+
+export interface XhtmlOptions {
+  /** Href of each embedded image by source URL; other images are replaced by their alt text */
+  images: Map<string, string>;
+}
+
+/**
+ * Well-formed XHTML for the body of an EPUB chapter. Content headings start
+ * at h2, below the chapter title, and get the ids from `listHeadings`.
+ */
+export function renderXhtml(content: Root, { images }: XhtmlOptions): string {
+  const ids = new Map(listHeadings(content).map((h) => [h.node, h.id]));
+  const definitions = new Map<string, Definition>();
+
+  const collect = (node: Nodes) => {
+    if (node.type === "definition") definitions.set(node.identifier, node);
+    else if ("children" in node) node.children.forEach(collect);
+  };
+  collect(content);
+
+  const image = (url: string, alt: string) => {
+    const href = images.get(url);
+    if (href) return `<img src="${escapeXml(href)}" alt="${escapeXml(alt)}"/>`;
+    return alt ? `<span class="missing-image">[${escapeXml(alt)}]</span>` : "";
+  };
+
+  const link = (url: string, inner: string) =>
+    url ? `<a href="${escapeXml(url)}">${inner}</a>` : inner;
+
+  const table = (node: Table) => {
+    const [head, ...body] = node.children;
+    const align = (i: number) => (node.align?.[i] ? ` style="text-align: ${node.align[i]}"` : "");
+    const row = (cells: Nodes[], tag: "th" | "td") =>
+      `<tr>${cells.map((cell, i) => `<${tag}${align(i)}>${children(cell)}</${tag}>`).join("")}</tr>`;
+
+    return (
+      "<table>" +
+      (head ? `<thead>${row(head.children, "th")}</thead>` : "") +
+      (body.length > 0 ? `<tbody>${body.map((r) => row(r.children, "td")).join("")}</tbody>` : "") +
+      "</table>"
+    );
+  };
+
+  const children = (node: Nodes, separator = ""): string =>
+    "children" in node ? node.children.map((child: Nodes) => render(child)).join(separator) : "";
+
+  const render = (node: Nodes): string => {
+    switch (node.type) {
+      case "root":
+        return children(node, "\n");
+      case "paragraph":
+        return `<p>${children(node)}</p>`;
+      case "heading": {
+        const level = Math.max(node.depth, 2);
+        return `<h${level} id="${escapeXml(ids.get(node) ?? "")}">${children(node)}</h${level}>`;
+      }
+      case "thematicBreak":
+        return "<hr/>";
+      case "blockquote":
+        return `<blockquote>${children(node, "\n")}</blockquote>`;
+      case "list": {
+        const tag = node.ordered ? "ol" : "ul";
+        const start = node.ordered && node.start != null && node.start !== 1 ? ` start="${node.start}"` : "";
+        return `<${tag}${start}>${children(node)}</${tag}>`;
+      }
+      case "listItem": {
+        const box = node.checked == null ? "" : node.checked ? "☑ " : "☐ ";
+        // Tight lists render their paragraphs without `<p>`, like on the site
+        const inner = node.spread
+          ? children(node, "\n")
+          : node.children.map((c: Nodes) => (c.type === "paragraph" ? children(c) : render(c))).join("");
+        return `<li>${box}${inner}</li>`;
+      }
+      case "code":
+        return `<pre><code>${escapeXml(node.value)}</code></pre>`;
+      case "table":
+        return table(node);
+      case "text":
+        return escapeXml(node.value);
+      case "emphasis":
+        return `<em>${children(node)}</em>`;
+      case "strong":
+        return `<strong>${children(node)}</strong>`;
+      case "delete":
+        return `<del>${children(node)}</del>`;
+      case "inlineCode":
+        return `<code>${escapeXml(node.value)}</code>`;
+      case "break":
+        return "<br/>";
+      case "link":
+        return link(node.url, children(node));
+      case "linkReference":
+        return link(definitions.get(node.identifier)?.url ?? "", children(node));
+      case "image":
+        return image(node.url, node.alt ?? "");
+      case "imageReference":
+        return image(definitions.get(node.identifier)?.url ?? "", node.alt ?? "");
+      case "footnoteReference":
+        return `<sup><a href="#fn-${escapeXml(node.identifier)}">${escapeXml(node.label ?? node.identifier)}</a></sup>`;
+      case "footnoteDefinition":
+        return `<div class="footnote" id="fn-${escapeXml(node.identifier)}"><sup>${escapeXml(node.label ?? node.identifier)}</sup> ${children(node)}</div>`;
+      case "definition":
+      case "html":
+      case "yaml":
+        return "";
+      default:
+        return children(node);
+    }
+  };
+
+  return render(content);
+}
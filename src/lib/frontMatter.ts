@@ -0,0 +1,144 @@
+import { markdownToPlainText, splitMarkdownSections } from "@/lib/markdownSections";
+import matter from "gray-matter";
+import { z } from "zod";
+
+/** Relative image paths in the wiki markdown are served from the content repo */
+export const CONTENT_RAW_BASE_URL = "https://raw.githubusercontent.com/ZecHub/zechub/main/";
+
+const MAX_DESCRIPTION_CHARS = 160;
+/** Paragraphs shorter than this (badges, "Back to top" links) make poor descriptions */
+const MIN_DESCRIPTION_CHARS = 40;
+
+const text = z
+  .union([z.string(), z.number()])
+  .transform(String)
+  .pipe(z.string().trim().min(1));
+
+const stringList = z
+  .union([z.string(), z.array(z.union([z.string(), z.number()]))])
+  .transform((value) =>
+    (Array.isArray(value) ? value.map(String) : value.split(","))
+      .map((item) => item.trim())
+      .filter(Boolean),
+  );
+
+// YAML turns unquoted dates into `Date` objects
+const date = z
+  .union([z.date(), z.string()])
+  .transform((value) => new Date(value))
+  .refine((value) => !isNaN(value.getTime()))
+  .transform((value) => value.toISOString().slice(0, 10));
+
+/** Every field is optional and a malformed one is dropped rather than failing the page */
+const frontMatterSchema = z.object({
+  title: text.optional().catch(undefined),
+  description: text.optional().catch(undefined),
+  tags: stringList.default([]).catch([]),
+  cover: text.optional().catch(undefined),
+  authors: stringList.default([]).catch([]),
+  updated: date.optional().catch(undefined),
+  translationOf: text.optional().catch(undefined),
+});
+
+export type WikiFrontMatter = z.infer<typeof frontMatterSchema>;
+
+export interface WikiPageMeta {
+  /** Front matter `title`, else the first h1 */
+  title: string | null;
+  /** Front matter `description`, else the first paragraph of prose */
+  description: string | null;
+  /** Front matter `cover`, else the first content image, as an absolute URL */
+  image: string | null;
+  tags: string[];
+  authors: string[];
+  /** `YYYY-MM-DD` */
+  updated: string | null;
+  /** Path of the page this one translates, for pages in other languages */
+  translationOf: string | null;
+}
+
+/**
+ * Split a wiki page into its YAML front matter and the markdown body. Pages
+ * without front matter, or with front matter that is not valid YAML, are
+ * returned unchanged with empty metadata.
+ */
+export function parseFrontMatter(markdown: string): {
+  frontMatter: WikiFrontMatter;
+  body: string;
+} {
+  const empty = { frontMatter: frontMatterSchema.parse({}), body: markdown };
+  if (!/^\uFEFF?---\s*\r?\n/.test(markdown)) return empty;
+
+  try {
+    // Passing options skips gray-matter's unbounded per-input cache
+    const { data, content } = matter(markdown, {});
+    return { frontMatter: frontMatterSchema.parse(data ?? {}), body: content.replace(/^\s*\n/, "") };
+  } catch (err) {
+    console.warn("[front-matter] ignoring invalid front matter:", (err as Error).message);
+    return empty;
+  }
+}
+
+/** Absolute URL of an image referenced from the markdown file at `filePath` */
+export function resolveContentImage(src: string, filePath: string): string {
+  if (/^https?:\/\//i.test(src) || src.startsWith("/")) return src;
+  return new URL(src, CONTENT_RAW_BASE_URL + filePath.replace(/^\/+/, "")).href;
+}
+
+export function extractFirstContentImage(content: string, filePath: string): string | null {
+  const matches =
+    content.match(/!\[[^\]]*\]\(([^)]+?)\)|<img[^>]+src=["']([^"']+)["']/g) || [];
+  for (const m of matches) {
+    const single = m.match(/!\[[^\]]*\]\(([^)]+?)\)|<img[^>]+src=["']([^"']+)["']/);
+    if (!single) continue;
+    const src = single[1] || single[2];
+    if (src && !/shields\.io|badge|edit/i.test(src)) {
+      return resolveContentImage(src, filePath);
+    }
+  }
+  return null;
+}
+
+/** First block of prose in the body, as plain text cut to a meta description */
+export function extractFirstParagraph(body: string): string | null {
+  const withoutCode = body.replace(/^\s*(```|~~~)[\s\S]*?^\s*\1.*$/gm, "");
+
+  for (const block of withoutCode.split(/\n\s*\n/)) {
+    const trimmed = block.trim();
+    if (/^(#|\||<|!\[|\[!\[)/.test(trimmed)) continue;
+
+    const plain = markdownToPlainText(trimmed);
+    if (plain.length < MIN_DESCRIPTION_CHARS) continue;
+    if (plain.length <= MAX_DESCRIPTION_CHARS) return plain;
+
+    const cut = plain.slice(0, MAX_DESCRIPTION_CHARS - 1);
+    const wordEnd = cut.lastIndexOf(" ");
+    return `${(wordEnd > MAX_DESCRIPTION_CHARS / 2 ? cut.slice(0, wordEnd) : cut).trimEnd()}…`;
+  }
+
+  return null;
+}
+
+/** Title, description and image of a wiki page, from its front matter with fallbacks to the body */
+export function getWikiPageMeta(
+  markdown: string,
+  filePath: string,
+): WikiPageMeta & { frontMatter: WikiFrontMatter; body: string } {
+  const { frontMatter, body } = parseFrontMatter(markdown);
+
+  return {
+    title:
+      frontMatter.title ??
+      (splitMarkdownSections(body).find((s) => s.level === 1)?.heading || null),
+    description: frontMatter.description ?? extractFirstParagraph(body),
+    image: frontMatter.cover
+      ? resolveContentImage(frontMatter.cover, filePath)
+      : extractFirstContentImage(body, filePath),
+    tags: frontMatter.tags,
+    authors: frontMatter.authors,
+    updated: frontMatter.updated ?? null,
+    translationOf: frontMatter.translationOf ?? null,
+    frontMatter,
+    body,
+  };
+}
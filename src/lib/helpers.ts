@@ -1,4 +1,6 @@
 import { contentBanners } from "@/constants/contentBanners";
+import { i18n, type Locale } from "@/i18n/config";
+import { localizePath } from "@/i18n/routing";
 import { getRootCached } from "./authAndFetch";
 
 type MetadataOpts = {
@@ -6,13 +8,38 @@ type MetadataOpts = {
   description?: string;
   image?: string;
   url?: string;
+  /** Unprefixed path of the page, e.g. `/using-zcash/wallets`; enables `hreflang` alternates */
+  path?: string;
+  /** Locale the page is rendered in */
+  locale?: Locale;
+  /** Locales the page is translated into, besides English */
+  translations?: Locale[];
 };
 
+const SITE_URL = "https://zechub.wiki";
+
+/** Canonical URL and `hreflang` alternates of a page that exists in `translations` */
+function genAlternates(path: string, locale: Locale, translations: Locale[]) {
+  const languages: Record<string, string> = {
+    "x-default": SITE_URL + path,
+    [i18n.defaultLocale]: SITE_URL + path,
+  };
+  for (const l of translations) languages[l] = SITE_URL + localizePath(path, l);
+
+  return {
+    canonical: languages[locale] ?? SITE_URL + path,
+    languages,
+  };
+}
+
 export const genMetadata = ({
   title,
   description,
   image,
   url,
+  path,
+  locale = i18n.defaultLocale,
+  translations = [],
 }: MetadataOpts) => {
   const defaultImage = "/previews/default-banner.jpg";
   const defaultUrl = "https://zechub.wiki";
@@ -24,6 +51,7 @@ export const genMetadata = ({
     metadataBase: new URL("https://zechub.wiki"),
     title: title || defaultTitle,
     description: description || defaultDescription,
+    ...(path ? { alternates: genAlternates(path, locale, translations) } : {}),
     openGraph: {
       title: title,
       description: description || defaultDescription,
@@ -0,0 +1,105 @@
+import { extractAnchors, extractLinks } from "../extract";
+import { formatLinkAuditMarkdown } from "../report";
+import { checkLink, type ContentTree } from "../resolve";
+import type { ExtractedLink } from "../types";
+
+const PAGE = "site/Using_Zcash/Wallets.md";
+
+const tree: ContentTree = {
+  pages: [PAGE, "site/Using_Zcash/Blockchain_Explorers.md", "site/Zcash_Tech/Halo.md"],
+  dirs: new Set(["site", "site/Using_Zcash", "site/Zcash_Tech"]),
+  files: new Set(["site/Using_Zcash/images/zashi.png"]),
+  anchors: new Map([
+    [PAGE, new Set(["mobile-ios-and-android", "legacy"])],
+    ["site/Zcash_Tech/Halo.md", new Set(["recursion"])],
+  ]),
+  routes: new Map<string, string | null>([
+    ["/using-zcash/wallets", PAGE],
+    ["/zcash-tech/halo", "site/Zcash_Tech/Halo.md"],
+    ["/wallets", null],
+  ]),
+};
+
+const check = (url: string, kind: ExtractedLink["kind"] = "link") =>
+  checkLink({ kind, url, line: 1 }, PAGE, tree);
+
+describe("extractLinks", () => {
+  it("finds markdown, HTML and reference links outside of code", () => {
+    const links = extractLinks(
+      [
+        "See [Halo](/site/Zcash_Tech/Halo.md#recursion) and `[not](a-link)`.",
+        '[![badge](https://img.shields.io/x)](https://z.cash) <img src="images/zashi.png" />',
+        "```md",
+        "[inside](code.md)",
+        "```",
+        '<a href="#legacy">Legacy</a>',
+        "[ref]: ../Zcash_Tech/Halo.md",
+      ].join("\n"),
+    );
+
+    expect(links).toEqual([
+      { kind: "link", url: "/site/Zcash_Tech/Halo.md#recursion", line: 1 },
+      { kind: "image", url: "https://img.shields.io/x", line: 2 },
+      { kind: "image", url: "images/zashi.png", line: 2 },
+      { kind: "link", url: "https://z.cash", line: 2 },
+      { kind: "link", url: "#legacy", line: 6 },
+      { kind: "link", url: "../Zcash_Tech/Halo.md", line: 7 },
+    ]);
+  });
+
+  it("collects heading anchors like MdxComponents and explicit ids", () => {
+    expect(extractAnchors('# Wallets\n## Mobile (iOS + Android)\n<a name="old-anchor"></a>')).toEqual(
+      new Set(["wallets", "mobile-ios-and-android", "old-anchor"]),
+    );
+  });
+});
+
+describe("checkLink", () => {
+  it("accepts links that resolve exactly", () => {
+    expect(check("/site/Zcash_Tech/Halo.md#recursion")).toBeNull();
+    expect(check("../Zcash_Tech/Halo.md")).toBeNull();
+    expect(check("#Mobile (iOS + Android)")).toBeNull();
+    expect(check("/zcash-tech/halo/#recursion")).toBeNull();
+    expect(check("https://zechub.wiki/wallets")).toBeNull();
+    expect(check("images/zashi.png", "image")).toBeNull();
+    expect(check("https://github.com/ZecHub/zechub/blob/main/site/Zcash_Tech/Halo.md")).toBeNull();
+    expect(check("https://example.com/missing")).toBeNull();
+  });
+
+  it("flags links that only work through the fuzzy fallback", () => {
+    expect(check("/site/using_zcash/blockchain-explorers.md")).toMatchObject({
+      type: "fuzzy",
+      severity: "warning",
+      resolved: "site/Using_Zcash/Blockchain_Explorers.md",
+    });
+  });
+
+  it("reports missing files, anchors and routes", () => {
+    expect(check("/site/Zcash_Tech/Orchard.md")).toMatchObject({ type: "broken", severity: "error" });
+    expect(check("images/missing.png", "image")).toMatchObject({ type: "broken" });
+    expect(check("../../../outside.md")).toMatchObject({ type: "broken" });
+    expect(check("#nowhere")).toMatchObject({ type: "missing-anchor", resolved: PAGE });
+    expect(check("/site/Zcash_Tech/Halo.md#Recursion")).toMatchObject({ type: "missing-anchor" });
+    expect(check("/not-a-page")).toMatchObject({ type: "unknown-route", severity: "warning" });
+  });
+});
+
+describe("formatLinkAuditMarkdown", () => {
+  it("lists issues per page with escaped table cells", () => {
+    const markdown = formatLinkAuditMarkdown({
+      generatedAt: "2025-01-01T00:00:00.000Z",
+      durationMs: 10,
+      pages: 3,
+      failedPages: [],
+      links: 2,
+      images: 0,
+      errors: 1,
+      warnings: 0,
+      issues: [check("/site/a|b.md")!],
+    });
+
+    expect(markdown).toContain("**1 errors**");
+    expect(markdown).toContain(`## \`${PAGE}\``);
+    expect(markdown).toContain("| 1 | error | link | `/site/a\\|b.md` | Broken |");
+  });
+});
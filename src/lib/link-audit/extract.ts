@@ -0,0 +1,60 @@
+import { splitMarkdownSections } from "@/lib/markdownSections";
+import type { ExtractedLink } from "./types";
+
+const FENCE_RE = /^\s*(```|~~~)/;
+const INLINE_CODE_RE = /`[^`]*`/g;
+
+// `[text](url "title")` with an optional `<url>`; images are matched first so
+// `[![badge](img)](href)` yields both the image and the link
+const MD_IMAGE_RE = /!\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+const MD_LINK_RE = /\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)]*)?\)/g;
+const HTML_IMAGE_RE = /<img\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi;
+const HTML_LINK_RE = /<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["']/gi;
+const REFERENCE_RE = /^\s{0,3}\[[^\]]+\]:\s*<?(\S+?)>?(?:\s+.*)?$/;
+const HTML_ID_RE = /<[a-z][^>]*?\b(?:id|name)\s*=\s*["']([^"']+)["']/gi;
+
+/** Every link and image target in a markdown page, ignoring code */
+export function extractLinks(markdown: string): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  let inFence = false;
+
+  markdown.split(/\r?\n/).forEach((raw, i) => {
+    if (FENCE_RE.test(raw)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+
+    const line = i + 1;
+    const text = raw.replace(INLINE_CODE_RE, "");
+    const push = (kind: ExtractedLink["kind"], url: string) =>
+      links.push({ kind, url: url.trim(), line });
+
+    const reference = REFERENCE_RE.exec(text);
+    if (reference) {
+      push("link", reference[1]);
+      return;
+    }
+
+    for (const m of text.matchAll(MD_IMAGE_RE)) push("image", m[1]);
+    for (const m of text.matchAll(HTML_IMAGE_RE)) push("image", m[1]);
+
+    const withoutImages = text.replace(MD_IMAGE_RE, "image");
+    for (const m of withoutImages.matchAll(MD_LINK_RE)) push("link", m[1]);
+    for (const m of withoutImages.matchAll(HTML_LINK_RE)) push("link", m[1]);
+  });
+
+  return links;
+}
+
+/** Ids a page can be linked to with `#anchor`: h1–h3 headings and explicit HTML ids */
+export function extractAnchors(markdown: string): Set<string> {
+  const anchors = new Set<string>();
+
+  for (const section of splitMarkdownSections(markdown)) {
+    if (section.anchor) anchors.add(section.anchor);
+  }
+  for (const m of markdown.matchAll(HTML_ID_RE)) anchors.add(m[1]);
+
+  return anchors;
+}
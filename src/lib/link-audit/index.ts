@@ -0,0 +1,130 @@
+import "server-only";
+
+import { getSiteFolders } from "@/lib/authAndFetch";
+import { parseFrontMatter } from "@/lib/frontMatter";
+import { transformGithubFilePathToWikiLink } from "@/lib/helpers";
+import { getAllWikiPages, mapWithConcurrency } from "@/lib/wikiPages";
+import { searcher } from "@/constants/searcher";
+import nodePath from "path";
+import { extractAnchors, extractLinks } from "./extract";
+import { checkLink, parseLinkTarget, type ContentTree } from "./resolve";
+import type { ExtractedLink, LinkAuditReport, LinkIssue } from "./types";
+
+export { formatLinkAuditMarkdown, groupIssuesByPage, describeIssue } from "./report";
+export type {
+  ExtractedLink,
+  LinkAuditReport,
+  LinkIssue,
+  LinkIssueSeverity,
+  LinkIssueType,
+  LinkKind,
+} from "./types";
+
+const LIST_CONCURRENCY = 4;
+
+/** Site routes served by `src/app` rather than by a markdown page */
+const APP_ROUTES = searcher.map((entry) => entry.url);
+
+const routeKey = (route: string) => route.replace(/\/+$/, "").toLowerCase() || "/";
+
+async function runAudit(): Promise<LinkAuditReport> {
+  const startedAt = Date.now();
+  const pages = await getAllWikiPages();
+  if (pages.length === 0) throw new Error("No markdown pages found");
+
+  const tree: ContentTree = {
+    pages: pages.map((p) => p.path),
+    dirs: new Set(),
+    files: new Set(),
+    anchors: new Map(),
+    routes: new Map(APP_ROUTES.map((route) => [routeKey(route), null])),
+  };
+
+  const linksByPage = new Map<string, ExtractedLink[]>();
+
+  for (const { path, slug, markdown } of pages) {
+    for (let dir = nodePath.posix.dirname(path); dir !== "."; dir = nodePath.posix.dirname(dir)) {
+      tree.dirs.add(dir);
+      tree.routes.set(routeKey(`/${transformGithubFilePathToWikiLink(dir)}`), null);
+    }
+    tree.routes.set(routeKey(`/${slug}`), path);
+
+    if (markdown === null) continue;
+    const { body } = parseFrontMatter(markdown);
+    // Report lines of the file, not of the body below the front matter
+    const offset = markdown.split("\n").length - body.split("\n").length;
+
+    tree.anchors.set(path, extractAnchors(body));
+    linksByPage.set(
+      path,
+      extractLinks(body).map((link) => ({ ...link, line: link.line + offset })),
+    );
+  }
+
+  // Images and other non-markdown files are only known once their folder is listed
+  const folders = new Set<string>();
+  for (const [page, links] of linksByPage) {
+    for (const link of links) {
+      const target = parseLinkTarget(link, page);
+      if (target?.type === "content" && !target.path.toLowerCase().endsWith(".md")) {
+        folders.add(nodePath.posix.dirname(target.path));
+      }
+    }
+  }
+
+  await mapWithConcurrency([...folders], LIST_CONCURRENCY, async (folder) => {
+    const entries = await getSiteFolders(folder);
+    if (entries.length > 0) tree.dirs.add(folder);
+    for (const entry of entries) tree.files.add(entry.replace(/^\/+/, ""));
+  });
+
+  const issues: LinkIssue[] = [];
+  let linkCount = 0;
+  let imageCount = 0;
+
+  for (const [page, links] of linksByPage) {
+    for (const link of links) {
+      if (link.kind === "image") imageCount++;
+      else linkCount++;
+
+      const issue = checkLink(link, page, tree);
+      if (issue) issues.push(issue);
+    }
+  }
+
+  const report: LinkAuditReport = {
+    generatedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    pages: pages.length,
+    failedPages: pages.filter((p) => p.markdown === null).map((p) => p.path),
+    links: linkCount,
+    images: imageCount,
+    errors: issues.filter((i) => i.severity === "error").length,
+    warnings: issues.filter((i) => i.severity === "warning").length,
+    issues,
+  };
+
+  console.log(
+    `[link-audit] pages=${report.pages} links=${report.links} images=${report.images}` +
+      ` errors=${report.errors} warnings=${report.warnings} | ${report.durationMs}ms`,
+  );
+
+  return report;
+}
+
+let running: Promise<LinkAuditReport> | null = null;
+
+/**
+ * Check every link and image in the wiki markdown against the content tree:
+ * missing files and routes, missing heading anchors, and links that only work
+ * thanks to the fuzzy file name fallback. Concurrent calls share one run.
+ */
+export function runLinkAudit(): Promise<LinkAuditReport> {
+  if (!running) {
+    running = runAudit().finally(() => {
+      running = null;
+    });
+  }
+
+  return running;
+}
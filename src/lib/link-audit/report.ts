@@ -0,0 +1,59 @@
+import type { LinkAuditReport, LinkIssue } from "./types";
+
+const TYPE_LABELS: Record<LinkIssue["type"], string> = {
+  broken: "Broken",
+  "missing-anchor": "Missing anchor",
+  fuzzy: "Fuzzy match only",
+  "unknown-route": "Unknown route",
+};
+
+/** Issues grouped by page, errors first, then by line */
+export function groupIssuesByPage(issues: LinkIssue[]): [page: string, issues: LinkIssue[]][] {
+  const byPage = new Map<string, LinkIssue[]>();
+  for (const issue of issues) {
+    byPage.set(issue.page, [...(byPage.get(issue.page) ?? []), issue]);
+  }
+
+  return [...byPage.entries()]
+    .map(([page, list]): [string, LinkIssue[]] => [page, list.sort((a, b) => a.line - b.line)])
+    .sort(
+      ([a, x], [b, y]) =>
+        y.filter((i) => i.severity === "error").length -
+          x.filter((i) => i.severity === "error").length || a.localeCompare(b),
+    );
+}
+
+export function describeIssue(issue: LinkIssue): string {
+  const label = TYPE_LABELS[issue.type];
+  return issue.resolved && issue.type !== "missing-anchor"
+    ? `${label} (resolves to \`${issue.resolved}\`)`
+    : label;
+}
+
+const escapeCell = (value: string) => value.replace(/\|/g, "\\|");
+
+/** Markdown version of the report, e.g. for a CI job summary */
+export function formatLinkAuditMarkdown(report: LinkAuditReport): string {
+  const lines = [
+    "# Wiki link audit",
+    "",
+    `Checked ${report.links} links and ${report.images} images in ${report.pages} pages ` +
+      `on ${report.generatedAt}: **${report.errors} errors**, ${report.warnings} warnings.`,
+  ];
+
+  if (report.failedPages.length > 0) {
+    lines.push("", `Could not fetch ${report.failedPages.length} pages:`, "");
+    for (const page of report.failedPages) lines.push(`- \`${page}\``);
+  }
+
+  for (const [page, issues] of groupIssuesByPage(report.issues)) {
+    lines.push("", `## \`${page}\``, "", "| Line | Severity | Kind | Target | Problem |", "| --- | --- | --- | --- | --- |");
+    for (const issue of issues) {
+      lines.push(
+        `| ${issue.line} | ${issue.severity} | ${issue.kind} | \`${escapeCell(issue.url)}\` | ${escapeCell(describeIssue(issue))} |`,
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,180 @@
+import { findFuzzyMatch } from "@/lib/content-source/resolve";
+import { slugify } from "@/lib/slugify";
+import nodePath from "path";
+import type { ExtractedLink, LinkIssue, LinkIssueSeverity, LinkIssueType } from "./types";
+
+const { posix } = nodePath;
+
+export interface ContentTree {
+  /** Every markdown file, in listing order, e.g. `site/Using_Zcash/Wallets.md` */
+  pages: string[];
+  /** Directories known to exist */
+  dirs: Set<string>;
+  /** Other files (images, PDFs) found in the directories links point into */
+  files: Set<string>;
+  /** Linkable ids per markdown file */
+  anchors: Map<string, Set<string>>;
+  /** Lower-cased site routes that exist, mapped to their markdown file when they have one */
+  routes: Map<string, string | null>;
+}
+
+export type LinkTarget =
+  | { type: "anchor"; hash: string }
+  | { type: "content"; path: string; hash: string }
+  | { type: "route"; route: string; hash: string };
+
+const SEVERITY: Record<LinkIssueType, LinkIssueSeverity> = {
+  broken: "error",
+  "missing-anchor": "error",
+  fuzzy: "warning",
+  "unknown-route": "warning",
+};
+
+const SKIPPED_SCHEMES = /^(mailto|tel|javascript|data|ftp|irc|magnet):/i;
+const SITE_HOSTS = new Set(["zechub.wiki", "www.zechub.wiki"]);
+const GITHUB_CONTENT_RE = /^\/ZecHub\/zechub\/(?:blob|tree|raw)\/main\/(.+)$/i;
+const RAW_CONTENT_RE = /^\/ZecHub\/zechub\/(?:refs\/heads\/)?main\/(.+)$/i;
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+const toContentPath = (path: string) => decode(path).replace(/^\/+|\/+$/g, "");
+
+/**
+ * Where a link found in the content file `fromPage` points, the way the site
+ * renders it: `/site/...` and relative paths are content files, other absolute
+ * paths are site routes, except for images which `MdxComponents` loads from
+ * the content repo. External links yield `null`.
+ */
+export function parseLinkTarget(link: ExtractedLink, fromPage: string): LinkTarget | null {
+  const { url, kind } = link;
+  if (!url || SKIPPED_SCHEMES.test(url)) return null;
+
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex + 1);
+  const path = (hashIndex === -1 ? url : url.slice(0, hashIndex)).replace(/\?.*$/, "");
+
+  if (!path) return hash && kind === "link" ? { type: "anchor", hash } : null;
+
+  if (/^(https?:)?\/\//i.test(path)) {
+    let parsed: URL;
+    try {
+      parsed = new URL(path, "https://zechub.wiki");
+    } catch {
+      return null;
+    }
+
+    const host = parsed.hostname.toLowerCase();
+    if (SITE_HOSTS.has(host)) {
+      return kind === "link" ? { type: "route", route: decode(parsed.pathname), hash } : null;
+    }
+
+    const content =
+      (host === "github.com" && GITHUB_CONTENT_RE.exec(parsed.pathname)) ||
+      (host === "raw.githubusercontent.com" && RAW_CONTENT_RE.exec(parsed.pathname));
+    return content ? { type: "content", path: toContentPath(content[1]), hash } : null;
+  }
+
+  if (/^\/?site(\/|$)/i.test(path) || (path.startsWith("/") && kind === "image")) {
+    return { type: "content", path: toContentPath(path), hash };
+  }
+
+  if (path.startsWith("/")) return { type: "route", route: decode(path), hash };
+
+  const joined = posix.normalize(posix.join(posix.dirname(fromPage), decode(path)));
+  return { type: "content", path: joined.replace(/\/+$/, ""), hash };
+}
+
+/** Resolve a content path like `getFileContentCached` would, noting fuzzy-only matches */
+function resolveContentPath(
+  path: string,
+  kind: ExtractedLink["kind"],
+  tree: ContentTree,
+): { type: LinkIssueType | null; resolved: string | null } {
+  if (path.startsWith("..")) return { type: "broken", resolved: null };
+
+  if (tree.pages.includes(path) || tree.files.has(path) || tree.dirs.has(path)) {
+    return { type: null, resolved: path };
+  }
+
+  const hasExtension = /\.[a-z0-9]+$/i.test(path);
+  if (kind === "link" && !hasExtension && tree.pages.includes(`${path}.md`)) {
+    return { type: null, resolved: `${path}.md` };
+  }
+
+  if (path.toLowerCase().endsWith(".md") || (kind === "link" && !hasExtension)) {
+    // `getRootCached` lists the folder after `transformUri`, which fixes its casing
+    const folder = posix.dirname(path).toLowerCase();
+    const match = findFuzzyMatch(
+      path,
+      tree.pages.filter((p) => posix.dirname(p).toLowerCase() === folder),
+    );
+    if (match) return { type: "fuzzy", resolved: match };
+  }
+
+  return { type: "broken", resolved: null };
+}
+
+function anchorIssue(
+  page: string | null,
+  hash: string,
+  tree: ContentTree,
+  { sameDocument }: { sameDocument: boolean },
+): LinkIssueType | null {
+  if (!page || !hash) return null;
+
+  const anchors = tree.anchors.get(page);
+  if (!anchors) return null;
+
+  // In-page links are slugified by `MdxComponents.a`, others are left to the browser
+  const id = sameDocument ? slugify(decode(hash)) : decode(hash);
+  return anchors.has(id) ? null : "missing-anchor";
+}
+
+/** The problem with a link found in `fromPage`, or `null` when it resolves cleanly */
+export function checkLink(
+  link: ExtractedLink,
+  fromPage: string,
+  tree: ContentTree,
+): LinkIssue | null {
+  const target = parseLinkTarget(link, fromPage);
+  if (!target) return null;
+
+  let type: LinkIssueType | null = null;
+  let resolved: string | null = null;
+
+  if (target.type === "anchor") {
+    type = anchorIssue(fromPage, target.hash, tree, { sameDocument: true });
+    resolved = fromPage;
+  } else if (target.type === "content") {
+    ({ type, resolved } = resolveContentPath(target.path, link.kind, tree));
+    if (type !== "broken") {
+      type = anchorIssue(resolved, target.hash, tree, { sameDocument: false }) ?? type;
+    }
+  } else {
+    const key = target.route.replace(/\/+$/, "").toLowerCase() || "/";
+    if (tree.routes.has(key)) {
+      resolved = tree.routes.get(key) ?? null;
+      type = anchorIssue(resolved, target.hash, tree, { sameDocument: false });
+    } else {
+      type = "unknown-route";
+    }
+  }
+
+  if (!type) return null;
+
+  return {
+    page: fromPage,
+    line: link.line,
+    kind: link.kind,
+    url: link.url,
+    type,
+    severity: SEVERITY[type],
+    resolved,
+  };
+}
@@ -0,0 +1,43 @@
+export type LinkKind = "link" | "image";
+
+export interface ExtractedLink {
+  kind: LinkKind;
+  url: string;
+  /** 1-based line in the markdown file */
+  line: number;
+}
+
+/**
+ * - `broken`: the target file or route does not exist
+ * - `missing-anchor`: the page exists but has no heading with that id
+ * - `fuzzy`: only resolves through the case/`-`/`_` insensitive fallback of `getFileContentCached`
+ * - `unknown-route`: a site route that is not a wiki page the audit knows of
+ */
+export type LinkIssueType = "broken" | "missing-anchor" | "fuzzy" | "unknown-route";
+
+export type LinkIssueSeverity = "error" | "warning";
+
+export interface LinkIssue {
+  /** Content path of the page containing the link */
+  page: string;
+  line: number;
+  kind: LinkKind;
+  url: string;
+  type: LinkIssueType;
+  severity: LinkIssueSeverity;
+  /** Content path the link ends up at, e.g. the file a fuzzy match picked */
+  resolved: string | null;
+}
+
+export interface LinkAuditReport {
+  generatedAt: string;
+  durationMs: number;
+  pages: number;
+  /** Pages whose markdown could not be fetched and were not checked */
+  failedPages: string[];
+  links: number;
+  images: number;
+  errors: number;
+  warnings: number;
+  issues: LinkIssue[];
+}
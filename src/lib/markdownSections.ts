@@ -0,0 +1,89 @@
+import { createSlugger } from "@/lib/slugify";
+
+export interface MarkdownSection {
+  /** h1–h3 text opening the section, `null` for text before the first heading */
+  heading: string | null;
+  /** `id` the rendered heading gets from `rehypeHeadingIds`, usable as `#anchor` */
+  anchor: string | null;
+  /** Enclosing headings from the outermost down, e.g. `["Wallets", "Mobile"]` */
+  headingPath: string[];
+  level: number;
+  /** Section markdown including its heading line */
+  content: string;
+}
+
+const HEADING_RE = /^(#{1,3})\s+(.+?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/** Heading text as it ends up in the DOM: links, emphasis and inline code unwrapped */
+export function headingText(raw: string): string {
+  return raw
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[*_`~]/g, "")
+    .trim();
+}
+
+/**
+ * Split markdown at every h1–h3 (deeper headings stay inside their section).
+ * Headings inside fenced code blocks are ignored.
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const stack: { level: number; text: string }[] = [];
+  const slug = createSlugger();
+  let current = { heading: null as string | null, headingPath: [] as string[], level: 0, lines: [] as string[] };
+  let inFence = false;
+
+  const flush = () => {
+    sections.push({
+      heading: current.heading,
+      anchor: current.heading ? slug(current.heading) || null : null,
+      headingPath: current.headingPath,
+      level: current.level,
+      content: current.lines.join("\n").trim(),
+    });
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+
+    const match = inFence ? null : HEADING_RE.exec(line);
+    if (!match) {
+      current.lines.push(line);
+      continue;
+    }
+
+    flush();
+
+    const level = match[1].length;
+    const text = headingText(match[2]);
+    while (stack.length && stack[stack.length - 1].level >= level) stack.pop();
+    stack.push({ level, text });
+
+    current = { heading: text, headingPath: stack.map((h) => h.text), level, lines: [line] };
+  }
+
+  flush();
+  return sections;
+}
+
+/** Readable text of a markdown fragment, for search indexes and excerpts */
+export function markdownToPlainText(markdown: string): string {
+  return markdown
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/^\s*(```|~~~).*$/gm, " ")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s*([-*+]|\d+\.)\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^\s*\|?[\s:|-]+\|[\s:|-]*$/gm, " ")
+    .replace(/\|/g, " ")
+    .replace(/[*_`~]+/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
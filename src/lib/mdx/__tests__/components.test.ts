@@ -0,0 +1,55 @@
+import type { Root } from "mdast";
+import type { MdxJsxFlowElement } from "mdast-util-mdx-jsx";
+import { remarkWikiComponents, UNKNOWN_COMPONENT } from "../components";
+
+const element = (
+  name: string | null,
+  attributes: MdxJsxFlowElement["attributes"] = [],
+  children: MdxJsxFlowElement["children"] = [],
+): MdxJsxFlowElement => ({ type: "mdxJsxFlowElement", name, attributes, children });
+
+describe("remarkWikiComponents", () => {
+  it("replaces unknown components and leaves HTML and known ones alone", () => {
+    const tree: Root = {
+      type: "root",
+      children: [
+        element("details", [], [element("Calout", [{ type: "mdxJsxAttribute", name: "type", value: "info" }])]),
+        element("Callout"),
+        element(null),
+      ],
+    };
+
+    remarkWikiComponents()(tree);
+
+    const [details, callout, fragment] = tree.children as MdxJsxFlowElement[];
+    const unknown = details.children[0] as MdxJsxFlowElement;
+
+    expect(details.name).toBe("details");
+    expect(unknown.name).toBe(UNKNOWN_COMPONENT);
+    expect(unknown.attributes).toEqual([{ type: "mdxJsxAttribute", name: "name", value: "Calout" }]);
+    expect(callout.name).toBe("Callout");
+    expect(fragment.name).toBeNull();
+  });
+
+  it("collects the ZIP numbers referenced by <Zip>", () => {
+    const zips = new Set<number>();
+    const tree: Root = {
+      type: "root",
+      children: [
+        element("Zip", [
+          {
+            type: "mdxJsxAttribute",
+            name: "num",
+            value: { type: "mdxJsxAttributeValueExpression", value: "317" },
+          },
+        ]),
+        element("Zip", [{ type: "mdxJsxAttribute", name: "num", value: "32" }]),
+        element("Zip", [{ type: "mdxJsxAttribute", name: "num", value: "abc" }]),
+      ],
+    };
+
+    remarkWikiComponents({ zips })(tree);
+
+    expect([...zips]).toEqual([317, 32]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { Root, RootContent } from "mdast";
+import type { MdxJsxFlowElement, MdxJsxTextElement } from "mdast-util-mdx-jsx";
+
+/**
+ * Components wiki authors may use in markdown, on top of the HTML overrides
+ * in `MdxComponents`. `MdxRenderer` registers one component per name.
+ */
+export const WIKI_MDX_COMPONENTS = [
+  "Callout",
+  "Tabs",
+  "Tab",
+  "Zip",
+  "Chart",
+  "ZecAmount",
+  "AddressExample",
+] as const;
+
+export type WikiMdxComponentName = (typeof WIKI_MDX_COMPONENTS)[number];
+
+/** Rendered in place of a component that is not in `WIKI_MDX_COMPONENTS` */
+export const UNKNOWN_COMPONENT = "UnknownComponent";
+
+type JsxElement = MdxJsxFlowElement | MdxJsxTextElement;
+
+function isJsxElement(node: RootContent): node is JsxElement {
+  return node.type === "mdxJsxFlowElement" || node.type === "mdxJsxTextElement";
+}
+
+/** Lowercase names are HTML elements, anything else resolves to a component */
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name) || name.includes(".");
+}
+
+function attributeValue(node: JsxElement, name: string): string | null {
+  for (const attribute of node.attributes) {
+    if (attribute.type !== "mdxJsxAttribute" || attribute.name !== name) continue;
+    if (typeof attribute.value === "string") return attribute.value;
+    if (attribute.value?.type === "mdxJsxAttributeValueExpression") return attribute.value.value;
+  }
+  return null;
+}
+
+/**
+ * Remark plugin replacing components the wiki does not provide with
+ * `<UnknownComponent name="…">`, so a typo renders a visible error instead
+ * of failing the whole page. ZIP numbers referenced through `<Zip num={…}/>`
+ * are collected into `options.zips` so the page can load just those.
+ */
+export function remarkWikiComponents(options: { zips?: Set<number> } = {}) {
+  const known = new Set<string>(WIKI_MDX_COMPONENTS);
+
+  return (tree: Root) => {
+    const visit = (node: { children?: RootContent[] }) => {
+      for (const child of node.children ?? []) {
+        if (isJsxElement(child) && child.name && isComponentName(child.name)) {
+          if (!known.has(child.name)) {
+            child.attributes = [{ type: "mdxJsxAttribute", name: "name", value: child.name }];
+            child.name = UNKNOWN_COMPONENT;
+          } else if (child.name === "Zip") {
+            const num = Number(attributeValue(child, "num")?.trim());
+            if (Number.isInteger(num) && num >= 0) options.zips?.add(num);
+          }
+        }
+
+        if ("children" in child) visit(child);
+      }
+    };
+
+    visit(tree);
+  };
+}
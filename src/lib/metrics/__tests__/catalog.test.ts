@@ -0,0 +1,26 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { DATASETS, parseDataset } from "@/lib/datasets";
+import { isMetricName, METRICS, type MetricName } from "../catalog";
+
+const PUBLIC_DIR = join(__dirname, "../../../../public");
+
+const datedMetrics = (Object.keys(METRICS) as MetricName[]).filter(
+  (name) => METRICS[name].date !== null && existsSync(join(PUBLIC_DIR, DATASETS[name].url)),
+);
+
+describe("METRICS", () => {
+  it.each(datedMetrics)("%s rows are dated by their date column", (name) => {
+    const rows = parseDataset(name, JSON.parse(readFileSync(join(PUBLIC_DIR, DATASETS[name].url), "utf8")));
+    const column = METRICS[name].date as string;
+    for (const row of rows as Record<string, unknown>[]) {
+      expect(row[column]).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    }
+  });
+
+  it("only accepts its own names", () => {
+    expect(isMetricName("lockbox")).toBe(true);
+    expect(isMetricName("networkUpgrades")).toBe(false);
+    expect(isMetricName("toString")).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import { toCsv } from "../csv";
+
+describe("toCsv", () => {
+  it("writes a header and a line per row", () => {
+    expect(toCsv([{ Date: "2025-01-01", lockbox: 1.5 }, { Date: "2025-01-02", lockbox: 2 }])).toBe(
+      "Date,lockbox\r\n2025-01-01,1.5\r\n2025-01-02,2\r\n",
+    );
+  });
+
+  it("adds columns found in later rows and leaves missing cells empty", () => {
+    expect(toCsv([{ a: 1 }, { a: null, b: 2 }])).toBe("a,b\r\n1,\r\n,2\r\n");
+  });
+
+  it("quotes cells with commas, quotes or line breaks", () => {
+    expect(toCsv([{ name: 'Pool "A", B', note: "x\ny" }])).toBe('name,note\r\n"Pool ""A"", B","x\ny"\r\n');
+  });
+
+  it("writes nested values as JSON", () => {
+    expect(toCsv([{ Total_Supply: [{ id: "nam" }] }])).toBe('Total_Supply\r\n"[{""id"":""nam""}]"\r\n');
+  });
+
+  it("is a header-less blank for no rows", () => {
+    expect(toCsv([])).toBe("\r\n");
+  });
+});
@@ -0,0 +1,56 @@
+import { periodKey, selectRange } from "../range";
+
+const rows = ["2024-12-30", "2025-01-01", "2025-01-05", "2025-01-06", "2025-02-01", "2025-02-28"].map(
+  (date, i) => ({ date, value: i }),
+);
+const dates = (selected: { date: string }[]) => selected.map((row) => row.date);
+
+describe("periodKey", () => {
+  it("starts weeks on Monday", () => {
+    expect(periodKey("2025-01-05", "week")).toBe("2024-12-30");
+    expect(periodKey("2025-01-06", "week")).toBe("2025-01-06");
+  });
+
+  it("keys days, months and years by their prefix", () => {
+    expect(periodKey("2025-01-05", "day")).toBe("2025-01-05");
+    expect(periodKey("2025-01-05", "month")).toBe("2025-01");
+    expect(periodKey("2025-01-05", "year")).toBe("2025");
+  });
+});
+
+describe("selectRange", () => {
+  it("keeps every row without a range", () => {
+    expect(selectRange(rows, (row) => row.date)).toEqual(rows);
+  });
+
+  it("includes both ends of the range", () => {
+    expect(dates(selectRange(rows, (row) => row.date, { from: "2025-01-01", to: "2025-02-01" }))).toEqual([
+      "2025-01-01",
+      "2025-01-05",
+      "2025-01-06",
+      "2025-02-01",
+    ]);
+  });
+
+  it("keeps the last row of each period", () => {
+    expect(dates(selectRange(rows, (row) => row.date, { interval: "week" }))).toEqual([
+      "2025-01-05",
+      "2025-01-06",
+      "2025-02-01",
+      "2025-02-28",
+    ]);
+    expect(dates(selectRange(rows, (row) => row.date, { interval: "month", to: "2025-02-27" }))).toEqual([
+      "2024-12-30",
+      "2025-01-06",
+      "2025-02-01",
+    ]);
+  });
+
+  it("sorts rows by date first", () => {
+    const shuffled = [rows[3], rows[0], rows[5]];
+    expect(dates(selectRange(shuffled, (row) => row.date, { interval: "year" }))).toEqual([
+      "2024-12-30",
+      "2025-02-28",
+    ]);
+  });
+});
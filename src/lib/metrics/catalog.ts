@@ -0,0 +1,43 @@
+import type { DatasetKey } from "@/lib/datasets";
+
+interface MetricSpec {
+  /**
+   * Column holding the row's `YYYY-MM-DD` date, or `null` for rows keyed by
+   * block height, which are given an estimated `date` from the chain schedule
+   */
+  date: string | null;
+  description: string;
+}
+
+/** Datasets served by `/api/metrics/v1/{name}`, named as in the registry */
+export const METRICS = {
+  shieldedSupply: { date: "close", description: "ZEC in all shielded pools" },
+  sproutSupply: { date: "close", description: "ZEC in the Sprout pool" },
+  saplingSupply: { date: "close", description: "ZEC in the Sapling pool" },
+  orchardSupply: { date: "close", description: "ZEC in the Orchard pool" },
+  testnetSproutSupply: { date: "close", description: "TAZ in the testnet Sprout pool" },
+  testnetSaplingSupply: { date: "close", description: "TAZ in the testnet Sapling pool" },
+  testnetOrchardSupply: { date: "close", description: "TAZ in the testnet Orchard pool" },
+  transparentSupply: { date: "close", description: "ZEC in transparent addresses" },
+  totalSupply: { date: "close", description: "ZEC in circulation" },
+  lockbox: { date: "Date", description: "ZEC in the lockbox and the coinholder fund" },
+  netInflowsOutflows: { date: "Date", description: "Net daily flow into the Sapling and Orchard pools" },
+  nodeCount: { date: "Date", description: "Reachable full nodes" },
+  difficulty: { date: "Date", description: "Mining difficulty" },
+  networkSolps: { date: "Date", description: "Network hashrate, in solutions per second" },
+  issuance: { date: "Date", description: "Daily issuance, supply and inflation rate" },
+  blockFees: { date: "Date", description: "Fees and transactions per block" },
+  shieldedTxCount: { date: "timestamp", description: "Shielded transactions per pool" },
+  shieldedStats: { date: "Dates", description: "Daily transaction, flow, supply, node and price statistics" },
+  transactionSummary: {
+    date: null,
+    description: "Sapling and Orchard transactions per block range, with and without spam filtering",
+  },
+  namadaSupply: { date: "Date", description: "Namada token supplies, total, shielded and transparent" },
+  namadaRewards: { date: "Date", description: "Namada staked ratio, staking rewards and inflation" },
+} satisfies Partial<Record<DatasetKey, MetricSpec>>;
+
+export type MetricName = keyof typeof METRICS;
+
+export const isMetricName = (name: string): name is MetricName =>
+  Object.prototype.hasOwnProperty.call(METRICS, name);
@@ -0,0 +1,55 @@
+import "server-only";
+
+import { createChainSchedule } from "@/lib/chain-schedule";
+import { DATASETS, DatasetError, parseDataset, type Dataset, type DatasetKey } from "@/lib/datasets";
+import { readFile } from "fs/promises";
+import path from "path";
+import { METRICS, type MetricName } from "./catalog";
+import type { ExportRow } from "./csv";
+import { selectRange, type MetricRange } from "./range";
+
+export { isMetricName, METRICS, type MetricName } from "./catalog";
+export { toCsv, type ExportRow } from "./csv";
+export { METRIC_INTERVALS, selectRange, type MetricInterval, type MetricRange } from "./range";
+
+const datasets = new Map<DatasetKey, Promise<unknown>>();
+
+/** A dataset from `public/`, read once per process as the files only change on deploy */
+function readDataset<K extends DatasetKey>(dataset: K): Promise<Dataset<K>> {
+  let pending = datasets.get(dataset);
+  if (!pending) {
+    const file = path.join(process.cwd(), "public", DATASETS[dataset].url);
+    pending = readFile(file, "utf8").then(
+      (text) => {
+        try {
+          return parseDataset(dataset, JSON.parse(text));
+        } catch (err) {
+          if (err instanceof DatasetError) throw err;
+          throw new DatasetError(`Unable to load ${dataset} data: file is not JSON`, dataset);
+        }
+      },
+      (err: NodeJS.ErrnoException) => {
+        if (err.code === "ENOENT") throw new DatasetError(`No ${dataset} data on this server`, dataset, 404);
+        throw err;
+      },
+    );
+    // Retry failures on the next request rather than caching them
+    pending.catch(() => datasets.delete(dataset));
+    datasets.set(dataset, pending);
+  }
+  return pending as Promise<Dataset<K>>;
+}
+
+const isoDate = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+
+/** Rows of `metric` within `range`, oldest first */
+export async function getMetricRows(metric: MetricName, range: MetricRange): Promise<ExportRow[]> {
+  const rows: ExportRow[] = await readDataset(metric);
+  const dateColumn: string | null = METRICS[metric].date;
+  if (dateColumn !== null) return selectRange(rows, (row) => row[dateColumn] as string, range);
+
+  const { upgrades } = await readDataset("networkUpgrades");
+  const schedule = createChainSchedule({ upgrades });
+  const dated = rows.map((row) => ({ date: isoDate(schedule.timeAt(row.height as number)), ...row }));
+  return selectRange(dated, (row) => row.date, range);
+}
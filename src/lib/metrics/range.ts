@@ -0,0 +1,45 @@
+export const METRIC_INTERVALS = ["day", "week", "month", "year"] as const;
+export type MetricInterval = (typeof METRIC_INTERVALS)[number];
+
+export interface MetricRange {
+  /** First day to include, `YYYY-MM-DD` */
+  from?: string;
+  /** Last day to include, `YYYY-MM-DD` */
+  to?: string;
+  interval?: MetricInterval;
+}
+
+/** Key of the period `date` falls in; weeks start on Monday */
+export function periodKey(date: string, interval: MetricInterval): string {
+  switch (interval) {
+    case "day":
+      return date.slice(0, 10);
+    case "month":
+      return date.slice(0, 7);
+    case "year":
+      return date.slice(0, 4);
+    case "week": {
+      const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+      day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+      return day.toISOString().slice(0, 10);
+    }
+  }
+}
+
+/**
+ * Rows dated `from` to `to` inclusive, oldest first. With an `interval`
+ * only the last row of each period is kept: the datasets hold running
+ * totals and daily readings, so that row is the period's closing value.
+ */
+export function selectRange<T>(rows: T[], dateOf: (row: T) => string, range: MetricRange = {}): T[] {
+  const { from, to, interval } = range;
+  const selected = rows
+    .map((row) => ({ row, date: dateOf(row) }))
+    .filter(({ date }) => (!from || date.slice(0, 10) >= from) && (!to || date.slice(0, 10) <= to))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (!interval) return selected.map(({ row }) => row);
+  return selected
+    .filter(({ date }, i) => i + 1 === selected.length || periodKey(selected[i + 1].date, interval) !== periodKey(date, interval))
+    .map(({ row }) => row);
+}
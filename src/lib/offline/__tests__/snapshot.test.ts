@@ -0,0 +1,74 @@
+import { snapshotArticle, snapshotArticleFromHtml } from "../snapshot";
+
+const BASE = "https://zechub.wiki/using-zcash/wallets";
+
+function article(html: string): Element {
+  const el = document.createElement("div");
+  el.innerHTML = html;
+  return el;
+}
+
+describe("snapshotArticle", () => {
+  it("removes scripts, embeds, buttons and excluded elements", () => {
+    const { html } = snapshotArticle(
+      article(
+        `<h1>Wallets</h1><script>alert(1)</script><iframe src="/x"></iframe>` +
+          `<button>Copy</button><div data-offline-exclude>Save</div><p>Text</p>`,
+      ),
+      BASE,
+    );
+
+    expect(html).toBe("<h1>Wallets</h1><p>Text</p>");
+  });
+
+  it("strips event handlers and javascript: URLs", () => {
+    const { html } = snapshotArticle(
+      article(`<a href="javascript:void(0)" onclick="go()">Link</a><p onmouseover="x()">Text</p>`),
+      BASE,
+    );
+
+    expect(html).toBe("<a>Link</a><p>Text</p>");
+  });
+
+  it("makes links and images absolute and collects image URLs", () => {
+    const { html, images } = snapshotArticle(
+      article(
+        `<a href="/guides">Guides</a><a href="#setup">Setup</a>` +
+          `<img src="images/zashi.png" srcset="a.png 2x" loading="lazy">` +
+          `<img src="data:image/png;base64,AAAA">`,
+      ),
+      BASE,
+    );
+
+    expect(html).toContain(`href="https://zechub.wiki/guides"`);
+    expect(html).toContain(`href="#setup"`);
+    expect(html).toContain(`<img src="https://zechub.wiki/using-zcash/images/zashi.png">`);
+    expect(images).toEqual(["https://zechub.wiki/using-zcash/images/zashi.png"]);
+  });
+
+  it("takes the title from the first heading, else the fallback", () => {
+    expect(snapshotArticle(article("<h1> Wallets </h1>"), BASE, "Page").title).toBe("Wallets");
+    expect(snapshotArticle(article("<p>Text</p>"), BASE, "Page").title).toBe("Page");
+  });
+
+  it("does not modify the rendered article", () => {
+    const el = article(`<button>Copy</button><a href="/guides">Guides</a>`);
+    snapshotArticle(el, BASE);
+
+    expect(el.innerHTML).toBe(`<button>Copy</button><a href="/guides">Guides</a>`);
+  });
+});
+
+describe("snapshotArticleFromHtml", () => {
+  it("reads the marked article out of a fetched page", () => {
+    const page =
+      `<html><head><title>Wallets | ZecHub Wiki</title></head><body>` +
+      `<nav>Menu</nav><div data-offline-article=""><p>Text</p></div></body></html>`;
+
+    expect(snapshotArticleFromHtml(page, BASE)).toEqual({ title: "Wallets", html: "<p>Text</p>", images: [] });
+  });
+
+  it("returns null for pages without an article", () => {
+    expect(snapshotArticleFromHtml("<html><body><p>Not found</p></body></html>", BASE)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import type { ArticleSnapshot } from "./snapshot";
+
+const DB_NAME = "zechub-offline";
+const DB_VERSION = 1;
+const STORE = "articles";
+
+/** Fired on `window` whenever the saved articles change */
+export const SAVED_ARTICLES_EVENT = "zechub:saved-articles";
+
+export interface SavedArticle extends ArticleSnapshot {
+  /** Pathname the article was saved from, e.g. `/es/using-zcash/wallets` */
+  path: string;
+  lang: string | null;
+  savedAt: string;
+  /** Last time the copy was updated from the live page */
+  refreshedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "path" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const notifyChange = () => window.dispatchEvent(new Event(SAVED_ARTICLES_EVENT));
+
+export function isOfflineStorageSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+export async function getSavedArticle(path: string): Promise<SavedArticle | null> {
+  return (await run<SavedArticle | undefined>("readonly", (store) => store.get(path))) ?? null;
+}
+
+/** Saved articles, most recently saved first */
+export async function listSavedArticles(): Promise<SavedArticle[]> {
+  const articles = await run<SavedArticle[]>("readonly", (store) => store.getAll());
+  return articles.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function putSavedArticle(article: SavedArticle): Promise<void> {
+  await run("readwrite", (store) => store.put(article));
+  notifyChange();
+}
+
+export async function deleteSavedArticle(path: string): Promise<void> {
+  await run("readwrite", (store) => store.delete(path));
+  notifyChange();
+}
@@ -0,0 +1,68 @@
+/** Marks the rendered article on wiki pages; only this part of the page is saved */
+export const OFFLINE_ARTICLE_ATTR = "data-offline-article";
+/** Marks elements inside the article that make no sense offline, e.g. the save button itself */
+export const OFFLINE_EXCLUDE_ATTR = "data-offline-exclude";
+
+/** Interactive or remote-only content that cannot work from a saved copy */
+const REMOVED_ELEMENTS = "script, style, noscript, iframe, object, embed, form, button, template";
+
+export interface ArticleSnapshot {
+  title: string;
+  html: string;
+  /** Absolute URLs of the images in `html`, to cache alongside it */
+  images: string[];
+}
+
+/**
+ * Static copy of a rendered article: scripts, embeds, buttons and event
+ * handler attributes are removed and relative URLs made absolute against
+ * `baseUrl`, so the HTML can be shown later outside of React.
+ */
+export function snapshotArticle(article: Element, baseUrl: string, fallbackTitle = ""): ArticleSnapshot {
+  const copy = article.cloneNode(true) as Element;
+
+  copy.querySelectorAll(`${REMOVED_ELEMENTS}, [${OFFLINE_EXCLUDE_ATTR}]`).forEach((el) => el.remove());
+
+  const images = new Set<string>();
+  for (const el of [copy, ...copy.querySelectorAll("*")]) {
+    for (const attr of [...el.attributes]) {
+      if (/^on/i.test(attr.name) || /^\s*javascript:/i.test(attr.value)) el.removeAttribute(attr.name);
+    }
+
+    for (const name of ["href", "src"]) {
+      const value = el.getAttribute(name);
+      if (!value || value.startsWith("#") || value.startsWith("data:")) continue;
+      try {
+        el.setAttribute(name, new URL(value, baseUrl).href);
+      } catch {
+        el.removeAttribute(name);
+      }
+    }
+
+    if (el.tagName === "IMG") {
+      // `srcset` candidates would be fetched instead of the cached `src`
+      el.removeAttribute("srcset");
+      el.removeAttribute("loading");
+      const src = el.getAttribute("src");
+      if (src && /^https?:/.test(src)) images.add(src);
+    }
+  }
+
+  const heading = copy.querySelector("h1")?.textContent?.trim();
+
+  return {
+    title: heading || fallbackTitle,
+    html: copy.innerHTML.trim(),
+    images: [...images],
+  };
+}
+
+/** `snapshotArticle` of a fetched wiki page, `null` when it has no article */
+export function snapshotArticleFromHtml(html: string, url: string): ArticleSnapshot | null {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const article = doc.querySelector(`[${OFFLINE_ARTICLE_ATTR}]`);
+  if (!article) return null;
+
+  const pageTitle = doc.title.replace(/\s*\|\s*ZecHub.*$/i, "").trim();
+  return snapshotArticle(article, url, pageTitle);
+}
@@ -0,0 +1,77 @@
+import {
+  deleteSavedArticle,
+  getSavedArticle,
+  listSavedArticles,
+  putSavedArticle,
+  type SavedArticle,
+} from "./articles";
+import { snapshotArticleFromHtml, type ArticleSnapshot } from "./snapshot";
+import { postToServiceWorker } from "./worker";
+
+/** Saved copies older than this are updated from the live page when the reader is online */
+export const REFRESH_AFTER_MS = 6 * 60 * 60 * 1000;
+
+export async function saveArticleOffline(
+  path: string,
+  snapshot: ArticleSnapshot,
+  lang: string | null,
+): Promise<SavedArticle> {
+  const now = new Date().toISOString();
+  const existing = await getSavedArticle(path);
+  const article: SavedArticle = {
+    ...snapshot,
+    path,
+    lang,
+    savedAt: existing?.savedAt ?? now,
+    refreshedAt: now,
+  };
+
+  await putSavedArticle(article);
+  postToServiceWorker({ type: "cache-media", urls: snapshot.images });
+  return article;
+}
+
+/** Delete a saved article and the cached images no other saved article uses */
+export async function removeArticleOffline(path: string): Promise<void> {
+  const article = await getSavedArticle(path);
+  await deleteSavedArticle(path);
+  if (!article) return;
+
+  const stillUsed = new Set((await listSavedArticles()).flatMap((a) => a.images));
+  postToServiceWorker({
+    type: "uncache-media",
+    urls: article.images.filter((url) => !stillUsed.has(url)),
+  });
+}
+
+/**
+ * Update saved articles from the live site, oldest first. Articles that no
+ * longer load keep their saved copy. Returns how many were updated.
+ */
+export async function refreshSavedArticles({ force = false } = {}): Promise<number> {
+  if (!navigator.onLine) return 0;
+
+  const cutoff = Date.now() - (force ? 0 : REFRESH_AFTER_MS);
+  const stale = (await listSavedArticles())
+    .filter((article) => new Date(article.refreshedAt).getTime() <= cutoff)
+    .sort((a, b) => a.refreshedAt.localeCompare(b.refreshedAt));
+
+  let refreshed = 0;
+  for (const article of stale) {
+    try {
+      const res = await fetch(article.path, { cache: "no-store" });
+      if (!res.ok) continue;
+
+      const snapshot = snapshotArticleFromHtml(await res.text(), res.url || location.origin + article.path);
+      if (!snapshot) continue;
+
+      await saveArticleOffline(article.path, snapshot, article.lang);
+      refreshed++;
+    } catch (err) {
+      console.warn(`[offline] could not refresh ${article.path}:`, err);
+      if (!navigator.onLine) break;
+    }
+  }
+
+  return refreshed;
+}
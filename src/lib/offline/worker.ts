@@ -0,0 +1,29 @@
+/** Served from `public/`, so its scope is the whole site */
+export const SERVICE_WORKER_URL = "/sw.js";
+
+/** Messages understood by `public/sw.js` */
+export type OfflineWorkerMessage =
+  | { type: "cache-media"; urls: string[] }
+  | { type: "uncache-media"; urls: string[] }
+  | { type: "refresh-data" };
+
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator;
+}
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isServiceWorkerSupported()) return null;
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: "/" });
+  } catch (err) {
+    console.error("[offline] service worker registration failed:", err);
+    return null;
+  }
+}
+
+/** Dropped silently when no worker controls the page yet, e.g. on the very first visit */
+export function postToServiceWorker(message: OfflineWorkerMessage): void {
+  if (!isServiceWorkerSupported()) return;
+  navigator.serviceWorker.controller?.postMessage(message);
+}
@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+import {
+  decodeZip321Memo,
+  encodeZip321Memo,
+  formatZecAmount,
+  parseZip321Uri,
+  serializeZip321Uri,
+  Zip321Error,
+} from "../zip321";
+
+const SAPLING = "zs1r3pp4354ewt5g970uc5r6gu4g8p0egmwwrrd6a0dsduvx92jxj0j9zcjjrkyx9wphf5ggux9ssg";
+const TRANSPARENT = "t1Hsc1LR8yKnbbe3twRp88p6vFfC5t7DLbs";
+
+describe("zip321", () => {
+  it("serializes a single payment with the address in the path", () => {
+    expect(
+      serializeZip321Uri([
+        { address: SAPLING, amount: "1.5", label: "Café", memo: "thanks" },
+      ]),
+    ).toBe(`zcash:${SAPLING}?amount=1.5&label=Caf%C3%A9&memo=dGhhbmtz`);
+  });
+
+  it("round-trips multiple payments through indexed params", () => {
+    const uri = serializeZip321Uri([
+      { address: SAPLING, amount: "1", memo: "hi ✓" },
+      { address: TRANSPARENT, amount: "0.00000001", message: "a b" },
+    ]);
+
+    expect(uri).toContain("address.1=");
+
+    const { payments, valid } = parseZip321Uri(uri);
+    expect(valid).toBe(true);
+    expect(payments).toHaveLength(2);
+    expect(payments[0]).toMatchObject({ index: 0, address: SAPLING, memoText: "hi ✓" });
+    expect(payments[1]).toMatchObject({ index: 1, address: TRANSPARENT, message: "a b" });
+  });
+
+  it("rejects memos to transparent receivers", () => {
+    expect(() =>
+      serializeZip321Uri([{ address: TRANSPARENT, memo: "secret" }]),
+    ).toThrow(Zip321Error);
+
+    const { issues } = parseZip321Uri(`zcash:${TRANSPARENT}?memo=aGk`);
+    expect(issues).toEqual([
+      { index: 0, message: "Memos cannot be sent to transparent addresses" },
+    ]);
+  });
+
+  it("enforces 8 decimals and the 512-byte memo limit", () => {
+    expect(
+      parseZip321Uri(`zcash:${SAPLING}?amount=1.123456789`).valid,
+    ).toBe(false);
+
+    const memo = encodeZip321Memo("x".repeat(513));
+    expect(parseZip321Uri(`zcash:${SAPLING}?memo=${memo}`).issues[0].message).toMatch(
+      /513 bytes/,
+    );
+  });
+
+  it("reports duplicate params, bad indexes and required params", () => {
+    const { issues } = parseZip321Uri(
+      `zcash:${SAPLING}?address=${SAPLING}&address.01=x&req-foo=1`,
+    );
+
+    expect(issues.map((i) => i.message)).toEqual([
+      "Address given both in the URI path and as a parameter",
+      'Invalid parameter name "address.01"',
+      'Unsupported required parameter "req-foo"',
+    ]);
+  });
+
+  it("rounds numeric amounts to zatoshis", () => {
+    expect(formatZecAmount(0.0337276205547219)).toBe("0.03372762");
+    expect(formatZecAmount(0.1 + 0.2)).toBe("0.3");
+    expect(formatZecAmount(10)).toBe("10");
+  });
+
+  it("decodes base64url memos", () => {
+    expect(decodeZip321Memo(encodeZip321Memo("ZecHub ✦"))).toBe("ZecHub ✦");
+    expect(decodeZip321Memo("not+base64")).toBeNull();
+  });
+});
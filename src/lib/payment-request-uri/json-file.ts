@@ -0,0 +1,60 @@
+import "server-only";
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export const DATA_DIR = path.join(process.cwd(), ".data");
+
+export interface JsonFile<T> {
+  read(): Promise<T>;
+  /**
+   * Run `task` against the current contents and persist them afterwards.
+   * Updates are serialized through a promise chain so concurrent requests in
+   * the same process never clobber each other.
+   */
+  update<R>(task: (data: T) => R | Promise<R>): Promise<R>;
+}
+
+export function createJsonFile<T>(filePath: string, initial: () => T): JsonFile<T> {
+  let data: T | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<T> {
+    if (data) return data;
+
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      data = JSON.parse(raw) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`[json-file] failed to read ${filePath}:`, err);
+      }
+      data = initial();
+    }
+
+    return data;
+  }
+
+  async function persist(next: T) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write to a temp file first so a crash never leaves half-written JSON
+    const tmp = `${filePath}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(next), "utf8");
+    await fs.rename(tmp, filePath);
+  }
+
+  function update<R>(task: (data: T) => R | Promise<R>): Promise<R> {
+    const run = queue.then(async () => {
+      const current = await read();
+      const result = await task(current);
+      await persist(current);
+      return result;
+    });
+
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return { read, update };
+}
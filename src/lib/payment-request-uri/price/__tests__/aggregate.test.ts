@@ -0,0 +1,41 @@
+import { aggregateQuotes, median } from "../aggregate";
+
+describe("price aggregation", () => {
+  it("takes the median of an odd and even number of values", () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it("drops quotes that deviate too far from the median", () => {
+    const result = aggregateQuotes([
+      { provider: "a", price: 40 },
+      { provider: "b", price: 41 },
+      { provider: "c", price: 40.5 },
+      { provider: "d", price: 80 },
+    ]);
+
+    expect(result?.price).toBe(40.5);
+    expect(result?.outliers.map((q) => q.provider)).toEqual(["d"]);
+  });
+
+  it("ignores zero and non-finite prices", () => {
+    const result = aggregateQuotes([
+      { provider: "a", price: 0 },
+      { provider: "b", price: NaN },
+      { provider: "c", price: 42 },
+    ]);
+
+    expect(result?.price).toBe(42);
+    expect(result?.accepted).toHaveLength(1);
+  });
+
+  it("returns null without usable quotes or consensus", () => {
+    expect(aggregateQuotes([])).toBeNull();
+    expect(
+      aggregateQuotes([
+        { provider: "a", price: 10 },
+        { provider: "b", price: 100 },
+      ]),
+    ).toBeNull();
+  });
+});
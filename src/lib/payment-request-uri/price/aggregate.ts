@@ -0,0 +1,42 @@
+import type { PriceQuote } from "./types";
+
+/** Quotes further than this from the median are discarded */
+export const MAX_DEVIATION = 0.05;
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+export interface AggregatedPrice {
+  price: number;
+  accepted: PriceQuote[];
+  outliers: PriceQuote[];
+}
+
+/**
+ * Median of all quotes after dropping the ones that deviate more than
+ * `maxDeviation` from the raw median. Returns `null` without usable quotes.
+ */
+export function aggregateQuotes(
+  quotes: PriceQuote[],
+  maxDeviation = MAX_DEVIATION,
+): AggregatedPrice | null {
+  const valid = quotes.filter((q) => Number.isFinite(q.price) && q.price > 0);
+  if (valid.length === 0) return null;
+
+  const raw = median(valid.map((q) => q.price));
+  const accepted = valid.filter((q) => Math.abs(q.price - raw) / raw <= maxDeviation);
+  const outliers = valid.filter((q) => !accepted.includes(q));
+
+  // e.g. two providers that disagree wildly: no consensus to report
+  if (accepted.length === 0) return null;
+
+  return {
+    price: median(accepted.map((q) => q.price)),
+    accepted,
+    outliers,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Fiat currencies the price feed can quote ZEC in.
+ * Shared by the API schema and the payment tools' currency pickers.
+ */
+export const FIAT_CURRENCIES = [
+  "usd",
+  "eur",
+  "gbp",
+  "brl",
+  "ngn",
+  "kes",
+  "zar",
+  "inr",
+  "jpy",
+  "cad",
+  "aud",
+  "chf",
+  "mxn",
+  "ars",
+  "try",
+] as const;
+
+export type FiatCurrency = (typeof FIAT_CURRENCIES)[number];
+
+export type PriceCurrency = FiatCurrency | "zec";
+
+export const PRICE_CURRENCIES = ["zec", ...FIAT_CURRENCIES] as const;
+
+export function isFiatCurrency(value: string): value is FiatCurrency {
+  return (FIAT_CURRENCIES as readonly string[]).includes(value);
+}
@@ -0,0 +1,65 @@
+import "server-only";
+
+import { FIAT_CURRENCIES, type FiatCurrency } from "./currencies";
+
+const FX_URL = "https://open.er-api.com/v6/latest/USD";
+const FX_TTL_MS = 60 * 60 * 1000; // upstream refreshes daily, 1h is plenty
+const FX_TIMEOUT_MS = 5000;
+
+export type UsdRates = Record<FiatCurrency, number>;
+
+interface FxCache {
+  rates: UsdRates | null;
+  updatedAt: number;
+  promise: Promise<UsdRates> | null;
+}
+
+const cache: FxCache = { rates: null, updatedAt: 0, promise: null };
+
+async function fetchUsdRates(): Promise<UsdRates> {
+  const res = await fetch(process.env.FX_RATES_URL || FX_URL, {
+    cache: "no-store",
+    signal: AbortSignal.timeout(FX_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`FX rates: HTTP ${res.status}`);
+
+  const { rates } = (await res.json()) as { rates?: Record<string, number> };
+  if (!rates) throw new Error("FX rates: malformed response");
+
+  const picked = {} as UsdRates;
+  for (const currency of FIAT_CURRENCIES) {
+    const rate = Number(rates[currency.toUpperCase()]);
+    if (Number.isFinite(rate) && rate > 0) picked[currency] = rate;
+  }
+  picked.usd = 1;
+
+  return picked;
+}
+
+/**
+ * Units of each supported fiat currency per 1 USD.
+ * Falls back to the previous rates when a refresh fails.
+ */
+export async function getUsdRates(): Promise<UsdRates> {
+  if (cache.rates && Date.now() - cache.updatedAt < FX_TTL_MS) return cache.rates;
+  if (cache.promise) return cache.promise;
+
+  cache.promise = fetchUsdRates()
+    .then((rates) => {
+      cache.rates = rates;
+      cache.updatedAt = Date.now();
+      return rates;
+    })
+    .catch((err) => {
+      if (cache.rates) {
+        console.error("[price] FX refresh failed, keeping previous rates:", err);
+        return cache.rates;
+      }
+      throw err;
+    })
+    .finally(() => {
+      cache.promise = null;
+    });
+
+  return cache.promise;
+}
@@ -0,0 +1,150 @@
+import "server-only";
+
+import { aggregateQuotes } from "./aggregate";
+import type { FiatCurrency, PriceCurrency } from "./currencies";
+import { getUsdRates } from "./fx";
+import { getEnabledProviders } from "./providers";
+import type { PriceQuote, ZecPrice, ZecUsdSnapshot } from "./types";
+
+export * from "./currencies";
+export type { PriceProvider, PriceQuote, ZecPrice } from "./types";
+
+const FRESH_MS = 60_000;
+/** How long the last good snapshot may be served when every provider fails */
+const MAX_STALE_MS = 15 * 60_000;
+const PROVIDER_TIMEOUT_MS = 5000;
+
+export class PriceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PriceUnavailableError";
+  }
+}
+
+interface PriceCache {
+  snapshot: ZecUsdSnapshot | null;
+  promise: Promise<ZecUsdSnapshot> | null;
+}
+
+const cache: PriceCache = { snapshot: null, promise: null };
+
+async function fetchSnapshot(): Promise<ZecUsdSnapshot> {
+  const providers = getEnabledProviders();
+  const failed: string[] = [];
+
+  const results = await Promise.all(
+    providers.map(async (provider): Promise<PriceQuote | null> => {
+      try {
+        const price = await provider.fetchZecUsd(
+          AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+        );
+        return { provider: provider.name, price };
+      } catch (err) {
+        console.error(`[price] ${provider.name} failed:`, err);
+        failed.push(provider.name);
+        return null;
+      }
+    }),
+  );
+
+  const aggregated = aggregateQuotes(results.filter((q) => q !== null));
+  if (!aggregated) {
+    throw new PriceUnavailableError("No price provider returned a usable ZEC/USD quote");
+  }
+
+  if (aggregated.outliers.length > 0) {
+    console.warn(
+      `[price] outliers dropped: ${aggregated.outliers
+        .map((q) => `${q.provider}=${q.price}`)
+        .join(", ")} (median ${aggregated.price})`,
+    );
+  }
+
+  return {
+    price: aggregated.price,
+    sources: aggregated.accepted.map((q) => q.provider),
+    rejected: [...aggregated.outliers.map((q) => q.provider), ...failed],
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Median ZEC/USD across the enabled providers, cached for 60s with concurrent
+ * callers sharing one refresh. A failed refresh falls back to the last good
+ * snapshot for up to 15 minutes, after that a `PriceUnavailableError` is thrown.
+ */
+async function getZecUsdSnapshot(): Promise<{ snapshot: ZecUsdSnapshot; stale: boolean }> {
+  const now = Date.now();
+
+  if (cache.snapshot && now - cache.snapshot.updatedAt < FRESH_MS) {
+    return { snapshot: cache.snapshot, stale: false };
+  }
+
+  if (!cache.promise) {
+    cache.promise = fetchSnapshot().finally(() => {
+      cache.promise = null;
+    });
+  }
+
+  try {
+    cache.snapshot = await cache.promise;
+    return { snapshot: cache.snapshot, stale: false };
+  } catch (err) {
+    if (cache.snapshot && now - cache.snapshot.updatedAt < MAX_STALE_MS) {
+      return { snapshot: cache.snapshot, stale: true };
+    }
+    throw err;
+  }
+}
+
+export async function getZecPrice(currency: FiatCurrency = "usd"): Promise<ZecPrice> {
+  const { snapshot, stale } = await getZecUsdSnapshot();
+
+  let fx = 1;
+  if (currency !== "usd") {
+    const rates = await getUsdRates().catch((err) => {
+      console.error("[price] FX rates unavailable:", err);
+      throw new PriceUnavailableError("Fiat exchange rates are unavailable");
+    });
+
+    if (!rates[currency]) {
+      throw new PriceUnavailableError(`No exchange rate for ${currency.toUpperCase()}`);
+    }
+    fx = rates[currency];
+  }
+
+  return {
+    currency,
+    rate: snapshot.price * fx,
+    source: snapshot.sources.join(", "),
+    sources: snapshot.sources,
+    updatedAt: new Date(snapshot.updatedAt).toISOString(),
+    ageSeconds: Math.round((Date.now() - snapshot.updatedAt) / 1000),
+    stale,
+  };
+}
+
+/**
+ * Convert between ZEC and a fiat currency (or two fiat currencies through ZEC).
+ * `price` is the quote for the fiat side; for fiat->fiat it is the `to` quote.
+ */
+export async function convertAmount(
+  amount: number,
+  from: PriceCurrency,
+  to: PriceCurrency,
+): Promise<{ amount: number; price: ZecPrice | null }> {
+  if (from === to) return { amount, price: null };
+
+  if (from === "zec") {
+    const price = await getZecPrice(to as FiatCurrency);
+    return { amount: amount * price.rate, price };
+  }
+
+  const fromPrice = await getZecPrice(from);
+  const zec = amount / fromPrice.rate;
+
+  if (to === "zec") return { amount: zec, price: fromPrice };
+
+  const toPrice = await getZecPrice(to);
+  return { amount: zec * toPrice.rate, price: toPrice };
+}
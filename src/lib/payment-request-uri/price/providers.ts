@@ -0,0 +1,123 @@
+import "server-only";
+
+import { z } from "zod";
+import type { PriceProvider } from "./types";
+
+/** Fetches `url` and checks the body against the provider's response shape */
+async function getJson<T>(
+  url: string,
+  signal: AbortSignal,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<T> {
+  const res = await fetch(url, {
+    signal,
+    cache: "no-store",
+    headers: { Accept: "application/json" },
+  });
+
+  const host = new URL(url).host;
+  if (!res.ok) throw new Error(`HTTP ${res.status} from ${host}`);
+
+  const parsed = schema.safeParse(await res.json());
+  if (!parsed.success) {
+    throw new Error(`Unexpected response from ${host}: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data;
+}
+
+// Prices arrive as numbers or decimal strings depending on the provider
+const priceValue = z.union([z.number(), z.string()]);
+
+function toPrice(value: unknown): number {
+  const price = Number(value);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new Error(`Invalid price value: ${String(value)}`);
+  }
+  return price;
+}
+
+const diaResponse = z.object({ Price: priceValue });
+
+const dia: PriceProvider = {
+  name: "DIA",
+  async fetchZecUsd(signal) {
+    const url =
+      process.env.BASE_URL_ZCASH_PRICE_FEED ||
+      "https://api.diadata.org/v1/assetQuotation/Zcash/0x0000000000000000000000000000000000000000";
+    const { Price } = await getJson(url, signal, diaResponse);
+    return toPrice(Price);
+  },
+};
+
+const coingeckoResponse = z.object({ zcash: z.object({ usd: priceValue }) });
+
+const coingecko: PriceProvider = {
+  name: "CoinGecko",
+  async fetchZecUsd(signal) {
+    const data = await getJson(
+      "https://api.coingecko.com/api/v3/simple/price?ids=zcash&vs_currencies=usd",
+      signal,
+      coingeckoResponse,
+    );
+    return toPrice(data.zcash.usd);
+  },
+};
+
+const krakenResponse = z.object({
+  error: z.array(z.string()).default([]),
+  // Keyed by Kraken's internal pair name, e.g. XZECZUSD; `c` is [price, volume]
+  result: z.record(z.object({ c: z.array(priceValue).min(1) })).optional(),
+});
+
+const kraken: PriceProvider = {
+  name: "Kraken",
+  async fetchZecUsd(signal) {
+    const data = await getJson(
+      "https://api.kraken.com/0/public/Ticker?pair=ZECUSD",
+      signal,
+      krakenResponse,
+    );
+    if (data.error.length) throw new Error(data.error.join(", "));
+
+    const ticker = Object.values(data.result ?? {})[0];
+    return toPrice(ticker?.c[0]);
+  },
+};
+
+const coinbaseResponse = z.object({ data: z.object({ amount: priceValue }) });
+
+const coinbase: PriceProvider = {
+  name: "Coinbase",
+  async fetchZecUsd(signal) {
+    const data = await getJson(
+      "https://api.coinbase.com/v2/prices/ZEC-USD/spot",
+      signal,
+      coinbaseResponse,
+    );
+    return toPrice(data.data.amount);
+  },
+};
+
+export const PRICE_PROVIDERS: Record<string, PriceProvider> = {
+  dia,
+  coingecko,
+  kraken,
+  coinbase,
+};
+
+/**
+ * Providers enabled through `ZEC_PRICE_PROVIDERS` (comma separated keys of
+ * `PRICE_PROVIDERS`), all of them by default.
+ */
+export function getEnabledProviders(): PriceProvider[] {
+  const keys = (process.env.ZEC_PRICE_PROVIDERS || Object.keys(PRICE_PROVIDERS).join(","))
+    .split(",")
+    .map((k) => k.trim().toLowerCase())
+    .filter(Boolean);
+
+  return keys.flatMap((k) => {
+    const provider = PRICE_PROVIDERS[k];
+    if (!provider) console.warn(`[price] unknown provider "${k}" ignored`);
+    return provider ? [provider] : [];
+  });
+}
@@ -0,0 +1,30 @@
+export interface PriceQuote {
+  provider: string;
+  /** ZEC price in USD */
+  price: number;
+}
+
+export interface PriceProvider {
+  name: string;
+  fetchZecUsd(signal: AbortSignal): Promise<number>;
+}
+
+export interface ZecUsdSnapshot {
+  price: number;
+  /** Providers whose quote made it into the median */
+  sources: string[];
+  /** Providers dropped as outliers or because they failed */
+  rejected: string[];
+  updatedAt: number;
+}
+
+export interface ZecPrice {
+  currency: string;
+  rate: number;
+  source: string;
+  sources: string[];
+  updatedAt: string;
+  ageSeconds: number;
+  /** Served from the last good snapshot because every provider failed */
+  stale: boolean;
+}
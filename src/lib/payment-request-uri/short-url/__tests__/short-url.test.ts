@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+jest.mock("server-only", () => ({}));
+jest.mock("nanoid", () => ({ nanoid: jest.fn() }));
+
+import { nanoid } from "nanoid";
+import { createShortUrl, resolveShortUrl } from "..";
+
+const URI = "zcash:t1Hsc1LR8yKnbbe3twRp88p6vFfC5t7DLbs?amount=1.5";
+const nextIds = (...ids: string[]) => {
+  for (const id of ids) jest.mocked(nanoid).mockReturnValueOnce(id);
+};
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "short-url-"));
+  process.env.SHORT_URL_STORE_PATH = path.join(dir, "short-urls.json");
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("short urls", () => {
+  it("stores a link and resolves it by id", async () => {
+    nextIds("aaaaaaaa");
+    const record = await createShortUrl(URI, 3600);
+
+    expect(record).toMatchObject({ id: "aaaaaaaa", uri: URI });
+    expect(Date.parse(record.expiresAt!) - Date.parse(record.createdAt)).toBe(3600 * 1000);
+    await expect(resolveShortUrl("aaaaaaaa")).resolves.toEqual({ status: "ok", record });
+
+    const saved = JSON.parse(await fs.readFile(process.env.SHORT_URL_STORE_PATH!, "utf8"));
+    expect(saved.aaaaaaaa.uri).toBe(URI);
+  });
+
+  it("retries with a new id on a collision", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    nextIds("bbbbbbbb", "bbbbbbbb", "cccccccc");
+
+    const first = await createShortUrl(URI);
+    const second = await createShortUrl("zcash:t1Hsc1LR8yKnbbe3twRp88p6vFfC5t7DLbs?amount=2");
+
+    expect(first.id).toBe("bbbbbbbb");
+    expect(second.id).toBe("cccccccc");
+    expect((await resolveShortUrl("bbbbbbbb")).status).toBe("ok");
+  });
+
+  it("gives up when every id is taken", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    nextIds("aaaaaaaa", "aaaaaaaa", "aaaaaaaa", "aaaaaaaa", "aaaaaaaa");
+
+    await expect(createShortUrl(URI)).rejects.toThrow("Could not allocate a unique short id");
+  });
+
+  it("does not find unknown or malformed ids", async () => {
+    await expect(resolveShortUrl("zzzzzzzz")).resolves.toEqual({ status: "not_found" });
+    await expect(resolveShortUrl("short")).resolves.toEqual({ status: "not_found" });
+    await expect(resolveShortUrl("../../etc")).resolves.toEqual({ status: "not_found" });
+  });
+
+  it("expires links and drops them", async () => {
+    nextIds("dddddddd");
+    const record = await createShortUrl(URI, 60);
+    jest.spyOn(Date, "now").mockReturnValue(Date.parse(record.expiresAt!) + 1);
+
+    await expect(resolveShortUrl("dddddddd")).resolves.toEqual({ status: "expired" });
+    await expect(resolveShortUrl("dddddddd")).resolves.toEqual({ status: "not_found" });
+  });
+
+  it("refuses to resolve a stored link that is not a zcash: URI", async () => {
+    nextIds("eeeeeeee");
+    await createShortUrl("https://example.com");
+
+    await expect(resolveShortUrl("eeeeeeee")).resolves.toEqual({ status: "invalid" });
+  });
+});
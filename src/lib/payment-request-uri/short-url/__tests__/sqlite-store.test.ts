@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+jest.mock("server-only", () => ({}));
+
+// node:sqlite ships with Node 22.5+, older runtimes skip these
+const hasSqlite = (() => {
+  try {
+    require("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const record = (id: string) => ({
+  id,
+  uri: "zcash:t1Hsc1LR8yKnbbe3twRp88p6vFfC5t7DLbs?amount=1.5",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  expiresAt: null,
+});
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "short-url-sqlite-"));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+(hasSqlite ? describe : describe.skip)("sqlite short url store", () => {
+  it("inserts, refuses a taken id, reads back and deletes", async () => {
+    const { createSqliteShortUrlStore } = await import("../sqlite-store");
+    const filePath = path.join(dir, "nested", "short-urls.db");
+    const store = createSqliteShortUrlStore(filePath);
+
+    await expect(store.insert(record("aaaaaaaa"))).resolves.toBe(true);
+    await expect(store.insert({ ...record("aaaaaaaa"), uri: "zcash:other" })).resolves.toBe(false);
+    await expect(store.get("aaaaaaaa")).resolves.toEqual(record("aaaaaaaa"));
+
+    // A second connection, as another process would open it, sees the same rows
+    await expect(createSqliteShortUrlStore(filePath).get("aaaaaaaa")).resolves.toEqual(record("aaaaaaaa"));
+
+    await store.delete("aaaaaaaa");
+    await expect(store.get("aaaaaaaa")).resolves.toBeNull();
+  });
+});
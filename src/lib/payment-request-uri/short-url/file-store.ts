@@ -0,0 +1,44 @@
+import "server-only";
+
+import path from "path";
+import { createJsonFile, DATA_DIR } from "../json-file";
+import type { ShortUrlRecord, ShortUrlStore } from "./types";
+
+const DEFAULT_STORE_PATH = path.join(DATA_DIR, "short-urls.json");
+
+type StoreData = Record<string, ShortUrlRecord>; // shortId => record
+
+/**
+ * JSON-file backed store for self-hosted deployments.
+ *
+ * Writes are serialized within the process and land atomically (temp file +
+ * rename), but nothing locks the file between processes, so run a single
+ * instance or use the SQLite or Supabase store.
+ */
+export function createFileShortUrlStore(
+  filePath = process.env.SHORT_URL_STORE_PATH || DEFAULT_STORE_PATH,
+): ShortUrlStore {
+  const file = createJsonFile<StoreData>(filePath, () => ({}));
+
+  return {
+    insert(record) {
+      return file.update((store) => {
+        if (store[record.id]) return false;
+
+        store[record.id] = record;
+        return true;
+      });
+    },
+
+    async get(id) {
+      const store = await file.read();
+      return store[id] ?? null;
+    },
+
+    async delete(id) {
+      await file.update((store) => {
+        delete store[id];
+      });
+    },
+  };
+}
@@ -0,0 +1,116 @@
+import "server-only";
+
+import { nanoid } from "nanoid";
+import { createFileShortUrlStore } from "./file-store";
+import type { ShortUrlRecord, ShortUrlStore, ShortUrlStoreKind } from "./types";
+
+export type { ShortUrlRecord, ShortUrlStore, ShortUrlStoreKind } from "./types";
+
+export const SHORT_ID_LENGTH = 8;
+const MAX_ID_ATTEMPTS = 5;
+
+const DAY_SECONDS = 24 * 60 * 60;
+export const DEFAULT_TTL_SECONDS = 30 * DAY_SECONDS;
+export const MAX_TTL_SECONDS = 365 * DAY_SECONDS;
+
+const SHORT_ID_PATTERN = new RegExp(`^[A-Za-z0-9_-]{${SHORT_ID_LENGTH}}$`);
+
+let storePromise: Promise<ShortUrlStore> | null = null;
+
+/**
+ * Resolve the configured store once per process.
+ * `SHORT_URL_STORE=supabase` opts into the Supabase table and `sqlite` into a
+ * local database, anything else uses the JSON file.
+ */
+export function getShortUrlStore(): Promise<ShortUrlStore> {
+  if (storePromise) return storePromise;
+
+  const kind = (process.env.SHORT_URL_STORE || "file") as ShortUrlStoreKind;
+
+  // Lazy imports: the Supabase env and node:sqlite are only required when selected
+  if (kind === "supabase") {
+    storePromise = import("./supabase-store").then((m) => m.createSupabaseShortUrlStore());
+  } else if (kind === "sqlite") {
+    storePromise = import("./sqlite-store").then((m) => m.createSqliteShortUrlStore());
+  } else {
+    storePromise = Promise.resolve(createFileShortUrlStore());
+  }
+
+  return storePromise;
+}
+
+export function isZcashUri(value: string): boolean {
+  if (!value.toLowerCase().startsWith("zcash:")) return false;
+
+  try {
+    const url = new URL(value);
+    return url.protocol === "zcash:";
+  } catch {
+    return false;
+  }
+}
+
+export function isShortId(id: string): boolean {
+  return SHORT_ID_PATTERN.test(id);
+}
+
+function resolveTtlSeconds(ttlSeconds?: number): number {
+  const fallback = Number(process.env.SHORT_URL_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+  const ttl = ttlSeconds ?? fallback;
+
+  return Math.min(Math.max(ttl, 60), MAX_TTL_SECONDS);
+}
+
+export async function createShortUrl(
+  uri: string,
+  ttlSeconds?: number,
+): Promise<ShortUrlRecord> {
+  const store = await getShortUrlStore();
+  const now = Date.now();
+
+  const record: Omit<ShortUrlRecord, "id"> = {
+    uri,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + resolveTtlSeconds(ttlSeconds) * 1000).toISOString(),
+  };
+
+  // nanoid(8) has a large but finite space, retry on the rare collision
+  for (let attempt = 0; attempt < MAX_ID_ATTEMPTS; attempt++) {
+    const candidate = { id: nanoid(SHORT_ID_LENGTH), ...record };
+
+    if (await store.insert(candidate)) {
+      return candidate;
+    }
+
+    console.warn(`[short-url] id collision on ${candidate.id}, retrying`);
+  }
+
+  throw new Error("Could not allocate a unique short id");
+}
+
+export type ResolveShortUrlResult =
+  | { status: "ok"; record: ShortUrlRecord }
+  | { status: "not_found" }
+  | { status: "expired" }
+  | { status: "invalid" };
+
+export async function resolveShortUrl(id: string): Promise<ResolveShortUrlResult> {
+  if (!isShortId(id)) return { status: "not_found" };
+
+  const store = await getShortUrlStore();
+  const record = await store.get(id);
+
+  if (!record) return { status: "not_found" };
+
+  if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+    // Expired entries are dropped lazily on read
+    await store.delete(id).catch((err) =>
+      console.error("[short-url] failed to drop expired entry:", err),
+    );
+    return { status: "expired" };
+  }
+
+  if (!isZcashUri(record.uri)) return { status: "invalid" };
+
+  return { status: "ok", record };
+}
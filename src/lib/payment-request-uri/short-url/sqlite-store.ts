@@ -0,0 +1,71 @@
+import "server-only";
+
+import { mkdirSync } from "fs";
+import { DatabaseSync } from "node:sqlite";
+import path from "path";
+import { DATA_DIR } from "../json-file";
+import type { ShortUrlRecord, ShortUrlStore } from "./types";
+
+const DEFAULT_STORE_PATH = path.join(DATA_DIR, "short-urls.db");
+
+interface ShortUrlRow {
+  id: string;
+  uri: string;
+  created_at: string;
+  expires_at: string | null;
+}
+
+function toRecord(row: ShortUrlRow): ShortUrlRecord {
+  return {
+    id: row.id,
+    uri: row.uri,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * SQLite backed store, on Node's built-in `node:sqlite` (Node 22.13+), so
+ * there is no native addon to build. Unlike the JSON file it is safe with
+ * several processes on one host; serverless deployments still need the
+ * Supabase store.
+ */
+export function createSqliteShortUrlStore(
+  filePath = process.env.SHORT_URL_STORE_PATH || DEFAULT_STORE_PATH,
+): ShortUrlStore {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const db = new DatabaseSync(filePath);
+  db.exec(`
+    PRAGMA journal_mode = WAL;
+    PRAGMA busy_timeout = 5000;
+    CREATE TABLE IF NOT EXISTS payment_short_urls (
+      id TEXT PRIMARY KEY,
+      uri TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT
+    );
+  `);
+
+  const insert = db.prepare(
+    "INSERT OR IGNORE INTO payment_short_urls (id, uri, created_at, expires_at) VALUES (?, ?, ?, ?)",
+  );
+  const select = db.prepare("SELECT id, uri, created_at, expires_at FROM payment_short_urls WHERE id = ?");
+  const remove = db.prepare("DELETE FROM payment_short_urls WHERE id = ?");
+
+  return {
+    async insert(record) {
+      const { changes } = insert.run(record.id, record.uri, record.createdAt, record.expiresAt);
+      return Number(changes) === 1;
+    },
+
+    async get(id) {
+      const row = select.get(id) as ShortUrlRow | undefined;
+      return row ? toRecord(row) : null;
+    },
+
+    async delete(id) {
+      remove.run(id);
+    },
+  };
+}
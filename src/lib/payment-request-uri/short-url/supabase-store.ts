@@ -0,0 +1,70 @@
+import "server-only";
+
+import { getSupabaseAdminClient } from "@/lib/ai/supabase";
+import type { ShortUrlRecord, ShortUrlStore } from "./types";
+
+const TABLE = "payment_short_urls";
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+interface ShortUrlRow {
+  id: string;
+  uri: string;
+  created_at: string;
+  expires_at: string | null;
+}
+
+function toRecord(row: ShortUrlRow): ShortUrlRecord {
+  return {
+    id: row.id,
+    uri: row.uri,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Supabase backed store, see `sql/payment_short_urls.sql` for the table.
+ */
+export function createSupabaseShortUrlStore(): ShortUrlStore {
+  const supabase = getSupabaseAdminClient();
+
+  return {
+    async insert(record) {
+      const { error } = await supabase.from(TABLE).insert({
+        id: record.id,
+        uri: record.uri,
+        created_at: record.createdAt,
+        expires_at: record.expiresAt,
+      });
+
+      if (!error) return true;
+      if (error.code === UNIQUE_VIOLATION) return false;
+
+      throw new Error(`[short-url] supabase insert failed: ${error.message}`);
+    },
+
+    async get(id) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("id, uri, created_at, expires_at")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`[short-url] supabase read failed: ${error.message}`);
+      }
+
+      return data ? toRecord(data as ShortUrlRow) : null;
+    },
+
+    async delete(id) {
+      const { error } = await supabase.from(TABLE).delete().eq("id", id);
+
+      if (error) {
+        throw new Error(`[short-url] supabase delete failed: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,19 @@
+export interface ShortUrlRecord {
+  id: string;
+  uri: string;
+  createdAt: string;
+  /** ISO timestamp after which the link stops resolving, `null` = never */
+  expiresAt: string | null;
+}
+
+export interface ShortUrlStore {
+  /**
+   * Persist a record only if its id is not taken yet.
+   * Resolves `false` on an id collision so the caller can retry with a new id.
+   */
+  insert(record: ShortUrlRecord): Promise<boolean>;
+  get(id: string): Promise<ShortUrlRecord | null>;
+  delete(id: string): Promise<void>;
+}
+
+export type ShortUrlStoreKind = "file" | "sqlite" | "supabase";
@@ -0,0 +1,99 @@
+/**
+ * @jest-environment node
+ */
+import type { TelemetryCounter, TelemetryStore } from "../types";
+
+jest.mock("server-only", () => ({}));
+
+const mockCounters: TelemetryCounter[] = [];
+const mockStore: TelemetryStore = {
+  async increment(day, origin, event) {
+    const counter = mockCounters.find((c) => c.day === day && c.origin === origin && c.event === event);
+    if (counter) counter.count += 1;
+    else mockCounters.push({ day, origin, event, count: 1 });
+  },
+  async list(sinceDay) {
+    return mockCounters.filter((c) => c.day >= sinceDay);
+  },
+};
+jest.mock("../file-store", () => ({ createFileTelemetryStore: () => mockStore }));
+
+import {
+  getWidgetTelemetrySummary,
+  MAX_ORIGINS_PER_DAY,
+  MAX_SUMMARY_ORIGINS,
+  OTHER_ORIGIN,
+  recordWidgetEvent,
+  toDay,
+} from "..";
+
+const today = toDay(new Date());
+const yesterday = toDay(new Date(Date.now() - 24 * 60 * 60 * 1000));
+const counter = (
+  day: string,
+  origin: string,
+  event: TelemetryCounter["event"],
+  count: number,
+): TelemetryCounter => ({ day, origin, event, count });
+
+beforeEach(() => {
+  mockCounters.length = 0;
+});
+
+describe("widget telemetry summary", () => {
+  it("totals counters by origin and by day with the derived rates", async () => {
+    mockCounters.push(
+      counter(yesterday, "https://a.example", "zcash_payment_widget_load_start", 4),
+      counter(yesterday, "https://a.example", "zcash_payment_widget_loaded", 3),
+      counter(today, "https://a.example", "zcash_payment_widget_load_start", 2),
+      counter(today, "https://a.example", "zcash_payment_widget_loaded", 2),
+      counter(today, "https://a.example", "zcash_payment_widget_opened", 4),
+      counter(today, "https://a.example", "zcash_payment_widget_copy_uri", 1),
+      counter(today, "https://b.example", "zcash_payment_widget_load_start", 1),
+      counter(today, "https://b.example", "zcash_payment_widget_load_failed", 1),
+      counter("2000-01-01", "https://old.example", "zcash_payment_widget_load_start", 9),
+    );
+
+    const summary = await getWidgetTelemetrySummary(2);
+
+    expect(summary.since).toBe(yesterday);
+    expect(summary.totals).toMatchObject({ loadStart: 7, loaded: 5, loadFailed: 1, opened: 4 });
+    expect(summary.totals.loadSuccessRate).toBeCloseTo(5 / 7);
+    expect(summary.totals.conversionRate).toBe(0.25);
+
+    expect(summary.byOrigin.map((r) => [r.origin, r.loadStart])).toEqual([
+      ["https://a.example", 6],
+      ["https://b.example", 1],
+    ]);
+    expect(summary.byOrigin[1]).toMatchObject({ loadSuccessRate: 0, conversionRate: null });
+    expect(summary.byDay.map((r) => [r.day, r.loadStart, r.loaded])).toEqual([
+      [yesterday, 4, 3],
+      [today, 3, 2],
+    ]);
+  });
+
+  it("folds the origins past the busiest into one row", async () => {
+    for (let i = 0; i <= MAX_SUMMARY_ORIGINS; i++) {
+      mockCounters.push(counter(today, `https://${i}.example`, "zcash_payment_widget_load_start", i + 1));
+    }
+    mockCounters.push(counter(today, OTHER_ORIGIN, "zcash_payment_widget_load_start", 5));
+
+    const { byOrigin } = await getWidgetTelemetrySummary();
+
+    expect(byOrigin).toHaveLength(MAX_SUMMARY_ORIGINS + 1);
+    expect(byOrigin.find((r) => r.origin === OTHER_ORIGIN)?.loadStart).toBe(6);
+    expect(byOrigin.some((r) => r.origin === "https://0.example")).toBe(false);
+  });
+
+  it("stops adding new origins once a day has too many", async () => {
+    for (let i = 0; i < MAX_ORIGINS_PER_DAY + 10; i++) {
+      await recordWidgetEvent("zcash_payment_widget_loaded", `https://${i}.example`);
+    }
+    await recordWidgetEvent("zcash_payment_widget_loaded", "https://0.example");
+
+    const origins = new Set(mockCounters.map((c) => c.origin));
+    expect(origins.size).toBe(MAX_ORIGINS_PER_DAY + 1);
+    expect(mockCounters.find((c) => c.origin === OTHER_ORIGIN)?.count).toBe(10);
+    expect(mockCounters.find((c) => c.origin === "https://0.example")?.count).toBe(2);
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Events fired by the payment widget adapters and the embed script.
+ * Shared by the telemetry endpoint (schema) and the dashboard (labels).
+ */
+export const WIDGET_EVENTS = [
+  "zcash_payment_widget_load_start",
+  "zcash_payment_widget_loaded",
+  "zcash_payment_widget_load_failed",
+  "zcash_payment_widget_opened",
+  "zcash_payment_widget_copy_address",
+  "zcash_payment_widget_copy_uri",
+  "zcash_payment_widget_open_wallet",
+  "zcash_payment_widget_short_url",
+] as const;
+
+export type WidgetEvent = (typeof WIDGET_EVENTS)[number];
+
+export const WIDGET_TELEMETRY_PATH = "/payment-request-uri/widget-telemetry";
@@ -0,0 +1,32 @@
+import "server-only";
+
+import path from "path";
+import { createJsonFile, DATA_DIR } from "../json-file";
+import type { TelemetryCounter, TelemetryStore } from "./types";
+
+const DEFAULT_STORE_PATH = path.join(DATA_DIR, "widget-telemetry.json");
+
+type StoreData = Record<string, TelemetryCounter>; // day|origin|event => counter
+
+export function createFileTelemetryStore(
+  filePath = process.env.WIDGET_TELEMETRY_STORE_PATH || DEFAULT_STORE_PATH,
+): TelemetryStore {
+  const file = createJsonFile<StoreData>(filePath, () => ({}));
+
+  return {
+    async increment(day, origin, event) {
+      const key = `${day}|${origin}|${event}`;
+
+      await file.update((store) => {
+        const counter = store[key] ?? { day, origin, event, count: 0 };
+        counter.count += 1;
+        store[key] = counter;
+      });
+    },
+
+    async list(sinceDay) {
+      const store = await file.read();
+      return Object.values(store).filter((c) => c.day >= sinceDay);
+    },
+  };
+}
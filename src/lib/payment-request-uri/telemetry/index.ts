@@ -0,0 +1,193 @@
+import "server-only";
+
+import type { WidgetEvent } from "./events";
+import { createFileTelemetryStore } from "./file-store";
+import type { TelemetryCounter, TelemetryStore } from "./types";
+
+export { WIDGET_EVENTS, type WidgetEvent } from "./events";
+export type { TelemetryCounter, TelemetryStore } from "./types";
+
+const UNKNOWN_ORIGIN = "unknown";
+/** Origins past the caps below are counted together under this name */
+export const OTHER_ORIGIN = "other";
+const MAX_ORIGIN_LENGTH = 255;
+/** The origin is caller-supplied, so it is capped to keep the store bounded */
+export const MAX_ORIGINS_PER_DAY = 200;
+export const MAX_SUMMARY_ORIGINS = 50;
+
+let storePromise: Promise<TelemetryStore> | null = null;
+
+/**
+ * Resolve the configured store once per process.
+ * `WIDGET_TELEMETRY_STORE=supabase` opts into the Supabase table, anything else uses the JSON file.
+ */
+export function getTelemetryStore(): Promise<TelemetryStore> {
+  if (storePromise) return storePromise;
+
+  storePromise =
+    process.env.WIDGET_TELEMETRY_STORE === "supabase"
+      ? import("./supabase-store").then((m) => m.createSupabaseTelemetryStore())
+      : Promise.resolve(createFileTelemetryStore());
+
+  return storePromise;
+}
+
+/**
+ * Reduce an `Origin`/`Referer` header to `scheme://host[:port]`.
+ * Paths and query strings are dropped so no page-level data is stored.
+ */
+export function normalizeOrigin(value: string | null | undefined): string {
+  if (!value || value === "null") return UNKNOWN_ORIGIN;
+
+  try {
+    const { protocol, host } = new URL(value);
+    if (protocol !== "http:" && protocol !== "https:") return UNKNOWN_ORIGIN;
+
+    return `${protocol}//${host}`.toLowerCase().slice(0, MAX_ORIGIN_LENGTH);
+  } catch {
+    return UNKNOWN_ORIGIN;
+  }
+}
+
+export function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Origins already counted today, read from the store once per process and day
+let originsToday: { day: string; origins: Promise<Set<string>> } | null = null;
+
+function getOriginsOn(store: TelemetryStore, day: string): Promise<Set<string>> {
+  if (originsToday?.day !== day) {
+    const origins = store
+      .list(day)
+      .then((counters) => new Set(counters.filter((c) => c.day === day).map((c) => c.origin)));
+    originsToday = { day, origins };
+    // Retry the read on the next event rather than caching the failure
+    origins.catch(() => {
+      if (originsToday?.origins === origins) originsToday = null;
+    });
+  }
+  return originsToday.origins;
+}
+
+export async function recordWidgetEvent(event: WidgetEvent, origin: string) {
+  const store = await getTelemetryStore();
+  const day = toDay(new Date());
+  const origins = await getOriginsOn(store, day);
+
+  if (!origins.has(origin)) {
+    if (origins.size < MAX_ORIGINS_PER_DAY) origins.add(origin);
+    else origin = OTHER_ORIGIN;
+  }
+
+  await store.increment(day, origin, event);
+}
+
+export interface WidgetEventTotals {
+  loadStart: number;
+  loaded: number;
+  loadFailed: number;
+  opened: number;
+  copyAddress: number;
+  copyUri: number;
+  openWallet: number;
+  shortUrl: number;
+}
+
+export interface WidgetTelemetryRow extends WidgetEventTotals {
+  /** `loaded / loadStart`, `null` without any load attempts */
+  loadSuccessRate: number | null;
+  /** Share of modal opens that ended in a copy or a wallet hand-off */
+  conversionRate: number | null;
+}
+
+export interface WidgetTelemetrySummary {
+  since: string;
+  totals: WidgetTelemetryRow;
+  byOrigin: (WidgetTelemetryRow & { origin: string })[];
+  byDay: (WidgetTelemetryRow & { day: string })[];
+}
+
+const EVENT_FIELDS: Record<WidgetEvent, keyof WidgetEventTotals> = {
+  zcash_payment_widget_load_start: "loadStart",
+  zcash_payment_widget_loaded: "loaded",
+  zcash_payment_widget_load_failed: "loadFailed",
+  zcash_payment_widget_opened: "opened",
+  zcash_payment_widget_copy_address: "copyAddress",
+  zcash_payment_widget_copy_uri: "copyUri",
+  zcash_payment_widget_open_wallet: "openWallet",
+  zcash_payment_widget_short_url: "shortUrl",
+};
+
+function emptyTotals(): WidgetEventTotals {
+  return {
+    loadStart: 0,
+    loaded: 0,
+    loadFailed: 0,
+    opened: 0,
+    copyAddress: 0,
+    copyUri: 0,
+    openWallet: 0,
+    shortUrl: 0,
+  };
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.min(part / whole, 1) : null;
+}
+
+function toRow(totals: WidgetEventTotals): WidgetTelemetryRow {
+  const converted = totals.copyAddress + totals.copyUri + totals.openWallet;
+
+  return {
+    ...totals,
+    loadSuccessRate: ratio(totals.loaded, totals.loadStart),
+    conversionRate: ratio(converted, totals.opened),
+  };
+}
+
+function groupBy(
+  counters: TelemetryCounter[],
+  key: (c: TelemetryCounter) => string,
+): Map<string, WidgetEventTotals> {
+  const groups = new Map<string, WidgetEventTotals>();
+
+  for (const c of counters) {
+    const k = key(c);
+    const totals = groups.get(k) ?? emptyTotals();
+    const field = EVENT_FIELDS[c.event];
+
+    if (field) totals[field] += c.count;
+    groups.set(k, totals);
+  }
+
+  return groups;
+}
+
+export async function getWidgetTelemetrySummary(
+  days = 30,
+): Promise<WidgetTelemetrySummary> {
+  const since = toDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+  const store = await getTelemetryStore();
+  const counters = await store.list(since);
+
+  const totals = groupBy(counters, () => "all").get("all") ?? emptyTotals();
+
+  const origins = groupBy(counters, (c) => c.origin);
+  const ranked = Array.from(origins.keys())
+    .filter((origin) => origin !== OTHER_ORIGIN)
+    .sort((a, b) => origins.get(b)!.loadStart - origins.get(a)!.loadStart);
+  const shown = new Set(ranked.slice(0, MAX_SUMMARY_ORIGINS));
+
+  const byOrigin = Array.from(
+    groupBy(counters, (c) => (shown.has(c.origin) ? c.origin : OTHER_ORIGIN)),
+  )
+    .map(([origin, t]) => ({ origin, ...toRow(t) }))
+    .sort((a, b) => b.loadStart - a.loadStart);
+
+  const byDay = Array.from(groupBy(counters, (c) => c.day))
+    .map(([day, t]) => ({ day, ...toRow(t) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  return { since, totals: toRow(totals), byOrigin, byDay };
+}
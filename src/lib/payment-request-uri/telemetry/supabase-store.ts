@@ -0,0 +1,41 @@
+import "server-only";
+
+import { getSupabaseAdminClient } from "@/lib/ai/supabase";
+import type { TelemetryCounter, TelemetryStore } from "./types";
+
+const TABLE = "payment_widget_telemetry";
+
+/**
+ * Supabase backed store, see `sql/payment_widget_telemetry.sql` for the table
+ * and the `increment_payment_widget_telemetry` function used for atomic upserts.
+ */
+export function createSupabaseTelemetryStore(): TelemetryStore {
+  const supabase = getSupabaseAdminClient();
+
+  return {
+    async increment(day, origin, event) {
+      const { error } = await supabase.rpc("increment_payment_widget_telemetry", {
+        p_day: day,
+        p_origin: origin,
+        p_event: event,
+      });
+
+      if (error) {
+        throw new Error(`[telemetry] supabase increment failed: ${error.message}`);
+      }
+    },
+
+    async list(sinceDay) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("day, origin, event, count")
+        .gte("day", sinceDay);
+
+      if (error) {
+        throw new Error(`[telemetry] supabase read failed: ${error.message}`);
+      }
+
+      return (data ?? []) as TelemetryCounter[];
+    },
+  };
+}
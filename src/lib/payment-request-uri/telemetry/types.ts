@@ -0,0 +1,17 @@
+import type { WidgetEvent } from "./events";
+
+/** One aggregated counter, no IPs, addresses or payloads are kept */
+export interface TelemetryCounter {
+  /** UTC day, `YYYY-MM-DD` */
+  day: string;
+  /** Embedding site origin, e.g. `https://shop.example` */
+  origin: string;
+  event: WidgetEvent;
+  count: number;
+}
+
+export interface TelemetryStore {
+  increment(day: string, origin: string, event: WidgetEvent): Promise<void>;
+  /** Counters for `sinceDay` (inclusive) onwards */
+  list(sinceDay: string): Promise<TelemetryCounter[]>;
+}
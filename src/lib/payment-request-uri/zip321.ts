@@ -0,0 +1,413 @@
+/**
+ * ZIP-321 payment request URIs: https://zips.z.cash/zip-0321
+ *
+ * Shared by the payment request builder, the URI decoder tab and the QR code
+ * API so all of them agree on what a valid `zcash:` request looks like.
+ * Runs in both the browser and on the server (no Node-only APIs).
+ */
+
+export const ZIP321_SCHEME = "zcash:";
+
+/** Maximum decoded memo length in bytes */
+export const MAX_MEMO_BYTES = 512;
+
+/** Total ZEC supply, no single payment can request more */
+export const MAX_ZEC_AMOUNT = 21_000_000;
+
+/** ZEC amounts are expressed in zatoshi precision */
+export const ZEC_DECIMALS = 8;
+
+const AMOUNT_PATTERN = new RegExp(`^(\\d+)(?:\\.(\\d{1,${ZEC_DECIMALS}}))?$`);
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]*$/;
+const PARAM_PATTERN = /^([A-Za-z][A-Za-z0-9+-]*)(?:\.([1-9]\d{0,3}))?$/;
+
+const KNOWN_PARAMS = ["address", "amount", "memo", "label", "message"] as const;
+type KnownParam = (typeof KNOWN_PARAMS)[number];
+
+export type ZcashAddressKind =
+  | "transparent"
+  | "sapling"
+  | "unified"
+  | "sprout"
+  | "unknown";
+
+export interface Zip321PaymentInput {
+  address: string;
+  /** ZEC amount as a decimal string with at most 8 decimals */
+  amount?: string;
+  /** Plain-text memo, base64url encoded on serialization */
+  memo?: string;
+  label?: string;
+  message?: string;
+}
+
+export interface Zip321ParsedPayment {
+  /** ZIP-321 `paramindex`, 0 for the unindexed payment */
+  index: number;
+  address: string;
+  amount?: string;
+  /** Memo as it appears in the URI (base64url) */
+  memo?: string;
+  /** UTF-8 decoding of `memo`, when it holds text */
+  memoText?: string;
+  label?: string;
+  message?: string;
+  /** Unrecognised optional parameters, kept as-is */
+  otherParams: Record<string, string>;
+  errors: string[];
+}
+
+export interface Zip321Issue {
+  /** Payment index the issue belongs to, `null` for URI-level problems */
+  index: number | null;
+  message: string;
+}
+
+export interface Zip321ParseResult {
+  payments: Zip321ParsedPayment[];
+  /** URI-level errors plus every payment error, flattened */
+  issues: Zip321Issue[];
+  valid: boolean;
+}
+
+export interface Zip321Options {
+  /** Optional full address check (e.g. the WASM or native parser) */
+  isValidAddress?: (address: string) => boolean;
+}
+
+export class Zip321Error extends Error {
+  constructor(public readonly issues: Zip321Issue[]) {
+    super(issues.map(formatIssue).join("; "));
+    this.name = "Zip321Error";
+  }
+}
+
+export function formatIssue({ index, message }: Zip321Issue): string {
+  return index === null ? message : `Payment ${index + 1}: ${message}`;
+}
+
+export function getZcashAddressKind(address: string): ZcashAddressKind {
+  const addr = address.trim();
+
+  if (/^(t1|t3|tm|t2|tex1|textest1)/.test(addr)) return "transparent";
+  if (/^(zs1|ztestsapling1)/.test(addr)) return "sapling";
+  if (/^(u1|utest1)/.test(addr)) return "unified";
+  if (/^(zc|zt)/.test(addr)) return "sprout";
+
+  return "unknown";
+}
+
+export function isShieldedAddress(address: string): boolean {
+  const kind = getZcashAddressKind(address);
+  return kind === "sapling" || kind === "unified";
+}
+
+/**
+ * Round a numeric ZEC amount to zatoshi precision and print it without
+ * exponent notation or trailing zeros, e.g. `0.1 + 0.2` => `"0.3"`.
+ */
+export function formatZecAmount(amount: number): string {
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`Invalid ZEC amount: ${amount}`);
+  }
+
+  return amount.toFixed(ZEC_DECIMALS).replace(/\.?0+$/, "");
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlToBytes(value: string): Uint8Array | null {
+  if (!BASE64URL_PATTERN.test(value) || value.length % 4 === 1) return null;
+
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/");
+  try {
+    const binary = atob(padded + "=".repeat((4 - (padded.length % 4)) % 4));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export function memoByteLength(memo: string): number {
+  return new TextEncoder().encode(memo).length;
+}
+
+/** Encode a UTF-8 memo as unpadded base64url */
+export function encodeZip321Memo(memo: string): string {
+  return bytesToBase64Url(new TextEncoder().encode(memo));
+}
+
+/** Decode a base64url memo back to text, `null` when it isn't valid UTF-8 */
+export function decodeZip321Memo(memo: string): string | null {
+  const bytes = base64UrlToBytes(memo);
+  if (!bytes) return null;
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+export function validateZip321Amount(amount: string): string | null {
+  const match = AMOUNT_PATTERN.exec(amount);
+
+  if (!match) {
+    return `Amount "${amount}" must be a decimal number with at most ${ZEC_DECIMALS} decimal places`;
+  }
+
+  if (Number(amount) > MAX_ZEC_AMOUNT) {
+    return `Amount exceeds the maximum of ${MAX_ZEC_AMOUNT.toLocaleString("en-US")} ZEC`;
+  }
+
+  return null;
+}
+
+function validateAddress(address: string, options: Zip321Options): string | null {
+  if (!address) return "Missing address";
+
+  const kind = getZcashAddressKind(address);
+
+  if (kind === "sprout") return "Sprout addresses are not supported by ZIP-321";
+  if (kind === "unknown") return `Unrecognised Zcash address "${address}"`;
+
+  if (options.isValidAddress && !options.isValidAddress(address)) {
+    return "Not a valid Zcash address";
+  }
+
+  return null;
+}
+
+function validateMemoBytes(address: string, byteLength: number): string[] {
+  const errors: string[] = [];
+
+  if (getZcashAddressKind(address) === "transparent") {
+    errors.push("Memos cannot be sent to transparent addresses");
+  }
+
+  if (byteLength > MAX_MEMO_BYTES) {
+    errors.push(`Memo is ${byteLength} bytes, the limit is ${MAX_MEMO_BYTES}`);
+  }
+
+  return errors;
+}
+
+/** Validation errors for a single payment to be serialized */
+export function validateZip321Payment(
+  payment: Zip321PaymentInput,
+  options: Zip321Options = {},
+): string[] {
+  const errors: string[] = [];
+  const address = payment.address.trim();
+
+  const addressError = validateAddress(address, options);
+  if (addressError) errors.push(addressError);
+
+  if (payment.amount) {
+    const amountError = validateZip321Amount(payment.amount);
+    if (amountError) errors.push(amountError);
+  }
+
+  if (payment.memo) {
+    errors.push(...validateMemoBytes(address, memoByteLength(payment.memo)));
+  }
+
+  return errors;
+}
+
+// ZIP-321 `qchar` allows a few more characters than encodeURIComponent keeps,
+// over-encoding is still valid and every wallet decodes it.
+function encodeParam(value: string): string {
+  return encodeURIComponent(value);
+}
+
+/**
+ * Build a ZIP-321 URI from one or more payments.
+ * Throws a `Zip321Error` listing every problem when any payment is invalid.
+ */
+export function serializeZip321Uri(
+  payments: Zip321PaymentInput[],
+  options: Zip321Options = {},
+): string {
+  if (payments.length === 0) {
+    throw new Zip321Error([{ index: null, message: "At least one payment is required" }]);
+  }
+
+  const issues = payments.flatMap((p, i) =>
+    validateZip321Payment(p, options).map((message) => ({ index: i, message })),
+  );
+
+  if (issues.length > 0) throw new Zip321Error(issues);
+
+  const single = payments.length === 1;
+  const parts: string[] = [];
+
+  payments.forEach((p, i) => {
+    const idx = i === 0 ? "" : `.${i}`;
+
+    if (!single) parts.push(`address${idx}=${p.address.trim()}`);
+    if (p.amount) parts.push(`amount${idx}=${p.amount}`);
+    if (p.label) parts.push(`label${idx}=${encodeParam(p.label)}`);
+    if (p.message) parts.push(`message${idx}=${encodeParam(p.message)}`);
+    if (p.memo) parts.push(`memo${idx}=${encodeZip321Memo(p.memo)}`);
+  });
+
+  const path = single ? payments[0].address.trim() : "";
+  const query = parts.length > 0 ? `?${parts.join("&")}` : "";
+
+  return `${ZIP321_SCHEME}${path}${query}`;
+}
+
+function decodeParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a ZIP-321 URI without throwing. Every problem found is reported on the
+ * payment it belongs to (or as a URI-level issue) so the UI can show them all.
+ */
+export function parseZip321Uri(
+  input: string,
+  options: Zip321Options = {},
+): Zip321ParseResult {
+  const uri = input.trim();
+  const uriErrors: string[] = [];
+  const groups = new Map<number, Map<string, string>>();
+
+  const group = (index: number) => {
+    if (!groups.has(index)) groups.set(index, new Map());
+    return groups.get(index)!;
+  };
+
+  if (!uri.toLowerCase().startsWith(ZIP321_SCHEME)) {
+    return {
+      payments: [],
+      issues: [{ index: null, message: `URI must start with "${ZIP321_SCHEME}"` }],
+      valid: false,
+    };
+  }
+
+  const rest = uri.slice(ZIP321_SCHEME.length);
+  const queryStart = rest.indexOf("?");
+  const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const query = queryStart === -1 ? "" : rest.slice(queryStart + 1);
+
+  if (path) group(0).set("address", path);
+
+  for (const pair of query.split("&")) {
+    if (!pair) continue;
+
+    const eq = pair.indexOf("=");
+    if (eq === -1) {
+      uriErrors.push(`Parameter "${pair}" has no value`);
+      continue;
+    }
+
+    const key = pair.slice(0, eq);
+    const match = PARAM_PATTERN.exec(key);
+    if (!match) {
+      uriErrors.push(`Invalid parameter name "${key}"`);
+      continue;
+    }
+
+    const [, name, rawIndex] = match;
+    const index = rawIndex ? Number(rawIndex) : 0;
+    const value = decodeParam(pair.slice(eq + 1));
+
+    if (value === null) {
+      uriErrors.push(`Parameter "${key}" is not correctly percent-encoded`);
+      continue;
+    }
+
+    const params = group(index);
+    if (params.has(name)) {
+      uriErrors.push(
+        name === "address" && index === 0 && path
+          ? "Address given both in the URI path and as a parameter"
+          : `Duplicate parameter "${key}"`,
+      );
+      continue;
+    }
+
+    params.set(name, value);
+  }
+
+  if (groups.size === 0) {
+    uriErrors.push("URI does not contain any payment");
+  }
+
+  const payments = Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, params]) => toParsedPayment(index, params, options));
+
+  const issues: Zip321Issue[] = [
+    ...uriErrors.map((message) => ({ index: null, message })),
+    ...payments.flatMap((p) =>
+      p.errors.map((message) => ({ index: p.index, message })),
+    ),
+  ];
+
+  return { payments, issues, valid: issues.length === 0 };
+}
+
+function toParsedPayment(
+  index: number,
+  params: Map<string, string>,
+  options: Zip321Options,
+): Zip321ParsedPayment {
+  const errors: string[] = [];
+  const otherParams: Record<string, string> = {};
+  const known: Partial<Record<KnownParam, string>> = {};
+
+  params.forEach((value, name) => {
+    if ((KNOWN_PARAMS as readonly string[]).includes(name)) {
+      known[name as KnownParam] = value;
+    } else if (name.startsWith("req-")) {
+      errors.push(`Unsupported required parameter "${name}"`);
+    } else {
+      otherParams[name] = value;
+    }
+  });
+
+  const address = known.address ?? "";
+  const addressError = validateAddress(address, options);
+  if (addressError) errors.push(addressError);
+
+  if (known.amount !== undefined) {
+    const amountError = validateZip321Amount(known.amount);
+    if (amountError) errors.push(amountError);
+  }
+
+  let memoText: string | undefined;
+  if (known.memo !== undefined) {
+    const bytes = base64UrlToBytes(known.memo);
+
+    if (!bytes) {
+      errors.push("Memo is not valid base64url");
+    } else {
+      errors.push(...validateMemoBytes(address, bytes.length));
+      memoText = decodeZip321Memo(known.memo) ?? undefined;
+    }
+  }
+
+  return {
+    index,
+    address,
+    amount: known.amount,
+    memo: known.memo,
+    memoText,
+    label: known.label,
+    message: known.message,
+    otherParams,
+    errors,
+  };
+}
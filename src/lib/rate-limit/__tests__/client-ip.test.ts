@@ -0,0 +1,54 @@
+import { createIpMatcher, getClientIp, normalizeIp } from "../client-ip";
+
+const headers = (init: Record<string, string>) => new Headers(init);
+
+describe("getClientIp", () => {
+  const noProxies = createIpMatcher([]);
+  const proxies = createIpMatcher(["10.0.0.0/8", "2001:db8::/32", "203.0.113.7"]);
+
+  it("uses the right-most forwarded address when no proxy is trusted", () => {
+    // The client controls everything left of what our edge appended
+    const h = headers({ "x-forwarded-for": "6.6.6.6, 198.51.100.4" });
+    expect(getClientIp(h, noProxies)).toBe("198.51.100.4");
+  });
+
+  it("skips trusted proxies from the right", () => {
+    const h = headers({
+      "x-forwarded-for": "6.6.6.6, 198.51.100.4, 10.1.2.3, 2001:db8::1, 203.0.113.7",
+    });
+    expect(getClientIp(h, proxies)).toBe("198.51.100.4");
+  });
+
+  it("falls back to the left-most hop when every hop is trusted", () => {
+    const h = headers({ "x-forwarded-for": "10.0.0.5, 10.0.0.6" });
+    expect(getClientIp(h, proxies)).toBe("10.0.0.5");
+  });
+
+  it("uses x-real-ip without a forwarded chain", () => {
+    expect(getClientIp(headers({ "x-real-ip": "198.51.100.9" }), noProxies)).toBe("198.51.100.9");
+    expect(getClientIp(headers({}), noProxies)).toBe("unknown");
+  });
+});
+
+describe("createIpMatcher", () => {
+  const match = createIpMatcher(["192.168.0.0/16", "::1", "fd00::/8", "not-an-ip", "10.0.0.0/99"]);
+
+  it("matches IPv4 and IPv6 ranges", () => {
+    expect(match("192.168.44.1")).toBe(true);
+    expect(match("192.169.0.1")).toBe(false);
+    expect(match("::1")).toBe(true);
+    expect(match("fd12:3456::1")).toBe(true);
+    expect(match("fe80::1")).toBe(false);
+  });
+
+  it("ignores invalid entries and addresses", () => {
+    expect(match("10.0.0.1")).toBe(false);
+    expect(match("garbage")).toBe(false);
+  });
+
+  it("normalizes ports, brackets and IPv4-mapped addresses", () => {
+    expect(normalizeIp("[::1]:443")).toBe("::1");
+    expect(normalizeIp("192.168.1.1:8080")).toBe("192.168.1.1");
+    expect(match("::ffff:192.168.1.1")).toBe(true);
+  });
+});
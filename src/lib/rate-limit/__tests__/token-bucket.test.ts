@@ -0,0 +1,51 @@
+import { createMemoryRateLimitStore } from "../memory-store";
+import { takeTokens } from "../token-bucket";
+
+const policy = { limit: 3, windowSeconds: 60 }; // one token every 20s
+
+describe("token bucket", () => {
+  it("allows a burst up to the limit, then refuses", () => {
+    let state;
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      const taken = takeTokens(state, policy, 0);
+      state = taken.state;
+      results.push(taken.result);
+    }
+
+    expect(results.map((r) => r.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((r) => r.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterSeconds).toBe(20);
+    expect(results[3].resetSeconds).toBe(60);
+  });
+
+  it("refills continuously and never above the limit", () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+
+    expect(takeTokens(empty, policy, 10_000).result.allowed).toBe(false);
+    expect(takeTokens(empty, policy, 20_000).result).toMatchObject({ allowed: true, remaining: 0 });
+    expect(takeTokens(empty, policy, 10 * 60_000).result.remaining).toBe(2);
+  });
+
+  it("charges requests that cost more than one token", () => {
+    const { result } = takeTokens(undefined, policy, 0, 2);
+
+    expect(result).toMatchObject({ allowed: true, remaining: 1 });
+    expect(takeTokens({ tokens: 1, updatedAt: 0 }, policy, 0, 2).result.retryAfterSeconds).toBe(20);
+  });
+});
+
+describe("memory store", () => {
+  it("keeps separate buckets per key", async () => {
+    let now = 0;
+    const store = createMemoryRateLimitStore(() => now);
+
+    for (let i = 0; i < 3; i++) await store.take("ai:1.1.1.1", policy, 1);
+
+    expect((await store.take("ai:1.1.1.1", policy, 1)).allowed).toBe(false);
+    expect((await store.take("ai:2.2.2.2", policy, 1)).allowed).toBe(true);
+
+    now = 20_000;
+    expect((await store.take("ai:1.1.1.1", policy, 1)).allowed).toBe(true);
+  });
+});
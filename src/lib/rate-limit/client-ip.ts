@@ -0,0 +1,129 @@
+/**
+ * Client address resolution for requests that pass through reverse proxies.
+ *
+ * `X-Forwarded-For` is a list the client can prepend to at will, so it is read
+ * right to left: entries added by proxies listed in `TRUSTED_PROXIES` are
+ * skipped and the first address outside that list is the client. Without any
+ * trusted proxies the right-most entry (the address our own edge saw) is used.
+ */
+
+type ParsedIp = { version: 4 | 6; value: bigint };
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+
+  let value = BigInt(0);
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << BigInt(8)) + BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  let address = ip;
+
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const v4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (v4Tail) {
+    const v4 = parseIPv4(v4Tail[1]);
+    if (v4 === null) return null;
+    address =
+      address.slice(0, -v4Tail[1].length) +
+      `${(v4 >> BigInt(16)).toString(16)}:${(v4 & BigInt(0xffff)).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+
+  const groups = [...head, ...new Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  let value = BigInt(0);
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << BigInt(16)) + BigInt(parseInt(group, 16));
+  }
+  return value;
+}
+
+/** Strip ports and brackets (`[::1]:443`, `203.0.113.9:1234`) and unmap IPv4-mapped IPv6 */
+export function normalizeIp(raw: string): string {
+  let ip = raw.trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(ip);
+  if (bracketed) ip = bracketed[1];
+  else if (/^\d+\.\d+\.\d+\.\d+:\d+$/.test(ip)) ip = ip.split(":")[0];
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  return (mapped ? mapped[1] : ip).toLowerCase();
+}
+
+function parseIp(raw: string): ParsedIp | null {
+  const ip = normalizeIp(raw);
+  const v4 = parseIPv4(ip);
+  if (v4 !== null) return { version: 4, value: v4 };
+
+  const v6 = ip.includes(":") ? parseIPv6(ip) : null;
+  return v6 === null ? null : { version: 6, value: v6 };
+}
+
+export type IpMatcher = (ip: string) => boolean;
+
+/** Build a matcher for a list of addresses and CIDR ranges; invalid entries are ignored */
+export function createIpMatcher(entries: string[]): IpMatcher {
+  const ranges = entries.flatMap((entry) => {
+    const [address, prefix] = entry.trim().split("/");
+    const parsed = address ? parseIp(address) : null;
+    if (!parsed) return [];
+
+    const bits = parsed.version === 4 ? 32 : 128;
+    const length = prefix === undefined ? bits : Number(prefix);
+    if (!Number.isInteger(length) || length < 0 || length > bits) return [];
+
+    const shift = BigInt(bits - length);
+    return [{ version: parsed.version, shift, network: parsed.value >> shift }];
+  });
+
+  return (ip) => {
+    const parsed = parseIp(ip);
+    if (!parsed) return false;
+
+    return ranges.some(
+      (r) => r.version === parsed.version && parsed.value >> r.shift === r.network,
+    );
+  };
+}
+
+function trustedProxiesFromEnv(): IpMatcher {
+  const list = process.env.TRUSTED_PROXIES?.split(",").filter((s) => s.trim()) ?? [];
+  return createIpMatcher(list);
+}
+
+let defaultMatcher: IpMatcher | null = null;
+
+export function getClientIp(
+  headers: Headers,
+  isTrustedProxy: IpMatcher = (defaultMatcher ??= trustedProxiesFromEnv()),
+): string {
+  const forwarded = headers
+    .get("x-forwarded-for")
+    ?.split(",")
+    .map(normalizeIp)
+    .filter(Boolean);
+
+  if (forwarded && forwarded.length > 0) {
+    for (let i = forwarded.length - 1; i >= 0; i--) {
+      if (!isTrustedProxy(forwarded[i])) return forwarded[i];
+    }
+    // Every hop is a trusted proxy: the left-most one is the closest we know
+    return forwarded[0];
+  }
+
+  const realIp = headers.get("x-real-ip");
+  return realIp ? normalizeIp(realIp) : "unknown";
+}
@@ -0,0 +1,118 @@
+import "server-only";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getClientIp } from "./client-ip";
+import { createMemoryRateLimitStore } from "./memory-store";
+import { RATE_LIMIT_POLICIES, type RateLimitPolicyName } from "./policies";
+import type { RateLimitResult, RateLimitStore } from "./types";
+
+export { getClientIp } from "./client-ip";
+export { RATE_LIMIT_POLICIES, type RateLimitPolicyName } from "./policies";
+export type { RateLimitPolicy, RateLimitResult, RateLimitStore } from "./types";
+
+const RATE_LIMIT_HEADERS = [
+  "RateLimit-Limit",
+  "RateLimit-Remaining",
+  "RateLimit-Reset",
+  "RateLimit-Policy",
+  "Retry-After",
+];
+
+let storePromise: Promise<RateLimitStore> | null = null;
+const fallbackStore = createMemoryRateLimitStore();
+
+/**
+ * Resolve the configured store once per process.
+ * `RATE_LIMIT_STORE=redis` with `REDIS_URL` shares buckets across instances, anything else keeps them in memory.
+ */
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  if (storePromise) return storePromise;
+
+  const url = process.env.REDIS_URL;
+  storePromise =
+    process.env.RATE_LIMIT_STORE === "redis" && url
+      ? import("./redis-store").then((m) => m.createRedisRateLimitStore(url))
+      : Promise.resolve(fallbackStore);
+
+  return storePromise;
+}
+
+export async function checkRateLimit(
+  policyName: RateLimitPolicyName,
+  clientKey: string,
+  cost = 1,
+): Promise<RateLimitResult> {
+  const policy = RATE_LIMIT_POLICIES[policyName];
+  const key = `${policyName}:${clientKey}`;
+  const store = await getRateLimitStore();
+
+  try {
+    return await store.take(key, policy, cost);
+  } catch (err) {
+    // Keep limiting per instance rather than failing requests or the limit
+    console.error(`[rate-limit] ${store.name} store failed, using memory:`, err);
+    return fallbackStore.take(key, policy, cost);
+  }
+}
+
+/** `RateLimit-*` headers (IETF draft) plus `Retry-After` when the request was refused */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+    "RateLimit-Policy": `${result.policy.limit};w=${result.policy.windowSeconds}`,
+  };
+
+  if (!result.allowed) headers["Retry-After"] = String(result.retryAfterSeconds);
+  return headers;
+}
+
+function applyHeaders(res: Response, headers: Record<string, string>): Response {
+  let target = res;
+  try {
+    for (const [name, value] of Object.entries(headers)) target.headers.set(name, value);
+  } catch {
+    // Immutable headers (e.g. `Response.redirect`): copy the response first
+    target = new Response(res.body, res);
+    for (const [name, value] of Object.entries(headers)) target.headers.set(name, value);
+  }
+
+  if (target.headers.has("Access-Control-Allow-Origin")) {
+    target.headers.set("Access-Control-Expose-Headers", RATE_LIMIT_HEADERS.join(", "));
+  }
+  return target;
+}
+
+interface WithRateLimitOptions {
+  /** Extra headers for the 429 response, e.g. the route's CORS headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Wrap a route handler so every call takes a token from `policyName`'s
+ * bucket for the client address. Refused calls get a 429; all responses
+ * carry the `RateLimit-*` headers.
+ */
+export function withRateLimit<Args extends unknown[]>(
+  policyName: RateLimitPolicyName,
+  handler: (req: NextRequest, ...args: Args) => Promise<Response> | Response,
+  options: WithRateLimitOptions = {},
+) {
+  return async (req: NextRequest, ...args: Args): Promise<Response> => {
+    const result = await checkRateLimit(policyName, getClientIp(req.headers));
+    const headers = rateLimitHeaders(result);
+
+    if (!result.allowed) {
+      return applyHeaders(
+        NextResponse.json(
+          { error: "Too many requests. Please slow down." },
+          { status: 429, headers: options.headers },
+        ),
+        headers,
+      );
+    }
+
+    return applyHeaders(await handler(req, ...args), headers);
+  };
+}
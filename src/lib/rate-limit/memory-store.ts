@@ -0,0 +1,37 @@
+import { refillRate, takeTokens } from "./token-bucket";
+import type { BucketState, RateLimitPolicy, RateLimitStore } from "./types";
+
+/** Sweep idle buckets once the map grows past this many keys */
+const MAX_KEYS = 10_000;
+
+interface Entry {
+  state: BucketState;
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Per-process buckets. Fine for a single instance; use the Redis store when
+ * several instances serve the same routes.
+ */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, Entry>();
+
+  const sweep = (time: number) => {
+    for (const [key, { state, policy }] of buckets) {
+      const full = state.tokens + (time - state.updatedAt) * refillRate(policy) >= policy.limit;
+      if (full) buckets.delete(key);
+    }
+  };
+
+  return {
+    name: "memory",
+    async take(key, policy, cost) {
+      const time = now();
+      if (buckets.size >= MAX_KEYS) sweep(time);
+
+      const { state, result } = takeTokens(buckets.get(key)?.state, policy, time, cost);
+      buckets.set(key, { state, policy });
+      return result;
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import type { RateLimitPolicy } from "./types";
+
+/** One bucket per client address and policy */
+export const RATE_LIMIT_POLICIES = {
+  ai: { limit: 20, windowSeconds: 60 },
+  "ai-ingest": { limit: 5, windowSeconds: 3600 },
+  "chain-stats": { limit: 120, windowSeconds: 60 },
+  revalidate: { limit: 10, windowSeconds: 60 },
+  export: { limit: 10, windowSeconds: 60 },
+  "github-file": { limit: 60, windowSeconds: 60 },
+  "github-webhook": { limit: 60, windowSeconds: 60 },
+  "link-audit": { limit: 10, windowSeconds: 3600 },
+  metrics: { limit: 60, windowSeconds: 60 },
+  "payment-qrcode": { limit: 30, windowSeconds: 60 },
+  "payment-shorten": { limit: 10, windowSeconds: 60 },
+  "payment-short-url": { limit: 120, windowSeconds: 60 },
+  "payment-telemetry": { limit: 120, windowSeconds: 60 },
+  "price-feed": { limit: 60, windowSeconds: 60 },
+  "zcash-node": { limit: 120, windowSeconds: 60 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
@@ -0,0 +1,64 @@
+import "server-only";
+
+import Redis from "ioredis";
+import { toResult } from "./token-bucket";
+import type { RateLimitStore } from "./types";
+
+const KEY_PREFIX = "ratelimit:";
+
+// Refill and take in one round trip so concurrent instances never race.
+// Time comes from the Redis server to avoid clock skew between instances.
+const TAKE_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local t = redis.call("TIME")
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+
+local state = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local tokens = tonumber(state[1]) or limit
+local ts = tonumber(state[2]) or now
+tokens = math.min(limit, tokens + math.max(0, now - ts) * rate)
+
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", now)
+redis.call("PEXPIRE", KEYS[1], math.ceil((limit - tokens) / rate) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Buckets shared by every instance through any server speaking the Redis
+ * protocol (Redis, Valkey, KeyDB, Dragonfly).
+ */
+export function createRedisRateLimitStore(url: string): RateLimitStore {
+  const redis = new Redis(url, {
+    lazyConnect: true,
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 1,
+  });
+
+  redis.defineCommand("takeTokens", { numberOfKeys: 1, lua: TAKE_SCRIPT });
+
+  redis.on("error", (err) => console.error("[rate-limit] redis error:", err.message));
+
+  return {
+    name: "redis",
+    async take(key, policy, cost) {
+      if (redis.status === "wait") await redis.connect();
+
+      const rate = policy.limit / (policy.windowSeconds * 1000);
+      const [allowed, tokens] = (await (
+        redis as Redis & {
+          takeTokens(key: string, ...args: (string | number)[]): Promise<[number, string]>;
+        }
+      ).takeTokens(KEY_PREFIX + key, policy.limit, rate, cost)) ?? [0, "0"];
+
+      return toResult(allowed === 1, Number(tokens), policy, cost);
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import type { BucketState, RateLimitPolicy, RateLimitResult } from "./types";
+
+export function refillRate(policy: RateLimitPolicy): number {
+  return policy.limit / (policy.windowSeconds * 1000); // tokens per ms
+}
+
+/**
+ * Refill `state` for the time elapsed since its last update and try to take
+ * `cost` tokens. Returns the new state along with the outcome; a missing
+ * state is a full bucket.
+ */
+export function takeTokens(
+  state: BucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number,
+  cost = 1,
+): { state: BucketState; result: RateLimitResult } {
+  const rate = refillRate(policy);
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = state ? Math.min(policy.limit, state.tokens + elapsed * rate) : policy.limit;
+
+  const allowed = tokens >= cost;
+  if (allowed) tokens -= cost;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: toResult(allowed, tokens, policy, cost),
+  };
+}
+
+export function toResult(
+  allowed: boolean,
+  tokens: number,
+  policy: RateLimitPolicy,
+  cost = 1,
+): RateLimitResult {
+  const rate = refillRate(policy);
+
+  return {
+    allowed,
+    limit: policy.limit,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((policy.limit - tokens) / rate / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((cost - tokens) / rate / 1000),
+    policy,
+  };
+}
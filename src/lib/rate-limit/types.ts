@@ -0,0 +1,30 @@
+export interface RateLimitPolicy {
+  /** Bucket size: requests allowed in a burst */
+  limit: number;
+  /** Seconds for an empty bucket to refill completely */
+  windowSeconds: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  /** Milliseconds since epoch of the last refill */
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole requests left in the bucket after this one */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the next request can succeed, 0 when allowed */
+  retryAfterSeconds: number;
+  policy: RateLimitPolicy;
+}
+
+export interface RateLimitStore {
+  name: string;
+  /** Atomically refill the bucket for `key` and try to take `cost` tokens */
+  take(key: string, policy: RateLimitPolicy, cost: number): Promise<RateLimitResult>;
+}
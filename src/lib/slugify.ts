@@ -0,0 +1,33 @@
+// Strong slugify for TOC links (handles parentheses, +, etc.)
+export const slugify = (text: string): string => {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[\(\)]/g, '')
+    .replace(/\+/g, '-and-')
+    .replace(/[^\w\s-]/g, '')
+    .replace(/[\s_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Slugify headings of one document so every id is unique: repeated headings
+ * get `-1`, `-2`, … appended, the way GitHub numbers them.
+ */
+export function createSlugger(): (text: string) => string {
+  const counts = new Map<string, number>();
+  const used = new Set<string>();
+
+  return (text: string) => {
+    const base = slugify(text);
+    if (!base) return "";
+
+    let count = counts.get(base) ?? 0;
+    let slug = count === 0 ? base : `${base}-${count}`;
+    while (used.has(slug)) slug = `${base}-${++count}`;
+
+    counts.set(base, count + 1);
+    used.add(slug);
+    return slug;
+  };
+}
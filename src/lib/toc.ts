@@ -0,0 +1,88 @@
+import { markdownToPlainText } from "@/lib/markdownSections";
+import { createSlugger } from "@/lib/slugify";
+import type { Element, Root, RootContent } from "hast";
+
+const HEADING_LEVELS: Record<string, number> = { h1: 1, h2: 2, h3: 3 };
+const WORDS_PER_MINUTE = 200;
+
+export interface TocHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface TocItem extends TocHeading {
+  children: TocItem[];
+}
+
+type ParentNode = Root | Element | { children: RootContent[] };
+
+function textContent(node: RootContent): string {
+  if (node.type === "text") return node.value;
+  if ("children" in node) return (node.children as RootContent[]).map(textContent).join("");
+  return "";
+}
+
+/**
+ * Rehype plugin giving every h1–h3 a unique `id` (explicit ids are kept) and
+ * collecting them into `options.headings` for the table of contents. The ids
+ * match the anchors `splitMarkdownSections` computes for the same markdown.
+ */
+export function rehypeHeadingIds(options: { headings?: TocHeading[] } = {}) {
+  return (tree: Root) => {
+    const slug = createSlugger();
+
+    const visit = (node: ParentNode) => {
+      for (const child of node.children) {
+        const level = child.type === "element" ? HEADING_LEVELS[child.tagName] : undefined;
+
+        if (child.type === "element" && level) {
+          const text = textContent(child).replace(/\s+/g, " ").trim();
+          const explicit = child.properties?.id;
+          const id = typeof explicit === "string" && explicit ? explicit : slug(text);
+
+          if (id) {
+            child.properties = { ...child.properties, id };
+            options.headings?.push({ id, text, level });
+          }
+          continue;
+        }
+
+        // Also descends into MDX JSX elements such as <details>
+        if ("children" in child && Array.isArray(child.children)) {
+          visit(child as ParentNode);
+        }
+      }
+    };
+
+    visit(tree);
+  };
+}
+
+/**
+ * Nest headings under the nearest shallower one. A single leading h1 is the
+ * page title and left out.
+ */
+export function buildTocTree(headings: TocHeading[]): TocItem[] {
+  const h1Count = headings.filter((h) => h.level === 1).length;
+  const list = h1Count === 1 && headings[0]?.level === 1 ? headings.slice(1) : headings;
+
+  const root: TocItem[] = [];
+  const stack: TocItem[] = [];
+
+  for (const heading of list) {
+    const item: TocItem = { ...heading, children: [] };
+    while (stack.length && stack[stack.length - 1].level >= item.level) stack.pop();
+
+    (stack.length ? stack[stack.length - 1].children : root).push(item);
+    stack.push(item);
+  }
+
+  return root;
+}
+
+/** Minutes to read a markdown page at 200 words per minute, at least 1 */
+export function estimateReadingTime(markdown: string): number {
+  const words = markdownToPlainText(markdown).split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+}
@@ -0,0 +1,148 @@
+import {
+  getAllMarkdownRecursively,
+  getFileContentCached,
+  getResolvedFileCached,
+  getRootCached,
+  getTranslationLocalesCached,
+} from "@/lib/authAndFetch";
+import { i18n, type Locale } from "@/i18n/config";
+import { translatedContentPath } from "@/i18n/routing";
+import { getWikiPageMeta } from "@/lib/frontMatter";
+import { getDynamicRoute, transformGithubFilePathToWikiLink } from "@/lib/helpers";
+
+/** Root of the wiki in the content repo, in the form `getAllMarkdownRecursively` expects */
+export const WIKI_ROOT = "/site";
+export const WIKI_BASE_URL = "https://zechub.wiki";
+
+const FETCH_CONCURRENCY = 4;
+
+export interface WikiPage {
+  /** Path in the content repo, e.g. `site/Using_Zcash/Wallets.md` */
+  path: string;
+  /** Route on the site without leading slash, e.g. `using-zcash/wallets` */
+  slug: string;
+  /** `null` when the file could not be fetched */
+  markdown: string | null;
+}
+
+export function wikiPathToSlug(path: string): string {
+  return transformGithubFilePathToWikiLink(path).replace(/\.md$/i, "");
+}
+
+/** Page title derived from the file name, for pages without an h1 */
+export function wikiPathToTitle(path: string): string {
+  const file = path.split("/").pop() ?? path;
+  return file.replace(/\.md$/i, "").replace(/[_-]+/g, " ").trim();
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Every markdown page of the wiki with its content, fetched through the same
+ * cached loaders the article pages use.
+ */
+export async function getAllWikiPages(): Promise<WikiPage[]> {
+  const paths = await getAllMarkdownRecursively(WIKI_ROOT);
+
+  return mapWithConcurrency(paths, FETCH_CONCURRENCY, async (path) => ({
+    path,
+    slug: wikiPathToSlug(path),
+    markdown: await getFileContentCached(path),
+  }));
+}
+
+/**
+ * Repo path of the markdown behind a wiki route. Research articles are looked
+ * up in their folder listing, as their file names do not follow `transformUri`.
+ */
+export function resolveWikiContentPath(slug: string[], roots: string[]): string {
+  if (slug[0] !== "research" || slug.length < 2) return getDynamicRoute(slug);
+
+  const norm = (s: string) => s.toLowerCase().replace(/[-_ ]/g, "");
+  const target = norm(slug[slug.length - 1]);
+
+  const match = roots.find((r: string) => {
+    if (typeof r !== "string" || !r.endsWith(".md")) return false;
+    const base = r.split("/").pop()!.replace(/\.md$/i, "");
+    return norm(base) === target;
+  });
+
+  return match ?? `site/Research/${slug.slice(1).join("/")}.md`;
+}
+
+export type WikiPageWithMeta = ReturnType<typeof getWikiPageMeta> & { path: string };
+
+export interface LocalizedWikiContent {
+  /** File `markdown` was read from */
+  path: string;
+  markdown: string | null;
+  /** Locale of `markdown`, English when the page has no translation into the requested one */
+  locale: Locale;
+  /** Locales besides English the page is translated into */
+  translations: Locale[];
+}
+
+/** The `locale` translation of the English page at `path`, falling back to the English page */
+export async function getLocalizedWikiContent(
+  path: string,
+  locale: Locale = i18n.defaultLocale,
+): Promise<LocalizedWikiContent> {
+  // The fuzzy file name fallback may find the page under another name; history,
+  // edit links and translations all follow the file that was actually read
+  const file = await getResolvedFileCached(path).catch(() => null);
+  const sourcePath = file?.path ?? path;
+  const markdown = file?.markdown ?? null;
+  const translations = await getTranslationLocalesCached(sourcePath).catch((): Locale[] => []);
+
+  if (markdown && locale !== i18n.defaultLocale && translations.includes(locale)) {
+    const translatedPath = translatedContentPath(sourcePath, locale);
+    const translated = await getFileContentCached(translatedPath).catch(() => null);
+    if (translated) return { path: translatedPath, markdown: translated, locale, translations };
+  }
+
+  return { path: sourcePath, markdown, locale: i18n.defaultLocale, translations };
+}
+
+/** Markdown and metadata of the page at a wiki route, `null` when there is none */
+export async function getWikiPageBySlug(
+  slug: string[],
+  locale: Locale = i18n.defaultLocale,
+): Promise<(WikiPageWithMeta & Omit<LocalizedWikiContent, "markdown">) | null> {
+  const roots =
+    slug[0] === "research" ? await getRootCached(`/site/${slug[0]}`).catch(() => []) : [];
+  const { markdown, ...content } = await getLocalizedWikiContent(
+    resolveWikiContentPath(slug, roots),
+    locale,
+  );
+
+  return markdown ? { ...getWikiPageMeta(markdown, content.path), ...content } : null;
+}
+
+/** Metadata of each page in `paths`, keyed by path; pages that fail to load are left out */
+export async function getWikiPagesMeta(
+  paths: string[],
+): Promise<Record<string, WikiPageWithMeta>> {
+  const pages = await mapWithConcurrency(paths, FETCH_CONCURRENCY, async (path) => {
+    const markdown = await getFileContentCached(path).catch(() => null);
+    return markdown ? { path, ...getWikiPageMeta(markdown, path) } : null;
+  });
+
+  return Object.fromEntries(pages.filter((p) => p !== null).map((p) => [p.path, p]));
+}
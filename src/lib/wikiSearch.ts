@@ -174,3 +174,138 @@ export function searchWiki(
     .sort((a, b) => b.score - a.score)
     .map((x) => x.item);
 }
+
+/** A heading-level section of a wiki page, as served by `/search-index.json` */
+export interface SearchableSection {
+  title: string;
+  url: string;
+  heading: string | null;
+  anchor: string | null;
+  text: string;
+}
+
+interface PreparedSection {
+  titleWords: string[];
+  headingWords: string[];
+  headingRaw: string;
+  textRaw: string;
+}
+
+const prepared = new WeakMap<SearchableSection, PreparedSection>();
+
+function prepare(section: SearchableSection): PreparedSection {
+  let p = prepared.get(section);
+  if (!p) {
+    const headingRaw = (section.heading ?? "").toLowerCase();
+    p = {
+      titleWords: section.title.toLowerCase().split(/\s+/).filter(Boolean),
+      headingWords: headingRaw.split(/\s+/).filter(Boolean),
+      headingRaw,
+      textRaw: ` ${section.text.toLowerCase()}`,
+    };
+    prepared.set(section, p);
+  }
+  return p;
+}
+
+const SECTION_W = { heading: 1.6, title: 1.2, text: 1.0 } as const;
+
+/**
+ * Body text is matched by substring only (fuzzy matching every word of every
+ * page would be too slow per keystroke); headings and titles get the full
+ * fuzzy treatment of `scoreItem`.
+ */
+export function scoreSection(
+  section: SearchableSection,
+  normalizedFull: string,
+  tokens: string[],
+): number {
+  const p = prepare(section);
+
+  let coverageScore = 0;
+  let hardMisses = 0;
+
+  for (const t of tokens) {
+    const hSim = bestTokenSim(t, p.headingWords);
+    const tSim = bestTokenSim(t, p.titleWords);
+    const xSim = p.textRaw.includes(` ${t}`)
+      ? 1
+      : t.length >= 3 && p.textRaw.includes(t)
+        ? 0.7
+        : 0;
+    const best = Math.max(
+      hSim * SECTION_W.heading,
+      tSim * SECTION_W.title,
+      xSim * SECTION_W.text,
+    );
+    if (best === 0) hardMisses++;
+    coverageScore += best;
+  }
+
+  // Content results need (nearly) every word to match, or they drown the list
+  if (hardMisses > Math.floor(tokens.length / 3)) return -1;
+  if (hardMisses > 0) coverageScore *= Math.pow(0.35, hardMisses);
+
+  const avgCoverage = tokens.length > 0 ? coverageScore / tokens.length : 0;
+
+  let bonus = 0;
+  if (normalizedFull) {
+    if (p.headingRaw === normalizedFull) bonus += 600;
+    else if (p.headingRaw.includes(normalizedFull)) bonus += 400;
+    if (tokens.length > 1 && p.textRaw.includes(normalizedFull)) bonus += 150;
+  }
+
+  for (const t of tokens) {
+    let count = 0;
+    for (let i = p.textRaw.indexOf(t); i !== -1 && count < 5; i = p.textRaw.indexOf(t, i + t.length)) {
+      count++;
+    }
+    bonus += count * 10;
+  }
+
+  return avgCoverage * 300 + bonus;
+}
+
+export function searchSections<T extends SearchableSection>(
+  sections: readonly T[],
+  query: string,
+  limit = 20,
+): T[] {
+  const normalizedFull = normalizeQuery(query);
+  const tokens = tokenizeQuery(query);
+  if (!normalizedFull || !tokens.length) return [];
+
+  return sections
+    .map((section) => ({ section, score: scoreSection(section, normalizedFull, tokens) }))
+    .filter((x) => x.score >= 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((x) => x.section);
+}
+
+/**
+ * Excerpt of `text` around the first match of `query` (whole phrase first,
+ * then any token), trimmed to word boundaries.
+ */
+export function makeSnippet(text: string, query: string, radius = 80): string {
+  const lower = text.toLowerCase();
+  const candidates = [normalizeQuery(query), ...tokenizeQuery(query)];
+
+  let at = -1;
+  for (const c of candidates) {
+    if (!c) continue;
+    at = lower.indexOf(c);
+    if (at !== -1) break;
+  }
+
+  if (at === -1) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2).replace(/\s+\S*$/, "")}…` : text;
+  }
+
+  let start = Math.max(0, at - radius);
+  let end = Math.min(text.length, at + radius * 1.5);
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(" ", end) > at ? text.lastIndexOf(" ", end) : end;
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,79 @@
+import { markdownToPlainText, splitMarkdownSections } from "@/lib/markdownSections";
+
+export const WIKI_SEARCH_INDEX_URL = "/search-index.json";
+export const WIKI_SEARCH_INDEX_VERSION = 1;
+
+/** Body text kept per section; enough for matching and snippets, keeps the artifact small */
+const MAX_SECTION_TEXT = 1200;
+
+/**
+ * Compact, tuple-based shape of `/search-index.json`:
+ * `pages` holds `[title, url]`, `sections` holds `[pageIndex, heading, anchor, text]`.
+ */
+export interface WikiSearchIndex {
+  version: typeof WIKI_SEARCH_INDEX_VERSION;
+  generatedAt: string;
+  pages: [title: string, url: string][];
+  sections: [page: number, heading: string | null, anchor: string | null, text: string][];
+}
+
+export interface WikiSearchSection {
+  title: string;
+  /** Page route, e.g. `/using-zcash/wallets` */
+  url: string;
+  heading: string | null;
+  anchor: string | null;
+  text: string;
+}
+
+export interface WikiSearchSourcePage {
+  url: string;
+  /** Front matter title, preferred over the h1 */
+  title?: string;
+  /** Used when the page has neither a title nor an h1 */
+  fallbackTitle: string;
+  /** Page body with the front matter already stripped */
+  markdown: string;
+}
+
+export function buildWikiSearchIndex(pages: WikiSearchSourcePage[]): WikiSearchIndex {
+  const index: WikiSearchIndex = {
+    version: WIKI_SEARCH_INDEX_VERSION,
+    generatedAt: new Date().toISOString(),
+    pages: [],
+    sections: [],
+  };
+
+  for (const page of pages) {
+    const sections = splitMarkdownSections(page.markdown);
+    const title =
+      page.title || sections.find((s) => s.level === 1)?.heading || page.fallbackTitle;
+    const pageIndex = index.pages.push([title, page.url]) - 1;
+
+    for (const section of sections) {
+      // Drop the heading line itself, it is stored separately
+      const newline = section.content.indexOf("\n");
+      let body = section.content;
+      if (section.heading) body = newline === -1 ? "" : body.slice(newline + 1);
+      const text = markdownToPlainText(body);
+
+      if (!section.heading && !text) continue;
+
+      index.sections.push([
+        pageIndex,
+        section.heading,
+        section.anchor,
+        text.length > MAX_SECTION_TEXT ? `${text.slice(0, MAX_SECTION_TEXT)}…` : text,
+      ]);
+    }
+  }
+
+  return index;
+}
+
+export function expandWikiSearchIndex(index: WikiSearchIndex): WikiSearchSection[] {
+  return index.sections.map(([page, heading, anchor, text]) => {
+    const [title, url] = index.pages[page];
+    return { title, url, heading, anchor, text };
+  });
+}
@@ -0,0 +1,150 @@
+import {
+  bucketSpans,
+  getMiningHistory,
+  getMiningPools,
+  getMiningPoolsDominance,
+  getTransactions24h,
+  sampleHeights,
+} from "../analytics";
+import { createChainReader } from "../chain";
+import { createFixtureRpcClient, createRecordingRpcClient, NodeRpcError } from "../rpc";
+import type { NodeRpcClient, RpcCall, RpcRecording } from "../types";
+
+const TIP = 2999;
+const GENESIS_TIME = 1_700_000_000;
+
+const time = (h: number) => GENESIS_TIME + h * 75;
+const txCount = (h: number) => 1 + (h % 3);
+const pool = (h: number) => (h % 4 === 0 ? "/f2pool/" : "/ViaBTC/Mined by x/");
+
+/** A chain of 3000 blocks, 75 s apart, answering like a node */
+function fakeNode(): NodeRpcClient & { calls: RpcCall[] } {
+  const calls: RpcCall[] = [];
+
+  const answer = ({ method, params }: RpcCall): unknown => {
+    calls.push({ method, params });
+    switch (method) {
+      case "getblockchaininfo":
+        return { chain: "main", blocks: TIP, bestblockhash: `hash-${TIP}` };
+      case "getblock": {
+        const h = Number(params[0]);
+        return {
+          hash: `hash-${h}`,
+          height: h,
+          time: time(h),
+          difficulty: 100 + h,
+          tx: Array.from({ length: txCount(h) }, (_, i) => `tx-${h}-${i}`),
+        };
+      }
+      case "getrawtransaction": {
+        const h = Number(String(params[0]).split("-")[1]);
+        return { txid: params[0], vin: [{ coinbase: "03a0bb2f" + Buffer.from(pool(h)).toString("hex") }] };
+      }
+      case "getnetworksolps":
+        return Number(params[0]) * 1e6;
+      default:
+        throw new NodeRpcError(`Method not found: ${method}`, -32601);
+    }
+  };
+
+  return {
+    name: "http",
+    calls,
+    async call<T>(method: string, params: unknown[] = []) {
+      return answer({ method, params }) as T;
+    },
+    async batch<T>(batch: RpcCall[]) {
+      return batch.map((call) => answer(call) as T);
+    },
+  };
+}
+
+describe("bucketSpans and sampleHeights", () => {
+  it("aligns buckets to multiples of their size", () => {
+    expect(bucketSpans({ min: 50, max: 130 }, 48)).toEqual([
+      { min: 50, max: 95 },
+      { min: 96, max: 130 },
+    ]);
+  });
+
+  it("samples multiples of a power-of-two stride", () => {
+    expect(sampleHeights({ min: 3, max: 12 }, 20)).toHaveLength(10);
+    expect(sampleHeights({ min: 3, max: 40 }, 10)).toEqual([4, 8, 12, 16, 20, 24, 28, 32, 36, 40]);
+  });
+});
+
+describe("chain analytics", () => {
+  it("counts the transactions of the last 24 hours before the tip", async () => {
+    const first = TIP - 1152;
+    let expected = 0;
+    for (let h = first; h <= TIP; h++) expected += txCount(h);
+
+    expect(await getTransactions24h(createChainReader(fakeNode()))).toBe(expected);
+  });
+
+  it("reports difficulty and hashrate per hourly bucket", async () => {
+    const { range, buckets } = await getMiningHistory(createChainReader(fakeNode()), "24h");
+
+    expect(range).toBe("24h");
+    expect(buckets[0]).toMatchObject({ min_height: 1847, max_height: 1871, block_count: 25, timestamp: time(1847) });
+    expect(buckets.at(-1)).toMatchObject({
+      min_height: 2976,
+      max_height: 2999,
+      block_count: 24,
+      avg_network_hashrate_sols: 24e6,
+      avg_network_hashrate_gsols: 0.024,
+    });
+    expect(buckets.reduce((sum, b) => sum + b.block_count, 0)).toBe(1153);
+  });
+
+  it("attributes blocks to pools by coinbase tag", async () => {
+    const { interval, total_blocks, pools } = await getMiningPools(createChainReader(fakeNode()), "24h");
+
+    expect(interval).toBe("24h");
+    expect(total_blocks).toBe(1153);
+    expect(pools).toEqual([
+      { pool_name: "ViaBTC", block_count: 865, share_percentage: 75.02 },
+      { pool_name: "F2Pool", block_count: 288, share_percentage: 24.98 },
+    ]);
+  });
+
+  it("splits pool shares into buckets covering the whole range", async () => {
+    const { range, slug, buckets } = await getMiningPoolsDominance(createChainReader(fakeNode()), "1w");
+
+    expect(range).toBe("1w");
+    expect(slug).toBeNull();
+    expect(buckets).toHaveLength(11);
+    expect(buckets[0]).toEqual({
+      timestamp: time(0),
+      total_blocks: 288,
+      pools: [
+        { pool_name: "ViaBTC", block_count: 216, share_percentage: 75 },
+        { pool_name: "F2Pool", block_count: 72, share_percentage: 25 },
+      ],
+    });
+    expect(buckets.reduce((sum, b) => sum + b.total_blocks, 0)).toBe(TIP + 1);
+  });
+
+  it("only fetches blocks near the tip again on a later request", async () => {
+    const node = fakeNode();
+    const reader = createChainReader(node);
+
+    await getMiningPools(reader, "24h");
+    node.calls.length = 0;
+    await getMiningPools(reader, "24h");
+
+    const refetched = node.calls.filter((c) => c.method === "getblock").map((c) => Number(c.params[0]));
+    expect(refetched.length).toBeGreaterThan(0);
+    expect(Math.min(...refetched)).toBeGreaterThan(TIP - 10);
+  });
+
+  it("gives the same answers from a recording of the node", async () => {
+    const recording: RpcRecording = { calls: [] };
+    const recorded = createRecordingRpcClient(fakeNode(), (call) => recording.calls.push(call));
+    const live = await getMiningPools(createChainReader(recorded), "3d");
+
+    const replay = createChainReader(createFixtureRpcClient(recording));
+    expect(await getMiningPools(replay, "3d")).toEqual(live);
+    await expect(getMiningHistory(replay, "3d")).rejects.toThrow(NodeRpcError);
+  });
+});
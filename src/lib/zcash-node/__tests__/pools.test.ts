@@ -0,0 +1,25 @@
+import { attributePool, coinbaseText } from "../pools";
+
+const script = (text: string) => "0390a2b3" + Buffer.from(text, "utf8").toString("hex") + "00ff";
+
+describe("coinbaseText", () => {
+  it("keeps the readable tag and drops the height push and binary data", () => {
+    expect(coinbaseText(script("/ViaBTC/Mined by miner7/"))).toBe("/ViaBTC/Mined by miner7/");
+  });
+
+  it("is empty for a script without text", () => {
+    expect(coinbaseText("0400e1f50501")).toBe("");
+  });
+});
+
+describe("attributePool", () => {
+  it("recognises pools by their tag, case-insensitively", () => {
+    expect(attributePool(script("/ViaBTC/Mined by x/"))).toBe("ViaBTC");
+    expect(attributePool(script("F2POOL"))).toBe("F2Pool");
+    expect(attributePool(script("七彩神仙鱼"))).toBe("F2Pool");
+  });
+
+  it("returns null for unknown tags", () => {
+    expect(attributePool(script("/solo miner/"))).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * @jest-environment node
+ */
+jest.mock("server-only", () => ({}));
+
+import { getMiningHistoryData, getMiningPoolsDominanceData, nodeDataResponse } from "..";
+
+const fetchMock = jest.fn();
+
+beforeAll(() => {
+  delete process.env.ZCASH_RPC_URL;
+  delete process.env.ZCASH_RPC_FIXTURE;
+  delete process.env.ZCASH_MINING_API_URL;
+  global.fetch = fetchMock;
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  jest.restoreAllMocks();
+});
+
+describe("without a node", () => {
+  it("reads the mining data from the public mining API", async () => {
+    const history = { range: "1m", buckets: [] };
+    fetchMock.mockResolvedValueOnce(Response.json(history));
+
+    await expect(getMiningHistoryData("1m")).resolves.toEqual(history);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.zcashinfo.com/api/v1/mining/history?range=1m",
+      expect.objectContaining({ headers: expect.objectContaining({ "User-Agent": "ZecHub-Dashboard" }) }),
+    );
+  });
+
+  it("answers a failing upstream with a bad gateway", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock.mockResolvedValueOnce(new Response("down", { status: 500 }));
+
+    const res = await nodeDataResponse("mining pools dominance", 300, () => getMiningPoolsDominanceData("1y"));
+
+    expect(res.status).toBe(502);
+    await expect(res.json()).resolves.toEqual({ error: "Unable to fetch mining pools dominance" });
+  });
+});
@@ -0,0 +1,183 @@
+import type {
+  MiningHistoryBucket,
+  MiningHistoryResponse,
+  MiningPool,
+  MiningPoolDominanceResponse,
+  MiningPoolsResponse,
+} from "@/lib/chart/types";
+import type { ChainReader } from "./chain";
+import type { NodeBlockchainInfo } from "./types";
+
+export const MINING_RANGES = ["24h", "3d", "1w", "1m", "3m", "6m", "1y", "all"] as const;
+export type MiningRange = (typeof MINING_RANGES)[number];
+
+/** The dominance chart has no use for ranges shorter than a week */
+export const DOMINANCE_RANGES = ["1w", "1m", "3m", "6m", "1y", "all"] as const;
+export type DominanceRange = (typeof DOMINANCE_RANGES)[number];
+
+const DAY = 86_400;
+
+/**
+ * Length of each range and the blocks per bucket. Buckets are counted in
+ * blocks, 48 being an hour at the 75 s spacing since Blossom, and aligned to
+ * multiples of their size so they stay the same as the tip moves.
+ */
+const RANGE_SPECS: Record<MiningRange, { seconds: number | null; bucketBlocks: number }> = {
+  "24h": { seconds: DAY, bucketBlocks: 48 },
+  "3d": { seconds: 3 * DAY, bucketBlocks: 144 },
+  "1w": { seconds: 7 * DAY, bucketBlocks: 288 },
+  "1m": { seconds: 30 * DAY, bucketBlocks: 1152 },
+  "3m": { seconds: 90 * DAY, bucketBlocks: 3456 },
+  "6m": { seconds: 180 * DAY, bucketBlocks: 8064 },
+  "1y": { seconds: 365 * DAY, bucketBlocks: 8064 },
+  all: { seconds: null, bucketBlocks: 34_560 },
+};
+
+/** Blocks whose difficulty is averaged per history bucket */
+const DIFFICULTY_SAMPLES = 4;
+/** Blocks attributed per pools request; a day has about 1152 */
+const MAX_POOL_SAMPLES = 1200;
+/** Blocks attributed per dominance request, across all buckets */
+const MAX_DOMINANCE_SAMPLES = 3000;
+
+interface HeightSpan {
+  min: number;
+  max: number;
+}
+
+/** Range ending at the tip, measured from the tip's time rather than the clock */
+async function rangeSpan(reader: ChainReader, range: MiningRange): Promise<HeightSpan> {
+  const { blocks: tip } = await reader.blockchainInfo();
+  const { seconds } = RANGE_SPECS[range];
+  if (seconds === null) return { min: 0, max: tip };
+
+  const [tipBlock] = await reader.blocks([tip]);
+  return { min: await reader.heightAt(tipBlock.time - seconds), max: tip };
+}
+
+export function bucketSpans({ min, max }: HeightSpan, size: number): HeightSpan[] {
+  const spans: HeightSpan[] = [];
+  for (let start = Math.floor(min / size) * size; start <= max; start += size) {
+    spans.push({ min: Math.max(start, min), max: Math.min(start + size - 1, max) });
+  }
+  return spans;
+}
+
+/**
+ * At most about `limit` heights, evenly spread over `span`. The stride is a
+ * power of two and heights are multiples of it, so the same blocks are
+ * sampled again, and found in the cache, when the span moves a little.
+ */
+export function sampleHeights({ min, max }: HeightSpan, limit: number): number[] {
+  const stride = 2 ** Math.max(0, Math.ceil(Math.log2((max - min + 1) / limit)));
+  const heights: number[] = [];
+  for (let h = Math.ceil(min / stride) * stride; h <= max; h += stride) heights.push(h);
+  return heights;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Share of each pool among `pools`, a sample of `totalBlocks` blocks. Block
+ * counts are scaled up from the sample, largest pool first.
+ */
+export function poolShares(pools: (string | null)[], totalBlocks: number): MiningPool[] {
+  const counts = new Map<string | null, number>();
+  for (const pool of pools) counts.set(pool, (counts.get(pool) ?? 0) + 1);
+
+  return [...counts]
+    .map(([pool_name, count]) => ({
+      pool_name,
+      block_count: Math.round((count * totalBlocks) / pools.length),
+      share_percentage: round2((count / pools.length) * 100),
+    }))
+    .sort((a, b) => b.block_count - a.block_count);
+}
+
+export async function getTransactions24h(reader: ChainReader): Promise<number> {
+  const span = await rangeSpan(reader, "24h");
+  const heights = Array.from({ length: span.max - span.min + 1 }, (_, i) => span.min + i);
+  return (await reader.blocks(heights)).reduce((sum, block) => sum + block.txCount, 0);
+}
+
+/** `getblockchaininfo` with the number of transactions mined in the last 24 hours */
+export async function getChainInfo(
+  reader: ChainReader,
+): Promise<NodeBlockchainInfo & { transactions_24h: number }> {
+  const info = await reader.blockchainInfo();
+  return { ...info, transactions_24h: await getTransactions24h(reader) };
+}
+
+/** Average difficulty and network hashrate per bucket of `range` */
+export async function getMiningHistory(
+  reader: ChainReader,
+  range: MiningRange,
+): Promise<MiningHistoryResponse> {
+  const spans = bucketSpans(await rangeSpan(reader, range), RANGE_SPECS[range].bucketBlocks);
+  const samples = spans.map((span) => sampleHeights(span, DIFFICULTY_SAMPLES));
+
+  const [firsts, sampled, solps] = await Promise.all([
+    reader.blocks(spans.map((s) => s.min)),
+    reader.blocks(samples.flat()),
+    reader.networkSolps(spans.map((s) => ({ blocks: s.max - s.min + 1, height: s.max }))),
+  ]);
+
+  let offset = 0;
+  const buckets = spans.map((span, i): MiningHistoryBucket => {
+    const difficulties = sampled.slice(offset, (offset += samples[i].length)).map((b) => b.difficulty);
+    return {
+      timestamp: firsts[i].time,
+      min_height: span.min,
+      max_height: span.max,
+      block_count: span.max - span.min + 1,
+      avg_difficulty: difficulties.reduce((a, b) => a + b, 0) / difficulties.length,
+      avg_network_hashrate_sols: solps[i],
+      avg_network_hashrate_gsols: solps[i] / 1e9,
+    };
+  });
+
+  return { range, buckets };
+}
+
+/** Pool shares of the blocks mined in `interval`, from a sample when it is long */
+export async function getMiningPools(
+  reader: ChainReader,
+  interval: MiningRange,
+): Promise<MiningPoolsResponse> {
+  const span = await rangeSpan(reader, interval);
+  const blocks = await reader.blocks(sampleHeights(span, MAX_POOL_SAMPLES));
+  const total = span.max - span.min + 1;
+
+  return { interval, total_blocks: total, pools: poolShares(await reader.pools(blocks), total) };
+}
+
+/** Pool shares per bucket of `range` */
+export async function getMiningPoolsDominance(
+  reader: ChainReader,
+  range: DominanceRange,
+): Promise<MiningPoolDominanceResponse> {
+  const span = await rangeSpan(reader, range);
+  const size = RANGE_SPECS[range].bucketBlocks;
+  const spans = bucketSpans(span, size);
+
+  const [firsts, sampled] = await Promise.all([
+    reader.blocks(spans.map((s) => s.min)),
+    reader.blocks(sampleHeights(span, MAX_DOMINANCE_SAMPLES)),
+  ]);
+  const pools = await reader.pools(sampled);
+
+  const perBucket = spans.map(() => [] as (string | null)[]);
+  sampled.forEach((block, i) => {
+    perBucket[Math.floor(block.height / size) - Math.floor(span.min / size)].push(pools[i]);
+  });
+
+  return {
+    range,
+    slug: null,
+    buckets: spans.map((s, i) => ({
+      timestamp: firsts[i].time,
+      total_blocks: s.max - s.min + 1,
+      pools: perBucket[i].length > 0 ? poolShares(perBucket[i], s.max - s.min + 1) : [],
+    })),
+  };
+}
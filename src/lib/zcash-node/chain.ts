@@ -0,0 +1,131 @@
+import { attributePool } from "./pools";
+import type { BlockSummary, NodeBlock, NodeBlockchainInfo, NodeRpcClient, NodeTransaction } from "./types";
+
+/** Blocks at least this deep are treated as final and cached */
+export const REORG_DEPTH = 10;
+const MAX_CACHED_BLOCKS = 50_000;
+const BATCH_SIZE = 50;
+
+export interface SolpsWindow {
+  /** Number of blocks averaged over */
+  blocks: number;
+  /** Last block of the window */
+  height: number;
+}
+
+/**
+ * Cached reads of the chain. Blocks, pool attributions and hashrates are
+ * remembered once they are `REORG_DEPTH` below the tip last seen by
+ * `blockchainInfo`, so repeated requests only fetch what is new.
+ */
+export interface ChainReader {
+  blockchainInfo(): Promise<NodeBlockchainInfo>;
+  /** Blocks at `heights`, in the same order */
+  blocks(heights: number[]): Promise<BlockSummary[]>;
+  /** Pool that mined each block, `null` when its coinbase has no known tag */
+  pools(blocks: BlockSummary[]): Promise<(string | null)[]>;
+  /** `getnetworksolps` for each window */
+  networkSolps(windows: SolpsWindow[]): Promise<number[]>;
+  /** First block at or after `time`, by binary search over block times */
+  heightAt(time: number): Promise<number>;
+}
+
+function remember<K, V>(cache: Map<K, V>, key: K, value: V) {
+  if (cache.size >= MAX_CACHED_BLOCKS) cache.delete(cache.keys().next().value as K);
+  cache.set(key, value);
+}
+
+async function inBatches<T, R>(items: T[], run: (batch: T[]) => Promise<R[]>): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    results.push(...(await run(items.slice(i, i + BATCH_SIZE))));
+  }
+  return results;
+}
+
+export function createChainReader(client: NodeRpcClient): ChainReader {
+  const blockCache = new Map<number, BlockSummary>();
+  const poolCache = new Map<number, string | null>();
+  const solpsCache = new Map<string, number>();
+  let tip = -1;
+
+  const isFinal = (height: number) => height <= tip - REORG_DEPTH;
+
+  const blocks = async (heights: number[]): Promise<BlockSummary[]> => {
+    const missing = [...new Set(heights.filter((h) => !blockCache.has(h)))];
+    const fetched = new Map<number, BlockSummary>();
+
+    const results = await inBatches(missing, (batch) =>
+      client.batch<NodeBlock>(batch.map((h) => ({ method: "getblock", params: [String(h), 1] }))),
+    );
+    for (const block of results) {
+      const summary: BlockSummary = {
+        height: block.height,
+        hash: block.hash,
+        time: block.time,
+        difficulty: block.difficulty,
+        txCount: block.tx.length,
+        coinbaseTxid: block.tx[0],
+      };
+      fetched.set(block.height, summary);
+      if (isFinal(block.height)) remember(blockCache, block.height, summary);
+    }
+
+    return heights.map((h) => blockCache.get(h) ?? fetched.get(h)!);
+  };
+
+  return {
+    async blockchainInfo() {
+      const info = await client.call<NodeBlockchainInfo>("getblockchaininfo");
+      tip = info.blocks;
+      return info;
+    },
+
+    blocks,
+
+    async pools(summaries) {
+      const missing = summaries.filter((b) => !poolCache.has(b.height));
+      const fetched = new Map<number, string | null>();
+
+      const txs = await inBatches(missing, (batch) =>
+        client.batch<NodeTransaction>(
+          batch.map((b) => ({ method: "getrawtransaction", params: [b.coinbaseTxid, 1] })),
+        ),
+      );
+      missing.forEach((block, i) => {
+        const pool = attributePool(txs[i].vin[0]?.coinbase ?? "");
+        fetched.set(block.height, pool);
+        if (isFinal(block.height)) remember(poolCache, block.height, pool);
+      });
+
+      return summaries.map((b) => (poolCache.has(b.height) ? poolCache.get(b.height)! : fetched.get(b.height)!));
+    },
+
+    async networkSolps(windows) {
+      const key = (w: SolpsWindow) => `${w.blocks}:${w.height}`;
+      const missing = windows.filter((w) => !solpsCache.has(key(w)));
+      const fetched = new Map<string, number>();
+
+      const results = await inBatches(missing, (batch) =>
+        client.batch<number>(batch.map((w) => ({ method: "getnetworksolps", params: [w.blocks, w.height] }))),
+      );
+      missing.forEach((window, i) => {
+        fetched.set(key(window), results[i]);
+        if (isFinal(window.height)) remember(solpsCache, key(window), results[i]);
+      });
+
+      return windows.map((w) => solpsCache.get(key(w)) ?? fetched.get(key(w))!);
+    },
+
+    async heightAt(time) {
+      let [low, high] = [0, tip];
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const [block] = await blocks([mid]);
+        if (block.time < time) low = mid + 1;
+        else high = mid;
+      }
+      return low;
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import "server-only";
+
+import { readFileSync, writeFileSync } from "fs";
+import { NextResponse } from "next/server";
+import {
+  getChainInfo,
+  getMiningHistory,
+  getMiningPools,
+  getMiningPoolsDominance,
+  type DominanceRange,
+  type MiningRange,
+} from "./analytics";
+import { createChainReader, type ChainReader } from "./chain";
+import {
+  createFixtureRpcClient,
+  createHttpRpcClient,
+  createRecordingRpcClient,
+  NodeRpcError,
+  recordingKey,
+} from "./rpc";
+import type { NodeRpcClient, RpcRecording } from "./types";
+import * as upstream from "./upstream";
+
+export { DOMINANCE_RANGES, MINING_RANGES } from "./analytics";
+export type { DominanceRange, MiningRange } from "./analytics";
+export { NodeRpcError } from "./rpc";
+export { UpstreamError } from "./upstream";
+
+/** A block every 75 s, so a minute old tip is at most one block behind */
+const CHAIN_INFO_TTL_MS = 60_000;
+const MINING_TTL_MS = 5 * 60_000;
+
+/** Writes are batched, a single chart can make thousands of calls */
+const RECORD_FLUSH_MS = 1000;
+
+function recordTo(path: string, client: NodeRpcClient): NodeRpcClient {
+  const calls = new Map<string, RpcRecording["calls"][number]>();
+  let flush: ReturnType<typeof setTimeout> | null = null;
+
+  return createRecordingRpcClient(client, (call) => {
+    calls.set(recordingKey(call), call);
+    flush ??= setTimeout(() => {
+      flush = null;
+      const recording: RpcRecording = { calls: [...calls.values()] };
+      writeFileSync(path, JSON.stringify(recording));
+    }, RECORD_FLUSH_MS);
+  });
+}
+
+/**
+ * `ZCASH_RPC_FIXTURE` replays a recording instead of talking to a node.
+ * Otherwise `ZCASH_RPC_URL` (with `ZCASH_RPC_USER`/`ZCASH_RPC_PASSWORD`) is
+ * the node, and `ZCASH_RPC_RECORD` names a file to record its answers to.
+ */
+function createClient(): NodeRpcClient {
+  const { ZCASH_RPC_FIXTURE, ZCASH_RPC_URL, ZCASH_RPC_USER, ZCASH_RPC_PASSWORD, ZCASH_RPC_RECORD } =
+    process.env;
+
+  if (ZCASH_RPC_FIXTURE) {
+    return createFixtureRpcClient(JSON.parse(readFileSync(ZCASH_RPC_FIXTURE, "utf8")) as RpcRecording);
+  }
+  if (!ZCASH_RPC_URL) throw new Error("No Zcash node configured, set ZCASH_RPC_URL or ZCASH_RPC_FIXTURE");
+
+  const client = createHttpRpcClient({
+    url: ZCASH_RPC_URL,
+    username: ZCASH_RPC_USER,
+    password: ZCASH_RPC_PASSWORD,
+  });
+  return ZCASH_RPC_RECORD ? recordTo(ZCASH_RPC_RECORD, client) : client;
+}
+
+/** Without a node or a recording, the data comes from the public APIs in `./upstream` */
+function hasNode(): boolean {
+  return Boolean(process.env.ZCASH_RPC_FIXTURE || process.env.ZCASH_RPC_URL);
+}
+
+let reader: ChainReader | null = null;
+
+function getReader(): ChainReader {
+  reader ??= createChainReader(createClient());
+  return reader;
+}
+
+interface CacheEntry {
+  value: unknown;
+  updatedAt: number;
+  promise: Promise<unknown> | null;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Result of `load` shared by all requests for `ttlMs`, with concurrent
+ * requests waiting on the same load. A failed refresh serves the previous
+ * result, if any.
+ */
+function cached<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+  const entry = cache.get(key) ?? { value: undefined, updatedAt: 0, promise: null };
+  cache.set(key, entry);
+
+  if (entry.updatedAt && Date.now() - entry.updatedAt < ttlMs) return Promise.resolve(entry.value as T);
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const promise = load()
+    .then((value) => {
+      entry.value = value;
+      entry.updatedAt = Date.now();
+      return value;
+    })
+    .catch((err) => {
+      if (entry.updatedAt) {
+        console.error(`[zcash-node] ${key} refresh failed, keeping previous result:`, err);
+        return entry.value as T;
+      }
+      throw err;
+    })
+    .finally(() => {
+      entry.promise = null;
+    });
+
+  entry.promise = promise;
+  return promise;
+}
+
+export function getBlockchainInfo() {
+  return cached("blockchain-info", CHAIN_INFO_TTL_MS, () =>
+    hasNode() ? getChainInfo(getReader()) : upstream.fetchBlockchainInfo(),
+  );
+}
+
+export function getMiningHistoryData(range: MiningRange) {
+  return cached(`mining-history:${range}`, MINING_TTL_MS, () =>
+    hasNode() ? getMiningHistory(getReader(), range) : upstream.fetchMiningHistory(range),
+  );
+}
+
+export function getMiningPoolsData(interval: MiningRange) {
+  return cached(`mining-pools:${interval}`, MINING_TTL_MS, () =>
+    hasNode() ? getMiningPools(getReader(), interval) : upstream.fetchMiningPools(interval),
+  );
+}
+
+export function getMiningPoolsDominanceData(range: DominanceRange) {
+  return cached(`mining-pools-dominance:${range}`, MINING_TTL_MS, () =>
+    hasNode() ? getMiningPoolsDominance(getReader(), range) : upstream.fetchMiningPoolsDominance(range),
+  );
+}
+
+/**
+ * JSON response with the result of `load`, cached by the CDN for
+ * `maxAgeSeconds`. Errors are logged and answered with `{ error }`.
+ */
+export async function nodeDataResponse(
+  label: string,
+  maxAgeSeconds: number,
+  load: () => Promise<unknown>,
+): Promise<NextResponse> {
+  try {
+    return NextResponse.json(await load(), {
+      headers: { "Cache-Control": `public, s-maxage=${maxAgeSeconds}, stale-while-revalidate=${maxAgeSeconds * 5}` },
+    });
+  } catch (err) {
+    console.error(`[zcash-node] ${label} failed:`, err);
+    const badGateway = err instanceof NodeRpcError || err instanceof upstream.UpstreamError;
+    return NextResponse.json({ error: `Unable to fetch ${label}` }, { status: badGateway ? 502 : 500 });
+  }
+}
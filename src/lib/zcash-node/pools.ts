@@ -0,0 +1,40 @@
+/**
+ * Pools recognised by the text they put in the coinbase input. Blocks
+ * without a known tag are reported with a `null` pool name.
+ */
+export const MINING_POOL_TAGS: { name: string; pattern: RegExp }[] = [
+  { name: "ViaBTC", pattern: /viabtc/i },
+  { name: "F2Pool", pattern: /f2pool|七彩神仙鱼/i },
+  { name: "Binance Pool", pattern: /binance/i },
+  { name: "AntPool", pattern: /antpool/i },
+  { name: "Poolin", pattern: /poolin/i },
+  { name: "2Miners", pattern: /2miners/i },
+  { name: "Luxor", pattern: /luxor/i },
+  { name: "Flypool", pattern: /flypool/i },
+  { name: "Nanopool", pattern: /nanopool/i },
+  { name: "Mining-Dutch", pattern: /mining-?dutch/i },
+  { name: "Kryptex", pattern: /kryptex/i },
+  { name: "Zergpool", pattern: /zergpool/i },
+];
+
+/** Shortest run of printable characters kept from the coinbase script */
+const MIN_TAG_LENGTH = 3;
+
+/**
+ * Readable text of a coinbase input script (hex), such as `/ViaBTC/Mined by
+ * x/`. The height push and other binary data are dropped.
+ */
+export function coinbaseText(scriptHex: string): string {
+  // Undecodable bytes become U+FFFD, which would otherwise count as a symbol
+  const text = Buffer.from(scriptHex, "hex").toString("utf8").replace(/\uFFFD/g, " ");
+
+  return (text.match(/[\p{L}\p{N}\p{P}\p{S} ]+/gu) ?? [])
+    .map((run) => run.trim())
+    .filter((run) => run.length >= MIN_TAG_LENGTH)
+    .join(" ");
+}
+
+export function attributePool(scriptHex: string): string | null {
+  const text = coinbaseText(scriptHex);
+  return MINING_POOL_TAGS.find((pool) => pool.pattern.test(text))?.name ?? null;
+}
@@ -0,0 +1,136 @@
+import type { NodeRpcClient, RpcCall, RpcRecording } from "./types";
+
+const RPC_TIMEOUT_MS = 15_000;
+
+export class NodeRpcError extends Error {
+  constructor(
+    message: string,
+    /** JSON-RPC error code, `null` when the request itself failed */
+    readonly code: number | null = null,
+  ) {
+    super(message);
+    this.name = "NodeRpcError";
+  }
+}
+
+interface RpcResponse {
+  id: number;
+  result?: unknown;
+  error?: { code: number; message: string } | null;
+}
+
+export interface HttpRpcOptions {
+  url: string;
+  username?: string;
+  password?: string;
+}
+
+/** JSON-RPC over HTTP, as served by zebrad (`[rpc] listen_addr`) and zcashd */
+export function createHttpRpcClient({ url, username, password }: HttpRpcOptions): NodeRpcClient {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (username || password) {
+    headers.Authorization = `Basic ${Buffer.from(`${username ?? ""}:${password ?? ""}`).toString("base64")}`;
+  }
+
+  let nextId = 0;
+
+  const post = async (body: unknown): Promise<unknown> => {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        cache: "no-store",
+        signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+      });
+    } catch (err) {
+      throw new NodeRpcError(`Node unreachable: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // zcashd answers RPC errors with HTTP 500 and a JSON body
+    const json = await res.json().catch(() => null);
+    if (json === null) throw new NodeRpcError(`HTTP ${res.status} from node`);
+    return json;
+  };
+
+  const unwrap = (call: RpcCall, response: RpcResponse | undefined) => {
+    if (!response) throw new NodeRpcError(`No response to ${call.method}`);
+    if (response.error) {
+      throw new NodeRpcError(`${call.method}: ${response.error.message}`, response.error.code);
+    }
+    return response.result;
+  };
+
+  const request = (call: RpcCall, id: number) => ({ jsonrpc: "1.0", id, ...call });
+
+  return {
+    name: "http",
+
+    async call<T>(method: string, params: unknown[] = []) {
+      const call = { method, params };
+      return unwrap(call, (await post(request(call, ++nextId))) as RpcResponse) as T;
+    },
+
+    async batch<T>(calls: RpcCall[]) {
+      if (calls.length === 0) return [];
+
+      const ids = calls.map(() => ++nextId);
+      const responses = await post(calls.map((call, i) => request(call, ids[i])));
+      if (!Array.isArray(responses)) throw new NodeRpcError("Node does not support batch requests");
+
+      const byId = new Map((responses as RpcResponse[]).map((r) => [r.id, r]));
+      return calls.map((call, i) => unwrap(call, byId.get(ids[i])) as T);
+    },
+  };
+}
+
+export const recordingKey = ({ method, params }: RpcCall) => `${method} ${JSON.stringify(params)}`;
+
+/**
+ * Replays recorded responses so the mining and chain routes can run without
+ * a node. Calls that were not recorded fail like a node error would.
+ */
+export function createFixtureRpcClient(recording: RpcRecording): NodeRpcClient {
+  const results = new Map(recording.calls.map((call) => [recordingKey(call), call.result]));
+
+  const replay = (call: RpcCall) => {
+    const key = recordingKey(call);
+    if (!results.has(key)) throw new NodeRpcError(`No recorded response for ${key}`);
+    return results.get(key);
+  };
+
+  return {
+    name: "fixture",
+
+    async call<T>(method: string, params: unknown[] = []) {
+      return replay({ method, params }) as T;
+    },
+
+    async batch<T>(calls: RpcCall[]) {
+      return calls.map((call) => replay(call) as T);
+    },
+  };
+}
+
+/** Wraps `client` and hands every successful call to `record` */
+export function createRecordingRpcClient(
+  client: NodeRpcClient,
+  record: (call: RpcCall & { result: unknown }) => void,
+): NodeRpcClient {
+  return {
+    name: client.name,
+
+    async call<T>(method: string, params: unknown[] = []) {
+      const result = await client.call<T>(method, params);
+      record({ method, params, result });
+      return result;
+    },
+
+    async batch<T>(calls: RpcCall[]) {
+      const results = await client.batch<T>(calls);
+      calls.forEach((call, i) => record({ ...call, result: results[i] }));
+      return results;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+export interface RpcCall {
+  method: string;
+  params: unknown[];
+}
+
+/**
+ * JSON-RPC access to a zebrad or zcashd node, or to a recording of one.
+ * Failed calls throw `NodeRpcError`.
+ */
+export interface NodeRpcClient {
+  name: "http" | "fixture";
+  call<T>(method: string, params?: unknown[]): Promise<T>;
+  /** Several calls in one round trip, results in the order of `calls` */
+  batch<T>(calls: RpcCall[]): Promise<T[]>;
+}
+
+/** Responses recorded from a node, replayed by the fixture client */
+export interface RpcRecording {
+  calls: (RpcCall & { result: unknown })[];
+}
+
+/** The `getblockchaininfo` fields used here; the rest are passed through */
+export interface NodeBlockchainInfo {
+  chain: string;
+  blocks: number;
+  bestblockhash: string;
+  chainSupply?: {
+    chainValue: number;
+    chainValueZat: number;
+    monitored: boolean;
+  };
+  [field: string]: unknown;
+}
+
+/** `getblock <height> 1` */
+export interface NodeBlock {
+  hash: string;
+  height: number;
+  /** Unix time in seconds */
+  time: number;
+  difficulty: number;
+  /** Transaction ids, the coinbase first */
+  tx: string[];
+}
+
+/** `getrawtransaction <txid> 1`, only what pool attribution needs */
+export interface NodeTransaction {
+  txid: string;
+  vin: { coinbase?: string }[];
+}
+
+/** A block as cached by the chain reader */
+export interface BlockSummary {
+  height: number;
+  hash: string;
+  time: number;
+  difficulty: number;
+  txCount: number;
+  coinbaseTxid: string;
+}
@@ -0,0 +1,59 @@
+import "server-only";
+
+import type {
+  MiningHistoryResponse,
+  MiningPoolDominanceResponse,
+  MiningPoolsResponse,
+} from "@/lib/chart/types";
+import type { DominanceRange, MiningRange } from "./analytics";
+import type { NodeBlockchainInfo } from "./types";
+
+const UPSTREAM_TIMEOUT_MS = 15_000;
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+/**
+ * GET from the public APIs the routes proxied before they read a node, still
+ * used when none is configured. They answer in the shapes the node analytics
+ * produce.
+ */
+async function getJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    cache: "no-store",
+    headers: { "User-Agent": "ZecHub-Dashboard", Accept: "application/json" },
+  });
+
+  if (!res.ok) throw new UpstreamError(`HTTP ${res.status} from ${new URL(url).host}`, res.status);
+  return res.json();
+}
+
+function miningUrl(path: string, params: Record<string, string>): string {
+  const base = process.env.ZCASH_MINING_API_URL || "https://api.zcashinfo.com/api/v1/mining";
+  return `${base}${path}?${new URLSearchParams(params)}`;
+}
+
+export function fetchBlockchainInfo() {
+  const url = process.env.ZCASH_EXPLORER_INFO_URL || "https://explorer.zec.rocks/api/v1/blockchain-info";
+  return getJson<NodeBlockchainInfo & { transactions_24h: number }>(url);
+}
+
+export function fetchMiningHistory(range: MiningRange) {
+  return getJson<MiningHistoryResponse>(miningUrl("/history", { range }));
+}
+
+export function fetchMiningPools(interval: MiningRange) {
+  return getJson<MiningPoolsResponse>(miningUrl("/pools", { interval }));
+}
+
+export function fetchMiningPoolsDominance(range: DominanceRange) {
+  return getJson<MiningPoolDominanceResponse>(miningUrl("/pools/dominance", { range }));
+}
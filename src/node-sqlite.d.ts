@@ -0,0 +1,17 @@
+// @types/node 20 predates the built-in SQLite module (Node 22.5+), these are
+// the parts the short URL store uses
+declare module "node:sqlite" {
+  type SQLInputValue = null | number | bigint | string | Uint8Array;
+
+  export class StatementSync {
+    run(...params: SQLInputValue[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+    get(...params: SQLInputValue[]): Record<string, unknown> | undefined;
+  }
+
+  export class DatabaseSync {
+    constructor(path: string);
+    exec(sql: string): void;
+    prepare(sql: string): StatementSync;
+    close(): void;
+  }
+}
@@ -1,41 +0,0 @@
-const MINING_POOLS_ENDPOINT = "https://api.zcashinfo.com/api/v1/mining/pools";
-const VALID_INTERVALS = new Set(["24h", "3d", "1w", "1m", "3m", "6m", "1y", "all"]);
-
-export default async function handler(req, res) {
-  if (req.method !== "GET") {
-    res.setHeader("Allow", ["GET"]);
-    res.status(405).end(`Method ${req.method} Not Allowed`);
-    return;
-  }
-
-  const interval =
-    typeof req.query.interval === "string" ? req.query.interval : "24h";
-
-  if (!VALID_INTERVALS.has(interval)) {
-    res.status(400).json({ error: "Invalid interval parameter" });
-    return;
-  }
-
-  try {
-    const response = await fetch(
-      `${MINING_POOLS_ENDPOINT}?interval=${encodeURIComponent(interval)}`,
-      {
-        headers: {
-          "User-Agent": "ZecHub-Dashboard",
-          Accept: "application/json",
-        },
-      }
-    );
-    const data = await response.json();
-
-    if (!response.ok) {
-      res.status(response.status).json(data);
-      return;
-    }
-
-    res.status(200).json(data);
-  } catch (error) {
-    console.error("Error fetching mining pools:", error);
-    res.status(500).json({ error: "Unable to fetch mining pools" });
-  }
-}
@@ -0,0 +1,12 @@
+"use client";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React, { useState } from "react";
+
+export const QueryProvider: React.FC<{ children: React.ReactNode }> = (props) => {
+  // One client per browser session, so cached queries survive navigation
+  const [client] = useState(
+    () => new QueryClient({ defaultOptions: { queries: { refetchOnWindowFocus: false } } }),
+  );
+
+  return <QueryClientProvider client={client}>{props.children}</QueryClientProvider>;
+};
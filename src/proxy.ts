@@ -1,7 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { i18n } from '@/i18n/config';
+import {
+  isLocale,
+  localizePath,
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  LOCALE_HEADER,
+  splitLocalePath,
+} from '@/i18n/routing';
 
+/**
+ * `/<locale>/…` is served by the unprefixed route with the locale passed in
+ * a request header. Visitors who picked a language are sent to its prefix.
+ */
 export function proxy(request: NextRequest) {
-  return NextResponse.next();
+  const { pathname } = request.nextUrl;
+  const { locale, pathname: unprefixed } = splitLocalePath(pathname);
+  const headers = new Headers(request.headers);
+  headers.delete(LOCALE_HEADER);
+
+  if (unprefixed !== pathname) {
+    const url = request.nextUrl.clone();
+    url.pathname = unprefixed;
+
+    headers.set(LOCALE_HEADER, locale);
+    // English lives at the unprefixed URL
+    const response =
+      locale === i18n.defaultLocale
+        ? NextResponse.redirect(url)
+        : NextResponse.rewrite(url, { request: { headers } });
+
+    // Links inside the page are unprefixed, the cookie keeps the visitor in this locale
+    response.cookies.set(LOCALE_COOKIE, locale, { path: '/', maxAge: LOCALE_COOKIE_MAX_AGE, sameSite: 'lax' });
+    return response;
+  }
+
+  const preferred = request.cookies.get(LOCALE_COOKIE)?.value;
+  if (isLocale(preferred) && preferred !== i18n.defaultLocale) {
+    const url = request.nextUrl.clone();
+    url.pathname = localizePath(pathname, preferred);
+    return NextResponse.redirect(url);
+  }
+
+  return NextResponse.next({ request: { headers } });
 }
 
 export const config = {
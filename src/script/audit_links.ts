@@ -0,0 +1,54 @@
+/**
+ * Run the wiki link audit on a running deployment and write its reports.
+ * Exits with 1 when there are errors (or warnings, with `--strict`), for CI.
+ *
+ *   ADMIN_SECRET=... SITE_URL=http://localhost:3000 yarn links:audit [--out=reports] [--strict]
+ */
+import { formatLinkAuditMarkdown } from "@/lib/link-audit/report";
+import type { LinkAuditReport } from "@/lib/link-audit/types";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+const siteUrl = (process.env.SITE_URL || "http://localhost:3000").replace(/\/+$/, "");
+const secret = process.env.ADMIN_SECRET;
+const strict = process.argv.includes("--strict");
+const outDir = process.argv.find((arg) => arg.startsWith("--out="))?.slice("--out=".length) || ".";
+
+async function fetchReport(): Promise<LinkAuditReport> {
+  const url = new URL(`${siteUrl}/api/link-audit`);
+  url.searchParams.set("secret", secret!);
+
+  const res = await fetch(url);
+  const body = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw new Error(`Link audit failed (${res.status}): ${body?.error ?? res.statusText}`);
+  }
+  return body.data;
+}
+
+async function main() {
+  if (!secret) {
+    throw new Error("ADMIN_SECRET is not set");
+  }
+
+  console.log(`Auditing wiki links via ${siteUrl}...`);
+
+  const report = await fetchReport();
+
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, "link-audit.json"), JSON.stringify(report, null, 2));
+  await writeFile(path.join(outDir, "link-audit.md"), formatLinkAuditMarkdown(report));
+
+  console.log(
+    `${report.pages} pages, ${report.links} links, ${report.images} images: ` +
+      `${report.errors} errors, ${report.warnings} warnings (reports in ${path.resolve(outDir)})`,
+  );
+
+  if (report.errors > 0 || (strict && report.warnings > 0)) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+/**
+ * Compare the dictionary keys read in `src/` with `dictionaries/*.json` and
+ * write a coverage report. Exits with 1 when code reads keys that `en.json`
+ * does not define (and, with `--strict`, on unused keys or fallbacks that
+ * disagree with `en.json`), for CI.
+ *
+ *   yarn i18n:check [--out=reports] [--strict]
+ */
+import { i18n } from "@/i18n/config";
+import {
+  analyzeDictionaryCoverage,
+  formatDictionaryCoverageMarkdown,
+  loadDictionaries,
+  loadDictionaryUsages,
+} from "@/lib/dictionary-coverage";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+const strict = process.argv.includes("--strict");
+const outDir = process.argv.find((arg) => arg.startsWith("--out="))?.slice("--out=".length) || ".";
+
+async function main() {
+  const [dictionaries, usages] = await Promise.all([loadDictionaries(), loadDictionaryUsages()]);
+  const report = analyzeDictionaryCoverage({ dictionaries, locales: i18n.locales, usages });
+
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, "dictionary-coverage.json"), JSON.stringify(report, null, 2));
+  await writeFile(path.join(outDir, "dictionary-coverage.md"), formatDictionaryCoverageMarkdown(report));
+
+  for (const locale of report.locales) {
+    console.log(
+      `${locale.locale.padEnd(3)} ${String(locale.percent).padStart(5)}%  ` +
+        `missing=${locale.missing.length} same-as-en=${locale.identical.length} extra=${locale.extra.length}` +
+        (locale.hasDictionary ? "" : " (no dictionary)"),
+    );
+  }
+  console.log(
+    `${report.keys} keys, ${report.usages} reads in ${report.files} files: ` +
+      `${report.undefinedKeys.length} undefined, ${report.unused.length} possibly unused, ` +
+      `${report.fallbackMismatches.length} fallback mismatches (reports in ${path.resolve(outDir)})`,
+  );
+
+  const warnings = report.unused.length + report.fallbackMismatches.length;
+  if (report.undefinedKeys.length > 0 || (strict && warnings > 0)) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * Trigger the AI assistant's embedding ingestion on a running deployment.
+ *
+ *   REVALIDATE_SECRET=... SITE_URL=https://zechub.wiki yarn ai:ingest [--dry-run]
+ */
+const siteUrl = (process.env.SITE_URL || "http://localhost:3000").replace(/\/+$/, "");
+const secret = process.env.REVALIDATE_SECRET;
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  if (!secret) {
+    throw new Error("REVALIDATE_SECRET is not set");
+  }
+
+  const url = new URL(`${siteUrl}/api/ai/ingest`);
+  url.searchParams.set("secret", secret);
+  if (dryRun) url.searchParams.set("dryRun", "1");
+
+  console.log(`Ingesting wiki into docs_embeddings via ${siteUrl}${dryRun ? " (dry run)" : ""}...`);
+
+  const res = await fetch(url, { method: "POST" });
+  const body = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw new Error(`Ingestion failed (${res.status}): ${body?.error ?? res.statusText}`);
+  }
+
+  console.log(JSON.stringify(body.data, null, 2));
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});